@@ -191,6 +191,734 @@ CREATE TABLE IF NOT EXISTS external_transfer_logs (
   INDEX idx_fecha_solicitud (fecha_solicitud)
 );
 
+-- =====================================================================
+-- 10. CREATE asientos_contables / lineas_asiento TABLES - Double-entry ledger
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS asientos_contables (
+  id_asiento UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tipo VARCHAR(50) NOT NULL,
+  -- Values: 'saldo_inicial', 'fondeo', 'desembolso_credito', 'debito_cuota', 'pago_anticipado',
+  --         'transferencia_p2p', 'transferencia_externa', 'conversion_moneda', 'revocacion_credito',
+  --         'disposicion_linea', 'pago_linea', 'reverso'
+  descripcion VARCHAR(255),
+  referencia_id VARCHAR(255),
+  -- Credit, installment or transfer that originated the entry
+  id_asiento_reversado UUID REFERENCES asientos_contables(id_asiento),
+  fecha_creacion TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_referencia_id (referencia_id),
+  INDEX idx_fecha_creacion (fecha_creacion)
+);
+
+CREATE TABLE IF NOT EXISTS lineas_asiento (
+  id_linea UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  id_asiento UUID NOT NULL REFERENCES asientos_contables(id_asiento),
+  cuenta VARCHAR(255) NOT NULL,
+  -- 'billetera:<usuario_id>' or 'sistema:<nombre>'
+  debito DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  credito DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  CHECK ((debito > 0 AND credito = 0) OR (credito > 0 AND debito = 0)),
+  INDEX idx_cuenta (cuenta),
+  INDEX idx_id_asiento (id_asiento)
+);
+
+-- Journal entries are immutable
+REVOKE UPDATE, DELETE ON asientos_contables, lineas_asiento FROM PUBLIC;
+
+-- Opening entries so existing balances can be traced to the ledger
+WITH aperturas AS (
+  INSERT INTO asientos_contables (tipo, descripcion, referencia_id)
+  SELECT 'saldo_inicial', 'Saldo inicial', usuario_id::text
+  FROM user_accounts
+  WHERE saldo_disponible > 0
+  RETURNING id_asiento, referencia_id
+)
+INSERT INTO lineas_asiento (id_asiento, cuenta, debito, credito)
+SELECT a.id_asiento, 'sistema:saldos_iniciales', ua.saldo_disponible, 0
+FROM aperturas a JOIN user_accounts ua ON ua.usuario_id::text = a.referencia_id
+UNION ALL
+SELECT a.id_asiento, 'billetera:' || a.referencia_id, 0, ua.saldo_disponible
+FROM aperturas a JOIN user_accounts ua ON ua.usuario_id::text = a.referencia_id;
+
+-- =====================================================================
+-- 11. post_ledger_entry FUNCTION - Atomic balance mutations
+-- =====================================================================
+-- Writes a journal entry and applies its wallet deltas in one transaction.
+-- Each wallet is updated with a conditional UPDATE, so two concurrent debits
+-- can never take saldo_disponible below zero. Adjustments arrive sorted by
+-- usuario_id so concurrent postings lock rows in the same order.
+
+-- A journal entry can be reversed only once
+CREATE UNIQUE INDEX IF NOT EXISTS uq_asiento_reversado
+  ON asientos_contables (id_asiento_reversado)
+  WHERE id_asiento_reversado IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION post_ledger_entry(p_asiento JSONB, p_ajustes JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_id_asiento UUID;
+  v_fecha TIMESTAMP;
+  v_ajuste JSONB;
+  v_saldo DECIMAL(15, 2);
+  v_saldos JSONB := '{}'::jsonb;
+BEGIN
+  FOR v_ajuste IN SELECT * FROM jsonb_array_elements(p_ajustes) LOOP
+    UPDATE user_accounts
+    SET saldo_disponible = saldo_disponible + (v_ajuste->>'delta')::DECIMAL,
+        fecha_actualizacion = CURRENT_TIMESTAMP
+    WHERE usuario_id::text = v_ajuste->>'usuario_id'
+      AND saldo_disponible + (v_ajuste->>'delta')::DECIMAL >= 0
+    RETURNING saldo_disponible INTO v_saldo;
+
+    IF NOT FOUND THEN
+      IF EXISTS (SELECT 1 FROM user_accounts WHERE usuario_id::text = v_ajuste->>'usuario_id') THEN
+        RAISE EXCEPTION 'INSUFFICIENT_FUNDS';
+      END IF;
+      RAISE EXCEPTION 'ACCOUNT_NOT_FOUND';
+    END IF;
+
+    v_saldos := v_saldos || jsonb_build_object(v_ajuste->>'usuario_id', v_saldo);
+  END LOOP;
+
+  BEGIN
+    INSERT INTO asientos_contables (tipo, descripcion, referencia_id, id_asiento_reversado)
+    VALUES (
+      p_asiento->>'tipo',
+      p_asiento->>'descripcion',
+      p_asiento->>'referencia_id',
+      (p_asiento->>'id_asiento_reversado')::UUID
+    )
+    RETURNING id_asiento, fecha_creacion INTO v_id_asiento, v_fecha;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'ALREADY_REVERSED';
+  END;
+
+  INSERT INTO lineas_asiento (id_asiento, cuenta, debito, credito)
+  SELECT v_id_asiento, linea->>'cuenta', (linea->>'debito')::DECIMAL, (linea->>'credito')::DECIMAL
+  FROM jsonb_array_elements(p_asiento->'lineas') AS linea;
+
+  RETURN jsonb_build_object('id_asiento', v_id_asiento, 'fecha_creacion', v_fecha, 'saldos', v_saldos);
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================================
+-- 12. CREATE claves_idempotencia TABLE - Idempotency-Key responses
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS claves_idempotencia (
+  clave VARCHAR(255) PRIMARY KEY,
+  huella VARCHAR(64) NOT NULL,
+  -- SHA-256 of method, route and body of the first request
+  estado VARCHAR(20) NOT NULL DEFAULT 'en_proceso',
+  -- Values: 'en_proceso', 'completado'
+  codigo_respuesta INTEGER,
+  respuesta JSONB,
+  fecha_creacion TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  fecha_vencimiento TIMESTAMP NOT NULL,
+  INDEX idx_fecha_vencimiento (fecha_vencimiento)
+);
+
+-- =====================================================================
+-- 13. CREATE saldos_billetera TABLE - Multi-currency wallets (ARS, USD)
+-- =====================================================================
+-- One balance per user and currency. A currency without a row has a zero
+-- balance. Existing balances are pesos.
+
+CREATE TABLE IF NOT EXISTS saldos_billetera (
+  usuario_id UUID NOT NULL REFERENCES user_accounts(usuario_id),
+  moneda VARCHAR(3) NOT NULL,
+  -- Values: 'ARS', 'USD'
+  saldo_disponible DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (saldo_disponible >= 0),
+  fecha_actualizacion TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (usuario_id, moneda)
+);
+
+INSERT INTO saldos_billetera (usuario_id, moneda, saldo_disponible)
+SELECT usuario_id, 'ARS', saldo_disponible
+FROM user_accounts
+WHERE saldo_disponible > 0
+ON CONFLICT (usuario_id, moneda) DO NOTHING;
+
+-- Balances are only read from saldos_billetera from now on
+ALTER TABLE user_accounts DROP COLUMN IF EXISTS saldo_disponible;
+
+-- Every amount carries its currency; rows written before this migration are pesos
+ALTER TABLE lineas_asiento ADD COLUMN IF NOT EXISTS moneda VARCHAR(3) NOT NULL DEFAULT 'ARS';
+ALTER TABLE transferencias ADD COLUMN IF NOT EXISTS moneda VARCHAR(3) NOT NULL DEFAULT 'ARS';
+ALTER TABLE comprobantes ADD COLUMN IF NOT EXISTS moneda VARCHAR(3) NOT NULL DEFAULT 'ARS';
+
+-- Same contract as section 11, with one adjustment per user and currency
+-- (sorted by usuario_id and moneda). Credits create the currency row on first
+-- use; debits keep the conditional UPDATE so a wallet never goes below zero.
+-- Returns saldos as { usuario_id: { moneda: saldo } }.
+CREATE OR REPLACE FUNCTION post_ledger_entry(p_asiento JSONB, p_ajustes JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_id_asiento UUID;
+  v_fecha TIMESTAMP;
+  v_ajuste JSONB;
+  v_usuario TEXT;
+  v_moneda VARCHAR(3);
+  v_delta DECIMAL(15, 2);
+  v_saldo DECIMAL(15, 2);
+  v_saldos JSONB := '{}'::jsonb;
+BEGIN
+  FOR v_ajuste IN SELECT * FROM jsonb_array_elements(p_ajustes) LOOP
+    v_usuario := v_ajuste->>'usuario_id';
+    v_moneda := v_ajuste->>'moneda';
+    v_delta := (v_ajuste->>'delta')::DECIMAL;
+
+    IF NOT EXISTS (SELECT 1 FROM user_accounts WHERE usuario_id::text = v_usuario) THEN
+      RAISE EXCEPTION 'ACCOUNT_NOT_FOUND';
+    END IF;
+
+    IF v_delta >= 0 THEN
+      INSERT INTO saldos_billetera (usuario_id, moneda, saldo_disponible)
+      VALUES (v_usuario::UUID, v_moneda, v_delta)
+      ON CONFLICT (usuario_id, moneda) DO UPDATE
+        SET saldo_disponible = saldos_billetera.saldo_disponible + EXCLUDED.saldo_disponible,
+            fecha_actualizacion = CURRENT_TIMESTAMP
+      RETURNING saldo_disponible INTO v_saldo;
+    ELSE
+      UPDATE saldos_billetera
+      SET saldo_disponible = saldo_disponible + v_delta,
+          fecha_actualizacion = CURRENT_TIMESTAMP
+      WHERE usuario_id::text = v_usuario
+        AND moneda = v_moneda
+        AND saldo_disponible + v_delta >= 0
+      RETURNING saldo_disponible INTO v_saldo;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'INSUFFICIENT_FUNDS';
+      END IF;
+    END IF;
+
+    UPDATE user_accounts SET fecha_actualizacion = CURRENT_TIMESTAMP WHERE usuario_id::text = v_usuario;
+
+    v_saldos := v_saldos || jsonb_build_object(
+      v_usuario,
+      COALESCE(v_saldos->v_usuario, '{}'::jsonb) || jsonb_build_object(v_moneda, v_saldo)
+    );
+  END LOOP;
+
+  BEGIN
+    INSERT INTO asientos_contables (tipo, descripcion, referencia_id, id_asiento_reversado)
+    VALUES (
+      p_asiento->>'tipo',
+      p_asiento->>'descripcion',
+      p_asiento->>'referencia_id',
+      (p_asiento->>'id_asiento_reversado')::UUID
+    )
+    RETURNING id_asiento, fecha_creacion INTO v_id_asiento, v_fecha;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'ALREADY_REVERSED';
+  END;
+
+  INSERT INTO lineas_asiento (id_asiento, cuenta, moneda, debito, credito)
+  SELECT v_id_asiento, linea->>'cuenta', linea->>'moneda', (linea->>'debito')::DECIMAL, (linea->>'credito')::DECIMAL
+  FROM jsonb_array_elements(p_asiento->'lineas') AS linea;
+
+  RETURN jsonb_build_object('id_asiento', v_id_asiento, 'fecha_creacion', v_fecha, 'saldos', v_saldos);
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================================
+-- 14. CREATE audit_logs TABLE - Audit trail of state-changing actions
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS audit_logs (
+  id_log UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  usuario_id UUID NOT NULL REFERENCES user_accounts(usuario_id),
+  id_credito UUID REFERENCES creditos(id_credito),
+  tipo_evento VARCHAR(50) NOT NULL,
+  -- Values: 'cuenta_creada', 'fondos_agregados', 'moneda_convertida', 'ingresos_declarados',
+  --         'score_actualizado', 'kyc_completado', 'kyc_aprobado', 'kyc_rechazado',
+  --         'cuenta_bloqueada', 'cuenta_desbloqueada', 'limite_transferencia_modificado',
+  --         'credito_solicitado', 'credito_aceptado', 'transferencia_ejecutada',
+  --         'transferencia_externa_ejecutada', 'cuota_cobrada', 'cobro_cuota_fallido',
+  --         'credito_pagado', 'credito_en_mora', 'mora_regularizada', 'tramo_mora_modificado',
+  --         'cuenta_marcada_morosa', 'credito_precancelado', 'credito_precancelado_parcial',
+  --         'credito_refinanciado', 'credito_revocado', 'tabla_tasas_publicada',
+  --         'limite_credito_modificado'
+  actor VARCHAR(255) NOT NULL,
+  -- usuario_id of the authenticated caller, 'anonimo' or 'sistema'
+  detalles JSONB NOT NULL DEFAULT '{}'::jsonb,
+  datos_anteriores JSONB,
+  datos_nuevos JSONB,
+  ip VARCHAR(45) NOT NULL,
+  dispositivo VARCHAR(500) NOT NULL,
+  fecha_creacion TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_usuario_id (usuario_id),
+  INDEX idx_id_credito (id_credito),
+  INDEX idx_tipo_evento (tipo_evento),
+  INDEX idx_fecha_creacion (fecha_creacion)
+);
+
+-- Audit entries are append-only
+REVOKE UPDATE, DELETE ON audit_logs FROM PUBLIC;
+
+-- =====================================================================
+-- 15. ALTER asientos_contables TABLE - Operation keys of ledger entries
+-- =====================================================================
+
+-- Operation an entry settles (e.g. 'cuota:<id_cuota>'). At most one entry that
+-- has not been reversed may carry each key, so an installment is debited once.
+ALTER TABLE asientos_contables ADD COLUMN IF NOT EXISTS clave_idempotencia VARCHAR(255);
+CREATE INDEX IF NOT EXISTS idx_asientos_clave_idempotencia ON asientos_contables(clave_idempotencia);
+
+-- Same contract as section 13, plus the clave_idempotencia check. The advisory
+-- lock serializes postings that share a key until the transaction ends.
+CREATE OR REPLACE FUNCTION post_ledger_entry(p_asiento JSONB, p_ajustes JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_id_asiento UUID;
+  v_fecha TIMESTAMP;
+  v_ajuste JSONB;
+  v_usuario TEXT;
+  v_moneda VARCHAR(3);
+  v_delta DECIMAL(15, 2);
+  v_saldo DECIMAL(15, 2);
+  v_saldos JSONB := '{}'::jsonb;
+  v_clave TEXT := p_asiento->>'clave_idempotencia';
+BEGIN
+  IF v_clave IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext(v_clave));
+
+    IF EXISTS (
+      SELECT 1 FROM asientos_contables a
+      WHERE a.clave_idempotencia = v_clave
+        AND NOT EXISTS (SELECT 1 FROM asientos_contables r WHERE r.id_asiento_reversado = a.id_asiento)
+    ) THEN
+      RAISE EXCEPTION 'DUPLICATE_OPERATION';
+    END IF;
+  END IF;
+
+  FOR v_ajuste IN SELECT * FROM jsonb_array_elements(p_ajustes) LOOP
+    v_usuario := v_ajuste->>'usuario_id';
+    v_moneda := v_ajuste->>'moneda';
+    v_delta := (v_ajuste->>'delta')::DECIMAL;
+
+    IF NOT EXISTS (SELECT 1 FROM user_accounts WHERE usuario_id::text = v_usuario) THEN
+      RAISE EXCEPTION 'ACCOUNT_NOT_FOUND';
+    END IF;
+
+    IF v_delta >= 0 THEN
+      INSERT INTO saldos_billetera (usuario_id, moneda, saldo_disponible)
+      VALUES (v_usuario::UUID, v_moneda, v_delta)
+      ON CONFLICT (usuario_id, moneda) DO UPDATE
+        SET saldo_disponible = saldos_billetera.saldo_disponible + EXCLUDED.saldo_disponible,
+            fecha_actualizacion = CURRENT_TIMESTAMP
+      RETURNING saldo_disponible INTO v_saldo;
+    ELSE
+      UPDATE saldos_billetera
+      SET saldo_disponible = saldo_disponible + v_delta,
+          fecha_actualizacion = CURRENT_TIMESTAMP
+      WHERE usuario_id::text = v_usuario
+        AND moneda = v_moneda
+        AND saldo_disponible + v_delta >= 0
+      RETURNING saldo_disponible INTO v_saldo;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'INSUFFICIENT_FUNDS';
+      END IF;
+    END IF;
+
+    UPDATE user_accounts SET fecha_actualizacion = CURRENT_TIMESTAMP WHERE usuario_id::text = v_usuario;
+
+    v_saldos := v_saldos || jsonb_build_object(
+      v_usuario,
+      COALESCE(v_saldos->v_usuario, '{}'::jsonb) || jsonb_build_object(v_moneda, v_saldo)
+    );
+  END LOOP;
+
+  BEGIN
+    INSERT INTO asientos_contables (tipo, descripcion, referencia_id, id_asiento_reversado, clave_idempotencia)
+    VALUES (
+      p_asiento->>'tipo',
+      p_asiento->>'descripcion',
+      p_asiento->>'referencia_id',
+      (p_asiento->>'id_asiento_reversado')::UUID,
+      v_clave
+    )
+    RETURNING id_asiento, fecha_creacion INTO v_id_asiento, v_fecha;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'ALREADY_REVERSED';
+  END;
+
+  INSERT INTO lineas_asiento (id_asiento, cuenta, moneda, debito, credito)
+  SELECT v_id_asiento, linea->>'cuenta', linea->>'moneda', (linea->>'debito')::DECIMAL, (linea->>'credito')::DECIMAL
+  FROM jsonb_array_elements(p_asiento->'lineas') AS linea;
+
+  RETURN jsonb_build_object('id_asiento', v_id_asiento, 'fecha_creacion', v_fecha, 'saldos', v_saldos);
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================================
+-- 16. CREATE reintentos_cobro TABLE - Installment debit attempts and retries
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS reintentos_cobro (
+  id_reintento UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  id_cuota UUID NOT NULL REFERENCES cuotas(id_cuota),
+  id_credito UUID NOT NULL REFERENCES creditos(id_credito),
+  nro_intento INTEGER NOT NULL CHECK (nro_intento >= 1),
+  -- 1 is the scheduled collection, later numbers are retries
+  estado VARCHAR(20) NOT NULL CHECK (estado IN ('programado', 'exitoso', 'fallido', 'cancelado')),
+  fecha_programada TIMESTAMP NOT NULL,
+  fecha_ejecucion TIMESTAMP,
+  motivo_fallo TEXT,
+  id_transaccion UUID REFERENCES asientos_contables(id_asiento),
+  fecha_creacion TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (id_cuota, nro_intento),
+  INDEX idx_id_credito (id_credito),
+  INDEX idx_estado_fecha_programada (estado, fecha_programada)
+);
+
+-- =====================================================================
+-- 17. ALTER creditos TABLE - Delinquency tracking (days past due and bucket)
+-- =====================================================================
+
+ALTER TABLE creditos ADD COLUMN IF NOT EXISTS dias_mora INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE creditos ADD COLUMN IF NOT EXISTS tramo_mora VARCHAR(10) NOT NULL DEFAULT 'al_dia'
+  CHECK (tramo_mora IN ('al_dia', '1_30', '31_60', '61_90', 'mas_90'));
+
+-- The delinquency evaluation scans live credits by status
+CREATE INDEX IF NOT EXISTS idx_creditos_estado ON creditos(estado);
+
+-- =====================================================================
+-- 18. CREATE cargos_cuota TABLE - Punitive interest and late fees
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS cargos_cuota (
+  id_cargo UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  id_cuota UUID NOT NULL REFERENCES cuotas(id_cuota),
+  id_credito UUID NOT NULL REFERENCES creditos(id_credito),
+  tipo VARCHAR(20) NOT NULL CHECK (tipo IN ('interes_punitorio', 'cargo_mora')),
+  monto DECIMAL(15,2) NOT NULL CHECK (monto > 0),
+  -- Day of arrears the charge accrued for
+  fecha_devengo DATE NOT NULL,
+  fecha_creacion TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_id_credito (id_credito)
+);
+
+-- One punitive interest line per installment and day; one late fee per installment
+CREATE UNIQUE INDEX IF NOT EXISTS uq_cargos_cuota_devengo ON cargos_cuota(id_cuota, tipo, fecha_devengo);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_cargos_cuota_cargo_mora ON cargos_cuota(id_cuota) WHERE tipo = 'cargo_mora';
+
+-- =====================================================================
+-- 19. ALTER cuotas TABLE - French-system amortization breakdown
+-- =====================================================================
+
+-- importe_cuota = capital + interes + iva + gastos; saldo_restante is the principal
+-- still owed after the installment. Installments scheduled before this change keep
+-- the flat-interest amount and an all-zero breakdown.
+ALTER TABLE cuotas ADD COLUMN IF NOT EXISTS capital DECIMAL(15,2) NOT NULL DEFAULT 0;
+ALTER TABLE cuotas ADD COLUMN IF NOT EXISTS interes DECIMAL(15,2) NOT NULL DEFAULT 0;
+ALTER TABLE cuotas ADD COLUMN IF NOT EXISTS iva DECIMAL(15,2) NOT NULL DEFAULT 0;
+ALTER TABLE cuotas ADD COLUMN IF NOT EXISTS gastos DECIMAL(15,2) NOT NULL DEFAULT 0;
+ALTER TABLE cuotas ADD COLUMN IF NOT EXISTS saldo_restante DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+-- =====================================================================
+-- 20. ALTER creditos TABLE - Amortization system
+-- =====================================================================
+
+-- Existing credits were scheduled with flat interest and keep those installments (see
+-- section 19), so they are marked 'tasa_plana'. New credits always state their system.
+ALTER TABLE creditos ADD COLUMN IF NOT EXISTS sistema_amortizacion VARCHAR(20) NOT NULL DEFAULT 'tasa_plana'
+  CHECK (sistema_amortizacion IN ('tasa_plana', 'frances', 'aleman', 'pago_unico'));
+ALTER TABLE creditos ALTER COLUMN sistema_amortizacion DROP DEFAULT;
+
+-- =====================================================================
+-- 21. ALTER creditos TABLE - Disclosed nominal rates and computed CFT
+-- =====================================================================
+
+-- tasa_cft is now the internal rate of return of the cash flows (with IVA and
+-- administrative charges), which can exceed DECIMAL(5,2)
+ALTER TABLE creditos ALTER COLUMN tasa_tea TYPE DECIMAL(7,2);
+ALTER TABLE creditos ALTER COLUMN tasa_cft TYPE DECIMAL(7,2);
+ALTER TABLE creditos ADD COLUMN IF NOT EXISTS tasa_tna DECIMAL(7,2);
+ALTER TABLE creditos ADD COLUMN IF NOT EXISTS tasa_cft_tna DECIMAL(7,2);
+
+-- =====================================================================
+-- 22. ALTER creditos TABLE - Version claimed by partial prepayments
+-- =====================================================================
+
+-- Bumped by an UPDATE ... WHERE version = <the version read> when a partial prepayment starts
+-- rewriting the installments (odd) and again when it is done (even), so two prepayments racing
+-- for the same credit cannot both apply
+ALTER TABLE creditos ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 0;
+
+-- =====================================================================
+-- 23. CREATE comprobantes_cuota TABLE - Receipts for installments paid by the borrower
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS comprobantes_cuota (
+  id_comprobante UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  numero_comprobante VARCHAR(30) NOT NULL UNIQUE,
+  usuario_id UUID NOT NULL REFERENCES user_accounts(usuario_id),
+  id_credito UUID NOT NULL REFERENCES creditos(id_credito),
+  id_cuota UUID NOT NULL REFERENCES cuotas(id_cuota),
+  nro_cuota INTEGER NOT NULL,
+  fecha_hora TIMESTAMP NOT NULL,
+  importe_cuota DECIMAL(15,2) NOT NULL,
+  -- Punitive interest and late fees paid along with the installment
+  cargos DECIMAL(15,2) NOT NULL DEFAULT 0,
+  monto DECIMAL(15,2) NOT NULL CHECK (monto > 0),
+  id_asiento UUID NOT NULL REFERENCES asientos_contables(id_asiento),
+  fecha_creacion TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_id_credito (id_credito)
+);
+
+-- =====================================================================
+-- 24. ALTER creditos TABLE - Refinancing
+-- =====================================================================
+
+-- Refinancing credits use tipo_credito 'refinanciacion'; the credits they take over are closed
+-- with estado 'refinanciado' and point to them
+ALTER TABLE creditos ADD COLUMN IF NOT EXISTS id_credito_refinanciacion UUID REFERENCES creditos(id_credito);
+CREATE INDEX IF NOT EXISTS idx_creditos_refinanciacion ON creditos(id_credito_refinanciacion);
+
+-- =====================================================================
+-- 25. CREATE transiciones_estado_credito TABLE - Credit status history
+-- =====================================================================
+
+-- Every change of creditos.estado allowed by the credit state machine, with its reason.
+-- estado_anterior is NULL for the status a credit was created with.
+CREATE TABLE IF NOT EXISTS transiciones_estado_credito (
+  id_transicion UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  id_credito UUID NOT NULL REFERENCES creditos(id_credito),
+  estado_anterior VARCHAR(20),
+  estado_nuevo VARCHAR(20) NOT NULL,
+  motivo VARCHAR(255) NOT NULL,
+  fecha_transicion TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_id_credito (id_credito)
+);
+
+-- =====================================================================
+-- 26. ALTER creditos TABLE - Disbursement transaction
+-- =====================================================================
+
+-- Banking transaction (ledger entry) that credited the principal to the wallet
+ALTER TABLE creditos ADD COLUMN IF NOT EXISTS id_transaccion_desembolso UUID REFERENCES asientos_contables(id_asiento);
+
+-- =====================================================================
+-- 27. CREATE tablas_tasas TABLE - Versioned rate tables
+-- =====================================================================
+
+-- Rates per product and term. The version in force on a date is the latest one whose
+-- vigencia_desde is not after it; versions are never updated once published.
+-- Version 1 of each product is created by the API the first time the product is priced.
+CREATE TABLE IF NOT EXISTS tablas_tasas (
+  id_tabla_tasas UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tipo_credito VARCHAR(20) NOT NULL,
+  version INTEGER NOT NULL CHECK (version > 0),
+  vigencia_desde TIMESTAMP NOT NULL,
+  -- [{ "plazo": 30, "tea": 110 }, ...]: plazo in days for quick credits, months otherwise
+  tasas JSONB NOT NULL,
+  -- Administrative charges, as a percentage of the principal
+  gastos_administrativos DECIMAL(5,2) NOT NULL CHECK (gastos_administrativos >= 0),
+  publicado_por VARCHAR(255),
+  fecha_creacion TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (tipo_credito, version),
+  INDEX idx_tipo_vigencia (tipo_credito, vigencia_desde)
+);
+
+REVOKE UPDATE, DELETE ON tablas_tasas FROM PUBLIC;
+
+-- Rate table version each credit was priced with
+ALTER TABLE creditos ADD COLUMN IF NOT EXISTS id_tabla_tasas UUID REFERENCES tablas_tasas(id_tabla_tasas);
+
+-- =====================================================================
+-- 28. ALTER creditos TABLE - Risk-based pricing
+-- =====================================================================
+
+-- Risk tier the credit was priced with: 'bajo', 'medio', 'alto' or 'muy_alto'
+-- (NULL for refinancing credits)
+ALTER TABLE creditos ADD COLUMN IF NOT EXISTS nivel_riesgo VARCHAR(20);
+
+-- =====================================================================
+-- 29. CREATE limites_credito TABLE - Per-user credit lines
+-- =====================================================================
+
+-- Latest credit line computed for each user. Recomputed by the API on disbursements,
+-- installment payments, prepayments, refinancing, revocations, income declarations and
+-- default marks; motivo is the event that triggered the last computation.
+CREATE TABLE IF NOT EXISTS limites_credito (
+  usuario_id UUID PRIMARY KEY REFERENCES user_accounts(usuario_id) ON DELETE CASCADE,
+  limite_total DECIMAL(15,2) NOT NULL CHECK (limite_total >= 0),
+  -- Principal still owed on disbursed, in-progress and defaulted credits
+  saldo_utilizado DECIMAL(15,2) NOT NULL CHECK (saldo_utilizado >= 0),
+  disponible DECIMAL(15,2) NOT NULL CHECK (disponible >= 0),
+  ingresos_declarados DECIMAL(15,2),
+  ratio_deuda_ingresos DECIMAL(7,2) NOT NULL,
+  cuotas_pagadas_a_tiempo INTEGER NOT NULL DEFAULT 0,
+  cuotas_pagadas_con_atraso INTEGER NOT NULL DEFAULT 0,
+  historial_mora BOOLEAN NOT NULL DEFAULT FALSE,
+  motivo VARCHAR(255) NOT NULL,
+  fecha_calculo TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =====================================================================
+-- 30. CREATE lineas_revolventes / movimientos_linea / resumenes_linea TABLES - Revolving lines
+-- =====================================================================
+
+-- Revolving credit lines: the borrower draws up to limite_aprobado and regains availability
+-- as the capital is repaid. Interest (and its IVA) accrues daily on saldo_capital.
+CREATE TABLE IF NOT EXISTS lineas_revolventes (
+  id_linea UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  usuario_id UUID NOT NULL REFERENCES user_accounts(usuario_id) ON DELETE CASCADE,
+  -- 'activa' or 'cerrada'
+  estado VARCHAR(20) NOT NULL DEFAULT 'activa',
+  limite_aprobado DECIMAL(15,2) NOT NULL CHECK (limite_aprobado > 0),
+  saldo_capital DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (saldo_capital >= 0),
+  saldo_intereses DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (saldo_intereses >= 0),
+  tasa_tea DECIMAL(7,2) NOT NULL,
+  nivel_riesgo VARCHAR(20) NOT NULL,
+  -- Interest is accrued up to the start of this day
+  fecha_ultimo_devengo TIMESTAMP NOT NULL,
+  fecha_apertura TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  fecha_cierre TIMESTAMP,
+  fecha_actualizacion TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_usuario_id (usuario_id),
+  INDEX idx_estado (estado)
+);
+
+-- One active line per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lineas_revolventes_activa
+  ON lineas_revolventes(usuario_id) WHERE estado = 'activa';
+
+-- Drawdowns, payments and accrued interest and IVA of each line
+CREATE TABLE IF NOT EXISTS movimientos_linea (
+  id_movimiento UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  id_linea UUID NOT NULL REFERENCES lineas_revolventes(id_linea),
+  -- 'disposicion', 'pago', 'interes' or 'iva'
+  tipo VARCHAR(20) NOT NULL,
+  monto DECIMAL(15,2) NOT NULL CHECK (monto > 0),
+  -- Ledger entry of drawdowns and payments; NULL for accruals
+  id_asiento UUID REFERENCES asientos_contables(id_asiento),
+  fecha TIMESTAMP NOT NULL,
+  INDEX idx_linea_fecha (id_linea, fecha)
+);
+
+-- Monthly statements: the period runs from the opening day to the same day of the next month
+CREATE TABLE IF NOT EXISTS resumenes_linea (
+  id_resumen UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  id_linea UUID NOT NULL REFERENCES lineas_revolventes(id_linea),
+  periodo_desde TIMESTAMP NOT NULL,
+  periodo_hasta TIMESTAMP NOT NULL,
+  saldo_anterior DECIMAL(15,2) NOT NULL,
+  disposiciones DECIMAL(15,2) NOT NULL,
+  pagos DECIMAL(15,2) NOT NULL,
+  intereses DECIMAL(15,2) NOT NULL,
+  iva DECIMAL(15,2) NOT NULL,
+  saldo_total DECIMAL(15,2) NOT NULL,
+  pago_minimo DECIMAL(15,2) NOT NULL,
+  fecha_vencimiento TIMESTAMP NOT NULL,
+  fecha_emision TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (id_linea, periodo_hasta)
+);
+
+REVOKE UPDATE, DELETE ON movimientos_linea, resumenes_linea FROM PUBLIC;
+
+-- Interest and IVA accrue once per line and day
+CREATE UNIQUE INDEX IF NOT EXISTS idx_movimientos_linea_devengo
+  ON movimientos_linea(id_linea, tipo, fecha) WHERE tipo IN ('interes', 'iva');
+
+-- Balance changes. Each one checks its condition and writes in the same statement (or under
+-- a row lock) and returns no row when the condition does not hold, so concurrent requests
+-- cannot overwrite each other's balances.
+
+CREATE OR REPLACE FUNCTION revolving_line_draw_down(p_id_linea UUID, p_monto DECIMAL)
+RETURNS SETOF lineas_revolventes AS $$
+  UPDATE lineas_revolventes
+  SET saldo_capital = saldo_capital + p_monto,
+      fecha_actualizacion = CURRENT_TIMESTAMP
+  WHERE id_linea = p_id_linea
+    AND estado = 'activa'
+    AND saldo_capital + p_monto <= limite_aprobado
+  RETURNING *;
+$$ LANGUAGE sql;
+
+-- Settles interest first, then capital. Returns NULL when the line is not active or
+-- the payment exceeds the amount owed; the row lock keeps the split and the update together.
+CREATE OR REPLACE FUNCTION revolving_line_apply_payment(p_id_linea UUID, p_monto DECIMAL)
+RETURNS JSONB AS $$
+DECLARE
+  v_linea lineas_revolventes;
+  v_intereses DECIMAL(15, 2);
+BEGIN
+  SELECT * INTO v_linea
+  FROM lineas_revolventes
+  WHERE id_linea = p_id_linea
+    AND estado = 'activa'
+    AND p_monto <= saldo_capital + saldo_intereses
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_intereses := LEAST(p_monto, v_linea.saldo_intereses);
+  UPDATE lineas_revolventes
+  SET saldo_intereses = saldo_intereses - v_intereses,
+      saldo_capital = saldo_capital - (p_monto - v_intereses),
+      fecha_actualizacion = CURRENT_TIMESTAMP
+  WHERE id_linea = p_id_linea
+  RETURNING * INTO v_linea;
+
+  RETURN jsonb_build_object(
+    'linea', to_jsonb(v_linea),
+    'aplicado_intereses', v_intereses,
+    'aplicado_capital', p_monto - v_intereses
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rollback of a drawdown or payment: adds the signed amounts back unconditionally
+CREATE OR REPLACE FUNCTION revolving_line_adjust_balances(p_id_linea UUID, p_capital DECIMAL, p_intereses DECIMAL)
+RETURNS SETOF lineas_revolventes AS $$
+  UPDATE lineas_revolventes
+  SET saldo_capital = saldo_capital + p_capital,
+      saldo_intereses = saldo_intereses + p_intereses,
+      fecha_actualizacion = CURRENT_TIMESTAMP
+  WHERE id_linea = p_id_linea
+  RETURNING *;
+$$ LANGUAGE sql;
+
+-- Accrues up to p_hasta only while fecha_ultimo_devengo is still p_desde, storing the
+-- interest and IVA movements in the same transaction
+CREATE OR REPLACE FUNCTION revolving_line_accrue_interest(
+  p_id_linea UUID,
+  p_desde TIMESTAMP,
+  p_hasta TIMESTAMP,
+  p_movimientos JSONB
+)
+RETURNS SETOF lineas_revolventes AS $$
+DECLARE
+  v_linea lineas_revolventes;
+BEGIN
+  UPDATE lineas_revolventes
+  SET saldo_intereses = saldo_intereses + COALESCE(
+        (SELECT SUM((m->>'monto')::DECIMAL) FROM jsonb_array_elements(p_movimientos) AS m), 0),
+      fecha_ultimo_devengo = p_hasta,
+      fecha_actualizacion = CURRENT_TIMESTAMP
+  WHERE id_linea = p_id_linea
+    AND estado = 'activa'
+    AND fecha_ultimo_devengo = p_desde
+  RETURNING * INTO v_linea;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO movimientos_linea (id_linea, tipo, monto, id_asiento, fecha)
+  SELECT p_id_linea, m->>'tipo', (m->>'monto')::DECIMAL, NULL, p_hasta
+  FROM jsonb_array_elements(p_movimientos) AS m;
+
+  RETURN NEXT v_linea;
+END;
+$$ LANGUAGE plpgsql;
+
 -- =====================================================================
 -- INDEXES FOR PERFORMANCE
 -- =====================================================================
@@ -11,16 +11,114 @@ export const config = {
     url: process.env.SUPABASE_URL || '',
     key: process.env.SUPABASE_KEY || '',
   },
+  storage: {
+    // 'supabase' or 'memory'; defaults to memory when no Supabase project is configured
+    driver: (process.env.STORAGE_DRIVER || (process.env.SUPABASE_URL ? 'supabase' : 'memory')) as
+      | 'supabase'
+      | 'memory',
+  },
+  exchange: {
+    // Reference rate: pesos per US dollar
+    usdArsRate: parseFloat(process.env.USD_ARS_RATE || '1000'),
+  },
+  idempotency: {
+    // How long a stored response can be replayed for the same Idempotency-Key
+    ttlHours: parseInt(process.env.IDEMPOTENCY_TTL_HOURS || '24', 10),
+  },
   jwt: {
     secret: process.env.JWT_SECRET || 'your-secret-key',
     expiresIn: process.env.JWT_EXPIRATION || '24h',
+    // Comma-separated usuario_ids that can be issued admin tokens (npm run issue:admin-token)
+    adminUserIds: (process.env.ADMIN_USER_IDS || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
   },
   credits: {
     quickCreditMaxAmount: parseInt(process.env.QUICK_CREDIT_MAX_AMOUNT || '50000', 10),
     normalCreditMaxAmount: parseInt(process.env.NORMAL_CREDIT_MAX_AMOUNT || '250000', 10),
-    quickCreditInterestMarkup: parseInt(process.env.QUICK_CREDIT_INTEREST_MARKUP || '15', 10),
-    normalCreditInterestMarkup: parseInt(process.env.NORMAL_CREDIT_INTEREST_MARKUP || '-10', 10),
-    marketPagoBaseTEA: parseInt(process.env.MARKET_PAGO_BASE_TEA || '100', 10),
+    // Punitive interest on overdue installments, as an annual nominal rate (%) accrued daily
+    quickCreditPunitiveTNA: parseFloat(process.env.QUICK_CREDIT_PUNITIVE_TNA || '50'),
+    normalCreditPunitiveTNA: parseFloat(process.env.NORMAL_CREDIT_PUNITIVE_TNA || '25'),
+    // Fixed fee (ARS) charged once when an installment becomes overdue; 0 disables it
+    quickCreditLateFee: parseFloat(process.env.QUICK_CREDIT_LATE_FEE || '200'),
+    normalCreditLateFee: parseFloat(process.env.NORMAL_CREDIT_LATE_FEE || '0'),
+    // IVA (%) charged on the interest of every installment
+    ivaRate: parseFloat(process.env.IVA_RATE || '21'),
+    // Days after the disbursement during which the borrower may revoke the credit at no cost
+    revocationWindowDays: parseInt(process.env.REVOCATION_WINDOW_DAYS || '10', 10),
+  },
+  refinancing: {
+    // Annual effective rate (%) of the initial refinancing rate table; later versions are published
+    // through the pricing API
+    tea: parseFloat(process.env.REFINANCING_TEA || '80'),
+    // Terms offered, in months
+    minTermMonths: parseInt(process.env.REFINANCING_MIN_TERM_MONTHS || '3', 10),
+    maxTermMonths: parseInt(process.env.REFINANCING_MAX_TERM_MONTHS || '24', 10),
+    // Credits that can be consolidated into one refinancing
+    maxCredits: parseInt(process.env.REFINANCING_MAX_CREDITS || '5', 10),
+    punitiveTNA: parseFloat(process.env.REFINANCING_PUNITIVE_TNA || '25'),
+    lateFee: parseFloat(process.env.REFINANCING_LATE_FEE || '0'),
+  },
+  creditLimits: {
+    // Credit line granted per peso of declared monthly income
+    incomeMultiplier: parseFloat(process.env.CREDIT_LIMIT_INCOME_MULTIPLIER || '3'),
+    // Credit line (ARS) of users who have not declared an income
+    baseLimit: parseFloat(process.env.CREDIT_LIMIT_BASE || '50000'),
+    // Change of the line (%) per installment paid on time, and per installment paid late
+    onTimeBonus: parseFloat(process.env.CREDIT_LIMIT_ON_TIME_BONUS || '2'),
+    latePenalty: parseFloat(process.env.CREDIT_LIMIT_LATE_PENALTY || '10'),
+    // Bounds (%) of the repayment history adjustment
+    minHistoryFactor: parseFloat(process.env.CREDIT_LIMIT_MIN_HISTORY_FACTOR || '50'),
+    maxHistoryFactor: parseFloat(process.env.CREDIT_LIMIT_MAX_HISTORY_FACTOR || '150'),
+    // Debt-to-income ratio (%) from which no new credit is available
+    maxDebtToIncome: parseFloat(process.env.CREDIT_LIMIT_MAX_DEBT_TO_INCOME || '40'),
+  },
+  revolving: {
+    // Annual effective rate (%) of revolving lines, before the borrower's risk spread
+    tea: parseFloat(process.env.REVOLVING_TEA || '100'),
+    // Bounds (ARS) of the approved limit
+    minLimit: parseFloat(process.env.REVOLVING_MIN_LIMIT || '10000'),
+    maxLimit: parseFloat(process.env.REVOLVING_MAX_LIMIT || '200000'),
+    // Share (%) of the capital owed included in the minimum payment, on top of the period's interest
+    minPaymentPercent: parseFloat(process.env.REVOLVING_MIN_PAYMENT_PERCENT || '5'),
+    // Floor (ARS) of the minimum payment
+    minPaymentFloor: parseFloat(process.env.REVOLVING_MIN_PAYMENT_FLOOR || '1000'),
+    // Days from a statement's closing date to its due date
+    paymentDueDays: parseInt(process.env.REVOLVING_PAYMENT_DUE_DAYS || '10', 10),
+  },
+  riskPricing: {
+    // Accounts younger than this (days) are priced one tier higher
+    minAccountAgeDays: parseInt(process.env.RISK_MIN_ACCOUNT_AGE_DAYS || '90', 10),
+    // Debt-to-income ratio (%) above which the user is priced one tier higher
+    maxDebtToIncome: parseFloat(process.env.RISK_MAX_DEBT_TO_INCOME || '25'),
+    // TEA points added to the rate table's TEA, per tier
+    lowSpreadTEA: parseFloat(process.env.RISK_LOW_SPREAD_TEA || '-10'),
+    mediumSpreadTEA: parseFloat(process.env.RISK_MEDIUM_SPREAD_TEA || '0'),
+    highSpreadTEA: parseFloat(process.env.RISK_HIGH_SPREAD_TEA || '15'),
+    veryHighSpreadTEA: parseFloat(process.env.RISK_VERY_HIGH_SPREAD_TEA || '30'),
+    // Largest principal (ARS) per tier
+    lowMaxAmount: parseFloat(process.env.RISK_LOW_MAX_AMOUNT || '250000'),
+    mediumMaxAmount: parseFloat(process.env.RISK_MEDIUM_MAX_AMOUNT || '150000'),
+    highMaxAmount: parseFloat(process.env.RISK_HIGH_MAX_AMOUNT || '50000'),
+    veryHighMaxAmount: parseFloat(process.env.RISK_VERY_HIGH_MAX_AMOUNT || '20000'),
+  },
+  collections: {
+    // Run the installment collection job inside the API process
+    schedulerEnabled: process.env.COLLECTION_SCHEDULER_ENABLED === 'true',
+    // Local hour (0-23) of the daily collection run
+    runHour: parseInt(process.env.COLLECTION_RUN_HOUR || '6', 10),
+  },
+  paymentRetries: {
+    // Debit attempts per installment, including the first one, before it is left unpaid
+    maxAttempts: parseInt(process.env.PAYMENT_RETRY_MAX_ATTEMPTS || '3', 10),
+    // Hours until the first retry; every later retry waits backoffMultiplier times longer
+    backoffHours: parseFloat(process.env.PAYMENT_RETRY_BACKOFF_HOURS || '48'),
+    backoffMultiplier: parseFloat(process.env.PAYMENT_RETRY_BACKOFF_MULTIPLIER || '2'),
+  },
+  delinquency: {
+    // Days past due after which a credit is moved to en_mora
+    defaultThresholdDays: parseInt(process.env.DELINQUENCY_DEFAULT_DAYS || '3', 10),
   },
   features: {
     enableExternalScoring: process.env.ENABLE_EXTERNAL_SCORING === 'true',
@@ -1,17 +1,36 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { config } from './config.js';
 
-const supabaseUrl = config.supabase.url;
-const supabaseKey = config.supabase.key;
+let supabaseClient: SupabaseClient | null = null;
+let supabaseAdminClient: SupabaseClient | null = null;
 
-if (!supabaseUrl || !supabaseKey) {
-  throw new Error('Missing Supabase configuration');
+function assertConfigured(): void {
+  if (!config.supabase.url || !config.supabase.key) {
+    throw new Error('Missing Supabase configuration');
+  }
 }
 
-// Client for regular operations (uses anon key)
-export const supabase = createClient(supabaseUrl, supabaseKey);
+/**
+ * Client for regular operations (uses anon key).
+ * Created on first use so the app can start without Supabase when running in-memory.
+ */
+export function getSupabase(): SupabaseClient {
+  if (!supabaseClient) {
+    assertConfigured();
+    supabaseClient = createClient(config.supabase.url, config.supabase.key);
+  }
+  return supabaseClient;
+}
 
-// Client for admin operations (uses service role key)
-export const supabaseAdmin = createClient(supabaseUrl, supabaseKey);
+/**
+ * Client for admin operations (uses service role key)
+ */
+export function getSupabaseAdmin(): SupabaseClient {
+  if (!supabaseAdminClient) {
+    assertConfigured();
+    supabaseAdminClient = createClient(config.supabase.url, config.supabase.key);
+  }
+  return supabaseAdminClient;
+}
 
-export default supabase;
+export default getSupabase;
@@ -64,3 +64,38 @@ export class ExternalServiceError extends AppError {
     Object.setPrototypeOf(this, ExternalServiceError.prototype);
   }
 }
+
+export class IdempotencyError extends AppError {
+  constructor(message: string) {
+    super(409, message, 'IDEMPOTENCY_CONFLICT');
+    Object.setPrototypeOf(this, IdempotencyError.prototype);
+  }
+}
+
+export class CurrencyMismatchError extends AppError {
+  constructor(
+    public expected: string,
+    public received: string
+  ) {
+    super(400, `Currency mismatch: expected ${expected}, got ${received}. Convert the funds first`, 'CURRENCY_MISMATCH');
+    Object.setPrototypeOf(this, CurrencyMismatchError.prototype);
+  }
+}
+
+export class InvalidStateTransitionError extends AppError {
+  constructor(
+    public from: string,
+    public to: string,
+    message: string = `Invalid status transition from ${from} to ${to}`
+  ) {
+    super(409, message, 'INVALID_STATE_TRANSITION');
+    Object.setPrototypeOf(this, InvalidStateTransitionError.prototype);
+  }
+}
+
+export class LedgerError extends AppError {
+  constructor(message: string) {
+    super(500, message, 'LEDGER_ERROR');
+    Object.setPrototypeOf(this, LedgerError.prototype);
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Response } from 'express';
+import { AuditEventType } from '@/types/index.js';
+import { ForbiddenError } from '@/errors/AppError.js';
+import { config } from '@/config/config.js';
+import { ADMIN_ROLE, AuthenticatedRequest } from '@/middleware/authMiddleware.js';
+import AuditService from '@/services/AuditService.js';
+import { createTestUser } from '@/test/helpers.js';
+import AuditHandler from './AuditHandler.js';
+
+async function getLogs(caller: string, query: Record<string, string>, rol?: string) {
+  const req = { query, usuario_id: caller, user: { usuario_id: caller, rol } } as unknown as AuthenticatedRequest;
+  const res = { json: vi.fn() };
+  const next = vi.fn();
+
+  await AuditHandler.getLogs(req, res as unknown as Response, next);
+  return { body: res.json.mock.calls[0]?.[0], error: next.mock.calls[0]?.[0] };
+}
+
+async function createUserWithEvent(): Promise<string> {
+  const userId = await createTestUser();
+  await AuditService.record(
+    { actor: userId, ip: '127.0.0.1', dispositivo: 'spec' },
+    { tipo_evento: AuditEventType.KYC_COMPLETED, usuario_id: userId }
+  );
+  return userId;
+}
+
+describe('AuditHandler.getLogs', () => {
+  it("rejects a regular user asking for another user's entries", async () => {
+    const propio = await createUserWithEvent();
+    const ajeno = await createUserWithEvent();
+
+    const { body, error } = await getLogs(propio, { usuario_id: ajeno });
+
+    expect(body).toBeUndefined();
+    expect(error).toBeInstanceOf(ForbiddenError);
+  });
+
+  it("limits a regular user's query to their own entries", async () => {
+    const propio = await createUserWithEvent();
+    await createUserWithEvent();
+
+    const { body } = await getLogs(propio, { tipo_evento: AuditEventType.KYC_COMPLETED });
+
+    expect(body.logs).toHaveLength(1);
+    expect(body.logs[0].usuario_id).toBe(propio);
+  });
+
+  it("lets an admin query any user's entries", async () => {
+    const ajeno = await createUserWithEvent();
+
+    config.jwt.adminUserIds.push('admin-1');
+    try {
+      const { body } = await getLogs('admin-1', { usuario_id: ajeno }, ADMIN_ROLE);
+
+      expect(body.logs.map((log: { usuario_id: string }) => log.usuario_id)).toContain(ajeno);
+      expect(body.logs.every((log: { usuario_id: string }) => log.usuario_id === ajeno)).toBe(true);
+    } finally {
+      config.jwt.adminUserIds.pop();
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import { Response, NextFunction } from 'express';
+import AuditService from '@/services/AuditService.js';
+import { AuthenticatedRequest, isAdmin } from '@/middleware/authMiddleware.js';
+import { ForbiddenError, ValidationError } from '@/errors/AppError.js';
+import { AuditEventType } from '@/types/index.js';
+
+export class AuditHandler {
+  private auditService = AuditService;
+
+  /**
+   * GET /api/audit/logs
+   * Audit entries filtered by usuario_id, id_credito and/or tipo_evento (newest first).
+   * Admins can query every user; anyone else only sees their own entries.
+   */
+  async getLogs(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id_credito, tipo_evento, desde, hasta, limit = '50', offset = '0' } = req.query;
+      let usuario_id = req.query.usuario_id as string | undefined;
+
+      if (!isAdmin(req)) {
+        if (usuario_id && usuario_id !== req.usuario_id) {
+          throw new ForbiddenError(`Audit entries of user ${usuario_id} are only available to admins`);
+        }
+        usuario_id = req.usuario_id;
+      }
+
+      const limitNum = Math.min(parseInt(limit as string) || 50, 100);
+      const offsetNum = parseInt(offset as string) || 0;
+
+      const logs = await this.auditService.query({
+        usuario_id,
+        id_credito: id_credito as string | undefined,
+        tipo_evento: tipo_evento as AuditEventType | undefined,
+        desde: parseDate(desde, 'desde'),
+        hasta: parseDate(hasta, 'hasta'),
+        limit: limitNum,
+        offset: offsetNum,
+      });
+
+      res.json({
+        exito: true,
+        logs,
+        total: logs.length,
+        limite: limitNum,
+        offset: offsetNum,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+function parseDate(value: unknown, campo: string): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid date for ${campo}: ${value}`);
+  }
+  return date;
+}
+
+export default new AuditHandler();
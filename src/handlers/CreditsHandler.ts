@@ -2,15 +2,26 @@ import { Request, Response, NextFunction } from 'express';
 import CreditsService from '@/services/CreditsService.js';
 import CreditsValidator from '@/services/CreditsValidator.js';
 import UserAccountsService from '@/services/UserAccountsService.js';
-import CreditsRepository from '@/repositories/CreditsRepository.js';
-import { CreditType } from '@/types/index.js';
-import { ValidationError, NotFoundError } from '@/errors/AppError.js';
+import PrepaymentService from '@/services/PrepaymentService.js';
+import InstallmentPaymentService from '@/services/InstallmentPaymentService.js';
+import RefinancingService from '@/services/RefinancingService.js';
+import RevocationService from '@/services/RevocationService.js';
+import CreditLimitService from '@/services/CreditLimitService.js';
+import { repositories } from '@/repositories/index.js';
+import { auditContext } from '@/middleware/auditContext.js';
+import { CreditType, Money, PrepaymentMode } from '@/types/index.js';
+import { ValidationError, NotFoundError, ForbiddenError } from '@/errors/AppError.js';
 
 export class CreditsHandler {
   private creditsService = CreditsService;
   private creditsValidator = CreditsValidator;
   private userAccountsService = UserAccountsService;
-  private creditsRepository = CreditsRepository;
+  private prepaymentService = PrepaymentService;
+  private installmentPaymentService = InstallmentPaymentService;
+  private refinancingService = RefinancingService;
+  private revocationService = RevocationService;
+  private creditLimitService = CreditLimitService;
+  private creditsRepository = repositories.credits;
 
   /**
    * Check eligibility for quick credit
@@ -67,16 +78,17 @@ export class CreditsHandler {
    */
   async simulateQuickCredit(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { usuario_id, monto, plazo_dias } = req.body;
+      const { usuario_id, monto, plazo_dias, sistema_amortizacion } = req.body;
 
       if (!usuario_id || !monto || !plazo_dias) {
         throw new ValidationError('Missing required fields: usuario_id, monto, plazo_dias');
       }
 
       // Validate amount
+      const amount = Money.fromDecimal(monto);
       const amountValidation = await this.creditsValidator.validateAmount(
         usuario_id,
-        monto,
+        amount,
         CreditType.QUICK
       );
       if (!amountValidation.es_elegible) {
@@ -89,10 +101,22 @@ export class CreditsHandler {
         throw new ValidationError(termValidation.razon_rechazo!);
       }
 
+      // Validate amortization system (the credit type's default when omitted)
+      if (sistema_amortizacion !== undefined) {
+        const systemValidation = this.creditsValidator.validateAmortizationSystem(
+          sistema_amortizacion,
+          CreditType.QUICK
+        );
+        if (!systemValidation.es_elegible) {
+          throw new ValidationError(systemValidation.razon_rechazo!);
+        }
+      }
+
       const simulation = await this.creditsService.simulateQuickCredit(
         usuario_id,
-        monto,
-        plazo_dias
+        amount,
+        plazo_dias,
+        sistema_amortizacion
       );
 
       res.json({
@@ -110,16 +134,17 @@ export class CreditsHandler {
    */
   async simulateNormalCredit(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { usuario_id, monto, plazo_meses } = req.body;
+      const { usuario_id, monto, plazo_meses, sistema_amortizacion } = req.body;
 
       if (!usuario_id || !monto || !plazo_meses) {
         throw new ValidationError('Missing required fields: usuario_id, monto, plazo_meses');
       }
 
       // Validate amount
+      const amount = Money.fromDecimal(monto);
       const amountValidation = await this.creditsValidator.validateAmount(
         usuario_id,
-        monto,
+        amount,
         CreditType.NORMAL
       );
       if (!amountValidation.es_elegible) {
@@ -132,10 +157,22 @@ export class CreditsHandler {
         throw new ValidationError(termValidation.razon_rechazo!);
       }
 
+      // Validate amortization system (the credit type's default when omitted)
+      if (sistema_amortizacion !== undefined) {
+        const systemValidation = this.creditsValidator.validateAmortizationSystem(
+          sistema_amortizacion,
+          CreditType.NORMAL
+        );
+        if (!systemValidation.es_elegible) {
+          throw new ValidationError(systemValidation.razon_rechazo!);
+        }
+      }
+
       const simulation = await this.creditsService.simulateNormalCredit(
         usuario_id,
-        monto,
-        plazo_meses
+        amount,
+        plazo_meses,
+        sistema_amortizacion
       );
 
       res.json({
@@ -153,7 +190,7 @@ export class CreditsHandler {
    */
   async requestQuickCredit(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { usuario_id, monto, plazo_dias } = req.body;
+      const { usuario_id, monto, plazo_dias, sistema_amortizacion } = req.body;
 
       if (!usuario_id || !monto || !plazo_dias) {
         throw new ValidationError('Missing required fields: usuario_id, monto, plazo_dias');
@@ -166,12 +203,16 @@ export class CreditsHandler {
       }
 
       // Create credit request
-      const credit = await this.creditsService.createQuickCredit({
-        usuario_id,
-        tipo_credito: CreditType.QUICK,
-        monto_solicitado: monto,
-        plazo_dias,
-      });
+      const credit = await this.creditsService.createQuickCredit(
+        {
+          usuario_id,
+          tipo_credito: CreditType.QUICK,
+          monto_solicitado: Money.fromDecimal(monto),
+          plazo_dias,
+          sistema_amortizacion,
+        },
+        auditContext(req)
+      );
 
       res.status(201).json({
         exito: true,
@@ -181,8 +222,11 @@ export class CreditsHandler {
           monto_solicitado: credit.monto_solicitado,
           monto_total: credit.monto_total,
           tasa_tea: credit.tasa_tea,
+          tasa_tna: credit.tasa_tna,
           tasa_cft: credit.tasa_cft,
+          tasa_cft_tna: credit.tasa_cft_tna,
           cuotas: credit.cuotas,
+          sistema_amortizacion: credit.sistema_amortizacion,
           fecha_vencimiento: credit.fecha_vencimiento,
         },
         siguiente_paso: 'revisar_terminos_y_aceptar',
@@ -197,7 +241,7 @@ export class CreditsHandler {
    */
   async requestNormalCredit(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { usuario_id, monto, plazo_meses } = req.body;
+      const { usuario_id, monto, plazo_meses, sistema_amortizacion } = req.body;
 
       if (!usuario_id || !monto || !plazo_meses) {
         throw new ValidationError('Missing required fields: usuario_id, monto, plazo_meses');
@@ -210,12 +254,16 @@ export class CreditsHandler {
       }
 
       // Create credit request
-      const credit = await this.creditsService.createNormalCredit({
-        usuario_id,
-        tipo_credito: CreditType.NORMAL,
-        monto_solicitado: monto,
-        plazo_dias: plazo_meses * 30,
-      });
+      const credit = await this.creditsService.createNormalCredit(
+        {
+          usuario_id,
+          tipo_credito: CreditType.NORMAL,
+          monto_solicitado: Money.fromDecimal(monto),
+          plazo_dias: plazo_meses * 30,
+          sistema_amortizacion,
+        },
+        auditContext(req)
+      );
 
       res.status(201).json({
         exito: true,
@@ -225,8 +273,11 @@ export class CreditsHandler {
           monto_solicitado: credit.monto_solicitado,
           monto_total: credit.monto_total,
           tasa_tea: credit.tasa_tea,
+          tasa_tna: credit.tasa_tna,
           tasa_cft: credit.tasa_cft,
+          tasa_cft_tna: credit.tasa_cft_tna,
           cuotas: credit.cuotas,
+          sistema_amortizacion: credit.sistema_amortizacion,
           fecha_vencimiento: credit.fecha_vencimiento,
         },
         siguiente_paso: 'en_evaluacion',
@@ -248,7 +299,7 @@ export class CreditsHandler {
       }
 
       // Approve and disburse
-      const credit = await this.creditsService.approveCreditAndDisburse(id_credito);
+      const credit = await this.creditsService.approveCreditAndDisburse(id_credito, undefined, auditContext(req));
 
       res.json({
         exito: true,
@@ -257,6 +308,7 @@ export class CreditsHandler {
           id_credito: credit.id_credito,
           estado: credit.estado,
           fecha_desembolso: credit.fecha_desembolso,
+          id_transaccion_desembolso: credit.id_transaccion_desembolso,
           monto_desembolsado: credit.monto_solicitado,
           proximas_cuotas: credit.cuotas,
         },
@@ -289,8 +341,11 @@ export class CreditsHandler {
           monto_solicitado: c.monto_solicitado,
           monto_total: c.monto_total,
           tasa_tea: c.tasa_tea,
+          tasa_tna: c.tasa_tna,
           tasa_cft: c.tasa_cft,
+          tasa_cft_tna: c.tasa_cft_tna,
           cuotas_totales: c.cuotas,
+          sistema_amortizacion: c.sistema_amortizacion,
           fecha_creacion: c.fecha_creacion,
           fecha_vencimiento: c.fecha_vencimiento,
           fecha_desembolso: c.fecha_desembolso,
@@ -301,6 +356,29 @@ export class CreditsHandler {
     }
   }
 
+  /**
+   * GET /api/credits/user/:usuario_id/limit
+   * The user's credit line: total, used by outstanding principal and still available
+   */
+  async getCreditLimit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { usuario_id } = req.params;
+
+      if (!usuario_id) {
+        throw new ValidationError('Missing required parameter: usuario_id');
+      }
+
+      const limite = await this.creditLimitService.getCreditLimit(usuario_id);
+
+      res.json({
+        exito: true,
+        limite_credito: limite,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get credit detail
    */
@@ -318,6 +396,9 @@ export class CreditsHandler {
       }
 
       const installments = await this.creditsRepository.getInstallmentsByCredit(id_credito);
+      const retries = await this.creditsRepository.getPaymentRetriesByCredit(id_credito);
+      const charges = await this.creditsRepository.getChargesByCredit(id_credito);
+      const transitions = await this.creditsRepository.getStatusTransitionsByCredit(id_credito);
 
       res.json({
         credito: {
@@ -325,23 +406,379 @@ export class CreditsHandler {
           usuario_id: credit.usuario_id,
           tipo: credit.tipo_credito,
           estado: credit.estado,
+          dias_mora: credit.dias_mora,
+          tramo_mora: credit.tramo_mora,
+          id_credito_refinanciacion: credit.id_credito_refinanciacion,
           monto_solicitado: credit.monto_solicitado,
           monto_total: credit.monto_total,
           tasa_tea: credit.tasa_tea,
+          tasa_tna: credit.tasa_tna,
           tasa_cft: credit.tasa_cft,
+          tasa_cft_tna: credit.tasa_cft_tna,
+          id_tabla_tasas: credit.id_tabla_tasas,
+          nivel_riesgo: credit.nivel_riesgo,
           cuotas_totales: credit.cuotas,
+          sistema_amortizacion: credit.sistema_amortizacion,
           fecha_creacion: credit.fecha_creacion,
           fecha_desembolso: credit.fecha_desembolso,
+          id_transaccion_desembolso: credit.id_transaccion_desembolso,
           fecha_vencimiento: credit.fecha_vencimiento,
         },
-        cuotas: installments.map((c) => ({
+        cuotas: installments.map((c) => {
+          const cargos = charges.filter((cargo) => cargo.id_cuota === c.id_cuota);
+          const totalCargos = Money.sum(cargos.map((cargo) => cargo.monto), c.importe_cuota.moneda);
+
+          return {
+            id_cuota: c.id_cuota,
+            numero: c.nro_cuota,
+            importe: c.importe_cuota,
+            capital: c.capital,
+            interes: c.interes,
+            iva: c.iva,
+            gastos: c.gastos,
+            saldo_restante: c.saldo_restante,
+            fecha_vencimiento: c.fecha_vencimiento,
+            estado: c.estado,
+            fecha_pago: c.fecha_pago,
+            cargos: cargos.map((cargo) => ({
+              tipo: cargo.tipo,
+              monto: cargo.monto,
+              fecha_devengo: cargo.fecha_devengo,
+            })),
+            total_cargos: totalCargos,
+            importe_total: c.importe_cuota.add(totalCargos),
+            reintentos: retries
+              .filter((r) => r.id_cuota === c.id_cuota)
+              .map((r) => ({
+                nro_intento: r.nro_intento,
+                estado: r.estado,
+                fecha_programada: r.fecha_programada,
+                fecha_ejecucion: r.fecha_ejecucion,
+                motivo_fallo: r.motivo_fallo,
+                id_transaccion: r.id_transaccion,
+              })),
+          };
+        }),
+        historial_estados: transitions.map((t) => ({
+          estado_anterior: t.estado_anterior,
+          estado_nuevo: t.estado_nuevo,
+          motivo: t.motivo,
+          fecha: t.fecha_transicion,
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Quote the early repayment (precancelación) of a credit, for today or a later date
+   */
+  async quotePrepayment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id_credito } = req.params;
+      const { fecha } = req.query;
+
+      if (fecha !== undefined && (typeof fecha !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(fecha))) {
+        throw new ValidationError('Invalid fecha. Expected YYYY-MM-DD');
+      }
+
+      const liquidacion = await this.prepaymentService.quoteFullPrepayment(
+        id_credito,
+        fecha ? new Date(`${fecha}T00:00:00`) : undefined
+      );
+
+      res.json({ id_credito, liquidacion });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Pay off a credit today with a single debit from the borrower's wallet
+   */
+  async prepayCredit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id_credito } = req.params;
+      const { usuario_id } = req.body;
+
+      if (!usuario_id) {
+        throw new ValidationError('Missing required field: usuario_id');
+      }
+
+      const credit = await this.creditsRepository.findCreditById(id_credito);
+      if (!credit) {
+        throw new NotFoundError(`Credit ${id_credito} not found`);
+      }
+      if (credit.usuario_id !== usuario_id) {
+        throw new ForbiddenError(`Credit ${id_credito} does not belong to user ${usuario_id}`);
+      }
+
+      const { credito, liquidacion, id_asiento } = await this.prepaymentService.prepayInFull(
+        id_credito,
+        auditContext(req)
+      );
+
+      res.json({
+        exito: true,
+        mensaje: 'Crédito precancelado exitosamente',
+        credito: {
+          id_credito: credito.id_credito,
+          estado: credito.estado,
+        },
+        liquidacion,
+        id_asiento,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Prepay part of a credit, reducing either the installment amounts or the term
+   */
+  async prepayCreditPartially(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id_credito } = req.params;
+      const { usuario_id, monto, modalidad } = req.body;
+
+      if (!usuario_id || !monto || !modalidad) {
+        throw new ValidationError('Missing required fields: usuario_id, monto, modalidad');
+      }
+      if (!Object.values(PrepaymentMode).includes(modalidad)) {
+        throw new ValidationError(`Invalid modalidad. Allowed: ${Object.values(PrepaymentMode).join(', ')}`);
+      }
+
+      const credit = await this.creditsRepository.findCreditById(id_credito);
+      if (!credit) {
+        throw new NotFoundError(`Credit ${id_credito} not found`);
+      }
+      if (credit.usuario_id !== usuario_id) {
+        throw new ForbiddenError(`Credit ${id_credito} does not belong to user ${usuario_id}`);
+      }
+
+      const prepayment = await this.prepaymentService.prepayPartially(
+        id_credito,
+        Money.fromDecimal(monto, credit.monto_solicitado.moneda),
+        modalidad,
+        auditContext(req)
+      );
+
+      res.json({
+        exito: true,
+        credito: {
+          id_credito: prepayment.credito.id_credito,
+          estado: prepayment.credito.estado,
+          monto_total: prepayment.credito.monto_total,
+          cuotas_totales: prepayment.credito.cuotas,
+          fecha_vencimiento: prepayment.credito.fecha_vencimiento,
+        },
+        monto: prepayment.monto,
+        modalidad: prepayment.modalidad,
+        id_asiento: prepayment.id_asiento,
+        cuotas_pendientes: prepayment.cuotas_pendientes.map((c) => ({
           id_cuota: c.id_cuota,
           numero: c.nro_cuota,
           importe: c.importe_cuota,
+          capital: c.capital,
+          interes: c.interes,
+          iva: c.iva,
+          gastos: c.gastos,
+          saldo_restante: c.saldo_restante,
           fecha_vencimiento: c.fecha_vencimiento,
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke a credit within the revocation window, returning the disbursed principal
+   */
+  async revokeCredit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id_credito } = req.params;
+      const { usuario_id } = req.body;
+
+      if (!usuario_id) {
+        throw new ValidationError('Missing required field: usuario_id');
+      }
+
+      const credit = await this.creditsRepository.findCreditById(id_credito);
+      if (!credit) {
+        throw new NotFoundError(`Credit ${id_credito} not found`);
+      }
+      if (credit.usuario_id !== usuario_id) {
+        throw new ForbiddenError(`Credit ${id_credito} does not belong to user ${usuario_id}`);
+      }
+
+      const credito = await this.revocationService.revokeCredit(id_credito, auditContext(req));
+
+      res.json({
+        exito: true,
+        mensaje: 'Crédito revocado exitosamente',
+        credito: {
+          id_credito: credito.id_credito,
+          estado: credito.estado,
+        },
+        monto_devuelto: credito.monto_solicitado,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Pay an installment from the borrower's wallet: the one in the path, or the oldest overdue one
+   */
+  async payInstallment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id_credito, id_cuota } = req.params;
+      const { usuario_id, monto } = req.body;
+
+      if (!usuario_id) {
+        throw new ValidationError('Missing required field: usuario_id');
+      }
+
+      const credit = await this.creditsRepository.findCreditById(id_credito);
+      if (!credit) {
+        throw new NotFoundError(`Credit ${id_credito} not found`);
+      }
+      if (credit.usuario_id !== usuario_id) {
+        throw new ForbiddenError(`Credit ${id_credito} does not belong to user ${usuario_id}`);
+      }
+
+      const { cuota, comprobante, credito_pagado } = await this.installmentPaymentService.payInstallment(
+        id_credito,
+        id_cuota,
+        monto !== undefined ? Money.fromDecimal(monto, credit.monto_solicitado.moneda) : undefined,
+        auditContext(req)
+      );
+
+      res.json({
+        exito: true,
+        mensaje: credito_pagado ? 'Cuota pagada; crédito cancelado' : 'Cuota pagada exitosamente',
+        cuota: {
+          id_cuota: cuota.id_cuota,
+          numero: cuota.nro_cuota,
+          importe: cuota.importe_cuota,
+          estado: cuota.estado,
+          fecha_vencimiento: cuota.fecha_vencimiento,
+          fecha_pago: cuota.fecha_pago,
+        },
+        comprobante,
+        credito_pagado,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Receipts for the installments the borrower paid on a credit
+   */
+  async getInstallmentReceipts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id_credito } = req.params;
+
+      const credit = await this.creditsRepository.findCreditById(id_credito);
+      if (!credit) {
+        throw new NotFoundError(`Credit ${id_credito} not found`);
+      }
+
+      const comprobantes = await this.installmentPaymentService.getReceipts(id_credito);
+
+      res.json({ id_credito, comprobantes });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Simulate refinancing one or more credits into a new one
+   */
+  async simulateRefinancing(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { usuario_id, creditos, plazo_meses, sistema_amortizacion } = req.body;
+
+      if (!usuario_id || !Array.isArray(creditos) || !plazo_meses) {
+        throw new ValidationError('Missing required fields: usuario_id, creditos, plazo_meses');
+      }
+      if (sistema_amortizacion !== undefined) {
+        const systemValidation = this.creditsValidator.validateAmortizationSystem(
+          sistema_amortizacion,
+          CreditType.REFINANCING
+        );
+        if (!systemValidation.es_elegible) {
+          throw new ValidationError(systemValidation.razon_rechazo!);
+        }
+      }
+
+      const simulation = await this.refinancingService.simulateRefinancing({
+        usuario_id,
+        creditos,
+        plazo_meses,
+        sistema_amortizacion,
+      });
+
+      res.json({
+        usuario_id,
+        tipo_credito: CreditType.REFINANCING,
+        simulacion: simulation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Refinance one or more credits: the new credit takes over their balances and they are closed
+   */
+  async requestRefinancing(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { usuario_id, creditos, plazo_meses, sistema_amortizacion } = req.body;
+
+      if (!usuario_id || !Array.isArray(creditos) || !plazo_meses) {
+        throw new ValidationError('Missing required fields: usuario_id, creditos, plazo_meses');
+      }
+      if (sistema_amortizacion !== undefined) {
+        const systemValidation = this.creditsValidator.validateAmortizationSystem(
+          sistema_amortizacion,
+          CreditType.REFINANCING
+        );
+        if (!systemValidation.es_elegible) {
+          throw new ValidationError(systemValidation.razon_rechazo!);
+        }
+      }
+
+      const { credito, creditos_refinanciados, saldos } = await this.refinancingService.refinance(
+        { usuario_id, creditos, plazo_meses, sistema_amortizacion },
+        auditContext(req)
+      );
+
+      res.status(201).json({
+        exito: true,
+        credito: {
+          id_credito: credito.id_credito,
+          tipo_credito: credito.tipo_credito,
+          estado: credito.estado,
+          monto_solicitado: credito.monto_solicitado,
+          monto_total: credito.monto_total,
+          tasa_tea: credito.tasa_tea,
+          tasa_tna: credito.tasa_tna,
+          tasa_cft: credito.tasa_cft,
+          tasa_cft_tna: credito.tasa_cft_tna,
+          cuotas: credito.cuotas,
+          sistema_amortizacion: credito.sistema_amortizacion,
+          fecha_vencimiento: credito.fecha_vencimiento,
+        },
+        creditos_refinanciados: creditos_refinanciados.map((c) => ({
+          id_credito: c.id_credito,
           estado: c.estado,
-          fecha_pago: c.fecha_pago,
+          id_credito_refinanciacion: c.id_credito_refinanciacion,
         })),
+        saldos,
       });
     } catch (error) {
       next(error);
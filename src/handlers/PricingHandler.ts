@@ -0,0 +1,78 @@
+import { Request, Response, NextFunction } from 'express';
+import PricingService from '@/services/PricingService.js';
+import { auditContext } from '@/middleware/auditContext.js';
+import { CreditType, RateTableEntry } from '@/types/index.js';
+import { ValidationError } from '@/errors/AppError.js';
+
+export class PricingHandler {
+  private pricingService = PricingService;
+
+  /**
+   * GET /api/pricing/rate-tables
+   * Every version of the rate tables, optionally for one tipo_credito, flagging the ones in force
+   */
+  async getRateTables(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { tipo_credito } = req.query;
+
+      if (tipo_credito !== undefined && !Object.values(CreditType).includes(tipo_credito as CreditType)) {
+        throw new ValidationError(`Invalid tipo_credito. Must be one of: ${Object.values(CreditType).join(', ')}`);
+      }
+
+      const tablas = await this.pricingService.getRateTables(tipo_credito as CreditType | undefined);
+      const vigentes: string[] = [];
+      for (const tipo of new Set(tablas.map((t) => t.tipo_credito))) {
+        vigentes.push((await this.pricingService.getEffectiveTable(tipo)).id_tabla_tasas);
+      }
+
+      res.json({
+        exito: true,
+        tablas: tablas.map((t) => ({ ...t, vigente: vigentes.includes(t.id_tabla_tasas) })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/pricing/rate-tables
+   * Publish the next version of a product's rate table
+   */
+  async publishRateTable(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { tipo_credito, vigencia_desde, tasas, gastos_administrativos } = req.body;
+
+      if (!tipo_credito || !Array.isArray(tasas) || gastos_administrativos === undefined) {
+        throw new ValidationError('Missing required fields: tipo_credito, tasas, gastos_administrativos');
+      }
+
+      let vigencia: Date | undefined;
+      if (vigencia_desde !== undefined) {
+        vigencia = new Date(vigencia_desde);
+        if (Number.isNaN(vigencia.getTime())) {
+          throw new ValidationError(`Invalid date for vigencia_desde: ${vigencia_desde}`);
+        }
+      }
+
+      const tabla = await this.pricingService.publishRateTable(
+        {
+          tipo_credito,
+          vigencia_desde: vigencia,
+          tasas: tasas.map((t: RateTableEntry) => ({ plazo: Number(t.plazo), tea: Number(t.tea) })),
+          gastos_administrativos: Number(gastos_administrativos),
+        },
+        auditContext(req)
+      );
+
+      res.status(201).json({
+        exito: true,
+        mensaje: `Rate table version ${tabla.version} published`,
+        tabla_tasas: tabla,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new PricingHandler();
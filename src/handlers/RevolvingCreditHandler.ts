@@ -0,0 +1,200 @@
+import { Request, Response, NextFunction } from 'express';
+import RevolvingCreditService from '@/services/RevolvingCreditService.js';
+import { auditContext } from '@/middleware/auditContext.js';
+import { Money, RevolvingLine } from '@/types/index.js';
+import { ValidationError, ForbiddenError } from '@/errors/AppError.js';
+
+export class RevolvingCreditHandler {
+  private revolvingCreditService = RevolvingCreditService;
+
+  /**
+   * POST /api/credits/revolving-lines
+   * Open a revolving line for limite, or for the highest limit available when omitted
+   */
+  async openLine(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { usuario_id, limite } = req.body;
+
+      if (!usuario_id) {
+        throw new ValidationError('Missing required field: usuario_id');
+      }
+
+      const linea = await this.revolvingCreditService.openLine(
+        usuario_id,
+        limite !== undefined ? Money.fromDecimal(limite) : undefined,
+        auditContext(req)
+      );
+
+      res.status(201).json({
+        exito: true,
+        mensaje: `Revolving line approved for ${linea.limite_aprobado}`,
+        linea: this.present(linea),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/credits/revolving-lines/user/:usuario_id
+   */
+  async getUserLines(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { usuario_id } = req.params;
+
+      const lineas = await this.revolvingCreditService.getUserLines(usuario_id);
+
+      res.json({
+        usuario_id,
+        cantidad_lineas: lineas.length,
+        lineas: lineas.map((linea) => this.present(linea)),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/credits/revolving-lines/:id_linea
+   * The line with its movements and statements
+   */
+  async getLineDetail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id_linea } = req.params;
+
+      const linea = await this.revolvingCreditService.getLine(id_linea);
+
+      res.json({
+        linea: this.present(linea),
+        movimientos: await this.revolvingCreditService.getMovements(id_linea),
+        resumenes: await this.revolvingCreditService.getStatements(id_linea),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/credits/revolving-lines/:id_linea/drawdowns
+   * Draw monto from the line into the borrower's wallet
+   */
+  async drawDown(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id_linea } = req.params;
+      const { usuario_id, monto } = req.body;
+
+      if (!usuario_id || monto === undefined) {
+        throw new ValidationError('Missing required fields: usuario_id, monto');
+      }
+
+      const linea = await this.getOwnLine(id_linea, usuario_id);
+      const actualizada = await this.revolvingCreditService.drawDown(
+        id_linea,
+        Money.fromDecimal(monto, linea.limite_aprobado.moneda),
+        auditContext(req)
+      );
+
+      res.json({
+        exito: true,
+        mensaje: 'Disposición acreditada en la billetera',
+        linea: this.present(actualizada),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/credits/revolving-lines/:id_linea/payments
+   * Pay monto from the borrower's wallet: accrued interest first, then capital
+   */
+  async pay(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id_linea } = req.params;
+      const { usuario_id, monto } = req.body;
+
+      if (!usuario_id || monto === undefined) {
+        throw new ValidationError('Missing required fields: usuario_id, monto');
+      }
+
+      const linea = await this.getOwnLine(id_linea, usuario_id);
+      const pago = await this.revolvingCreditService.pay(
+        id_linea,
+        Money.fromDecimal(monto, linea.limite_aprobado.moneda),
+        auditContext(req)
+      );
+
+      res.json({
+        exito: true,
+        mensaje: 'Pago aplicado a la línea',
+        pago: { ...pago, linea: this.present(pago.linea) },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/credits/revolving-lines/:id_linea/statements
+   */
+  async getStatements(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id_linea } = req.params;
+
+      await this.revolvingCreditService.getLine(id_linea);
+      const resumenes = await this.revolvingCreditService.getStatements(id_linea);
+
+      res.json({
+        id_linea,
+        cantidad_resumenes: resumenes.length,
+        resumenes,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/credits/revolving-lines/:id_linea/close
+   * Close a line with nothing owed
+   */
+  async closeLine(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id_linea } = req.params;
+      const { usuario_id } = req.body;
+
+      if (!usuario_id) {
+        throw new ValidationError('Missing required field: usuario_id');
+      }
+
+      await this.getOwnLine(id_linea, usuario_id);
+      const linea = await this.revolvingCreditService.closeLine(id_linea, auditContext(req));
+
+      res.json({
+        exito: true,
+        mensaje: 'Línea de crédito cerrada',
+        linea: this.present(linea),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async getOwnLine(lineId: string, userId: string): Promise<RevolvingLine> {
+    const linea = await this.revolvingCreditService.getLine(lineId);
+    if (linea.usuario_id !== userId) {
+      throw new ForbiddenError(`Revolving line ${lineId} does not belong to user ${userId}`);
+    }
+    return linea;
+  }
+
+  private present(linea: RevolvingLine) {
+    return {
+      ...linea,
+      saldo_adeudado: linea.saldo_capital.add(linea.saldo_intereses),
+      disponible: this.revolvingCreditService.getAvailable(linea),
+    };
+  }
+}
+
+export default new RevolvingCreditHandler();
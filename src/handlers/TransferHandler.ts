@@ -3,45 +3,67 @@ import UserAccountsService from '@/services/UserAccountsService.js';
 import CreditsService from '@/services/CreditsService.js';
 import BankingAPI from '@/services/BankingAPI.js';
 import TransfersService from '@/services/TransfersService.js';
-import TransfersRepository from '@/repositories/TransfersRepository.js';
+import CurrencyExchangeService from '@/services/CurrencyExchangeService.js';
+import AuditService from '@/services/AuditService.js';
+import { UnitOfWork } from '@/services/UnitOfWork.js';
+import { repositories } from '@/repositories/index.js';
+import { auditContext } from '@/middleware/auditContext.js';
 import { ValidationError } from '@/errors/AppError.js';
-import { ExternalTransferRequest, Transfer } from '@/types/index.js';
+import { AuditEventType, Currency, ExternalTransferRequest, Money, Transfer, parseCurrency } from '@/types/index.js';
+
+// Transfers above this amount (in any currency, valued in pesos) from accounts younger than 30 days are flagged
+const HIGH_AMOUNT_FOR_NEW_ACCOUNTS = Money.fromDecimal(5000);
 
 export class TransferHandler {
   private userAccountsService = UserAccountsService;
   private creditsService = CreditsService;
   private bankingAPI = BankingAPI;
   private transfersService = TransfersService;
+  private currencyExchangeService = CurrencyExchangeService;
+  private auditService = AuditService;
+  private transfersRepository = repositories.transfers;
 
   /**
-   * Handle transfer request with automatic quick credit offer if balance insufficient
+   * Handle transfer request with automatic quick credit offer if balance insufficient.
+   * The transfer moves `moneda` (default ARS) between wallets of that currency; quick
+   * credits are only offered in pesos.
    */
   async handleTransfer(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { usuario_id, monto_destino, cuenta_destino } = req.body;
+      const { usuario_id, monto_destino, cuenta_destino, moneda } = req.body;
 
       if (!usuario_id || !monto_destino || !cuenta_destino) {
         throw new ValidationError('Missing required fields: usuario_id, monto_destino, cuenta_destino');
       }
 
-      if (monto_destino <= 0) {
+      const amount = Money.fromDecimal(monto_destino, parseCurrency(moneda));
+      if (!amount.isPositive()) {
         throw new ValidationError('Transfer amount must be greater than 0');
       }
 
       // Get current balance
-      const currentBalance = await this.userAccountsService.getBalance(usuario_id);
+      const currentBalance = await this.userAccountsService.getBalance(usuario_id, amount.moneda);
 
       // Check if balance is sufficient
-      if (currentBalance >= monto_destino) {
+      if (currentBalance.greaterThanOrEqual(amount)) {
         // Direct transfer
-        const result = await this.bankingAPI.transferFunds(usuario_id, cuenta_destino, monto_destino);
+        const result = await this.bankingAPI.transferFunds(usuario_id, cuenta_destino, amount);
 
         if (result.exito) {
+          await this.auditService.record(auditContext(req), {
+            tipo_evento: AuditEventType.TRANSFER_EXECUTED,
+            usuario_id,
+            antes: { saldo: currentBalance, moneda: amount.moneda },
+            despues: { saldo: result.saldo_resultante, moneda: amount.moneda },
+            detalles: { transaccion_id: result.transaccion_id, cuenta_destino, monto: amount, moneda: amount.moneda },
+          });
+
           res.json({
             exito: true,
             tipo_resultado: 'transferencia_directa',
             transaccion_id: result.transaccion_id,
-            monto: monto_destino,
+            moneda: amount.moneda,
+            monto: amount,
             saldo_resultante: result.saldo_resultante,
             fecha: result.fecha,
           });
@@ -50,7 +72,19 @@ export class TransferHandler {
         }
       } else {
         // Insufficient balance - offer quick credit
-        const faltante = monto_destino - currentBalance;
+        const faltante = amount.subtract(currentBalance);
+
+        if (amount.moneda !== Currency.ARS) {
+          res.json({
+            exito: false,
+            tipo_resultado: 'saldo_insuficiente',
+            mensaje: `Saldo insuficiente en ${amount.moneda}`,
+            moneda: amount.moneda,
+            saldo_actual: currentBalance,
+            monto_faltante: faltante,
+          });
+          return;
+        }
 
         const creditOffer = await this.creditsService.simulateQuickCredit(
           usuario_id,
@@ -85,19 +119,47 @@ export class TransferHandler {
         );
       }
 
-      // Approve and disburse credit
-      const credit = await this.creditsService.approveCreditAndDisburse(id_credito);
+      // Credits are disbursed in pesos, so the funded transfer is too
+      const amount = Money.fromDecimal(monto_destino, parseCurrency(req.body.moneda));
+      if (amount.moneda !== Currency.ARS) {
+        throw new ValidationError('Transfers funded with a credit must be in ARS');
+      }
 
-      // Process transfer
-      const transferResult = await this.bankingAPI.transferFunds(
-        usuario_id,
-        cuenta_destino,
-        monto_destino
-      );
+      // Disbursement and transfer succeed together: if the transfer fails the credit is rolled back
+      const contexto = auditContext(req);
+      const { credit, transferResult } = await UnitOfWork.run(async (uow) => {
+        const credit = await this.creditsService.approveCreditAndDisburse(id_credito, uow, contexto);
 
-      if (!transferResult.exito) {
-        throw new Error(`Transfer failed: ${transferResult.razon_fallo}`);
-      }
+        const transferResult = await this.bankingAPI.transferFunds(
+          usuario_id,
+          cuenta_destino,
+          amount,
+          uow
+        );
+
+        if (!transferResult.exito) {
+          throw new ValidationError(`Transfer failed: ${transferResult.razon_fallo}`);
+        }
+
+        await this.auditService.record(
+          contexto,
+          {
+            tipo_evento: AuditEventType.TRANSFER_EXECUTED,
+            usuario_id,
+            id_credito,
+            despues: { saldo: transferResult.saldo_resultante, moneda: amount.moneda },
+            detalles: {
+              transaccion_id: transferResult.transaccion_id,
+              cuenta_destino,
+              monto: amount,
+              moneda: amount.moneda,
+            },
+          },
+          uow
+        );
+
+        return { credit, transferResult };
+      });
 
       res.json({
         exito: true,
@@ -109,10 +171,12 @@ export class TransferHandler {
           monto_total_a_pagar: credit.monto_total,
           cuotas: credit.cuotas,
           tasa_tea: credit.tasa_tea,
+          tasa_tna: credit.tasa_tna,
           tasa_cft: credit.tasa_cft,
+          tasa_cft_tna: credit.tasa_cft_tna,
         },
         transferencia: {
-          monto: monto_destino,
+          monto: amount,
           saldo_resultante: transferResult.saldo_resultante,
         },
         fecha: new Date(),
@@ -127,23 +191,25 @@ export class TransferHandler {
    */
   async analyzeTransfer(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { usuario_id, monto_destino } = req.body;
+      const { usuario_id, monto_destino, moneda } = req.body;
 
       if (!usuario_id || !monto_destino) {
         throw new ValidationError('Missing required fields: usuario_id, monto_destino');
       }
 
-      const currentBalance = await this.userAccountsService.getBalance(usuario_id);
+      const amount = Money.fromDecimal(monto_destino, parseCurrency(moneda));
+      const currentBalance = await this.userAccountsService.getBalance(usuario_id, amount.moneda);
 
       const analysis = {
         usuario_id,
-        monto_solicitado: monto_destino,
+        moneda: amount.moneda,
+        monto_solicitado: amount,
         saldo_actual: currentBalance,
-        puede_transferir_directo: currentBalance >= monto_destino,
-        faltante: Math.max(0, monto_destino - currentBalance),
+        puede_transferir_directo: currentBalance.greaterThanOrEqual(amount),
+        faltante: Money.max(Money.zero(amount.moneda), amount.subtract(currentBalance)),
       };
 
-      if (analysis.faltante > 0) {
+      if (analysis.faltante.isPositive() && amount.moneda === Currency.ARS) {
         const quickCreditOffer = await this.creditsService.simulateQuickCredit(
           usuario_id,
           analysis.faltante,
@@ -299,9 +365,21 @@ export class TransferHandler {
         offsetNum
       );
 
+      // Amounts of different currencies are never added together
+      const totales = Object.values(Currency)
+        .map((moneda) => ({
+          moneda,
+          monto: Money.sum(
+            comprobantes.filter((c) => c.monto.moneda === moneda).map((c) => c.monto),
+            moneda
+          ),
+        }))
+        .filter((total) => total.monto.isPositive());
+
       res.json({
         exito: true,
-        comprobantes,
+        comprobantes: comprobantes.map((comprobante) => ({ ...comprobante, moneda: comprobante.monto.moneda })),
+        totales_por_moneda: totales,
         total: comprobantes.length,
         limite: limitNum,
         offset: offsetNum,
@@ -326,11 +404,11 @@ export class TransferHandler {
       const account = await this.userAccountsService.getUserAccount(usuario_id);
 
       // Calculate transfer limits based on KYC status
-      const limite_actual = account.kyc_completo ? 50000 : 10000;
+      const limite_actual = Money.fromDecimal(account.kyc_completo ? 50000 : 10000);
 
       // Get today's transfer total
       const usedToday = await this.transfersService.getDailyTransferTotal(usuario_id);
-      const disponible = Math.max(0, limite_actual - usedToday);
+      const disponible = Money.max(Money.zero(), limite_actual.subtract(usedToday));
 
       res.json({
         exito: true,
@@ -352,34 +430,40 @@ export class TransferHandler {
    */
   async checkLimitsPreview(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { usuario_id, monto_transferencia } = req.body;
+      const { usuario_id, monto_transferencia, moneda } = req.body;
 
       if (!usuario_id || !monto_transferencia) {
         throw new ValidationError('Missing required fields: usuario_id, monto_transferencia');
       }
 
-      if (monto_transferencia <= 0) {
+      const amount = Money.fromDecimal(monto_transferencia, parseCurrency(moneda));
+      if (!amount.isPositive()) {
         throw new ValidationError('Transfer amount must be greater than 0');
       }
 
       const account = await this.userAccountsService.getUserAccount(usuario_id);
-      const limite_actual = account.kyc_completo ? 50000 : 10000;
+      const limite_actual = Money.fromDecimal(account.kyc_completo ? 50000 : 10000);
       const usedToday = await this.transfersService.getDailyTransferTotal(usuario_id);
-      const disponible = Math.max(0, limite_actual - usedToday);
+      const disponible = Money.max(Money.zero(), limite_actual.subtract(usedToday));
+
+      // Limits are in pesos: other currencies count at the reference rate
+      const montoEnPesos = this.currencyExchangeService.valueIn(amount, Currency.ARS);
 
       // Check if transfer amount exceeds limit
-      if (monto_transferencia > disponible) {
+      if (montoEnPesos.greaterThan(disponible)) {
         res.json({
           exito: false,
           puede_transferir: false,
           code: 'LIMITE_EXCEDIDO',
-          error: `Excediste tu límite diario de $${limite_actual}. Completá tu KYC para ampliarlo.`,
+          error: `Excediste tu límite diario de ${limite_actual}. Completá tu KYC para ampliarlo.`,
           data: {
             limite_actual,
             usado_hoy: usedToday,
             disponible,
-            monto_solicitado: monto_transferencia,
-            exceso: monto_transferencia - disponible,
+            moneda: amount.moneda,
+            monto_solicitado: amount,
+            monto_en_pesos: montoEnPesos,
+            exceso: montoEnPesos.subtract(disponible),
             como_ampliar: account.kyc_completo ? null : 'kyc',
           },
         });
@@ -391,7 +475,9 @@ export class TransferHandler {
             limite_actual,
             usado_hoy: usedToday,
             disponible,
-            monto_solicitado: monto_transferencia,
+            moneda: amount.moneda,
+            monto_solicitado: amount,
+            monto_en_pesos: montoEnPesos,
             kyc_completo: account.kyc_completo,
           },
         });
@@ -407,13 +493,14 @@ export class TransferHandler {
    */
   async performFraudCheck(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { usuario_id, monto_transferencia, cuenta_destino } = req.body;
+      const { usuario_id, monto_transferencia, cuenta_destino, moneda } = req.body;
 
       if (!usuario_id || !monto_transferencia || !cuenta_destino) {
         throw new ValidationError('Missing required fields: usuario_id, monto_transferencia, cuenta_destino');
       }
 
-      if (monto_transferencia <= 0) {
+      const amount = Money.fromDecimal(monto_transferencia, parseCurrency(moneda));
+      if (!amount.isPositive()) {
         throw new ValidationError('Transfer amount must be greater than 0');
       }
 
@@ -426,7 +513,8 @@ export class TransferHandler {
         (Date.now() - new Date(account.fecha_registro).getTime()) / (1000 * 60 * 60 * 24)
       );
 
-      if (accountAge < 30 && monto_transferencia > 5000) {
+      const montoEnPesos = this.currencyExchangeService.valueIn(amount, Currency.ARS);
+      if (accountAge < 30 && montoEnPesos.greaterThan(HIGH_AMOUNT_FOR_NEW_ACCOUNTS)) {
         fraudRisks.push({
           tipo: 'cuenta_nueva_monto_alto',
           severity: 'media',
@@ -459,7 +547,8 @@ export class TransferHandler {
       res.json({
         exito: true,
         usuario_id,
-        monto_transferencia,
+        moneda: amount.moneda,
+        monto_transferencia: amount,
         cuenta_destino: cuenta_destino.substring(0, 4) + '****' + cuenta_destino.substring(cuenta_destino.length - 2),
         riesgo_fraude,
         requiere_verificacion_adicional: requiere_verificacion,
@@ -503,7 +592,7 @@ export class TransferHandler {
    */
   async executeExternalTransfer(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { usuario_id, cbu_destino, alias_destino, monto_transferencia, referencia } = req.body;
+      const { usuario_id, cbu_destino, alias_destino, monto_transferencia, referencia, moneda } = req.body;
 
       if (!usuario_id || !cbu_destino || !monto_transferencia) {
         throw new ValidationError(
@@ -511,16 +600,17 @@ export class TransferHandler {
         );
       }
 
-      if (monto_transferencia <= 0) {
+      const amount = Money.fromDecimal(monto_transferencia, parseCurrency(moneda));
+      if (!amount.isPositive()) {
         throw new ValidationError('Transfer amount must be greater than 0');
       }
 
       // Check transfer limit
-      const isWithinLimit = await this.bankingAPI.validateTransferLimit(usuario_id, monto_transferencia);
+      const isWithinLimit = await this.bankingAPI.validateTransferLimit(usuario_id, amount);
       if (!isWithinLimit) {
         const limite = await this.userAccountsService.getTransferLimit(usuario_id);
         throw new ValidationError(
-          `Transfer amount exceeds limit of $${limite}. Complete KYC to increase limit.`
+          `Transfer amount exceeds limit of ${limite}. Complete KYC to increase limit.`
         );
       }
 
@@ -536,7 +626,7 @@ export class TransferHandler {
       }
 
       // Perform fraud check
-      const fraudCheck = await this.performFraudCheckInternal(usuario_id, monto_transferencia, cbu_destino);
+      const fraudCheck = await this.performFraudCheckInternal(usuario_id, amount, cbu_destino);
       if (fraudCheck.requiere_verificacion) {
         res.status(403).json({
           exito: false,
@@ -552,7 +642,7 @@ export class TransferHandler {
         usuario_id,
         cbu_destino: validation.cbu,
         alias_destino,
-        monto: monto_transferencia,
+        monto: amount,
         referencia,
       };
 
@@ -560,7 +650,7 @@ export class TransferHandler {
 
       if (result.exito) {
         // Save transfer record to database
-        await TransfersRepository.createTransfer({
+        await this.transfersRepository.createTransfer({
           id_transferencia: result.id_transferencia,
           usuario_id_origen: usuario_id,
           cbu_destino: result.cbu_destino,
@@ -570,18 +660,26 @@ export class TransferHandler {
           fecha_creacion: result.fecha_transaccion,
         } as Omit<Transfer, 'fecha_acreditacion' | 'fecha_actualizacion'>);
 
+        await this.auditService.record(auditContext(req), {
+          tipo_evento: AuditEventType.EXTERNAL_TRANSFER_EXECUTED,
+          usuario_id,
+          despues: result,
+          detalles: { id_transferencia: result.id_transferencia, monto: amount, moneda: amount.moneda },
+        });
+
         res.json({
           exito: true,
           transferencia: {
             id_transferencia: result.id_transferencia,
             transaccion_numero: result.transaccion_numero,
             cbu_destino: result.cbu_destino,
+            moneda: result.monto.moneda,
             monto: result.monto,
             estado: result.estado,
             fecha: result.fecha_transaccion,
             comprobante: result.comprobante,
           },
-          saldo_resultante: await this.userAccountsService.getBalance(usuario_id),
+          saldo_resultante: await this.userAccountsService.getBalance(usuario_id, amount.moneda),
         });
       } else {
         throw new Error(result.razon_fallo);
@@ -596,7 +694,7 @@ export class TransferHandler {
    */
   private async performFraudCheckInternal(
     usuario_id: string,
-    monto: number,
+    monto: Money,
     cuenta_destino: string
   ): Promise<{
     requiere_verificacion: boolean;
@@ -608,7 +706,8 @@ export class TransferHandler {
       (Date.now() - new Date(account.fecha_registro).getTime()) / (1000 * 60 * 60 * 24)
     );
 
-    if (accountAge < 30 && monto > 5000) {
+    const montoEnPesos = this.currencyExchangeService.valueIn(monto, Currency.ARS);
+    if (accountAge < 30 && montoEnPesos.greaterThan(HIGH_AMOUNT_FOR_NEW_ACCOUNTS)) {
       fraudRisks.push({
         tipo: 'cuenta_nueva_monto_alto',
         severity: 'media',
@@ -645,7 +744,7 @@ export class TransferHandler {
    */
   async previewExternalTransfer(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { usuario_id, cbu_destino, monto_transferencia } = req.body;
+      const { usuario_id, cbu_destino, monto_transferencia, moneda } = req.body;
 
       if (!usuario_id || !cbu_destino || !monto_transferencia) {
         throw new ValidationError(
@@ -653,7 +752,8 @@ export class TransferHandler {
         );
       }
 
-      if (monto_transferencia <= 0) {
+      const amount = Money.fromDecimal(monto_transferencia, parseCurrency(moneda));
+      if (!amount.isPositive()) {
         throw new ValidationError('Transfer amount must be greater than 0');
       }
 
@@ -664,11 +764,11 @@ export class TransferHandler {
       }
 
       // Get current balance
-      const saldo = await this.userAccountsService.getBalance(usuario_id);
-      const isWithinLimit = await this.bankingAPI.validateTransferLimit(usuario_id, monto_transferencia);
+      const saldo = await this.userAccountsService.getBalance(usuario_id, amount.moneda);
+      const isWithinLimit = await this.bankingAPI.validateTransferLimit(usuario_id, amount);
 
       // Perform fraud check
-      const fraudCheck = await this.performFraudCheckInternal(usuario_id, monto_transferencia, cbu_destino);
+      const fraudCheck = await this.performFraudCheckInternal(usuario_id, amount, cbu_destino);
 
       res.json({
         exito: true,
@@ -676,9 +776,10 @@ export class TransferHandler {
           usuario_id,
           cbu_destino: validation.cbu,
           banco_destino: validation.banco || validation.alias,
-          monto_transferencia,
+          moneda: amount.moneda,
+          monto_transferencia: amount,
           saldo_actual: saldo,
-          saldo_posterior: saldo - monto_transferencia,
+          saldo_posterior: saldo.subtract(amount),
           dentro_del_limite: isWithinLimit,
           riesgo_fraude: fraudCheck.factores_riesgo.length > 0 ? 'alto' : 'bajo',
           requiere_verificacion: fraudCheck.requiere_verificacion,
@@ -1,9 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
-import UserAccountsService from '@/services/UserAccountsService.js';
+import UserAccountsService, { listBalances } from '@/services/UserAccountsService.js';
+import LedgerService from '@/services/LedgerService.js';
+import { auditContext } from '@/middleware/auditContext.js';
 import { ValidationError, NotFoundError } from '@/errors/AppError.js';
+import { Currency, Money, parseCurrency } from '@/types/index.js';
 
 export class UserAccountsHandler {
   private userAccountsService = UserAccountsService;
+  private ledgerService = LedgerService;
 
   /**
    * Create a new user account
@@ -16,14 +20,15 @@ export class UserAccountsHandler {
         throw new ValidationError('Missing required field: usuario_id');
       }
 
-      const account = await this.userAccountsService.createUserAccount(usuario_id);
+      const account = await this.userAccountsService.createUserAccount(usuario_id, auditContext(req));
 
       res.status(201).json({
         exito: true,
         cuenta: {
           usuario_id: account.usuario_id,
           kyc_completo: account.kyc_completo,
-          saldo_disponible: account.saldo_disponible,
+          saldo_disponible: account.saldos[Currency.ARS],
+          saldos: listBalances(account),
           fecha_registro: account.fecha_registro,
           fecha_actualizacion: account.fecha_actualizacion,
         },
@@ -49,7 +54,8 @@ export class UserAccountsHandler {
       res.json({
         usuario_id: account.usuario_id,
         kyc_completo: account.kyc_completo,
-        saldo_disponible: account.saldo_disponible,
+        saldo_disponible: account.saldos[Currency.ARS],
+        saldos: listBalances(account),
         ingresos_declarados: account.ingresos_declarados,
         historial_mora: account.historial_mora,
         fecha_registro: account.fecha_registro,
@@ -61,23 +67,25 @@ export class UserAccountsHandler {
   }
 
   /**
-   * Add funds to account (simulating deposits)
+   * Add funds to account (simulating deposits). `moneda` defaults to ARS.
    */
   async addFunds(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { usuario_id, monto } = req.body;
+      const { usuario_id, monto, moneda } = req.body;
 
       if (!usuario_id || !monto) {
         throw new ValidationError('Missing required fields: usuario_id, monto');
       }
 
-      const updatedAccount = await this.userAccountsService.addFunds(usuario_id, monto);
+      const amount = Money.fromDecimal(monto, parseCurrency(moneda));
+      const updatedAccount = await this.userAccountsService.addFunds(usuario_id, amount, auditContext(req));
 
       res.json({
         exito: true,
         usuario_id,
-        monto_agregado: monto,
-        nuevo_saldo: updatedAccount.saldo_disponible,
+        moneda: amount.moneda,
+        monto_agregado: amount,
+        nuevo_saldo: updatedAccount.saldos[amount.moneda],
         fecha_actualizacion: updatedAccount.fecha_actualizacion,
       });
     } catch (error) {
@@ -86,7 +94,8 @@ export class UserAccountsHandler {
   }
 
   /**
-   * Get account balance
+   * Get account balance. `saldo_disponible` is the balance in `moneda` (query, default ARS);
+   * `saldos` lists every currency.
    */
   async getBalance(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -96,11 +105,72 @@ export class UserAccountsHandler {
         throw new ValidationError('Missing required parameter: usuario_id');
       }
 
-      const balance = await this.userAccountsService.getBalance(usuario_id);
+      const moneda = parseCurrency(req.query.moneda);
+      const saldos = await this.userAccountsService.getBalances(usuario_id);
 
       res.json({
         usuario_id,
-        saldo_disponible: balance,
+        moneda,
+        saldo_disponible: saldos.find((saldo) => saldo.moneda === moneda)?.saldo_disponible,
+        saldos,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Convert funds between the user's currency wallets at the reference rate
+   */
+  async convertCurrency(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { usuario_id, monto, moneda_origen, moneda_destino } = req.body;
+
+      if (!usuario_id || !monto || !moneda_origen || !moneda_destino) {
+        throw new ValidationError('Missing required fields: usuario_id, monto, moneda_origen, moneda_destino');
+      }
+
+      const amount = Money.fromDecimal(monto, parseCurrency(moneda_origen));
+      const conversion = await this.userAccountsService.convertCurrency(
+        usuario_id,
+        amount,
+        parseCurrency(moneda_destino),
+        auditContext(req)
+      );
+      const saldos = await this.userAccountsService.getBalances(usuario_id);
+
+      res.json({
+        exito: true,
+        conversion,
+        saldos,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get wallet movements of one currency (query `moneda`, default ARS) from the ledger and
+   * reconcile them with the stored balance
+   */
+  async getLedger(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { usuario_id } = req.params;
+
+      if (!usuario_id) {
+        throw new ValidationError('Missing required parameter: usuario_id');
+      }
+
+      const moneda = parseCurrency(req.query.moneda);
+      const conciliacion = await this.ledgerService.reconcileWallet(usuario_id, moneda);
+      const movimientos = await this.ledgerService.getWalletMovements(usuario_id, moneda);
+
+      res.json({
+        usuario_id,
+        moneda,
+        conciliacion,
+        cantidad_movimientos: movimientos.length,
+        movimientos,
       });
     } catch (error) {
       next(error);
@@ -118,7 +188,7 @@ export class UserAccountsHandler {
         throw new ValidationError('Missing required field: usuario_id');
       }
 
-      const updatedAccount = await this.userAccountsService.completeKYC(usuario_id);
+      const updatedAccount = await this.userAccountsService.completeKYC(usuario_id, auditContext(req));
 
       res.json({
         exito: true,
@@ -144,7 +214,8 @@ export class UserAccountsHandler {
 
       const updatedAccount = await this.userAccountsService.declareIncome(
         usuario_id,
-        ingresos_mensuales
+        Money.fromDecimal(ingresos_mensuales),
+        auditContext(req)
       );
 
       res.json({
@@ -169,7 +240,7 @@ export class UserAccountsHandler {
         throw new ValidationError('Missing required fields: usuario_id, score');
       }
 
-      const updatedAccount = await this.userAccountsService.setExternalScore(usuario_id, score);
+      const updatedAccount = await this.userAccountsService.setExternalScore(usuario_id, score, auditContext(req));
 
       res.json({
         exito: true,
@@ -3,6 +3,7 @@ import cors from 'cors';
 import { config } from './config/config';
 import { errorHandler, notFoundHandler } from './middleware/errorMiddleware.js';
 import routes from './routes/index.js';
+import { startCreditJobs } from './jobs/creditJobs.js';
 
 const app = express();
 
@@ -59,6 +60,7 @@ app.listen(PORT, () => {
 ╠════════════════════════════════════════════════════════════╣
 ║  Port: ${PORT.toString().padEnd(51)}║
 ║  Environment: ${config.server.nodeEnv.padEnd(48)}║
+║  Storage: ${config.storage.driver.padEnd(52)}║
 ║  Supabase URL: ${config.supabase.url.substring(0, 45).padEnd(48)}║
 ╚════════════════════════════════════════════════════════════╝
   `);
@@ -68,6 +70,11 @@ app.listen(PORT, () => {
   console.log('  - User Accounts: /api/accounts/*');
   console.log('  - Credits: /api/credits/*');
   console.log('  - Transfers: /api/transfers/*');
+
+  if (config.collections.schedulerEnabled) {
+    startCreditJobs();
+    console.log(`Credit jobs scheduled daily at ${config.collections.runHour}:00`);
+  }
 });
 
 export default app;
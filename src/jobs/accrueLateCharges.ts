@@ -0,0 +1,21 @@
+/**
+ * Run the late charge accrual once and print its report.
+ *
+ *   npm run accrue:late-charges [-- YYYY-MM-DD]
+ *
+ * The optional date is the last day to accrue (today by default). Exits with code 1 if the
+ * run could not complete.
+ */
+import LateChargesService from '@/services/LateChargesService.js';
+import { parseRunDate, summarizeLateChargeRun } from './creditJobs.js';
+
+async function main(): Promise<void> {
+  const report = await LateChargesService.runAccrual(parseRunDate(process.argv[2]));
+  console.log(JSON.stringify(report, null, 2));
+  console.log(summarizeLateChargeRun(report));
+}
+
+main().catch((error) => {
+  console.error('Late charge accrual failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,21 @@
+/**
+ * Run the installment collection once and print its report.
+ *
+ *   npm run collect:installments [-- YYYY-MM-DD]
+ *
+ * The optional date is the collection day (today by default): installments due by the end
+ * of that day are charged. Exits with code 1 if the run could not complete.
+ */
+import InstallmentCollectionService from '@/services/InstallmentCollectionService.js';
+import { parseRunDate, summarizeCollectionRun } from './creditJobs.js';
+
+async function main(): Promise<void> {
+  const report = await InstallmentCollectionService.runCollection(parseRunDate(process.argv[2]));
+  console.log(JSON.stringify(report, null, 2));
+  console.log(summarizeCollectionRun(report));
+}
+
+main().catch((error) => {
+  console.error('Installment collection run failed:', error);
+  process.exitCode = 1;
+});
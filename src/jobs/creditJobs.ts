@@ -0,0 +1,130 @@
+import { config } from '@/config/config.js';
+import {
+  CollectionRunReport,
+  DelinquencyRunReport,
+  LateChargeRunReport,
+  RevolvingStatementRunReport,
+} from '@/types/index.js';
+import { ValidationError } from '@/errors/AppError.js';
+import InstallmentCollectionService, {
+  InstallmentCollectionService as InstallmentCollectionServiceClass,
+} from '@/services/InstallmentCollectionService.js';
+import LateChargesService, { LateChargesService as LateChargesServiceClass } from '@/services/LateChargesService.js';
+import DelinquencyService, { DelinquencyService as DelinquencyServiceClass } from '@/services/DelinquencyService.js';
+import RevolvingCreditService, {
+  RevolvingCreditService as RevolvingCreditServiceClass,
+} from '@/services/RevolvingCreditService.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One-line summary of a late charge accrual for the logs
+ */
+export function summarizeLateChargeRun(report: LateChargeRunReport): string {
+  return (
+    `Late charge accrual ${report.id_ejecucion}: ${report.cuotas_vencidas} overdue installments, ` +
+    `${report.cargos_generados} charges accrued (${report.monto_devengado})`
+  );
+}
+
+/**
+ * One-line summary of a collection run for the logs
+ */
+export function summarizeCollectionRun(report: CollectionRunReport): string {
+  return (
+    `Installment collection ${report.id_ejecucion}: ${report.cuotas_procesadas} processed, ` +
+    `${report.cuotas_cobradas} collected (${report.monto_cobrado}), ${report.cuotas_fallidas} failed, ` +
+    `${report.cuotas_omitidas} skipped, ${report.reintentos_programados} retries scheduled, ` +
+    `${report.creditos_pagados.length} credits paid off`
+  );
+}
+
+/**
+ * One-line summary of a delinquency evaluation for the logs
+ */
+export function summarizeDelinquencyRun(report: DelinquencyRunReport): string {
+  return (
+    `Delinquency evaluation ${report.id_ejecucion}: ${report.creditos_evaluados} credits evaluated, ` +
+    `${report.creditos_en_mora} moved to en_mora, ${report.creditos_regularizados} cured, ` +
+    `${report.cambios_tramo} bucket changes`
+  );
+}
+
+/**
+ * One-line summary of a revolving statement run for the logs
+ */
+export function summarizeRevolvingStatementRun(report: RevolvingStatementRunReport): string {
+  return (
+    `Revolving statements ${report.id_ejecucion}: ${report.lineas_evaluadas} lines evaluated, ` +
+    `${report.resumenes_emitidos} statements issued (${report.monto_facturado})`
+  );
+}
+
+/**
+ * Read the optional YYYY-MM-DD run date of a job command (today by default)
+ */
+export function parseRunDate(value: string | undefined): Date {
+  if (!value) return new Date();
+
+  const fecha = new Date(`${value}T00:00:00`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(fecha.getTime())) {
+    throw new ValidationError(`Invalid date: ${value}. Expected YYYY-MM-DD`);
+  }
+  return fecha;
+}
+
+/**
+ * Milliseconds from `now` until the next run at `hour` local time
+ */
+function delayUntilNextRun(hour: number, now: Date = new Date()): number {
+  const next = new Date(now);
+  next.setHours(hour, 0, 0, 0);
+  if (next <= now) next.setTime(next.getTime() + DAY_MS);
+  return next.getTime() - now.getTime();
+}
+
+/**
+ * Run the daily credit jobs inside this process, in order: late charge accrual, installment
+ * collection (so debits include today's charges), delinquency evaluation (so arrears cured
+ * by today's debits are already reflected) and the revolving line statements closing today.
+ * Returns a function that stops the schedule.
+ */
+export function startCreditJobs(
+  lateChargesService: LateChargesServiceClass = LateChargesService,
+  collectionService: InstallmentCollectionServiceClass = InstallmentCollectionService,
+  delinquencyService: DelinquencyServiceClass = DelinquencyService,
+  revolvingCreditService: RevolvingCreditServiceClass = RevolvingCreditService,
+  hour: number = config.collections.runHour
+): () => void {
+  let timer: NodeJS.Timeout;
+
+  const schedule = (): void => {
+    timer = setTimeout(async () => {
+      try {
+        console.log(summarizeLateChargeRun(await lateChargesService.runAccrual()));
+      } catch (error) {
+        console.error('Late charge accrual failed:', error);
+      }
+      try {
+        console.log(summarizeCollectionRun(await collectionService.runCollection()));
+      } catch (error) {
+        console.error('Installment collection run failed:', error);
+      }
+      try {
+        console.log(summarizeDelinquencyRun(await delinquencyService.runEvaluation()));
+      } catch (error) {
+        console.error('Delinquency evaluation failed:', error);
+      }
+      try {
+        console.log(summarizeRevolvingStatementRun(await revolvingCreditService.runStatements()));
+      } catch (error) {
+        console.error('Revolving statement run failed:', error);
+      }
+      schedule();
+    }, delayUntilNextRun(hour));
+    timer.unref();
+  };
+
+  schedule();
+  return () => clearTimeout(timer);
+}
@@ -0,0 +1,21 @@
+/**
+ * Run the delinquency evaluation once and print its report.
+ *
+ *   npm run evaluate:delinquency [-- YYYY-MM-DD]
+ *
+ * The optional date is the evaluation day (today by default). Exits with code 1 if the run
+ * could not complete.
+ */
+import DelinquencyService from '@/services/DelinquencyService.js';
+import { parseRunDate, summarizeDelinquencyRun } from './creditJobs.js';
+
+async function main(): Promise<void> {
+  const report = await DelinquencyService.runEvaluation(parseRunDate(process.argv[2]));
+  console.log(JSON.stringify(report, null, 2));
+  console.log(summarizeDelinquencyRun(report));
+}
+
+main().catch((error) => {
+  console.error('Delinquency evaluation failed:', error);
+  process.exitCode = 1;
+});
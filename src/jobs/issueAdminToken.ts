@@ -0,0 +1,24 @@
+/**
+ * Print a token with the admin role for a user listed in ADMIN_USER_IDS.
+ *
+ *   npm run issue:admin-token -- <usuario_id>
+ *
+ * Admin tokens are only issued here: the login route never grants the role. Exits with code 1
+ * if the user is not an admin.
+ */
+import { generateAdminToken } from '@/middleware/authMiddleware.js';
+
+function main(): void {
+  const usuarioId = process.argv[2];
+  if (!usuarioId) {
+    throw new Error('Usage: npm run issue:admin-token -- <usuario_id>');
+  }
+  console.log(generateAdminToken(usuarioId));
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('Could not issue an admin token:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}
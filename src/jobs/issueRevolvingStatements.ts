@@ -0,0 +1,21 @@
+/**
+ * Issue the revolving line statements once and print the run report.
+ *
+ *   npm run issue:revolving-statements [-- YYYY-MM-DD]
+ *
+ * The optional date is the closing day (today by default): every monthly period that closed by
+ * then gets its statement. Exits with code 1 if the run could not complete.
+ */
+import RevolvingCreditService from '@/services/RevolvingCreditService.js';
+import { parseRunDate, summarizeRevolvingStatementRun } from './creditJobs.js';
+
+async function main(): Promise<void> {
+  const report = await RevolvingCreditService.runStatements(parseRunDate(process.argv[2]));
+  console.log(JSON.stringify(report, null, 2));
+  console.log(summarizeRevolvingStatementRun(report));
+}
+
+main().catch((error) => {
+  console.error('Revolving statement run failed:', error);
+  process.exitCode = 1;
+});
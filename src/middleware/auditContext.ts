@@ -0,0 +1,12 @@
+import { AuthenticatedRequest } from './authMiddleware.js';
+import { AuditContext } from '@/types/index.js';
+
+/**
+ * Who is making the request, for audit entries. The actor is the authenticated user
+ * (set by optionalAuth/verifyToken) or 'anonimo'.
+ */
+export const auditContext = (req: AuthenticatedRequest): AuditContext => ({
+  actor: req.usuario_id || 'anonimo',
+  ip: req.ip || req.socket?.remoteAddress || 'desconocida',
+  dispositivo: req.get('user-agent') || 'desconocido',
+});
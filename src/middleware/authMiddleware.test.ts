@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { config } from '@/config/config.js';
+import {
+  ADMIN_ROLE,
+  AuthenticatedRequest,
+  generateAdminToken,
+  generateToken,
+  requireAdmin,
+  verifyToken,
+} from './authMiddleware.js';
+
+function request(token: string): AuthenticatedRequest {
+  return { headers: { authorization: `Bearer ${token}` } } as AuthenticatedRequest;
+}
+
+function response() {
+  const res = { status: vi.fn(), json: vi.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+}
+
+// verifyToken followed by requireAdmin, as the admin routes chain them
+function authorize(token: string) {
+  const req = request(token);
+  const res = response();
+  const next = vi.fn();
+  verifyToken(req, res as unknown as Response, () => requireAdmin(req, res as unknown as Response, next));
+  return { res, next };
+}
+
+describe('requireAdmin', () => {
+  it('rejects a regular user with 403', () => {
+    const { res, next } = authorize(generateToken('usuario-1'));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ exito: false, code: 'FORBIDDEN' }));
+  });
+
+  it('lets an admin token through while its user is configured as an admin', () => {
+    config.jwt.adminUserIds.push('admin-configurado');
+    const token = generateAdminToken('admin-configurado');
+    try {
+      const { res, next } = authorize(token);
+
+      expect(next).toHaveBeenCalledOnce();
+      expect(res.status).not.toHaveBeenCalled();
+    } finally {
+      config.jwt.adminUserIds.pop();
+    }
+
+    expect(authorize(token).res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('never gives the admin role through login tokens', () => {
+    config.jwt.adminUserIds.push('admin-configurado');
+    try {
+      expect(jwt.decode(generateToken('admin-configurado'))).not.toHaveProperty('rol');
+      expect(authorize(generateToken('admin-configurado')).res.status).toHaveBeenCalledWith(403);
+      expect(() => generateAdminToken('usuario-2')).toThrow('not listed in ADMIN_USER_IDS');
+    } finally {
+      config.jwt.adminUserIds.pop();
+    }
+
+    const forjado = jwt.sign({ usuario_id: 'usuario-2', rol: ADMIN_ROLE }, config.jwt.secret);
+    expect(authorize(forjado).res.status).toHaveBeenCalledWith(403);
+  });
+});
@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { config } from '@/config/config.js';
-import { UnauthorizedError } from '@/errors/AppError.js';
+import { ForbiddenError, UnauthorizedError } from '@/errors/AppError.js';
+
+export const ADMIN_ROLE = 'admin';
 
 export interface AuthenticatedRequest extends Request {
   usuario_id?: string;
@@ -42,16 +44,47 @@ export const verifyToken = (req: AuthenticatedRequest, res: Response, next: Next
 };
 
 /**
- * Generate JWT token
+ * Only let through admins (see isAdmin). Runs after verifyToken.
+ */
+export const requireAdmin = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+  if (!isAdmin(req)) {
+    const error = new ForbiddenError('This operation requires the admin role');
+    res.status(error.statusCode).json({
+      exito: false,
+      error: error.message,
+      code: error.code,
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * The token has to carry the admin role and its usuario_id has to be listed in ADMIN_USER_IDS
+ * now, so removing an id there revokes the admin tokens already issued to it
+ */
+export const isAdmin = (req: AuthenticatedRequest): boolean =>
+  req.user?.rol === ADMIN_ROLE && !!req.usuario_id && config.jwt.adminUserIds.includes(req.usuario_id);
+
+/**
+ * Generate JWT token. It never carries the admin role: the login route issues these for any usuario_id.
  */
 export const generateToken = (usuarioId: string, expiresIn: string = config.jwt.expiresIn): string => {
-  return jwt.sign(
-    {
-      usuario_id: usuarioId,
-    },
-    config.jwt.secret as jwt.Secret,
-    { expiresIn } as jwt.SignOptions
-  );
+  return jwt.sign({ usuario_id: usuarioId }, config.jwt.secret as jwt.Secret, { expiresIn } as jwt.SignOptions);
+};
+
+/**
+ * Generate a JWT token with the admin role for a user listed in ADMIN_USER_IDS. Only the
+ * issue:admin-token command calls this; no route does.
+ */
+export const generateAdminToken = (usuarioId: string, expiresIn: string = config.jwt.expiresIn): string => {
+  if (!config.jwt.adminUserIds.includes(usuarioId)) {
+    throw new ForbiddenError(`User ${usuarioId} is not listed in ADMIN_USER_IDS`);
+  }
+  return jwt.sign({ usuario_id: usuarioId, rol: ADMIN_ROLE }, config.jwt.secret as jwt.Secret, {
+    expiresIn,
+  } as jwt.SignOptions);
 };
 
 /**
@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Request, Response } from 'express';
+import { IdempotencyError } from '@/errors/AppError.js';
+import { IDEMPOTENCY_HEADER, idempotent } from './idempotencyMiddleware.js';
+
+function request(clave: string | undefined, body: unknown): Request {
+  return {
+    method: 'POST',
+    baseUrl: '/api',
+    path: '/accounts/funds/add',
+    body,
+    header: (name: string) => (name === IDEMPOTENCY_HEADER ? clave : undefined),
+  } as unknown as Request;
+}
+
+function response() {
+  const res = {
+    statusCode: 200,
+    status: vi.fn(),
+    json: vi.fn(),
+    setHeader: vi.fn(),
+  };
+  res.status.mockImplementation((codigo: number) => {
+    res.statusCode = codigo;
+    return res;
+  });
+  return res;
+}
+
+// Runs the middleware and, when it hands over, a handler answering with `codigo` and `respuesta`
+async function send(clave: string | undefined, body: unknown, codigo = 201, respuesta: unknown = { exito: true }) {
+  const res = response();
+  const handler = vi.fn(() => res.status(codigo).json(respuesta));
+  const next = vi.fn((error?: unknown) => {
+    if (error === undefined) handler();
+  });
+
+  await idempotent(request(clave, body), res as unknown as Response, next);
+  // the response is persisted without blocking it
+  await new Promise((resolve) => setImmediate(resolve));
+
+  return { res, handler, next };
+}
+
+describe('idempotent', () => {
+  it('runs requests without a key as usual', async () => {
+    const primera = await send(undefined, { monto: 100 });
+    const segunda = await send(undefined, { monto: 100 });
+
+    expect(primera.handler).toHaveBeenCalledOnce();
+    expect(segunda.handler).toHaveBeenCalledOnce();
+  });
+
+  it('replays the stored response for a retry with the same key and payload', async () => {
+    await send('clave-repeticion', { monto: 100, moneda: 'ARS' }, 201, { exito: true, saldo: 100 });
+
+    const reintento = await send('clave-repeticion', { moneda: 'ARS', monto: 100 });
+
+    expect(reintento.handler).not.toHaveBeenCalled();
+    expect(reintento.res.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+    expect(reintento.res.status).toHaveBeenCalledWith(201);
+    expect(reintento.res.json).toHaveBeenCalledWith({ exito: true, saldo: 100 });
+  });
+
+  it('rejects the key with 409 when it comes back with a different payload', async () => {
+    await send('clave-otro-cuerpo', { monto: 100 });
+
+    const { handler, next } = await send('clave-otro-cuerpo', { monto: 200 });
+
+    expect(handler).not.toHaveBeenCalled();
+    const [error] = next.mock.calls[0] as unknown as [IdempotencyError];
+    expect(error).toBeInstanceOf(IdempotencyError);
+    expect(error.statusCode).toBe(409);
+  });
+
+  it('rejects a retry that arrives while the first request is still running', async () => {
+    // the first request is handed to its handler, which has not answered yet
+    const enCurso = vi.fn();
+    await idempotent(request('clave-en-curso', { monto: 100 }), response() as unknown as Response, enCurso);
+    expect(enCurso).toHaveBeenCalledWith();
+
+    const { handler, next } = await send('clave-en-curso', { monto: 100 });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(next.mock.calls[0][0]).toBeInstanceOf(IdempotencyError);
+  });
+
+  it('forgets the key after a server error so the client can retry', async () => {
+    await send('clave-error', { monto: 100 }, 502, { exito: false });
+
+    const reintento = await send('clave-error', { monto: 100 });
+
+    expect(reintento.handler).toHaveBeenCalledOnce();
+    expect(reintento.res.setHeader).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,44 @@
+import { Request, Response, NextFunction } from 'express';
+import IdempotencyService from '@/services/IdempotencyService.js';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Makes a money-moving endpoint safe to retry.
+ * Requests without an Idempotency-Key header run as usual. With a key, the first response
+ * is stored and replayed for later requests with the same key and payload. Server errors
+ * (5xx) are not stored, so the client can retry them with the same key.
+ */
+export const idempotent = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const clave = req.header(IDEMPOTENCY_HEADER);
+  if (clave === undefined) {
+    next();
+    return;
+  }
+
+  try {
+    const huella = IdempotencyService.fingerprint(req.method, req.baseUrl + req.path, req.body);
+    const stored = await IdempotencyService.begin(clave, huella);
+
+    if (stored) {
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(stored.codigo_respuesta || 200).json(stored.respuesta);
+      return;
+    }
+
+    const sendJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      const persist =
+        res.statusCode < 500
+          ? IdempotencyService.complete(clave, res.statusCode, body)
+          : IdempotencyService.release(clave);
+
+      persist.catch((error) => console.error(`Failed to persist Idempotency-Key ${clave}:`, error));
+      return sendJson(body);
+    };
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
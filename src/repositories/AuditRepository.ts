@@ -0,0 +1,51 @@
+import { getSupabaseAdmin } from '@/config/supabase.js';
+import { AuditLog, AuditLogFilter } from '@/types/index.js';
+import { DatabaseError } from '@/errors/AppError.js';
+import { IAuditRepository } from './interfaces.js';
+import { v4 as uuidv4 } from 'uuid';
+
+export class AuditRepository implements IAuditRepository {
+  private tableName = 'audit_logs';
+
+  async create(log: Omit<AuditLog, 'id_log' | 'fecha_creacion'>): Promise<AuditLog> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.tableName)
+        .insert([
+          {
+            id_log: uuidv4(),
+            ...log,
+            fecha_creacion: new Date(),
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      throw new DatabaseError(`Failed to write audit log: ${error}`);
+    }
+  }
+
+  async find(filter: AuditLogFilter): Promise<AuditLog[]> {
+    try {
+      let query = getSupabaseAdmin().from(this.tableName).select('*');
+
+      if (filter.usuario_id) query = query.eq('usuario_id', filter.usuario_id);
+      if (filter.id_credito) query = query.eq('id_credito', filter.id_credito);
+      if (filter.tipo_evento) query = query.eq('tipo_evento', filter.tipo_evento);
+      if (filter.desde) query = query.gte('fecha_creacion', filter.desde.toISOString());
+      if (filter.hasta) query = query.lte('fecha_creacion', filter.hasta.toISOString());
+
+      const { data, error } = await query
+        .order('fecha_creacion', { ascending: false })
+        .range(filter.offset, filter.offset + filter.limit - 1);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      throw new DatabaseError(`Failed to query audit logs: ${error}`);
+    }
+  }
+}
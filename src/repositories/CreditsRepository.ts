@@ -1,29 +1,88 @@
-import { supabaseAdmin } from '@/config/supabase.js';
-import { Credit, Installment, CreditStatus, InstallmentStatus } from '@/types/index.js';
+import { getSupabaseAdmin } from '@/config/supabase.js';
+import {
+  Credit,
+  CreditLimit,
+  Installment,
+  CreditStatus,
+  CreditStatusTransition,
+  DelinquencyBucket,
+  InstallmentStatus,
+  InstallmentCharge,
+  InstallmentReceipt,
+  PaymentRetry,
+  PaymentRetryStatus,
+  Money,
+} from '@/types/index.js';
 import { DatabaseError, NotFoundError } from '@/errors/AppError.js';
+import { CreditUpdate, ICreditsRepository, NewCredit } from './interfaces.js';
 import { v4 as uuidv4 } from 'uuid';
 
-export class CreditsRepository {
+// DECIMAL columns may come back from PostgREST as numbers or strings
+interface CreditRow extends Omit<Credit, 'monto_solicitado' | 'monto_total'> {
+  monto_solicitado: number | string;
+  monto_total: number | string;
+}
+
+type InstallmentAmount = 'importe_cuota' | 'capital' | 'interes' | 'iva' | 'gastos' | 'saldo_restante';
+
+interface InstallmentRow extends Omit<Installment, InstallmentAmount> {
+  importe_cuota: number | string;
+  capital: number | string;
+  interes: number | string;
+  iva: number | string;
+  gastos: number | string;
+  saldo_restante: number | string;
+}
+
+interface ChargeRow extends Omit<InstallmentCharge, 'monto'> {
+  monto: number | string;
+}
+
+interface ReceiptRow extends Omit<InstallmentReceipt, 'importe_cuota' | 'cargos' | 'monto'> {
+  importe_cuota: number | string;
+  cargos: number | string;
+  monto: number | string;
+}
+
+interface CreditLimitRow
+  extends Omit<CreditLimit, 'limite_total' | 'saldo_utilizado' | 'disponible' | 'ingresos_declarados'> {
+  limite_total: number | string;
+  saldo_utilizado: number | string;
+  disponible: number | string;
+  ingresos_declarados: number | string | null;
+}
+
+export class CreditsRepository implements ICreditsRepository {
   private creditTableName = 'creditos';
   private installmentTableName = 'cuotas';
+  private retryTableName = 'reintentos_cobro';
+  private chargeTableName = 'cargos_cuota';
+  private receiptTableName = 'comprobantes_cuota';
+  private transitionTableName = 'transiciones_estado_credito';
+  private limitTableName = 'limites_credito';
 
-  async createCredit(credit: Omit<Credit, 'id_credito' | 'fecha_creacion' | 'fecha_actualizacion'>): Promise<Credit> {
+  async createCredit(credit: NewCredit): Promise<Credit> {
     try {
       const creditData = {
         id_credito: uuidv4(),
         ...credit,
+        dias_mora: 0,
+        tramo_mora: DelinquencyBucket.CURRENT,
+        id_credito_refinanciacion: null,
+        id_transaccion_desembolso: null,
+        version: 0,
         fecha_creacion: new Date(),
         fecha_actualizacion: new Date(),
       };
 
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.creditTableName)
         .insert([creditData])
         .select()
         .single();
 
       if (error) throw error;
-      return data;
+      return this.toCredit(data);
     } catch (error) {
       throw new DatabaseError(`Failed to create credit: ${error}`);
     }
@@ -31,7 +90,7 @@ export class CreditsRepository {
 
   async findCreditById(creditId: string): Promise<Credit | null> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.creditTableName)
         .select('*')
         .eq('id_credito', creditId)
@@ -39,7 +98,7 @@ export class CreditsRepository {
 
       if (error && error.code !== 'PGRST116') throw error;
 
-      return data || null;
+      return data ? this.toCredit(data) : null;
     } catch (error) {
       throw new DatabaseError(`Failed to find credit: ${error}`);
     }
@@ -47,7 +106,7 @@ export class CreditsRepository {
 
   async findCreditsByUserId(userId: string): Promise<Credit[]> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.creditTableName)
         .select('*')
         .eq('usuario_id', userId)
@@ -55,37 +114,45 @@ export class CreditsRepository {
 
       if (error) throw error;
 
-      return data || [];
+      return (data || []).map((row) => this.toCredit(row));
     } catch (error) {
       throw new DatabaseError(`Failed to find credits for user: ${error}`);
     }
   }
 
-  async updateCreditStatus(creditId: string, status: CreditStatus): Promise<Credit> {
+  /**
+   * The estado filter makes the update conditional: when two requests race for the same
+   * transition, only the first one matches a row
+   */
+  async updateCreditStatus(
+    creditId: string,
+    from: CreditStatus,
+    to: CreditStatus,
+    updates: CreditUpdate = {}
+  ): Promise<Credit | null> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.creditTableName)
         .update({
-          estado: status,
+          ...updates,
+          estado: to,
           fecha_actualizacion: new Date(),
         })
         .eq('id_credito', creditId)
-        .select()
-        .single();
+        .eq('estado', from)
+        .select();
 
       if (error) throw error;
-      if (!data) throw new NotFoundError(`Credit ${creditId} not found`);
 
-      return data;
+      return data && data.length > 0 ? this.toCredit(data[0]) : null;
     } catch (error) {
-      if (error instanceof NotFoundError) throw error;
       throw new DatabaseError(`Failed to update credit status: ${error}`);
     }
   }
 
-  async updateCredit(creditId: string, updates: Partial<Credit>): Promise<Credit> {
+  async updateCredit(creditId: string, updates: CreditUpdate): Promise<Credit> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.creditTableName)
         .update({
           ...updates,
@@ -98,24 +165,33 @@ export class CreditsRepository {
       if (error) throw error;
       if (!data) throw new NotFoundError(`Credit ${creditId} not found`);
 
-      return data;
+      return this.toCredit(data);
     } catch (error) {
       if (error instanceof NotFoundError) throw error;
       throw new DatabaseError(`Failed to update credit: ${error}`);
     }
   }
 
-  async markCreditDisbursed(creditId: string): Promise<Credit> {
-    return this.updateCreditStatus(creditId, CreditStatus.DISBURSED);
-  }
+  async claimCredit(creditId: string, version: number): Promise<Credit | null> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.creditTableName)
+        .update({ version: version + 1, fecha_actualizacion: new Date() })
+        .eq('id_credito', creditId)
+        .eq('version', version)
+        .select();
+
+      if (error) throw error;
 
-  async markCreditInProgress(creditId: string): Promise<Credit> {
-    return this.updateCreditStatus(creditId, CreditStatus.IN_PROGRESS);
+      return data && data.length > 0 ? this.toCredit(data[0]) : null;
+    } catch (error) {
+      throw new DatabaseError(`Failed to claim credit: ${error}`);
+    }
   }
 
   async getActiveCreditsByUser(userId: string): Promise<Credit[]> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.creditTableName)
         .select('*')
         .eq('usuario_id', userId)
@@ -124,12 +200,28 @@ export class CreditsRepository {
 
       if (error) throw error;
 
-      return data || [];
+      return (data || []).map((row) => this.toCredit(row));
     } catch (error) {
       throw new DatabaseError(`Failed to get active credits: ${error}`);
     }
   }
 
+  async findCreditsByStatus(statuses: CreditStatus[]): Promise<Credit[]> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.creditTableName)
+        .select('*')
+        .in('estado', statuses)
+        .order('fecha_creacion', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map((row) => this.toCredit(row));
+    } catch (error) {
+      throw new DatabaseError(`Failed to find credits by status: ${error}`);
+    }
+  }
+
   // Installment operations
   async createInstallment(installment: Omit<Installment, 'id_cuota'>): Promise<Installment> {
     try {
@@ -138,7 +230,7 @@ export class CreditsRepository {
         ...installment,
       };
 
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.installmentTableName)
         .insert([installmentData])
         .select()
@@ -146,7 +238,7 @@ export class CreditsRepository {
 
       if (error) throw error;
 
-      return data;
+      return this.toInstallment(data);
     } catch (error) {
       throw new DatabaseError(`Failed to create installment: ${error}`);
     }
@@ -159,14 +251,14 @@ export class CreditsRepository {
         ...inst,
       }));
 
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.installmentTableName)
         .insert(installmentData)
         .select();
 
       if (error) throw error;
 
-      return data || [];
+      return (data || []).map((row) => this.toInstallment(row));
     } catch (error) {
       throw new DatabaseError(`Failed to create installment plan: ${error}`);
     }
@@ -174,7 +266,7 @@ export class CreditsRepository {
 
   async getInstallmentsByCredit(creditId: string): Promise<Installment[]> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.installmentTableName)
         .select('*')
         .eq('id_credito', creditId)
@@ -182,19 +274,17 @@ export class CreditsRepository {
 
       if (error) throw error;
 
-      return data || [];
+      return (data || []).map((row) => this.toInstallment(row));
     } catch (error) {
       throw new DatabaseError(`Failed to get installments: ${error}`);
     }
   }
 
-  async updateInstallmentStatus(installmentId: string, status: InstallmentStatus): Promise<Installment> {
+  async updateInstallment(installmentId: string, updates: Partial<Installment>): Promise<Installment> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.installmentTableName)
-        .update({
-          estado: status,
-        })
+        .update(updates)
         .eq('id_cuota', installmentId)
         .select()
         .single();
@@ -202,50 +292,376 @@ export class CreditsRepository {
       if (error) throw error;
       if (!data) throw new NotFoundError(`Installment ${installmentId} not found`);
 
-      return data;
+      return this.toInstallment(data);
     } catch (error) {
       if (error instanceof NotFoundError) throw error;
       throw new DatabaseError(`Failed to update installment: ${error}`);
     }
   }
 
-  async markInstallmentPaid(installmentId: string): Promise<Installment> {
-    return this.updateInstallmentStatus(installmentId, InstallmentStatus.PAID);
+  async updateInstallmentStatus(installmentId: string, status: InstallmentStatus): Promise<Installment> {
+    return this.updateInstallment(installmentId, { estado: status });
   }
 
-  async getPendingInstallments(): Promise<Installment[]> {
+  async updateInstallmentIf(
+    installmentId: string,
+    estado: InstallmentStatus,
+    updates: Partial<Installment>
+  ): Promise<Installment | null> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.installmentTableName)
+        .update(updates)
+        .eq('id_cuota', installmentId)
+        .eq('estado', estado)
+        .select();
+
+      if (error) throw error;
+
+      return data && data.length > 0 ? this.toInstallment(data[0]) : null;
+    } catch (error) {
+      throw new DatabaseError(`Failed to update installment: ${error}`);
+    }
+  }
+
+  /**
+   * The estado filter makes the update conditional: when the collection job and a payment by
+   * the borrower race for the same installment, only the first one matches the row
+   */
+  async markInstallmentPaid(installmentId: string): Promise<Installment | null> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.installmentTableName)
+        .update({ estado: InstallmentStatus.PAID, fecha_pago: new Date() })
+        .eq('id_cuota', installmentId)
+        .not('estado', 'in', `(${InstallmentStatus.PAID},${InstallmentStatus.CANCELED})`)
+        .select();
+
+      if (error) throw error;
+
+      return data && data.length > 0 ? this.toInstallment(data[0]) : null;
+    } catch (error) {
+      throw new DatabaseError(`Failed to mark installment paid: ${error}`);
+    }
+  }
+
+  async deleteInstallments(installmentIds: string[]): Promise<void> {
+    if (installmentIds.length === 0) return;
+
+    try {
+      const { error } = await getSupabaseAdmin()
+        .from(this.installmentTableName)
+        .delete()
+        .in('id_cuota', installmentIds);
+
+      if (error) throw error;
+    } catch (error) {
+      throw new DatabaseError(`Failed to delete installments: ${error}`);
+    }
+  }
+
+  async getPendingInstallments(dueBy: Date = new Date()): Promise<Installment[]> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
         .from(this.installmentTableName)
         .select('*')
         .eq('estado', InstallmentStatus.PENDING)
-        .lte('fecha_vencimiento', new Date());
+        .lte('fecha_vencimiento', dueBy.toISOString())
+        .order('fecha_vencimiento', { ascending: true });
 
       if (error) throw error;
 
-      return data || [];
+      return (data || []).map((row) => this.toInstallment(row));
     } catch (error) {
       throw new DatabaseError(`Failed to get pending installments: ${error}`);
     }
   }
 
-  async getOverdueInstallments(): Promise<Installment[]> {
+  async getOverdueInstallments(dueBefore: Date = new Date()): Promise<Installment[]> {
     try {
-      const threeDaysAgo = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
-
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.installmentTableName)
         .select('*')
-        .in('estado', [InstallmentStatus.UNPAID, InstallmentStatus.RETRYING])
-        .lt('fecha_vencimiento', threeDaysAgo);
+        .not('estado', 'in', `(${InstallmentStatus.PAID},${InstallmentStatus.CANCELED})`)
+        .lt('fecha_vencimiento', dueBefore.toISOString())
+        .order('fecha_vencimiento', { ascending: true });
 
       if (error) throw error;
 
-      return data || [];
+      return (data || []).map((row) => this.toInstallment(row));
     } catch (error) {
       throw new DatabaseError(`Failed to get overdue installments: ${error}`);
     }
   }
-}
 
-export default new CreditsRepository();
+  // Punitive interest and late fees
+  async createInstallmentCharges(
+    charges: Omit<InstallmentCharge, 'id_cargo' | 'fecha_creacion'>[]
+  ): Promise<InstallmentCharge[]> {
+    if (charges.length === 0) return [];
+
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.chargeTableName)
+        .insert(
+          charges.map((charge) => ({
+            id_cargo: uuidv4(),
+            ...charge,
+            fecha_creacion: new Date(),
+          }))
+        )
+        .select();
+
+      if (error) throw error;
+
+      return (data || []).map((row) => this.toCharge(row));
+    } catch (error) {
+      throw new DatabaseError(`Failed to create installment charges: ${error}`);
+    }
+  }
+
+  async getChargesByCredit(creditId: string): Promise<InstallmentCharge[]> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.chargeTableName)
+        .select('*')
+        .eq('id_credito', creditId)
+        .order('fecha_devengo', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map((row) => this.toCharge(row));
+    } catch (error) {
+      throw new DatabaseError(`Failed to get installment charges: ${error}`);
+    }
+  }
+
+  // Installment receipts
+  async createInstallmentReceipt(
+    receipt: Omit<InstallmentReceipt, 'id_comprobante' | 'fecha_creacion'>
+  ): Promise<InstallmentReceipt> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.receiptTableName)
+        .insert([
+          {
+            id_comprobante: uuidv4(),
+            ...receipt,
+            fecha_creacion: new Date(),
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return this.toReceipt(data);
+    } catch (error) {
+      throw new DatabaseError(`Failed to create installment receipt: ${error}`);
+    }
+  }
+
+  async getInstallmentReceiptsByCredit(creditId: string): Promise<InstallmentReceipt[]> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.receiptTableName)
+        .select('*')
+        .eq('id_credito', creditId)
+        .order('fecha_hora', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map((row) => this.toReceipt(row));
+    } catch (error) {
+      throw new DatabaseError(`Failed to get installment receipts: ${error}`);
+    }
+  }
+
+  // Payment retries
+  async createPaymentRetry(retry: Omit<PaymentRetry, 'id_reintento' | 'fecha_creacion'>): Promise<PaymentRetry> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.retryTableName)
+        .insert([
+          {
+            id_reintento: uuidv4(),
+            ...retry,
+            fecha_creacion: new Date(),
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return data;
+    } catch (error) {
+      throw new DatabaseError(`Failed to create payment retry: ${error}`);
+    }
+  }
+
+  async updatePaymentRetry(retryId: string, updates: Partial<PaymentRetry>): Promise<PaymentRetry> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.retryTableName)
+        .update(updates)
+        .eq('id_reintento', retryId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      if (!data) throw new NotFoundError(`Payment retry ${retryId} not found`);
+
+      return data;
+    } catch (error) {
+      if (error instanceof NotFoundError) throw error;
+      throw new DatabaseError(`Failed to update payment retry: ${error}`);
+    }
+  }
+
+  async getPaymentRetriesByCredit(creditId: string): Promise<PaymentRetry[]> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.retryTableName)
+        .select('*')
+        .eq('id_credito', creditId)
+        .order('fecha_programada', { ascending: true });
+
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      throw new DatabaseError(`Failed to get payment retries: ${error}`);
+    }
+  }
+
+  async getDuePaymentRetries(dueBy: Date): Promise<PaymentRetry[]> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.retryTableName)
+        .select('*')
+        .eq('estado', PaymentRetryStatus.SCHEDULED)
+        .lte('fecha_programada', dueBy.toISOString())
+        .order('fecha_programada', { ascending: true });
+
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      throw new DatabaseError(`Failed to get due payment retries: ${error}`);
+    }
+  }
+
+  // Status history
+  async saveCreditLimit(limit: CreditLimit): Promise<CreditLimit> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.limitTableName)
+        .upsert([limit], { onConflict: 'usuario_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return this.toCreditLimit(data);
+    } catch (error) {
+      throw new DatabaseError(`Failed to save credit limit: ${error}`);
+    }
+  }
+
+  async findCreditLimit(userId: string): Promise<CreditLimit | null> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.limitTableName)
+        .select('*')
+        .eq('usuario_id', userId)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+
+      return data ? this.toCreditLimit(data) : null;
+    } catch (error) {
+      throw new DatabaseError(`Failed to find credit limit: ${error}`);
+    }
+  }
+
+  async createStatusTransition(
+    transition: Omit<CreditStatusTransition, 'id_transicion'>
+  ): Promise<CreditStatusTransition> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.transitionTableName)
+        .insert([{ id_transicion: uuidv4(), ...transition }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return data;
+    } catch (error) {
+      throw new DatabaseError(`Failed to record credit status transition: ${error}`);
+    }
+  }
+
+  async getStatusTransitionsByCredit(creditId: string): Promise<CreditStatusTransition[]> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.transitionTableName)
+        .select('*')
+        .eq('id_credito', creditId)
+        .order('fecha_transicion', { ascending: true });
+
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      throw new DatabaseError(`Failed to get credit status transitions: ${error}`);
+    }
+  }
+
+  private toCredit(row: CreditRow): Credit {
+    return {
+      ...row,
+      monto_solicitado: Money.fromDecimal(row.monto_solicitado),
+      monto_total: Money.fromDecimal(row.monto_total),
+    };
+  }
+
+  private toInstallment(row: InstallmentRow): Installment {
+    return {
+      ...row,
+      importe_cuota: Money.fromDecimal(row.importe_cuota),
+      capital: Money.fromDecimal(row.capital),
+      interes: Money.fromDecimal(row.interes),
+      iva: Money.fromDecimal(row.iva),
+      gastos: Money.fromDecimal(row.gastos),
+      saldo_restante: Money.fromDecimal(row.saldo_restante),
+    };
+  }
+
+  private toCharge(row: ChargeRow): InstallmentCharge {
+    return {
+      ...row,
+      monto: Money.fromDecimal(row.monto),
+    };
+  }
+
+  private toCreditLimit(row: CreditLimitRow): CreditLimit {
+    return {
+      ...row,
+      limite_total: Money.fromDecimal(row.limite_total),
+      saldo_utilizado: Money.fromDecimal(row.saldo_utilizado),
+      disponible: Money.fromDecimal(row.disponible),
+      ingresos_declarados: row.ingresos_declarados === null ? null : Money.fromDecimal(row.ingresos_declarados),
+    };
+  }
+
+  private toReceipt(row: ReceiptRow): InstallmentReceipt {
+    return {
+      ...row,
+      importe_cuota: Money.fromDecimal(row.importe_cuota),
+      cargos: Money.fromDecimal(row.cargos),
+      monto: Money.fromDecimal(row.monto),
+    };
+  }
+}
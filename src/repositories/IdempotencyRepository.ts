@@ -0,0 +1,66 @@
+import { getSupabaseAdmin } from '@/config/supabase.js';
+import { IdempotencyRecord, IdempotencyStatus } from '@/types/index.js';
+import { DatabaseError } from '@/errors/AppError.js';
+import { IIdempotencyRepository } from './interfaces.js';
+
+export class IdempotencyRepository implements IIdempotencyRepository {
+  private tableName = 'claves_idempotencia';
+
+  /**
+   * Relies on the primary key on `clave`: of two concurrent requests with the same key
+   * only one insert succeeds, the other one reads the winner's record.
+   */
+  async reserve(record: IdempotencyRecord): Promise<IdempotencyRecord | null> {
+    try {
+      // Expired keys may be reused
+      const { error: purgeError } = await getSupabaseAdmin()
+        .from(this.tableName)
+        .delete()
+        .eq('clave', record.clave)
+        .lt('fecha_vencimiento', new Date().toISOString());
+
+      if (purgeError) throw purgeError;
+
+      const { error } = await getSupabaseAdmin().from(this.tableName).insert([record]);
+      if (!error) return null;
+      if (error.code !== '23505') throw error;
+
+      const { data, error: selectError } = await getSupabaseAdmin()
+        .from(this.tableName)
+        .select('*')
+        .eq('clave', record.clave)
+        .single();
+
+      if (selectError) throw selectError;
+      return data;
+    } catch (error) {
+      throw new DatabaseError(`Failed to reserve idempotency key: ${error}`);
+    }
+  }
+
+  async complete(clave: string, codigoRespuesta: number, respuesta: unknown): Promise<void> {
+    try {
+      const { error } = await getSupabaseAdmin()
+        .from(this.tableName)
+        .update({
+          estado: IdempotencyStatus.COMPLETED,
+          codigo_respuesta: codigoRespuesta,
+          respuesta,
+        })
+        .eq('clave', clave);
+
+      if (error) throw error;
+    } catch (error) {
+      throw new DatabaseError(`Failed to store idempotent response: ${error}`);
+    }
+  }
+
+  async release(clave: string): Promise<void> {
+    try {
+      const { error } = await getSupabaseAdmin().from(this.tableName).delete().eq('clave', clave);
+      if (error) throw error;
+    } catch (error) {
+      throw new DatabaseError(`Failed to release idempotency key: ${error}`);
+    }
+  }
+}
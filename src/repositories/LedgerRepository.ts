@@ -0,0 +1,153 @@
+import { getSupabaseAdmin } from '@/config/supabase.js';
+import { LedgerEntry, Money, parseCurrency } from '@/types/index.js';
+import { DatabaseError, IdempotencyError, InsufficientFundsError, LedgerError, NotFoundError } from '@/errors/AppError.js';
+import { ILedgerRepository, LedgerPosting, WalletAdjustment } from './interfaces.js';
+
+interface LedgerLineRow {
+  id_linea: string;
+  id_asiento: string;
+  cuenta: string;
+  moneda: string;
+  debito: number | string;
+  credito: number | string;
+}
+
+interface LedgerEntryRow extends Omit<LedgerEntry, 'lineas'> {
+  lineas_asiento: LedgerLineRow[];
+}
+
+export class LedgerRepository implements ILedgerRepository {
+  private entryTableName = 'asientos_contables';
+  private lineTableName = 'lineas_asiento';
+
+  /**
+   * Write the entry and apply the wallet adjustments in one database transaction.
+   * The post_ledger_entry function debits saldos_billetera with `saldo_disponible + delta >= 0`
+   * as the update condition, so concurrent debits cannot overdraw a wallet.
+   */
+  async postEntry(
+    entry: Omit<LedgerEntry, 'id_asiento' | 'fecha_creacion'>,
+    ajustes: WalletAdjustment[]
+  ): Promise<LedgerPosting> {
+    try {
+      const { data, error } = await getSupabaseAdmin().rpc('post_ledger_entry', {
+        p_asiento: {
+          ...entry,
+          lineas: entry.lineas.map((line) => ({ ...line, moneda: line.debito.moneda })),
+        },
+        p_ajustes: ajustes.map((ajuste) => ({ ...ajuste, moneda: ajuste.delta.moneda })),
+      });
+
+      if (error) throw error;
+
+      // data.saldos: { usuario_id: { moneda: saldo } }
+      const saldos: LedgerPosting['saldos'] = {};
+      for (const [userId, porMoneda] of Object.entries(data.saldos || {})) {
+        saldos[userId] = {};
+        for (const [codigo, saldo] of Object.entries(porMoneda as Record<string, number | string>)) {
+          const moneda = parseCurrency(codigo);
+          saldos[userId][moneda] = Money.fromDecimal(saldo, moneda);
+        }
+      }
+
+      return {
+        asiento: {
+          ...entry,
+          id_asiento: data.id_asiento,
+          fecha_creacion: new Date(data.fecha_creacion),
+        },
+        saldos,
+      };
+    } catch (error) {
+      const message = (error as { message?: string })?.message || '';
+      if (message.includes('INSUFFICIENT_FUNDS')) throw new InsufficientFundsError();
+      if (message.includes('ACCOUNT_NOT_FOUND')) throw new NotFoundError(`User account not found: ${message}`);
+      if (message.includes('ALREADY_REVERSED')) {
+        throw new LedgerError(`Ledger entry ${entry.id_asiento_reversado} was already reversed`);
+      }
+      if (message.includes('DUPLICATE_OPERATION')) {
+        throw new IdempotencyError(`Operation ${entry.clave_idempotencia} was already posted to the ledger`);
+      }
+      throw new DatabaseError(`Failed to post ledger entry: ${error}`);
+    }
+  }
+
+  /**
+   * Retrieve a journal entry by ID
+   */
+  async getEntryById(entryId: string): Promise<LedgerEntry | null> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.entryTableName)
+        .select('*, lineas_asiento(*)')
+        .eq('id_asiento', entryId)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data ? this.toEntry(data) : null;
+    } catch (error) {
+      throw new DatabaseError(`Failed to get ledger entry: ${error}`);
+    }
+  }
+
+  /**
+   * List every journal entry that has a line on the given account
+   */
+  async getEntriesByAccount(cuenta: string): Promise<LedgerEntry[]> {
+    try {
+      const { data: lines, error: linesError } = await getSupabaseAdmin()
+        .from(this.lineTableName)
+        .select('id_asiento')
+        .eq('cuenta', cuenta);
+
+      if (linesError) throw linesError;
+
+      const entryIds = [...new Set((lines || []).map((line: { id_asiento: string }) => line.id_asiento))];
+      if (entryIds.length === 0) return [];
+
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.entryTableName)
+        .select('*, lineas_asiento(*)')
+        .in('id_asiento', entryIds)
+        .order('fecha_creacion', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map((row: LedgerEntryRow) => this.toEntry(row));
+    } catch (error) {
+      throw new DatabaseError(`Failed to get ledger entries for account: ${error}`);
+    }
+  }
+
+  /**
+   * List journal entries posted for a business reference (credit, transfer, installment)
+   */
+  async getEntriesByReference(referenciaId: string): Promise<LedgerEntry[]> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.entryTableName)
+        .select('*, lineas_asiento(*)')
+        .eq('referencia_id', referenciaId)
+        .order('fecha_creacion', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map((row: LedgerEntryRow) => this.toEntry(row));
+    } catch (error) {
+      throw new DatabaseError(`Failed to get ledger entries by reference: ${error}`);
+    }
+  }
+
+  private toEntry(row: LedgerEntryRow): LedgerEntry {
+    const { lineas_asiento, ...header } = row;
+    return {
+      ...header,
+      lineas: (lineas_asiento || []).map((line) => {
+        const moneda = parseCurrency(line.moneda);
+        return {
+          cuenta: line.cuenta,
+          debito: Money.fromDecimal(line.debito, moneda),
+          credito: Money.fromDecimal(line.credito, moneda),
+        };
+      }),
+    };
+  }
+}
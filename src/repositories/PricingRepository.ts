@@ -0,0 +1,92 @@
+import { getSupabaseAdmin } from '@/config/supabase.js';
+import { CreditType, RateTable } from '@/types/index.js';
+import { DatabaseError } from '@/errors/AppError.js';
+import { IPricingRepository } from './interfaces.js';
+import { v4 as uuidv4 } from 'uuid';
+
+// DECIMAL columns may come back from PostgREST as numbers or strings
+interface RateTableRow extends Omit<RateTable, 'gastos_administrativos'> {
+  gastos_administrativos: number | string;
+}
+
+export class PricingRepository implements IPricingRepository {
+  private tableName = 'tablas_tasas';
+
+  async createRateTable(table: Omit<RateTable, 'id_tabla_tasas' | 'fecha_creacion'>): Promise<RateTable> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.tableName)
+        .insert([
+          {
+            id_tabla_tasas: uuidv4(),
+            ...table,
+            fecha_creacion: new Date(),
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return this.toRateTable(data);
+    } catch (error) {
+      throw new DatabaseError(`Failed to create rate table: ${error}`);
+    }
+  }
+
+  async findRateTableById(tableId: string): Promise<RateTable | null> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.tableName)
+        .select('*')
+        .eq('id_tabla_tasas', tableId)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+
+      return data ? this.toRateTable(data) : null;
+    } catch (error) {
+      throw new DatabaseError(`Failed to find rate table: ${error}`);
+    }
+  }
+
+  async getRateTables(tipo?: CreditType): Promise<RateTable[]> {
+    try {
+      let query = getSupabaseAdmin().from(this.tableName).select('*');
+      if (tipo) query = query.eq('tipo_credito', tipo);
+
+      const { data, error } = await query
+        .order('tipo_credito', { ascending: true })
+        .order('version', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map((row) => this.toRateTable(row));
+    } catch (error) {
+      throw new DatabaseError(`Failed to get rate tables: ${error}`);
+    }
+  }
+
+  async findEffectiveRateTable(tipo: CreditType, fecha: Date): Promise<RateTable | null> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.tableName)
+        .select('*')
+        .eq('tipo_credito', tipo)
+        .lte('vigencia_desde', fecha.toISOString())
+        .order('vigencia_desde', { ascending: false })
+        .order('version', { ascending: false })
+        .limit(1);
+
+      if (error) throw error;
+      return data && data.length > 0 ? this.toRateTable(data[0]) : null;
+    } catch (error) {
+      throw new DatabaseError(`Failed to find effective rate table: ${error}`);
+    }
+  }
+
+  private toRateTable(row: RateTableRow): RateTable {
+    return {
+      ...row,
+      gastos_administrativos: Number(row.gastos_administrativos),
+    };
+  }
+}
@@ -0,0 +1,311 @@
+import { getSupabaseAdmin } from '@/config/supabase.js';
+import { Money, RevolvingLine, RevolvingLineStatus, RevolvingMovement, RevolvingStatement } from '@/types/index.js';
+import { DatabaseError, NotFoundError } from '@/errors/AppError.js';
+import { IRevolvingLinesRepository, NewRevolvingLine, RevolvingPaymentSplit } from './interfaces.js';
+import { v4 as uuidv4 } from 'uuid';
+
+// DECIMAL columns may come back from PostgREST as numbers or strings
+interface LineRow extends Omit<RevolvingLine, 'limite_aprobado' | 'saldo_capital' | 'saldo_intereses'> {
+  limite_aprobado: number | string;
+  saldo_capital: number | string;
+  saldo_intereses: number | string;
+}
+
+interface MovementRow extends Omit<RevolvingMovement, 'monto'> {
+  monto: number | string;
+}
+
+type StatementAmount =
+  | 'saldo_anterior'
+  | 'disposiciones'
+  | 'pagos'
+  | 'intereses'
+  | 'iva'
+  | 'saldo_total'
+  | 'pago_minimo';
+
+interface StatementRow extends Omit<RevolvingStatement, StatementAmount> {
+  saldo_anterior: number | string;
+  disposiciones: number | string;
+  pagos: number | string;
+  intereses: number | string;
+  iva: number | string;
+  saldo_total: number | string;
+  pago_minimo: number | string;
+}
+
+export class RevolvingLinesRepository implements IRevolvingLinesRepository {
+  private lineTableName = 'lineas_revolventes';
+  private movementTableName = 'movimientos_linea';
+  private statementTableName = 'resumenes_linea';
+
+  async createLine(line: NewRevolvingLine): Promise<RevolvingLine> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.lineTableName)
+        .insert([
+          {
+            id_linea: uuidv4(),
+            ...line,
+            fecha_apertura: new Date(),
+            fecha_cierre: null,
+            fecha_actualizacion: new Date(),
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return this.toLine(data);
+    } catch (error) {
+      throw new DatabaseError(`Failed to create revolving line: ${error}`);
+    }
+  }
+
+  async findLineById(lineId: string): Promise<RevolvingLine | null> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.lineTableName)
+        .select('*')
+        .eq('id_linea', lineId)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+
+      return data ? this.toLine(data) : null;
+    } catch (error) {
+      throw new DatabaseError(`Failed to find revolving line: ${error}`);
+    }
+  }
+
+  async findLinesByUser(userId: string): Promise<RevolvingLine[]> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.lineTableName)
+        .select('*')
+        .eq('usuario_id', userId)
+        .order('fecha_apertura', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map((row) => this.toLine(row));
+    } catch (error) {
+      throw new DatabaseError(`Failed to find revolving lines for user: ${error}`);
+    }
+  }
+
+  async getActiveLines(): Promise<RevolvingLine[]> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.lineTableName)
+        .select('*')
+        .eq('estado', RevolvingLineStatus.ACTIVE)
+        .order('fecha_apertura', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map((row) => this.toLine(row));
+    } catch (error) {
+      throw new DatabaseError(`Failed to get active revolving lines: ${error}`);
+    }
+  }
+
+  /**
+   * The balance changes run as database functions (section 30 of the migration) that check
+   * their condition and write in one statement; they return no row when it does not hold.
+   */
+  async drawDown(lineId: string, monto: Money): Promise<RevolvingLine | null> {
+    try {
+      const { data, error } = await getSupabaseAdmin().rpc('revolving_line_draw_down', {
+        p_id_linea: lineId,
+        p_monto: monto,
+      });
+
+      if (error) throw error;
+      const [row] = (data || []) as LineRow[];
+      return row ? this.toLine(row) : null;
+    } catch (error) {
+      throw new DatabaseError(`Failed to draw from revolving line: ${error}`);
+    }
+  }
+
+  async applyPayment(lineId: string, monto: Money): Promise<RevolvingPaymentSplit | null> {
+    try {
+      const { data, error } = await getSupabaseAdmin().rpc('revolving_line_apply_payment', {
+        p_id_linea: lineId,
+        p_monto: monto,
+      });
+
+      if (error) throw error;
+      if (!data) return null;
+
+      return {
+        linea: this.toLine(data.linea),
+        aplicado_intereses: Money.fromDecimal(data.aplicado_intereses),
+        aplicado_capital: Money.fromDecimal(data.aplicado_capital),
+      };
+    } catch (error) {
+      throw new DatabaseError(`Failed to apply revolving line payment: ${error}`);
+    }
+  }
+
+  async adjustBalances(lineId: string, capital: Money, intereses: Money): Promise<RevolvingLine> {
+    try {
+      const { data, error } = await getSupabaseAdmin().rpc('revolving_line_adjust_balances', {
+        p_id_linea: lineId,
+        p_capital: capital,
+        p_intereses: intereses,
+      });
+
+      if (error) throw error;
+      const [row] = (data || []) as LineRow[];
+      if (!row) throw new NotFoundError(`Revolving line ${lineId} not found`);
+
+      return this.toLine(row);
+    } catch (error) {
+      if (error instanceof NotFoundError) throw error;
+      throw new DatabaseError(`Failed to adjust revolving line balances: ${error}`);
+    }
+  }
+
+  async accrueInterest(
+    lineId: string,
+    desde: Date,
+    hasta: Date,
+    devengos: Omit<RevolvingMovement, 'id_movimiento'>[]
+  ): Promise<RevolvingLine | null> {
+    try {
+      const { data, error } = await getSupabaseAdmin().rpc('revolving_line_accrue_interest', {
+        p_id_linea: lineId,
+        p_desde: desde.toISOString(),
+        p_hasta: hasta.toISOString(),
+        p_movimientos: devengos,
+      });
+
+      if (error) throw error;
+      const [row] = (data || []) as LineRow[];
+      return row ? this.toLine(row) : null;
+    } catch (error) {
+      throw new DatabaseError(`Failed to accrue revolving line interest: ${error}`);
+    }
+  }
+
+  async closeLine(lineId: string): Promise<RevolvingLine | null> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.lineTableName)
+        .update({
+          estado: RevolvingLineStatus.CLOSED,
+          fecha_cierre: new Date(),
+          fecha_actualizacion: new Date(),
+        })
+        .eq('id_linea', lineId)
+        .eq('estado', RevolvingLineStatus.ACTIVE)
+        .eq('saldo_capital', 0)
+        .eq('saldo_intereses', 0)
+        .select();
+
+      if (error) throw error;
+      const [row] = (data || []) as LineRow[];
+      return row ? this.toLine(row) : null;
+    } catch (error) {
+      throw new DatabaseError(`Failed to close revolving line: ${error}`);
+    }
+  }
+
+  async createMovements(movements: Omit<RevolvingMovement, 'id_movimiento'>[]): Promise<RevolvingMovement[]> {
+    if (movements.length === 0) return [];
+
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.movementTableName)
+        .insert(movements.map((movement) => ({ id_movimiento: uuidv4(), ...movement })))
+        .select();
+
+      if (error) throw error;
+      return (data || []).map((row) => this.toMovement(row));
+    } catch (error) {
+      throw new DatabaseError(`Failed to create revolving line movements: ${error}`);
+    }
+  }
+
+  async getMovementsByLine(lineId: string, desde?: Date, hasta?: Date): Promise<RevolvingMovement[]> {
+    try {
+      let query = getSupabaseAdmin().from(this.movementTableName).select('*').eq('id_linea', lineId);
+      if (desde) query = query.gt('fecha', desde.toISOString());
+      if (hasta) query = query.lte('fecha', hasta.toISOString());
+
+      const { data, error } = await query.order('fecha', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map((row) => this.toMovement(row));
+    } catch (error) {
+      throw new DatabaseError(`Failed to get revolving line movements: ${error}`);
+    }
+  }
+
+  async createStatement(
+    statement: Omit<RevolvingStatement, 'id_resumen' | 'fecha_emision'>
+  ): Promise<RevolvingStatement> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.statementTableName)
+        .insert([
+          {
+            id_resumen: uuidv4(),
+            ...statement,
+            fecha_emision: new Date(),
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return this.toStatement(data);
+    } catch (error) {
+      throw new DatabaseError(`Failed to create revolving line statement: ${error}`);
+    }
+  }
+
+  async getStatementsByLine(lineId: string): Promise<RevolvingStatement[]> {
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from(this.statementTableName)
+        .select('*')
+        .eq('id_linea', lineId)
+        .order('periodo_hasta', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map((row) => this.toStatement(row));
+    } catch (error) {
+      throw new DatabaseError(`Failed to get revolving line statements: ${error}`);
+    }
+  }
+
+  private toLine(row: LineRow): RevolvingLine {
+    return {
+      ...row,
+      limite_aprobado: Money.fromDecimal(row.limite_aprobado),
+      saldo_capital: Money.fromDecimal(row.saldo_capital),
+      saldo_intereses: Money.fromDecimal(row.saldo_intereses),
+    };
+  }
+
+  private toMovement(row: MovementRow): RevolvingMovement {
+    return {
+      ...row,
+      monto: Money.fromDecimal(row.monto),
+    };
+  }
+
+  private toStatement(row: StatementRow): RevolvingStatement {
+    return {
+      ...row,
+      saldo_anterior: Money.fromDecimal(row.saldo_anterior),
+      disposiciones: Money.fromDecimal(row.disposiciones),
+      pagos: Money.fromDecimal(row.pagos),
+      intereses: Money.fromDecimal(row.intereses),
+      iva: Money.fromDecimal(row.iva),
+      saldo_total: Money.fromDecimal(row.saldo_total),
+      pago_minimo: Money.fromDecimal(row.pago_minimo),
+    };
+  }
+}
@@ -1,9 +1,21 @@
-import { supabaseAdmin } from '@/config/supabase.js';
-import { Transfer, Comprobante, TransferStatus } from '@/types/index.js';
+import { getSupabaseAdmin } from '@/config/supabase.js';
+import { Transfer, Comprobante, TransferStatus, Money, parseCurrency } from '@/types/index.js';
 import { DatabaseError, NotFoundError } from '@/errors/AppError.js';
+import { ITransfersRepository } from './interfaces.js';
 import { v4 as uuidv4 } from 'uuid';
 
-export class TransfersRepository {
+// DECIMAL columns may come back from PostgREST as numbers or strings; the currency is a separate column
+interface TransferRow extends Omit<Transfer, 'monto'> {
+  monto: number | string;
+  moneda: string;
+}
+
+interface ComprobanteRow extends Omit<Comprobante, 'monto'> {
+  monto: number | string;
+  moneda: string;
+}
+
+export class TransfersRepository implements ITransfersRepository {
   private transferTableName = 'transferencias';
   private comprobanteTableName = 'comprobantes';
 
@@ -17,18 +29,19 @@ export class TransfersRepository {
       const transferData = {
         id_transferencia: uuidv4(),
         ...data,
+        moneda: data.monto.moneda,
         fecha_creacion: new Date(),
         fecha_actualizacion: new Date(),
       };
 
-      const { data: result, error } = await supabaseAdmin
+      const { data: result, error } = await getSupabaseAdmin()
         .from(this.transferTableName)
         .insert([transferData])
         .select()
         .single();
 
       if (error) throw error;
-      return result;
+      return this.toTransfer(result);
     } catch (error) {
       throw new DatabaseError(`Failed to create transfer: ${error}`);
     }
@@ -39,14 +52,14 @@ export class TransfersRepository {
    */
   async getTransferById(transferId: string): Promise<Transfer | null> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.transferTableName)
         .select('*')
         .eq('id_transferencia', transferId)
         .single();
 
       if (error && error.code !== 'PGRST116') throw error;
-      return data || null;
+      return data ? this.toTransfer(data) : null;
     } catch (error) {
       throw new DatabaseError(`Failed to get transfer: ${error}`);
     }
@@ -61,7 +74,7 @@ export class TransfersRepository {
     offset: number = 0
   ): Promise<Transfer[]> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.transferTableName)
         .select('*')
         .or(`usuario_id_origen.eq.${userId},usuario_id_destino.eq.${userId}`)
@@ -69,7 +82,7 @@ export class TransfersRepository {
         .range(offset, offset + limit - 1);
 
       if (error) throw error;
-      return data || [];
+      return (data || []).map((row) => this.toTransfer(row));
     } catch (error) {
       throw new DatabaseError(`Failed to get transfers for user: ${error}`);
     }
@@ -80,7 +93,7 @@ export class TransfersRepository {
    */
   async updateTransferStatus(transferId: string, status: TransferStatus): Promise<Transfer> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.transferTableName)
         .update({
           estado: status,
@@ -92,7 +105,7 @@ export class TransfersRepository {
 
       if (error) throw error;
       if (!data) throw new NotFoundError('Transfer not found');
-      return data;
+      return this.toTransfer(data);
     } catch (error) {
       throw new DatabaseError(`Failed to update transfer status: ${error}`);
     }
@@ -109,17 +122,18 @@ export class TransfersRepository {
       const data = {
         id_comprobante: uuidv4(),
         ...comprobanteData,
+        moneda: comprobanteData.monto.moneda,
         fecha_creacion: new Date(),
       };
 
-      const { data: result, error } = await supabaseAdmin
+      const { data: result, error } = await getSupabaseAdmin()
         .from(this.comprobanteTableName)
         .insert([data])
         .select()
         .single();
 
       if (error) throw error;
-      return result;
+      return this.toComprobante(result);
     } catch (error) {
       throw new DatabaseError(`Failed to create comprobante: ${error}`);
     }
@@ -130,14 +144,14 @@ export class TransfersRepository {
    */
   async getComprobanteByTransferId(transferId: string): Promise<Comprobante | null> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.comprobanteTableName)
         .select('*')
         .eq('id_transferencia', transferId)
         .single();
 
       if (error && error.code !== 'PGRST116') throw error;
-      return data || null;
+      return data ? this.toComprobante(data) : null;
     } catch (error) {
       throw new DatabaseError(`Failed to get comprobante: ${error}`);
     }
@@ -148,14 +162,14 @@ export class TransfersRepository {
    */
   async getComprobanteById(comprobanteId: string): Promise<Comprobante | null> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.comprobanteTableName)
         .select('*')
         .eq('id_comprobante', comprobanteId)
         .single();
 
       if (error && error.code !== 'PGRST116') throw error;
-      return data || null;
+      return data ? this.toComprobante(data) : null;
     } catch (error) {
       throw new DatabaseError(`Failed to get comprobante by ID: ${error}`);
     }
@@ -170,7 +184,7 @@ export class TransfersRepository {
     estado: 'generado' | 'disponible' | 'expirado' = 'disponible'
   ): Promise<Comprobante> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.comprobanteTableName)
         .update({
           pdf_url: pdfUrl,
@@ -183,7 +197,7 @@ export class TransfersRepository {
 
       if (error) throw error;
       if (!data) throw new NotFoundError('Comprobante not found');
-      return data;
+      return this.toComprobante(data);
     } catch (error) {
       throw new DatabaseError(`Failed to update comprobante URL: ${error}`);
     }
@@ -194,7 +208,7 @@ export class TransfersRepository {
    */
   async getComprobantesByUserId(userId: string, limit: number = 20, offset: number = 0): Promise<Comprobante[]> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.comprobanteTableName)
         .select(
           `
@@ -208,10 +222,12 @@ export class TransfersRepository {
       if (error) throw error;
 
       // Filter for the user's comprobantes (where they are origin or destination)
-      return (data || []).filter((comprobante: any) => {
-        const transfer = comprobante.transferencias;
-        return transfer.usuario_id_origen === userId || transfer.usuario_id_destino === userId;
-      });
+      return (data || [])
+        .filter((comprobante: any) => {
+          const transfer = comprobante.transferencias;
+          return transfer.usuario_id_origen === userId || transfer.usuario_id_destino === userId;
+        })
+        .map((row: ComprobanteRow) => this.toComprobante(row));
     } catch (error) {
       throw new DatabaseError(`Failed to get comprobantes for user: ${error}`);
     }
@@ -230,7 +246,7 @@ export class TransfersRepository {
       const endOfDay = new Date(date);
       endOfDay.setUTCHours(23, 59, 59, 999);
 
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.transferTableName)
         .select('*')
         .eq('usuario_id_origen', userId)
@@ -238,11 +254,19 @@ export class TransfersRepository {
         .lte('fecha_creacion', endOfDay.toISOString());
 
       if (error) throw error;
-      return data || [];
+      return (data || []).map((row) => this.toTransfer(row));
     } catch (error) {
       throw new DatabaseError(`Failed to get transfers for user and date: ${error}`);
     }
   }
-}
 
-export default new TransfersRepository();
+  private toTransfer(row: TransferRow): Transfer {
+    const { moneda, ...transfer } = row;
+    return { ...transfer, monto: Money.fromDecimal(row.monto, parseCurrency(moneda)) };
+  }
+
+  private toComprobante(row: ComprobanteRow): Comprobante {
+    const { moneda, ...comprobante } = row;
+    return { ...comprobante, monto: Money.fromDecimal(row.monto, parseCurrency(moneda)) };
+  }
+}
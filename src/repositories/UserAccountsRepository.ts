@@ -1,16 +1,41 @@
-import { supabaseAdmin } from '@/config/supabase.js';
-import { UserAccount, KYCDocument, PasswordResetToken, KYCStatus } from '@/types/index.js';
+import { getSupabaseAdmin } from '@/config/supabase.js';
+import {
+  UserAccount,
+  KYCDocument,
+  PasswordResetToken,
+  KYCStatus,
+  Money,
+  Currency,
+  WalletBalances,
+  parseCurrency,
+} from '@/types/index.js';
 import { DatabaseError, NotFoundError } from '@/errors/AppError.js';
+import { IUserAccountsRepository } from './interfaces.js';
 import crypto from 'crypto';
 
-export class UserAccountsRepository {
+// DECIMAL columns may come back from PostgREST as numbers or strings
+interface WalletBalanceRow {
+  moneda: string;
+  saldo_disponible: number | string;
+}
+
+interface UserAccountRow extends Omit<UserAccount, 'saldos' | 'ingresos_declarados' | 'limite_transferencia'> {
+  saldos_billetera?: WalletBalanceRow[];
+  ingresos_declarados: number | string | null;
+  limite_transferencia?: number | string | null;
+}
+
+// Wallet balances live in saldos_billetera, one row per user and currency
+const ACCOUNT_COLUMNS = '*, saldos_billetera(moneda, saldo_disponible)';
+
+export class UserAccountsRepository implements IUserAccountsRepository {
   private tableName = 'user_accounts';
 
   async findByUserId(userId: string): Promise<UserAccount | null> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.tableName)
-        .select('*')
+        .select(ACCOUNT_COLUMNS)
         .eq('usuario_id', userId)
         .single();
 
@@ -18,70 +43,65 @@ export class UserAccountsRepository {
         throw error;
       }
 
-      return data || null;
+      return data ? this.toAccount(data) : null;
     } catch (error) {
       throw new DatabaseError(`Failed to find user account: ${error}`);
     }
   }
 
-  async create(account: Omit<UserAccount, 'fecha_actualizacion'>): Promise<UserAccount> {
+  async create(account: Omit<UserAccount, 'fecha_actualizacion' | 'saldos'>): Promise<UserAccount> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.tableName)
         .insert([
           {
             usuario_id: account.usuario_id,
             kyc_completo: account.kyc_completo,
             fecha_registro: account.fecha_registro,
-            saldo_disponible: account.saldo_disponible,
             ingresos_declarados: account.ingresos_declarados,
             historial_mora: account.historial_mora,
             score_externo: account.score_externo,
             fecha_actualizacion: new Date(),
           },
         ])
-        .select()
+        .select(ACCOUNT_COLUMNS)
         .single();
 
       if (error) throw error;
 
-      return data;
+      return this.toAccount(data);
     } catch (error) {
       throw new DatabaseError(`Failed to create user account: ${error}`);
     }
   }
 
-  async update(userId: string, updates: Partial<UserAccount>): Promise<UserAccount> {
+  async update(userId: string, updates: Partial<Omit<UserAccount, 'saldos'>>): Promise<UserAccount> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from(this.tableName)
         .update({
           ...updates,
           fecha_actualizacion: new Date(),
         })
         .eq('usuario_id', userId)
-        .select()
+        .select(ACCOUNT_COLUMNS)
         .single();
 
       if (error) throw error;
       if (!data) throw new NotFoundError(`User account ${userId} not found`);
 
-      return data;
+      return this.toAccount(data);
     } catch (error) {
       if (error instanceof NotFoundError) throw error;
       throw new DatabaseError(`Failed to update user account: ${error}`);
     }
   }
 
-  async updateBalance(userId: string, newBalance: number): Promise<UserAccount> {
-    return this.update(userId, { saldo_disponible: newBalance });
-  }
-
-  async getBalance(userId: string): Promise<number> {
+  async getBalance(userId: string, moneda: Currency): Promise<Money> {
     try {
       const account = await this.findByUserId(userId);
       if (!account) throw new NotFoundError(`User account ${userId} not found`);
-      return account.saldo_disponible;
+      return account.saldos[moneda];
     } catch (error) {
       if (error instanceof NotFoundError) throw error;
       throw new DatabaseError(`Failed to get balance: ${error}`);
@@ -112,7 +132,7 @@ export class UserAccountsRepository {
     }
   }
 
-  async getDeclaredIncome(userId: string): Promise<number | null> {
+  async getDeclaredIncome(userId: string): Promise<Money | null> {
     try {
       const account = await this.findByUserId(userId);
       if (!account) throw new NotFoundError(`User account ${userId} not found`);
@@ -251,7 +271,7 @@ export class UserAccountsRepository {
   // KYC Document Methods
   async storeKYCDocument(documento: KYCDocument): Promise<KYCDocument> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from('kyc_documents')
         .insert([
           {
@@ -276,7 +296,7 @@ export class UserAccountsRepository {
 
   async getKYCDocuments(userId: string): Promise<KYCDocument[]> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from('kyc_documents')
         .select('*')
         .eq('usuario_id', userId)
@@ -297,7 +317,7 @@ export class UserAccountsRepository {
 
       if (status === KYCStatus.APROBADO) {
         updates.kyc_completo = true;
-        updates.limite_transferencia = 50000; // Set default limit for KYC-approved users
+        updates.limite_transferencia = Money.fromDecimal(50000); // Set default limit for KYC-approved users
       } else if (status === KYCStatus.RECHAZADO) {
         updates.kyc_completo = false;
       }
@@ -327,7 +347,7 @@ export class UserAccountsRepository {
       const ahora = new Date();
       const vencimiento = new Date(ahora.getTime() + 24 * 60 * 60 * 1000); // 24 hours
 
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from('password_reset_tokens')
         .insert([
           {
@@ -350,7 +370,7 @@ export class UserAccountsRepository {
 
   async validatePasswordResetToken(token: string): Promise<boolean> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from('password_reset_tokens')
         .select('*')
         .eq('token', token)
@@ -370,7 +390,7 @@ export class UserAccountsRepository {
 
   async markResetTokenAsUsed(token: string): Promise<void> {
     try {
-      const { error } = await supabaseAdmin
+      const { error } = await getSupabaseAdmin()
         .from('password_reset_tokens')
         .update({
           utilizado: true,
@@ -386,7 +406,7 @@ export class UserAccountsRepository {
 
   async getUserIdFromResetToken(token: string): Promise<string> {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await getSupabaseAdmin()
         .from('password_reset_tokens')
         .select('usuario_id')
         .eq('token', token)
@@ -401,9 +421,9 @@ export class UserAccountsRepository {
     }
   }
 
-  async updateTransferLimit(userId: string, limite: number): Promise<UserAccount> {
+  async updateTransferLimit(userId: string, limite: Money): Promise<UserAccount> {
     try {
-      if (limite <= 0) {
+      if (!limite.isPositive()) {
         throw new Error('Transfer limit must be greater than 0');
       }
       return this.update(userId, { limite_transferencia: limite });
@@ -413,16 +433,37 @@ export class UserAccountsRepository {
     }
   }
 
-  async getTransferLimit(userId: string): Promise<number> {
+  async getTransferLimit(userId: string): Promise<Money> {
     try {
       const account = await this.findByUserId(userId);
       if (!account) throw new NotFoundError(`User account ${userId} not found`);
-      return account.limite_transferencia || 10000; // Default limit if not set
+      return account.limite_transferencia || Money.fromDecimal(10000); // Default limit if not set
     } catch (error) {
       if (error instanceof NotFoundError) throw error;
       throw new DatabaseError(`Failed to get transfer limit: ${error}`);
     }
   }
-}
 
-export default new UserAccountsRepository();
+  private toAccount(row: UserAccountRow): UserAccount {
+    const { saldos_billetera, ...account } = row;
+
+    // A currency without a saldos_billetera row has never been funded
+    const saldos = Object.fromEntries(
+      Object.values(Currency).map((moneda) => [moneda, Money.zero(moneda)])
+    ) as WalletBalances;
+    for (const saldo of saldos_billetera || []) {
+      const moneda = parseCurrency(saldo.moneda);
+      saldos[moneda] = Money.fromDecimal(saldo.saldo_disponible, moneda);
+    }
+
+    return {
+      ...account,
+      saldos,
+      ingresos_declarados: row.ingresos_declarados === null ? null : Money.fromDecimal(row.ingresos_declarados),
+      limite_transferencia:
+        row.limite_transferencia === null || row.limite_transferencia === undefined
+          ? undefined
+          : Money.fromDecimal(row.limite_transferencia),
+    };
+  }
+}
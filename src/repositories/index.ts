@@ -0,0 +1,81 @@
+import { config } from '@/config/config.js';
+import {
+  IUserAccountsRepository,
+  ICreditsRepository,
+  ITransfersRepository,
+  ILedgerRepository,
+  IIdempotencyRepository,
+  IAuditRepository,
+  IPricingRepository,
+  IRevolvingLinesRepository,
+} from './interfaces.js';
+import { UserAccountsRepository } from './UserAccountsRepository.js';
+import { CreditsRepository } from './CreditsRepository.js';
+import { TransfersRepository } from './TransfersRepository.js';
+import { LedgerRepository } from './LedgerRepository.js';
+import { IdempotencyRepository } from './IdempotencyRepository.js';
+import { AuditRepository } from './AuditRepository.js';
+import { PricingRepository } from './PricingRepository.js';
+import { RevolvingLinesRepository } from './RevolvingLinesRepository.js';
+import { InMemoryStore } from './memory/InMemoryStore.js';
+import { InMemoryUserAccountsRepository } from './memory/InMemoryUserAccountsRepository.js';
+import { InMemoryCreditsRepository } from './memory/InMemoryCreditsRepository.js';
+import { InMemoryTransfersRepository } from './memory/InMemoryTransfersRepository.js';
+import { InMemoryLedgerRepository } from './memory/InMemoryLedgerRepository.js';
+import { InMemoryIdempotencyRepository } from './memory/InMemoryIdempotencyRepository.js';
+import { InMemoryAuditRepository } from './memory/InMemoryAuditRepository.js';
+import { InMemoryPricingRepository } from './memory/InMemoryPricingRepository.js';
+import { InMemoryRevolvingLinesRepository } from './memory/InMemoryRevolvingLinesRepository.js';
+
+export * from './interfaces.js';
+
+export interface Repositories {
+  userAccounts: IUserAccountsRepository;
+  credits: ICreditsRepository;
+  transfers: ITransfersRepository;
+  ledger: ILedgerRepository;
+  idempotency: IIdempotencyRepository;
+  audit: IAuditRepository;
+  pricing: IPricingRepository;
+  revolvingLines: IRevolvingLinesRepository;
+}
+
+/**
+ * Repositories backed by the Supabase project in config.supabase
+ */
+export function createSupabaseRepositories(): Repositories {
+  return {
+    userAccounts: new UserAccountsRepository(),
+    credits: new CreditsRepository(),
+    transfers: new TransfersRepository(),
+    ledger: new LedgerRepository(),
+    idempotency: new IdempotencyRepository(),
+    audit: new AuditRepository(),
+    pricing: new PricingRepository(),
+    revolvingLines: new RevolvingLinesRepository(),
+  };
+}
+
+/**
+ * Repositories backed by a process-local store (offline development and tests)
+ */
+export function createInMemoryRepositories(store: InMemoryStore = new InMemoryStore()): Repositories {
+  return {
+    userAccounts: new InMemoryUserAccountsRepository(store),
+    credits: new InMemoryCreditsRepository(store),
+    transfers: new InMemoryTransfersRepository(store),
+    ledger: new InMemoryLedgerRepository(store),
+    idempotency: new InMemoryIdempotencyRepository(store),
+    audit: new InMemoryAuditRepository(store),
+    pricing: new InMemoryPricingRepository(store),
+    revolvingLines: new InMemoryRevolvingLinesRepository(store),
+  };
+}
+
+/**
+ * Repositories used by the default service instances, selected by STORAGE_DRIVER
+ */
+export const repositories: Repositories =
+  config.storage.driver === 'memory' ? createInMemoryRepositories() : createSupabaseRepositories();
+
+export default repositories;
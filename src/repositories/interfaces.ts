@@ -0,0 +1,303 @@
+import {
+  UserAccount,
+  KYCDocument,
+  PasswordResetToken,
+  KYCStatus,
+  Credit,
+  CreditLimit,
+  Installment,
+  CreditStatus,
+  CreditStatusTransition,
+  InstallmentStatus,
+  InstallmentCharge,
+  InstallmentReceipt,
+  PaymentRetry,
+  Transfer,
+  Comprobante,
+  TransferStatus,
+  LedgerEntry,
+  IdempotencyRecord,
+  AuditLog,
+  AuditLogFilter,
+  CreditType,
+  RateTable,
+  RevolvingLine,
+  RevolvingMovement,
+  RevolvingPayment,
+  RevolvingStatement,
+  Money,
+  Currency,
+  WalletBalances,
+} from '@/types/index.js';
+
+/**
+ * Storage-agnostic repository contracts.
+ * Each one has a Supabase implementation and an in-memory one (see ./memory).
+ */
+
+export interface IUserAccountsRepository {
+  findByUserId(userId: string): Promise<UserAccount | null>;
+  // Wallets start with a zero balance in every currency
+  create(account: Omit<UserAccount, 'fecha_actualizacion' | 'saldos'>): Promise<UserAccount>;
+  // Balances only change through ILedgerRepository.postEntry
+  update(userId: string, updates: Partial<Omit<UserAccount, 'saldos'>>): Promise<UserAccount>;
+  getBalance(userId: string, moneda: Currency): Promise<Money>;
+  checkKYCStatus(userId: string): Promise<boolean>;
+  getAccountAge(userId: string): Promise<number>;
+  getDeclaredIncome(userId: string): Promise<Money | null>;
+  hasDefaultHistory(userId: string): Promise<boolean>;
+  getExternalScore(userId: string): Promise<number | null>;
+
+  // Password and account security
+  updatePassword(userId: string, passwordHash: string): Promise<UserAccount>;
+  getPasswordHash(userId: string): Promise<string | null>;
+  recordFailedLoginAttempt(userId: string): Promise<UserAccount>;
+  resetFailedLoginAttempts(userId: string): Promise<UserAccount>;
+  blockAccount(userId: string, razon?: string): Promise<UserAccount>;
+  unblockAccount(userId: string): Promise<UserAccount>;
+  isAccountBlocked(userId: string): Promise<boolean>;
+
+  // KYC documents
+  storeKYCDocument(documento: KYCDocument): Promise<KYCDocument>;
+  getKYCDocuments(userId: string): Promise<KYCDocument[]>;
+  updateKYCStatus(userId: string, status: KYCStatus, razonRechazo?: string): Promise<UserAccount>;
+  getKYCStatus(userId: string): Promise<KYCStatus | null>;
+
+  // Password reset tokens
+  createPasswordResetToken(userId: string): Promise<PasswordResetToken>;
+  validatePasswordResetToken(token: string): Promise<boolean>;
+  markResetTokenAsUsed(token: string): Promise<void>;
+  getUserIdFromResetToken(token: string): Promise<string>;
+
+  // Transfer limits
+  updateTransferLimit(userId: string, limite: Money): Promise<UserAccount>;
+  getTransferLimit(userId: string): Promise<Money>;
+}
+
+export type NewCredit = Omit<
+  Credit,
+  | 'id_credito'
+  | 'fecha_creacion'
+  | 'fecha_actualizacion'
+  | 'dias_mora'
+  | 'tramo_mora'
+  | 'id_credito_refinanciacion'
+  | 'id_transaccion_desembolso'
+  | 'version'
+>;
+
+// Fields a credit can be updated with; estado only changes through updateCreditStatus and
+// version through claimCredit
+export type CreditUpdate = Partial<Omit<Credit, 'id_credito' | 'estado' | 'version'>>;
+
+export interface ICreditsRepository {
+  // New credits start with no arrears (dias_mora 0, tramo_mora al_dia) and not refinanced
+  createCredit(credit: NewCredit): Promise<Credit>;
+  findCreditById(creditId: string): Promise<Credit | null>;
+  findCreditsByUserId(userId: string): Promise<Credit[]>;
+  // Compare-and-set: moves the credit from `from` to `to` (writing `updates` along with it) only
+  // while it is still `from`, and returns null otherwise. Transitions are validated by
+  // CreditStateMachine; only rollbacks call this directly.
+  updateCreditStatus(
+    creditId: string,
+    from: CreditStatus,
+    to: CreditStatus,
+    updates?: CreditUpdate
+  ): Promise<Credit | null>;
+  updateCredit(creditId: string, updates: CreditUpdate): Promise<Credit>;
+  // Compare-and-set: bumps the credit's version only while it is still `version`, and returns
+  // null otherwise. A partial prepayment claims the credit (even to odd) before it rewrites the
+  // installments and releases it (odd to even) once done, so no other one works from the same
+  // schedule or from one half rewritten.
+  claimCredit(creditId: string, version: number): Promise<Credit | null>;
+  getActiveCreditsByUser(userId: string): Promise<Credit[]>;
+  findCreditsByStatus(statuses: CreditStatus[]): Promise<Credit[]>;
+
+  // Installments
+  createInstallment(installment: Omit<Installment, 'id_cuota'>): Promise<Installment>;
+  createInstallmentPlan(creditId: string, installments: Omit<Installment, 'id_cuota'>[]): Promise<Installment[]>;
+  getInstallmentsByCredit(creditId: string): Promise<Installment[]>;
+  updateInstallment(installmentId: string, updates: Partial<Installment>): Promise<Installment>;
+  updateInstallmentStatus(installmentId: string, status: InstallmentStatus): Promise<Installment>;
+  // Compare-and-set: writes `updates` only while the installment is still `estado`, and returns
+  // null otherwise
+  updateInstallmentIf(
+    installmentId: string,
+    estado: InstallmentStatus,
+    updates: Partial<Installment>
+  ): Promise<Installment | null>;
+  // Compare-and-set: marks the installment paid only while it is neither paid nor canceled, and
+  // returns null otherwise. Whoever gets the row settles the installment.
+  markInstallmentPaid(installmentId: string): Promise<Installment | null>;
+  // Drop installments that are no longer part of the schedule (e.g. after shortening the term)
+  deleteInstallments(installmentIds: string[]): Promise<void>;
+  // Pending installments due on or before `dueBy` (default: now), oldest first
+  getPendingInstallments(dueBy?: Date): Promise<Installment[]>;
+  // Installments still owed (neither paid nor canceled) due before `dueBefore` (default: now), oldest first
+  getOverdueInstallments(dueBefore?: Date): Promise<Installment[]>;
+
+  // Punitive interest and late fees
+  createInstallmentCharges(
+    charges: Omit<InstallmentCharge, 'id_cargo' | 'fecha_creacion'>[]
+  ): Promise<InstallmentCharge[]>;
+  getChargesByCredit(creditId: string): Promise<InstallmentCharge[]>;
+
+  // Receipts for installments paid by the borrower
+  createInstallmentReceipt(
+    receipt: Omit<InstallmentReceipt, 'id_comprobante' | 'fecha_creacion'>
+  ): Promise<InstallmentReceipt>;
+  getInstallmentReceiptsByCredit(creditId: string): Promise<InstallmentReceipt[]>;
+
+  // Payment retries
+  createPaymentRetry(retry: Omit<PaymentRetry, 'id_reintento' | 'fecha_creacion'>): Promise<PaymentRetry>;
+  updatePaymentRetry(retryId: string, updates: Partial<PaymentRetry>): Promise<PaymentRetry>;
+  getPaymentRetriesByCredit(creditId: string): Promise<PaymentRetry[]>;
+  // Scheduled attempts due on or before `dueBy`, oldest first
+  getDuePaymentRetries(dueBy: Date): Promise<PaymentRetry[]>;
+
+  // Credit lines, one per user
+  saveCreditLimit(limit: CreditLimit): Promise<CreditLimit>;
+  findCreditLimit(userId: string): Promise<CreditLimit | null>;
+
+  // Status history
+  createStatusTransition(
+    transition: Omit<CreditStatusTransition, 'id_transicion'>
+  ): Promise<CreditStatusTransition>;
+  // Oldest first
+  getStatusTransitionsByCredit(creditId: string): Promise<CreditStatusTransition[]>;
+}
+
+export interface ITransfersRepository {
+  createTransfer(
+    data: Omit<Transfer, 'id_transferencia' | 'fecha_creacion' | 'fecha_actualizacion'>
+  ): Promise<Transfer>;
+  getTransferById(transferId: string): Promise<Transfer | null>;
+  getTransfersForUser(userId: string, limit?: number, offset?: number): Promise<Transfer[]>;
+  updateTransferStatus(transferId: string, status: TransferStatus): Promise<Transfer>;
+
+  // Receipts (comprobantes)
+  createComprobante(
+    transferId: string,
+    comprobanteData: Omit<Comprobante, 'id_comprobante' | 'fecha_creacion'>
+  ): Promise<Comprobante>;
+  getComprobanteByTransferId(transferId: string): Promise<Comprobante | null>;
+  getComprobanteById(comprobanteId: string): Promise<Comprobante | null>;
+  updateComprobanteUrl(
+    comprobanteId: string,
+    pdfUrl: string,
+    estado?: 'generado' | 'disponible' | 'expirado'
+  ): Promise<Comprobante>;
+  getComprobantesByUserId(userId: string, limit?: number, offset?: number): Promise<Comprobante[]>;
+  getTransfersByUserIdAndDate(userId: string, date: Date): Promise<Transfer[]>;
+}
+
+// Net change of one wallet in the currency of `delta`
+export interface WalletAdjustment {
+  usuario_id: string;
+  delta: Money;
+}
+
+export interface LedgerPosting {
+  asiento: LedgerEntry;
+  // Resulting balance of every adjusted wallet, keyed by usuario_id and currency
+  saldos: Record<string, Partial<WalletBalances>>;
+}
+
+/**
+ * Journal entries are append-only: there is no update or delete.
+ * Corrections are posted as reversal entries.
+ */
+export interface ILedgerRepository {
+  /**
+   * Atomically write the entry and apply the wallet adjustments.
+   * Nothing is written if any wallet would go below zero (InsufficientFundsError),
+   * if the entry reverses one that was already reversed, or if an unreversed entry
+   * already carries its clave_idempotencia (IdempotencyError).
+   */
+  postEntry(entry: Omit<LedgerEntry, 'id_asiento' | 'fecha_creacion'>, ajustes: WalletAdjustment[]): Promise<LedgerPosting>;
+  getEntryById(entryId: string): Promise<LedgerEntry | null>;
+  getEntriesByAccount(cuenta: string): Promise<LedgerEntry[]>;
+  getEntriesByReference(referenciaId: string): Promise<LedgerEntry[]>;
+}
+
+export interface IIdempotencyRepository {
+  /**
+   * Store the record unless a live (non-expired) one already exists for the key.
+   * Returns null when the key was reserved, or the existing record otherwise.
+   */
+  reserve(record: IdempotencyRecord): Promise<IdempotencyRecord | null>;
+  complete(clave: string, codigoRespuesta: number, respuesta: unknown): Promise<void>;
+  release(clave: string): Promise<void>;
+}
+
+/**
+ * Rate tables are versioned: publishing a new version never modifies the previous ones.
+ */
+export interface IPricingRepository {
+  // version must be unique per tipo_credito
+  createRateTable(table: Omit<RateTable, 'id_tabla_tasas' | 'fecha_creacion'>): Promise<RateTable>;
+  findRateTableById(tableId: string): Promise<RateTable | null>;
+  // Oldest version first; every product when tipo is omitted
+  getRateTables(tipo?: CreditType): Promise<RateTable[]>;
+  // Latest version whose vigencia_desde is not after fecha
+  findEffectiveRateTable(tipo: CreditType, fecha: Date): Promise<RateTable | null>;
+}
+
+export type NewRevolvingLine = Omit<
+  RevolvingLine,
+  'id_linea' | 'fecha_apertura' | 'fecha_cierre' | 'fecha_actualizacion'
+>;
+
+// How a payment was split between the accrued interest and the capital
+export type RevolvingPaymentSplit = Pick<RevolvingPayment, 'linea' | 'aplicado_intereses' | 'aplicado_capital'>;
+
+/**
+ * Revolving credit lines with their movements and monthly statements. Movements and
+ * statements are append-only.
+ *
+ * Balances only change through single conditional writes, each returning null when its
+ * condition no longer holds, so concurrent requests cannot overwrite each other's balances.
+ */
+export interface IRevolvingLinesRepository {
+  createLine(line: NewRevolvingLine): Promise<RevolvingLine>;
+  findLineById(lineId: string): Promise<RevolvingLine | null>;
+  // Newest first
+  findLinesByUser(userId: string): Promise<RevolvingLine[]>;
+  getActiveLines(): Promise<RevolvingLine[]>;
+
+  // Adds `monto` to saldo_capital while the line is active and saldo_capital + monto <= limite_aprobado
+  drawDown(lineId: string, monto: Money): Promise<RevolvingLine | null>;
+  // Settles interest first, then capital, while the line is active and monto <= the amount owed
+  applyPayment(lineId: string, monto: Money): Promise<RevolvingPaymentSplit | null>;
+  // Adds the (signed) amounts to the balances unconditionally; only rollbacks call this
+  adjustBalances(lineId: string, capital: Money, intereses: Money): Promise<RevolvingLine>;
+  /**
+   * Accrue up to `hasta` while the line is active and fecha_ultimo_devengo is still `desde`:
+   * adds the movements to saldo_intereses and stores them, so each day accrues once
+   */
+  accrueInterest(
+    lineId: string,
+    desde: Date,
+    hasta: Date,
+    devengos: Omit<RevolvingMovement, 'id_movimiento'>[]
+  ): Promise<RevolvingLine | null>;
+  // Closes the line while it is active and owes nothing
+  closeLine(lineId: string): Promise<RevolvingLine | null>;
+
+  createMovements(movements: Omit<RevolvingMovement, 'id_movimiento'>[]): Promise<RevolvingMovement[]>;
+  // Oldest first; only those dated after `desde` and up to `hasta` when given
+  getMovementsByLine(lineId: string, desde?: Date, hasta?: Date): Promise<RevolvingMovement[]>;
+
+  createStatement(statement: Omit<RevolvingStatement, 'id_resumen' | 'fecha_emision'>): Promise<RevolvingStatement>;
+  // Oldest first
+  getStatementsByLine(lineId: string): Promise<RevolvingStatement[]>;
+}
+
+/**
+ * Audit entries are append-only: there is no update or delete.
+ */
+export interface IAuditRepository {
+  create(log: Omit<AuditLog, 'id_log' | 'fecha_creacion'>): Promise<AuditLog>;
+  // Newest first
+  find(filter: AuditLogFilter): Promise<AuditLog[]>;
+}
@@ -0,0 +1,30 @@
+import { AuditLog, AuditLogFilter } from '@/types/index.js';
+import { IAuditRepository } from '../interfaces.js';
+import { InMemoryStore, cloneRow, toTime } from './InMemoryStore.js';
+import { v4 as uuidv4 } from 'uuid';
+
+export class InMemoryAuditRepository implements IAuditRepository {
+  constructor(private store: InMemoryStore) {}
+
+  async create(log: Omit<AuditLog, 'id_log' | 'fecha_creacion'>): Promise<AuditLog> {
+    const row: AuditLog = {
+      id_log: uuidv4(),
+      ...cloneRow(log),
+      fecha_creacion: new Date(),
+    };
+    this.store.auditLogs.set(row.id_log, row);
+    return cloneRow(row);
+  }
+
+  async find(filter: AuditLogFilter): Promise<AuditLog[]> {
+    return [...this.store.auditLogs.values()]
+      .filter((log) => !filter.usuario_id || log.usuario_id === filter.usuario_id)
+      .filter((log) => !filter.id_credito || log.id_credito === filter.id_credito)
+      .filter((log) => !filter.tipo_evento || log.tipo_evento === filter.tipo_evento)
+      .filter((log) => !filter.desde || toTime(log.fecha_creacion) >= filter.desde.getTime())
+      .filter((log) => !filter.hasta || toTime(log.fecha_creacion) <= filter.hasta.getTime())
+      .sort((a, b) => toTime(b.fecha_creacion) - toTime(a.fecha_creacion))
+      .slice(filter.offset, filter.offset + filter.limit)
+      .map(cloneRow);
+  }
+}
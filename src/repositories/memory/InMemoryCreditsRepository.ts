@@ -0,0 +1,279 @@
+import {
+  Credit,
+  CreditLimit,
+  Installment,
+  CreditStatus,
+  CreditStatusTransition,
+  DelinquencyBucket,
+  InstallmentStatus,
+  InstallmentCharge,
+  InstallmentReceipt,
+  PaymentRetry,
+  PaymentRetryStatus,
+} from '@/types/index.js';
+import { NotFoundError } from '@/errors/AppError.js';
+import { CreditUpdate, ICreditsRepository, NewCredit } from '../interfaces.js';
+import { InMemoryStore, cloneRow, toTime } from './InMemoryStore.js';
+import { v4 as uuidv4 } from 'uuid';
+
+// Installments no longer owed
+const CLOSED_INSTALLMENT_STATUSES = [InstallmentStatus.PAID, InstallmentStatus.CANCELED];
+
+export class InMemoryCreditsRepository implements ICreditsRepository {
+  constructor(private store: InMemoryStore) {}
+
+  async createCredit(credit: NewCredit): Promise<Credit> {
+    const row: Credit = {
+      id_credito: uuidv4(),
+      ...credit,
+      dias_mora: 0,
+      tramo_mora: DelinquencyBucket.CURRENT,
+      id_credito_refinanciacion: null,
+      id_transaccion_desembolso: null,
+      version: 0,
+      fecha_creacion: new Date(),
+      fecha_actualizacion: new Date(),
+    };
+    this.store.credits.set(row.id_credito, row);
+    return cloneRow(row);
+  }
+
+  async findCreditById(creditId: string): Promise<Credit | null> {
+    const credit = this.store.credits.get(creditId);
+    return credit ? cloneRow(credit) : null;
+  }
+
+  async findCreditsByUserId(userId: string): Promise<Credit[]> {
+    return [...this.store.credits.values()]
+      .filter((c) => c.usuario_id === userId)
+      .sort((a, b) => toTime(b.fecha_creacion) - toTime(a.fecha_creacion))
+      .map(cloneRow);
+  }
+
+  async updateCreditStatus(
+    creditId: string,
+    from: CreditStatus,
+    to: CreditStatus,
+    updates: CreditUpdate = {}
+  ): Promise<Credit | null> {
+    // Checked and written with no await in between, like the conditional UPDATE
+    if (this.store.credits.get(creditId)?.estado !== from) return null;
+    return this.writeCredit(creditId, { ...updates, estado: to });
+  }
+
+  async updateCredit(creditId: string, updates: CreditUpdate): Promise<Credit> {
+    return this.writeCredit(creditId, updates);
+  }
+
+  async claimCredit(creditId: string, version: number): Promise<Credit | null> {
+    // Checked and written with no await in between, like the conditional UPDATE
+    if (this.store.credits.get(creditId)?.version !== version) return null;
+    return this.writeCredit(creditId, { version: version + 1 });
+  }
+
+  private async writeCredit(creditId: string, updates: Partial<Credit>): Promise<Credit> {
+    const credit = this.store.credits.get(creditId);
+    if (!credit) throw new NotFoundError(`Credit ${creditId} not found`);
+
+    const row: Credit = {
+      ...credit,
+      ...updates,
+      id_credito: creditId,
+      fecha_actualizacion: new Date(),
+    };
+    this.store.credits.set(creditId, row);
+    return cloneRow(row);
+  }
+
+  async getActiveCreditsByUser(userId: string): Promise<Credit[]> {
+    return (await this.findCreditsByUserId(userId)).filter((c) =>
+      [CreditStatus.IN_PROGRESS, CreditStatus.DEFAULT].includes(c.estado)
+    );
+  }
+
+  async findCreditsByStatus(statuses: CreditStatus[]): Promise<Credit[]> {
+    return [...this.store.credits.values()]
+      .filter((c) => statuses.includes(c.estado))
+      .sort((a, b) => toTime(a.fecha_creacion) - toTime(b.fecha_creacion))
+      .map(cloneRow);
+  }
+
+  // Installment operations
+  async createInstallment(installment: Omit<Installment, 'id_cuota'>): Promise<Installment> {
+    const row: Installment = {
+      id_cuota: uuidv4(),
+      ...installment,
+    };
+    this.store.installments.set(row.id_cuota, row);
+    return cloneRow(row);
+  }
+
+  async createInstallmentPlan(creditId: string, installments: Omit<Installment, 'id_cuota'>[]): Promise<Installment[]> {
+    const created: Installment[] = [];
+    for (const installment of installments) {
+      created.push(await this.createInstallment(installment));
+    }
+    return created;
+  }
+
+  async getInstallmentsByCredit(creditId: string): Promise<Installment[]> {
+    return [...this.store.installments.values()]
+      .filter((i) => i.id_credito === creditId)
+      .sort((a, b) => a.nro_cuota - b.nro_cuota)
+      .map(cloneRow);
+  }
+
+  async updateInstallment(installmentId: string, updates: Partial<Installment>): Promise<Installment> {
+    const installment = this.store.installments.get(installmentId);
+    if (!installment) throw new NotFoundError(`Installment ${installmentId} not found`);
+
+    const row: Installment = { ...installment, ...updates, id_cuota: installmentId };
+    this.store.installments.set(installmentId, row);
+    return cloneRow(row);
+  }
+
+  async updateInstallmentStatus(installmentId: string, status: InstallmentStatus): Promise<Installment> {
+    return this.updateInstallment(installmentId, { estado: status });
+  }
+
+  async updateInstallmentIf(
+    installmentId: string,
+    estado: InstallmentStatus,
+    updates: Partial<Installment>
+  ): Promise<Installment | null> {
+    // Checked and written with no await in between, like the conditional UPDATE
+    if (this.store.installments.get(installmentId)?.estado !== estado) return null;
+    return this.updateInstallment(installmentId, updates);
+  }
+
+  async markInstallmentPaid(installmentId: string): Promise<Installment | null> {
+    const installment = this.store.installments.get(installmentId);
+    if (!installment || CLOSED_INSTALLMENT_STATUSES.includes(installment.estado)) return null;
+    return this.updateInstallment(installmentId, { estado: InstallmentStatus.PAID, fecha_pago: new Date() });
+  }
+
+  async deleteInstallments(installmentIds: string[]): Promise<void> {
+    for (const installmentId of installmentIds) {
+      this.store.installments.delete(installmentId);
+    }
+  }
+
+  async getPendingInstallments(dueBy: Date = new Date()): Promise<Installment[]> {
+    const cutoff = dueBy.getTime();
+    return [...this.store.installments.values()]
+      .filter((i) => i.estado === InstallmentStatus.PENDING && toTime(i.fecha_vencimiento) <= cutoff)
+      .sort((a, b) => toTime(a.fecha_vencimiento) - toTime(b.fecha_vencimiento))
+      .map(cloneRow);
+  }
+
+  async getOverdueInstallments(dueBefore: Date = new Date()): Promise<Installment[]> {
+    const cutoff = dueBefore.getTime();
+    return [...this.store.installments.values()]
+      .filter((i) => !CLOSED_INSTALLMENT_STATUSES.includes(i.estado) && toTime(i.fecha_vencimiento) < cutoff)
+      .sort((a, b) => toTime(a.fecha_vencimiento) - toTime(b.fecha_vencimiento))
+      .map(cloneRow);
+  }
+
+  // Punitive interest and late fees
+  async createInstallmentCharges(
+    charges: Omit<InstallmentCharge, 'id_cargo' | 'fecha_creacion'>[]
+  ): Promise<InstallmentCharge[]> {
+    return charges.map((charge) => {
+      const row: InstallmentCharge = {
+        id_cargo: uuidv4(),
+        ...charge,
+        fecha_creacion: new Date(),
+      };
+      this.store.installmentCharges.set(row.id_cargo, row);
+      return cloneRow(row);
+    });
+  }
+
+  async getChargesByCredit(creditId: string): Promise<InstallmentCharge[]> {
+    return [...this.store.installmentCharges.values()]
+      .filter((c) => c.id_credito === creditId)
+      .sort((a, b) => toTime(a.fecha_devengo) - toTime(b.fecha_devengo))
+      .map(cloneRow);
+  }
+
+  // Installment receipts
+  async createInstallmentReceipt(
+    receipt: Omit<InstallmentReceipt, 'id_comprobante' | 'fecha_creacion'>
+  ): Promise<InstallmentReceipt> {
+    const row: InstallmentReceipt = {
+      id_comprobante: uuidv4(),
+      ...receipt,
+      fecha_creacion: new Date(),
+    };
+    this.store.installmentReceipts.set(row.id_comprobante, row);
+    return cloneRow(row);
+  }
+
+  async getInstallmentReceiptsByCredit(creditId: string): Promise<InstallmentReceipt[]> {
+    return [...this.store.installmentReceipts.values()]
+      .filter((r) => r.id_credito === creditId)
+      .sort((a, b) => toTime(a.fecha_hora) - toTime(b.fecha_hora))
+      .map(cloneRow);
+  }
+
+  // Payment retries
+  async createPaymentRetry(retry: Omit<PaymentRetry, 'id_reintento' | 'fecha_creacion'>): Promise<PaymentRetry> {
+    const row: PaymentRetry = {
+      id_reintento: uuidv4(),
+      ...retry,
+      fecha_creacion: new Date(),
+    };
+    this.store.paymentRetries.set(row.id_reintento, row);
+    return cloneRow(row);
+  }
+
+  async updatePaymentRetry(retryId: string, updates: Partial<PaymentRetry>): Promise<PaymentRetry> {
+    const retry = this.store.paymentRetries.get(retryId);
+    if (!retry) throw new NotFoundError(`Payment retry ${retryId} not found`);
+
+    const row: PaymentRetry = { ...retry, ...updates, id_reintento: retryId };
+    this.store.paymentRetries.set(retryId, row);
+    return cloneRow(row);
+  }
+
+  async getPaymentRetriesByCredit(creditId: string): Promise<PaymentRetry[]> {
+    return [...this.store.paymentRetries.values()]
+      .filter((r) => r.id_credito === creditId)
+      .sort((a, b) => toTime(a.fecha_programada) - toTime(b.fecha_programada))
+      .map(cloneRow);
+  }
+
+  // Status history
+  async saveCreditLimit(limit: CreditLimit): Promise<CreditLimit> {
+    this.store.creditLimits.set(limit.usuario_id, cloneRow(limit));
+    return cloneRow(limit);
+  }
+
+  async findCreditLimit(userId: string): Promise<CreditLimit | null> {
+    const row = this.store.creditLimits.get(userId);
+    return row ? cloneRow(row) : null;
+  }
+
+  async createStatusTransition(
+    transition: Omit<CreditStatusTransition, 'id_transicion'>
+  ): Promise<CreditStatusTransition> {
+    const row: CreditStatusTransition = { id_transicion: uuidv4(), ...transition };
+    this.store.creditTransitions.set(row.id_transicion, row);
+    return cloneRow(row);
+  }
+
+  async getStatusTransitionsByCredit(creditId: string): Promise<CreditStatusTransition[]> {
+    return [...this.store.creditTransitions.values()]
+      .filter((t) => t.id_credito === creditId)
+      .sort((a, b) => toTime(a.fecha_transicion) - toTime(b.fecha_transicion))
+      .map(cloneRow);
+  }
+
+  async getDuePaymentRetries(dueBy: Date): Promise<PaymentRetry[]> {
+    const cutoff = dueBy.getTime();
+    return [...this.store.paymentRetries.values()]
+      .filter((r) => r.estado === PaymentRetryStatus.SCHEDULED && toTime(r.fecha_programada) <= cutoff)
+      .sort((a, b) => toTime(a.fecha_programada) - toTime(b.fecha_programada))
+      .map(cloneRow);
+  }
+}
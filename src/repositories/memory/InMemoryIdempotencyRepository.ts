@@ -0,0 +1,34 @@
+import { IdempotencyRecord, IdempotencyStatus } from '@/types/index.js';
+import { NotFoundError } from '@/errors/AppError.js';
+import { IIdempotencyRepository } from '../interfaces.js';
+import { InMemoryStore, cloneRow, toTime } from './InMemoryStore.js';
+
+export class InMemoryIdempotencyRepository implements IIdempotencyRepository {
+  constructor(private store: InMemoryStore) {}
+
+  async reserve(record: IdempotencyRecord): Promise<IdempotencyRecord | null> {
+    const existing = this.store.idempotencyKeys.get(record.clave);
+    if (existing && toTime(existing.fecha_vencimiento) > Date.now()) {
+      return cloneRow(existing);
+    }
+
+    this.store.idempotencyKeys.set(record.clave, cloneRow(record));
+    return null;
+  }
+
+  async complete(clave: string, codigoRespuesta: number, respuesta: unknown): Promise<void> {
+    const record = this.store.idempotencyKeys.get(clave);
+    if (!record) throw new NotFoundError(`Idempotency key ${clave} not found`);
+
+    this.store.idempotencyKeys.set(clave, {
+      ...record,
+      estado: IdempotencyStatus.COMPLETED,
+      codigo_respuesta: codigoRespuesta,
+      respuesta: cloneRow(respuesta),
+    });
+  }
+
+  async release(clave: string): Promise<void> {
+    this.store.idempotencyKeys.delete(clave);
+  }
+}
@@ -0,0 +1,91 @@
+import { LedgerEntry, UserAccount } from '@/types/index.js';
+import { IdempotencyError, InsufficientFundsError, LedgerError, NotFoundError } from '@/errors/AppError.js';
+import { ILedgerRepository, LedgerPosting, WalletAdjustment } from '../interfaces.js';
+import { InMemoryStore, cloneRow, toTime } from './InMemoryStore.js';
+import { v4 as uuidv4 } from 'uuid';
+
+export class InMemoryLedgerRepository implements ILedgerRepository {
+  constructor(private store: InMemoryStore) {}
+
+  /**
+   * Checks and writes happen synchronously (no await in between), so two postings
+   * can never interleave: this is the in-memory equivalent of the post_ledger_entry transaction.
+   */
+  async postEntry(
+    entry: Omit<LedgerEntry, 'id_asiento' | 'fecha_creacion'>,
+    ajustes: WalletAdjustment[]
+  ): Promise<LedgerPosting> {
+    if (
+      entry.id_asiento_reversado &&
+      [...this.store.ledgerEntries.values()].some((e) => e.id_asiento_reversado === entry.id_asiento_reversado)
+    ) {
+      throw new LedgerError(`Ledger entry ${entry.id_asiento_reversado} was already reversed`);
+    }
+    if (entry.clave_idempotencia) {
+      const entries = [...this.store.ledgerEntries.values()];
+      const duplicada = entries.some(
+        (e) =>
+          e.clave_idempotencia === entry.clave_idempotencia &&
+          !entries.some((r) => r.id_asiento_reversado === e.id_asiento)
+      );
+      if (duplicada) {
+        throw new IdempotencyError(`Operation ${entry.clave_idempotencia} was already posted to the ledger`);
+      }
+    }
+
+    const updatedAccounts = new Map<string, UserAccount>();
+    for (const ajuste of ajustes) {
+      const account = updatedAccounts.get(ajuste.usuario_id) || this.store.userAccounts.get(ajuste.usuario_id);
+      if (!account) throw new NotFoundError(`User account ${ajuste.usuario_id} not found`);
+
+      const moneda = ajuste.delta.moneda;
+      const saldo = account.saldos[moneda].add(ajuste.delta);
+      if (saldo.isNegative()) {
+        throw new InsufficientFundsError(
+          `Insufficient balance. Available: ${account.saldos[moneda]}, Required: ${ajuste.delta.negate()}`
+        );
+      }
+      updatedAccounts.set(ajuste.usuario_id, {
+        ...account,
+        saldos: { ...account.saldos, [moneda]: saldo },
+        fecha_actualizacion: new Date(),
+      });
+    }
+
+    const asiento: LedgerEntry = {
+      id_asiento: uuidv4(),
+      ...cloneRow(entry),
+      fecha_creacion: new Date(),
+    };
+
+    const saldos: LedgerPosting['saldos'] = {};
+    for (const ajuste of ajustes) {
+      const account = updatedAccounts.get(ajuste.usuario_id)!;
+      this.store.userAccounts.set(account.usuario_id, account);
+      saldos[account.usuario_id] = { ...saldos[account.usuario_id], [ajuste.delta.moneda]: account.saldos[ajuste.delta.moneda] };
+    }
+    this.store.ledgerEntries.set(asiento.id_asiento, asiento);
+
+    return { asiento: cloneRow(asiento), saldos };
+  }
+
+  async getEntryById(entryId: string): Promise<LedgerEntry | null> {
+    const entry = this.store.ledgerEntries.get(entryId);
+    return entry ? cloneRow(entry) : null;
+  }
+
+  async getEntriesByAccount(cuenta: string): Promise<LedgerEntry[]> {
+    return this.findEntries((e) => e.lineas.some((l) => l.cuenta === cuenta));
+  }
+
+  async getEntriesByReference(referenciaId: string): Promise<LedgerEntry[]> {
+    return this.findEntries((e) => e.referencia_id === referenciaId);
+  }
+
+  private findEntries(predicate: (entry: LedgerEntry) => boolean): LedgerEntry[] {
+    return [...this.store.ledgerEntries.values()]
+      .filter(predicate)
+      .sort((a, b) => toTime(a.fecha_creacion) - toTime(b.fecha_creacion))
+      .map(cloneRow);
+  }
+}
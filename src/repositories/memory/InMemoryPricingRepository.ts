@@ -0,0 +1,46 @@
+import { CreditType, RateTable } from '@/types/index.js';
+import { DatabaseError } from '@/errors/AppError.js';
+import { IPricingRepository } from '../interfaces.js';
+import { InMemoryStore, cloneRow, toTime } from './InMemoryStore.js';
+import { v4 as uuidv4 } from 'uuid';
+
+export class InMemoryPricingRepository implements IPricingRepository {
+  constructor(private store: InMemoryStore) {}
+
+  async createRateTable(table: Omit<RateTable, 'id_tabla_tasas' | 'fecha_creacion'>): Promise<RateTable> {
+    // Same guarantee as the UNIQUE (tipo_credito, version) constraint
+    const duplicate = [...this.store.rateTables.values()].some(
+      (t) => t.tipo_credito === table.tipo_credito && t.version === table.version
+    );
+    if (duplicate) {
+      throw new DatabaseError(`Failed to create rate table: ${table.tipo_credito} version ${table.version} exists`);
+    }
+
+    const row: RateTable = {
+      id_tabla_tasas: uuidv4(),
+      ...cloneRow(table),
+      fecha_creacion: new Date(),
+    };
+    this.store.rateTables.set(row.id_tabla_tasas, row);
+    return cloneRow(row);
+  }
+
+  async findRateTableById(tableId: string): Promise<RateTable | null> {
+    const row = this.store.rateTables.get(tableId);
+    return row ? cloneRow(row) : null;
+  }
+
+  async getRateTables(tipo?: CreditType): Promise<RateTable[]> {
+    return [...this.store.rateTables.values()]
+      .filter((t) => !tipo || t.tipo_credito === tipo)
+      .sort((a, b) => a.tipo_credito.localeCompare(b.tipo_credito) || a.version - b.version)
+      .map(cloneRow);
+  }
+
+  async findEffectiveRateTable(tipo: CreditType, fecha: Date): Promise<RateTable | null> {
+    const [vigente] = [...this.store.rateTables.values()]
+      .filter((t) => t.tipo_credito === tipo && toTime(t.vigencia_desde) <= fecha.getTime())
+      .sort((a, b) => toTime(b.vigencia_desde) - toTime(a.vigencia_desde) || b.version - a.version);
+    return vigente ? cloneRow(vigente) : null;
+  }
+}
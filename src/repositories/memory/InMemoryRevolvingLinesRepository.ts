@@ -0,0 +1,153 @@
+import { Money, RevolvingLine, RevolvingLineStatus, RevolvingMovement, RevolvingStatement } from '@/types/index.js';
+import { NotFoundError } from '@/errors/AppError.js';
+import { IRevolvingLinesRepository, NewRevolvingLine, RevolvingPaymentSplit } from '../interfaces.js';
+import { InMemoryStore, cloneRow, toTime } from './InMemoryStore.js';
+import { v4 as uuidv4 } from 'uuid';
+
+export class InMemoryRevolvingLinesRepository implements IRevolvingLinesRepository {
+  constructor(private store: InMemoryStore) {}
+
+  async createLine(line: NewRevolvingLine): Promise<RevolvingLine> {
+    const row: RevolvingLine = {
+      id_linea: uuidv4(),
+      ...cloneRow(line),
+      fecha_apertura: new Date(),
+      fecha_cierre: null,
+      fecha_actualizacion: new Date(),
+    };
+    this.store.revolvingLines.set(row.id_linea, row);
+    return cloneRow(row);
+  }
+
+  async findLineById(lineId: string): Promise<RevolvingLine | null> {
+    const row = this.store.revolvingLines.get(lineId);
+    return row ? cloneRow(row) : null;
+  }
+
+  async findLinesByUser(userId: string): Promise<RevolvingLine[]> {
+    return [...this.store.revolvingLines.values()]
+      .filter((l) => l.usuario_id === userId)
+      .sort((a, b) => toTime(b.fecha_apertura) - toTime(a.fecha_apertura))
+      .map(cloneRow);
+  }
+
+  async getActiveLines(): Promise<RevolvingLine[]> {
+    return [...this.store.revolvingLines.values()]
+      .filter((l) => l.estado === RevolvingLineStatus.ACTIVE)
+      .sort((a, b) => toTime(a.fecha_apertura) - toTime(b.fecha_apertura))
+      .map(cloneRow);
+  }
+
+  async drawDown(lineId: string, monto: Money): Promise<RevolvingLine | null> {
+    const line = this.store.revolvingLines.get(lineId);
+    if (!line || line.estado !== RevolvingLineStatus.ACTIVE) return null;
+    if (line.saldo_capital.add(monto).greaterThan(line.limite_aprobado)) return null;
+
+    return this.writeLine(line, { saldo_capital: line.saldo_capital.add(monto) });
+  }
+
+  async applyPayment(lineId: string, monto: Money): Promise<RevolvingPaymentSplit | null> {
+    const line = this.store.revolvingLines.get(lineId);
+    if (!line || line.estado !== RevolvingLineStatus.ACTIVE) return null;
+    if (monto.greaterThan(line.saldo_capital.add(line.saldo_intereses))) return null;
+
+    const aplicadoIntereses = Money.min(monto, line.saldo_intereses);
+    const aplicadoCapital = monto.subtract(aplicadoIntereses);
+    const linea = this.writeLine(line, {
+      saldo_intereses: line.saldo_intereses.subtract(aplicadoIntereses),
+      saldo_capital: line.saldo_capital.subtract(aplicadoCapital),
+    });
+    return { linea, aplicado_intereses: aplicadoIntereses, aplicado_capital: aplicadoCapital };
+  }
+
+  async adjustBalances(lineId: string, capital: Money, intereses: Money): Promise<RevolvingLine> {
+    const line = this.store.revolvingLines.get(lineId);
+    if (!line) throw new NotFoundError(`Revolving line ${lineId} not found`);
+
+    return this.writeLine(line, {
+      saldo_capital: line.saldo_capital.add(capital),
+      saldo_intereses: line.saldo_intereses.add(intereses),
+    });
+  }
+
+  async accrueInterest(
+    lineId: string,
+    desde: Date,
+    hasta: Date,
+    devengos: Omit<RevolvingMovement, 'id_movimiento'>[]
+  ): Promise<RevolvingLine | null> {
+    const line = this.store.revolvingLines.get(lineId);
+    if (!line || line.estado !== RevolvingLineStatus.ACTIVE) return null;
+    if (toTime(line.fecha_ultimo_devengo) !== desde.getTime()) return null;
+
+    const row = this.writeLine(line, {
+      saldo_intereses: line.saldo_intereses.add(
+        Money.sum(
+          devengos.map((devengo) => devengo.monto),
+          line.saldo_intereses.moneda
+        )
+      ),
+      fecha_ultimo_devengo: hasta,
+    });
+    await this.createMovements(devengos);
+    return row;
+  }
+
+  async closeLine(lineId: string): Promise<RevolvingLine | null> {
+    const line = this.store.revolvingLines.get(lineId);
+    if (!line || line.estado !== RevolvingLineStatus.ACTIVE) return null;
+    if (!line.saldo_capital.isZero() || !line.saldo_intereses.isZero()) return null;
+
+    return this.writeLine(line, { estado: RevolvingLineStatus.CLOSED, fecha_cierre: new Date() });
+  }
+
+  async createMovements(movements: Omit<RevolvingMovement, 'id_movimiento'>[]): Promise<RevolvingMovement[]> {
+    return movements.map((movement) => {
+      const row: RevolvingMovement = { id_movimiento: uuidv4(), ...cloneRow(movement) };
+      this.store.revolvingMovements.set(row.id_movimiento, row);
+      return cloneRow(row);
+    });
+  }
+
+  async getMovementsByLine(lineId: string, desde?: Date, hasta?: Date): Promise<RevolvingMovement[]> {
+    return [...this.store.revolvingMovements.values()]
+      .filter(
+        (m) =>
+          m.id_linea === lineId &&
+          (!desde || toTime(m.fecha) > desde.getTime()) &&
+          (!hasta || toTime(m.fecha) <= hasta.getTime())
+      )
+      .sort((a, b) => toTime(a.fecha) - toTime(b.fecha))
+      .map(cloneRow);
+  }
+
+  async createStatement(
+    statement: Omit<RevolvingStatement, 'id_resumen' | 'fecha_emision'>
+  ): Promise<RevolvingStatement> {
+    const row: RevolvingStatement = {
+      id_resumen: uuidv4(),
+      ...cloneRow(statement),
+      fecha_emision: new Date(),
+    };
+    this.store.revolvingStatements.set(row.id_resumen, row);
+    return cloneRow(row);
+  }
+
+  async getStatementsByLine(lineId: string): Promise<RevolvingStatement[]> {
+    return [...this.store.revolvingStatements.values()]
+      .filter((s) => s.id_linea === lineId)
+      .sort((a, b) => toTime(a.periodo_hasta) - toTime(b.periodo_hasta))
+      .map(cloneRow);
+  }
+
+  private writeLine(line: RevolvingLine, updates: Partial<RevolvingLine>): RevolvingLine {
+    const row: RevolvingLine = {
+      ...line,
+      ...cloneRow(updates),
+      id_linea: line.id_linea,
+      fecha_actualizacion: new Date(),
+    };
+    this.store.revolvingLines.set(row.id_linea, row);
+    return cloneRow(row);
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { Money } from '@/types/index.js';
+import { createInMemoryRepositories } from '../index.js';
+import { InMemoryStore, cloneRow } from './InMemoryStore.js';
+
+const newAccount = (usuarioId: string) => ({
+  usuario_id: usuarioId,
+  kyc_completo: false,
+  fecha_registro: new Date(),
+  ingresos_declarados: null,
+  historial_mora: false,
+  score_externo: null,
+  bloqueado: false,
+  intentos_fallidos: 0,
+});
+
+describe('InMemoryStore', () => {
+  it('copies rows but shares the immutable Money values', () => {
+    const row = { monto: Money.fromDecimal(10), fecha: new Date('2026-01-01'), lineas: [{ cuenta: 'a' }] };
+
+    const copia = cloneRow(row);
+
+    expect(copia).toEqual(row);
+    expect(copia.monto).toBe(row.monto);
+    expect(copia.fecha).not.toBe(row.fecha);
+    expect(copia.lineas[0]).not.toBe(row.lineas[0]);
+  });
+
+  it('never lets callers change a stored row by reference', async () => {
+    const { userAccounts } = createInMemoryRepositories();
+    const account = await userAccounts.create(newAccount('usuario-1'));
+
+    account.kyc_completo = true;
+
+    expect((await userAccounts.findByUserId('usuario-1'))!.kyc_completo).toBe(false);
+  });
+
+  it('shares one store between the repositories built on it and nothing else', async () => {
+    const store = new InMemoryStore();
+    const primero = createInMemoryRepositories(store);
+    const segundo = createInMemoryRepositories(store);
+    const aislado = createInMemoryRepositories();
+
+    await primero.userAccounts.create(newAccount('usuario-2'));
+
+    expect(await segundo.userAccounts.findByUserId('usuario-2')).not.toBeNull();
+    expect(await aislado.userAccounts.findByUserId('usuario-2')).toBeNull();
+  });
+});
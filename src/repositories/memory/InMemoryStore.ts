@@ -0,0 +1,72 @@
+import {
+  UserAccount,
+  KYCDocument,
+  PasswordResetToken,
+  Credit,
+  CreditLimit,
+  CreditStatusTransition,
+  Installment,
+  InstallmentCharge,
+  InstallmentReceipt,
+  PaymentRetry,
+  Transfer,
+  Comprobante,
+  LedgerEntry,
+  IdempotencyRecord,
+  AuditLog,
+  RateTable,
+  RevolvingLine,
+  RevolvingMovement,
+  RevolvingStatement,
+  Money,
+} from '@/types/index.js';
+
+/**
+ * Process-local tables backing the in-memory repositories.
+ * One store is shared by all repositories so cross-table reads (e.g. receipts joined
+ * with transfers) behave like they do against Supabase.
+ */
+export class InMemoryStore {
+  userAccounts = new Map<string, UserAccount>();
+  kycDocuments = new Map<string, KYCDocument>();
+  passwordResetTokens = new Map<string, PasswordResetToken>();
+  credits = new Map<string, Credit>();
+  creditTransitions = new Map<string, CreditStatusTransition>();
+  creditLimits = new Map<string, CreditLimit>();
+  installments = new Map<string, Installment>();
+  paymentRetries = new Map<string, PaymentRetry>();
+  installmentCharges = new Map<string, InstallmentCharge>();
+  installmentReceipts = new Map<string, InstallmentReceipt>();
+  transfers = new Map<string, Transfer>();
+  comprobantes = new Map<string, Comprobante>();
+  ledgerEntries = new Map<string, LedgerEntry>();
+  idempotencyKeys = new Map<string, IdempotencyRecord>();
+  auditLogs = new Map<string, AuditLog>();
+  rateTables = new Map<string, RateTable>();
+  revolvingLines = new Map<string, RevolvingLine>();
+  revolvingMovements = new Map<string, RevolvingMovement>();
+  revolvingStatements = new Map<string, RevolvingStatement>();
+}
+
+/**
+ * Copy a stored row so callers cannot mutate the table by reference.
+ * Money values are immutable and shared as-is (structuredClone would drop their class).
+ */
+export function cloneRow<T>(row: T): T {
+  if (row === null || typeof row !== 'object' || row instanceof Money) return row;
+  if (row instanceof Date) return new Date(row.getTime()) as T;
+  if (Array.isArray(row)) return row.map(cloneRow) as T;
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    copy[key] = cloneRow(value);
+  }
+  return copy as T;
+}
+
+/**
+ * Compare two date-like values (rows may hold Date objects or ISO strings)
+ */
+export function toTime(value: Date | string | undefined | null): number {
+  return value ? new Date(value).getTime() : 0;
+}
@@ -0,0 +1,119 @@
+import { Transfer, Comprobante, TransferStatus } from '@/types/index.js';
+import { NotFoundError } from '@/errors/AppError.js';
+import { ITransfersRepository } from '../interfaces.js';
+import { InMemoryStore, cloneRow, toTime } from './InMemoryStore.js';
+import { v4 as uuidv4 } from 'uuid';
+
+export class InMemoryTransfersRepository implements ITransfersRepository {
+  constructor(private store: InMemoryStore) {}
+
+  async createTransfer(
+    data: Omit<Transfer, 'id_transferencia' | 'fecha_creacion' | 'fecha_actualizacion'>
+  ): Promise<Transfer> {
+    const row: Transfer = {
+      id_transferencia: uuidv4(),
+      ...data,
+      fecha_creacion: new Date(),
+      fecha_actualizacion: new Date(),
+    };
+    this.store.transfers.set(row.id_transferencia, row);
+    return cloneRow(row);
+  }
+
+  async getTransferById(transferId: string): Promise<Transfer | null> {
+    const transfer = this.store.transfers.get(transferId);
+    return transfer ? cloneRow(transfer) : null;
+  }
+
+  async getTransfersForUser(userId: string, limit: number = 20, offset: number = 0): Promise<Transfer[]> {
+    return [...this.store.transfers.values()]
+      .filter((t) => t.usuario_id_origen === userId || t.usuario_id_destino === userId)
+      .sort((a, b) => toTime(b.fecha_creacion) - toTime(a.fecha_creacion))
+      .slice(offset, offset + limit)
+      .map(cloneRow);
+  }
+
+  async updateTransferStatus(transferId: string, status: TransferStatus): Promise<Transfer> {
+    const transfer = this.store.transfers.get(transferId);
+    if (!transfer) throw new NotFoundError('Transfer not found');
+
+    const row: Transfer = {
+      ...transfer,
+      estado: status,
+      fecha_actualizacion: new Date(),
+    };
+    this.store.transfers.set(transferId, row);
+    return cloneRow(row);
+  }
+
+  async createComprobante(
+    transferId: string,
+    comprobanteData: Omit<Comprobante, 'id_comprobante' | 'fecha_creacion'>
+  ): Promise<Comprobante> {
+    const row: Comprobante = {
+      id_comprobante: uuidv4(),
+      ...comprobanteData,
+      fecha_creacion: new Date(),
+    };
+    this.store.comprobantes.set(row.id_comprobante, row);
+    return cloneRow(row);
+  }
+
+  async getComprobanteByTransferId(transferId: string): Promise<Comprobante | null> {
+    const comprobante = [...this.store.comprobantes.values()].find((c) => c.id_transferencia === transferId);
+    return comprobante ? cloneRow(comprobante) : null;
+  }
+
+  async getComprobanteById(comprobanteId: string): Promise<Comprobante | null> {
+    const comprobante = this.store.comprobantes.get(comprobanteId);
+    return comprobante ? cloneRow(comprobante) : null;
+  }
+
+  async updateComprobanteUrl(
+    comprobanteId: string,
+    pdfUrl: string,
+    estado: 'generado' | 'disponible' | 'expirado' = 'disponible'
+  ): Promise<Comprobante> {
+    const comprobante = this.store.comprobantes.get(comprobanteId);
+    if (!comprobante) throw new NotFoundError('Comprobante not found');
+
+    const row: Comprobante = {
+      ...comprobante,
+      pdf_url: pdfUrl,
+      estado_descarga: estado,
+      fecha_expiracion: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    };
+    this.store.comprobantes.set(comprobanteId, row);
+    return cloneRow(row);
+  }
+
+  async getComprobantesByUserId(userId: string, limit: number = 20, offset: number = 0): Promise<Comprobante[]> {
+    return [...this.store.comprobantes.values()]
+      .filter((c) => {
+        const transfer = this.store.transfers.get(c.id_transferencia);
+        return transfer && (transfer.usuario_id_origen === userId || transfer.usuario_id_destino === userId);
+      })
+      .sort((a, b) => toTime(b.fecha_creacion) - toTime(a.fecha_creacion))
+      .slice(offset, offset + limit)
+      .map(cloneRow);
+  }
+
+  async getTransfersByUserIdAndDate(userId: string, date: Date): Promise<Transfer[]> {
+    const startOfDay = new Date(date);
+    startOfDay.setUTCHours(0, 0, 0, 0);
+
+    const endOfDay = new Date(date);
+    endOfDay.setUTCHours(23, 59, 59, 999);
+
+    return [...this.store.transfers.values()]
+      .filter((t) => {
+        const created = toTime(t.fecha_creacion);
+        return (
+          t.usuario_id_origen === userId &&
+          created >= startOfDay.getTime() &&
+          created <= endOfDay.getTime()
+        );
+      })
+      .map(cloneRow);
+  }
+}
@@ -0,0 +1,209 @@
+import { UserAccount, KYCDocument, PasswordResetToken, KYCStatus, Money, Currency } from '@/types/index.js';
+import { NotFoundError, ValidationError } from '@/errors/AppError.js';
+import { IUserAccountsRepository } from '../interfaces.js';
+import { InMemoryStore, cloneRow } from './InMemoryStore.js';
+import crypto from 'crypto';
+
+export class InMemoryUserAccountsRepository implements IUserAccountsRepository {
+  constructor(private store: InMemoryStore) {}
+
+  async findByUserId(userId: string): Promise<UserAccount | null> {
+    const account = this.store.userAccounts.get(userId);
+    return account ? cloneRow(account) : null;
+  }
+
+  async create(account: Omit<UserAccount, 'fecha_actualizacion' | 'saldos'>): Promise<UserAccount> {
+    if (this.store.userAccounts.has(account.usuario_id)) {
+      throw new ValidationError(`User account ${account.usuario_id} already exists`);
+    }
+
+    const row: UserAccount = {
+      ...account,
+      saldos: { [Currency.ARS]: Money.zero(Currency.ARS), [Currency.USD]: Money.zero(Currency.USD) },
+      fecha_actualizacion: new Date(),
+    };
+    this.store.userAccounts.set(row.usuario_id, row);
+    return cloneRow(row);
+  }
+
+  async update(userId: string, updates: Partial<Omit<UserAccount, 'saldos'>>): Promise<UserAccount> {
+    const account = this.store.userAccounts.get(userId);
+    if (!account) throw new NotFoundError(`User account ${userId} not found`);
+
+    const row: UserAccount = {
+      ...account,
+      ...updates,
+      usuario_id: userId,
+      fecha_actualizacion: new Date(),
+    };
+    this.store.userAccounts.set(userId, row);
+    return cloneRow(row);
+  }
+
+  async getBalance(userId: string, moneda: Currency): Promise<Money> {
+    return (await this.getAccountOrFail(userId)).saldos[moneda];
+  }
+
+  async checkKYCStatus(userId: string): Promise<boolean> {
+    return (await this.getAccountOrFail(userId)).kyc_completo;
+  }
+
+  async getAccountAge(userId: string): Promise<number> {
+    const account = await this.getAccountOrFail(userId);
+    const ageInMs = Date.now() - new Date(account.fecha_registro).getTime();
+    return Math.floor(ageInMs / (1000 * 60 * 60 * 24));
+  }
+
+  async getDeclaredIncome(userId: string): Promise<Money | null> {
+    return (await this.getAccountOrFail(userId)).ingresos_declarados;
+  }
+
+  async hasDefaultHistory(userId: string): Promise<boolean> {
+    return (await this.getAccountOrFail(userId)).historial_mora;
+  }
+
+  async getExternalScore(userId: string): Promise<number | null> {
+    return (await this.getAccountOrFail(userId)).score_externo;
+  }
+
+  // Password and Account Security Methods
+  async updatePassword(userId: string, passwordHash: string): Promise<UserAccount> {
+    return this.update(userId, { password_hash: passwordHash });
+  }
+
+  async getPasswordHash(userId: string): Promise<string | null> {
+    return (await this.getAccountOrFail(userId)).password_hash || null;
+  }
+
+  async recordFailedLoginAttempt(userId: string): Promise<UserAccount> {
+    const account = await this.getAccountOrFail(userId);
+    const newAttempts = (account.intentos_fallidos || 0) + 1;
+
+    const updates: Partial<UserAccount> = {
+      intentos_fallidos: newAttempts,
+    };
+
+    if (newAttempts >= 5) {
+      updates.bloqueado = true;
+      updates.fecha_proximo_intento = new Date(Date.now() + 60 * 60 * 1000);
+    }
+
+    return this.update(userId, updates);
+  }
+
+  async resetFailedLoginAttempts(userId: string): Promise<UserAccount> {
+    return this.update(userId, {
+      intentos_fallidos: 0,
+      fecha_proximo_intento: undefined,
+    });
+  }
+
+  async blockAccount(userId: string): Promise<UserAccount> {
+    return this.update(userId, { bloqueado: true });
+  }
+
+  async unblockAccount(userId: string): Promise<UserAccount> {
+    return this.update(userId, {
+      bloqueado: false,
+      intentos_fallidos: 0,
+      fecha_proximo_intento: undefined,
+    });
+  }
+
+  async isAccountBlocked(userId: string): Promise<boolean> {
+    const account = await this.getAccountOrFail(userId);
+    if (!account.bloqueado) return false;
+
+    if (account.fecha_proximo_intento && new Date(account.fecha_proximo_intento) <= new Date()) {
+      await this.unblockAccount(userId);
+      return false;
+    }
+
+    return true;
+  }
+
+  // KYC Document Methods
+  async storeKYCDocument(documento: KYCDocument): Promise<KYCDocument> {
+    this.store.kycDocuments.set(documento.id_documento, cloneRow(documento));
+    return cloneRow(documento);
+  }
+
+  async getKYCDocuments(userId: string): Promise<KYCDocument[]> {
+    return [...this.store.kycDocuments.values()]
+      .filter((d) => d.usuario_id === userId)
+      .sort((a, b) => new Date(b.fecha_carga).getTime() - new Date(a.fecha_carga).getTime())
+      .map(cloneRow);
+  }
+
+  async updateKYCStatus(userId: string, status: KYCStatus): Promise<UserAccount> {
+    const updates: Partial<UserAccount> = {
+      kyc_status: status,
+    };
+
+    if (status === KYCStatus.APROBADO) {
+      updates.kyc_completo = true;
+      updates.limite_transferencia = Money.fromDecimal(50000);
+    } else if (status === KYCStatus.RECHAZADO) {
+      updates.kyc_completo = false;
+    }
+
+    return this.update(userId, updates);
+  }
+
+  async getKYCStatus(userId: string): Promise<KYCStatus | null> {
+    return (await this.getAccountOrFail(userId)).kyc_status || null;
+  }
+
+  // Password Reset Token Methods
+  async createPasswordResetToken(userId: string): Promise<PasswordResetToken> {
+    const ahora = new Date();
+    const row: PasswordResetToken = {
+      token: crypto.randomBytes(32).toString('hex'),
+      usuario_id: userId,
+      fecha_creacion: ahora,
+      fecha_vencimiento: new Date(ahora.getTime() + 24 * 60 * 60 * 1000),
+      utilizado: false,
+    };
+    this.store.passwordResetTokens.set(row.token, row);
+    return cloneRow(row);
+  }
+
+  async validatePasswordResetToken(token: string): Promise<boolean> {
+    const row = this.store.passwordResetTokens.get(token);
+    if (!row || row.utilizado) return false;
+    return new Date(row.fecha_vencimiento) > new Date();
+  }
+
+  async markResetTokenAsUsed(token: string): Promise<void> {
+    const row = this.store.passwordResetTokens.get(token);
+    if (!row) return;
+    this.store.passwordResetTokens.set(token, {
+      ...row,
+      utilizado: true,
+      fecha_utilizacion: new Date(),
+    });
+  }
+
+  async getUserIdFromResetToken(token: string): Promise<string> {
+    const row = this.store.passwordResetTokens.get(token);
+    if (!row || row.utilizado) throw new NotFoundError('Invalid or expired reset token');
+    return row.usuario_id;
+  }
+
+  async updateTransferLimit(userId: string, limite: Money): Promise<UserAccount> {
+    if (!limite.isPositive()) {
+      throw new ValidationError('Transfer limit must be greater than 0');
+    }
+    return this.update(userId, { limite_transferencia: limite });
+  }
+
+  async getTransferLimit(userId: string): Promise<Money> {
+    return (await this.getAccountOrFail(userId)).limite_transferencia || Money.fromDecimal(10000);
+  }
+
+  private async getAccountOrFail(userId: string): Promise<UserAccount> {
+    const account = this.store.userAccounts.get(userId);
+    if (!account) throw new NotFoundError(`User account ${userId} not found`);
+    return account;
+  }
+}
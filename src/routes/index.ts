@@ -1,11 +1,18 @@
 import { Router } from 'express';
-import { verifyToken, optionalAuth, generateToken } from '@/middleware/authMiddleware.js';
+import { verifyToken, optionalAuth, generateToken, requireAdmin } from '@/middleware/authMiddleware.js';
+import { idempotent } from '@/middleware/idempotencyMiddleware.js';
 import UserAccountsHandler from '@/handlers/UserAccountsHandler.js';
 import CreditsHandler from '@/handlers/CreditsHandler.js';
 import TransferHandler from '@/handlers/TransferHandler.js';
+import AuditHandler from '@/handlers/AuditHandler.js';
+import PricingHandler from '@/handlers/PricingHandler.js';
+import RevolvingCreditHandler from '@/handlers/RevolvingCreditHandler.js';
 
 const router = Router();
 
+// Identify the caller when a token is sent, so audit entries record who acted
+router.use(optionalAuth);
+
 // Health check endpoint
 router.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date() });
@@ -17,7 +24,9 @@ router.get('/health', (req, res) => {
 router.post('/accounts', UserAccountsHandler.createAccount.bind(UserAccountsHandler));
 router.get('/accounts/:usuario_id', UserAccountsHandler.getAccount.bind(UserAccountsHandler));
 router.get('/accounts/:usuario_id/balance', UserAccountsHandler.getBalance.bind(UserAccountsHandler));
-router.post('/accounts/funds/add', UserAccountsHandler.addFunds.bind(UserAccountsHandler));
+router.get('/accounts/:usuario_id/ledger', UserAccountsHandler.getLedger.bind(UserAccountsHandler));
+router.post('/accounts/funds/add', idempotent, UserAccountsHandler.addFunds.bind(UserAccountsHandler));
+router.post('/accounts/currency/convert', idempotent, UserAccountsHandler.convertCurrency.bind(UserAccountsHandler));
 router.post('/accounts/kyc/complete', UserAccountsHandler.completeKYC.bind(UserAccountsHandler));
 router.post('/accounts/income/declare', UserAccountsHandler.declareIncome.bind(UserAccountsHandler));
 router.post('/accounts/scoring/set', UserAccountsHandler.setExternalScore.bind(UserAccountsHandler));
@@ -63,21 +72,79 @@ router.post(
 // Credit acceptance and disbursement
 router.post(
   '/credits/:id_credito/accept',
+  idempotent,
   CreditsHandler.acceptCreditAndDisburse.bind(CreditsHandler)
 );
 
 // Get credits
 router.get('/credits/user/:usuario_id', CreditsHandler.getUserCredits.bind(CreditsHandler));
+router.get('/credits/user/:usuario_id/limit', CreditsHandler.getCreditLimit.bind(CreditsHandler));
 router.get('/credits/:id_credito/detail', CreditsHandler.getCreditDetail.bind(CreditsHandler));
 
+// Early repayment (precancelación)
+router.get('/credits/:id_credito/prepayment', CreditsHandler.quotePrepayment.bind(CreditsHandler));
+router.post('/credits/:id_credito/prepayment', idempotent, CreditsHandler.prepayCredit.bind(CreditsHandler));
+router.post(
+  '/credits/:id_credito/prepayment/partial',
+  idempotent,
+  CreditsHandler.prepayCreditPartially.bind(CreditsHandler)
+);
+
+// Revocation (derecho de revocación)
+router.post('/credits/:id_credito/revoke', idempotent, CreditsHandler.revokeCredit.bind(CreditsHandler));
+
+// Installment payments by the borrower
+router.post(
+  '/credits/:id_credito/installments/pay',
+  idempotent,
+  CreditsHandler.payInstallment.bind(CreditsHandler)
+);
+router.post(
+  '/credits/:id_credito/installments/:id_cuota/pay',
+  idempotent,
+  CreditsHandler.payInstallment.bind(CreditsHandler)
+);
+router.get('/credits/:id_credito/receipts', CreditsHandler.getInstallmentReceipts.bind(CreditsHandler));
+
+// Refinancing
+router.post('/credits/refinancing/simulate', CreditsHandler.simulateRefinancing.bind(CreditsHandler));
+router.post('/credits/refinancing', idempotent, CreditsHandler.requestRefinancing.bind(CreditsHandler));
+
+// Revolving credit lines
+router.post('/credits/revolving-lines', idempotent, RevolvingCreditHandler.openLine.bind(RevolvingCreditHandler));
+router.get(
+  '/credits/revolving-lines/user/:usuario_id',
+  RevolvingCreditHandler.getUserLines.bind(RevolvingCreditHandler)
+);
+router.get('/credits/revolving-lines/:id_linea', RevolvingCreditHandler.getLineDetail.bind(RevolvingCreditHandler));
+router.post(
+  '/credits/revolving-lines/:id_linea/drawdowns',
+  idempotent,
+  RevolvingCreditHandler.drawDown.bind(RevolvingCreditHandler)
+);
+router.post(
+  '/credits/revolving-lines/:id_linea/payments',
+  idempotent,
+  RevolvingCreditHandler.pay.bind(RevolvingCreditHandler)
+);
+router.get(
+  '/credits/revolving-lines/:id_linea/statements',
+  RevolvingCreditHandler.getStatements.bind(RevolvingCreditHandler)
+);
+router.post(
+  '/credits/revolving-lines/:id_linea/close',
+  RevolvingCreditHandler.closeLine.bind(RevolvingCreditHandler)
+);
+
 // ============================================================
 // TRANSFER ROUTES
 // ============================================================
 // Transfer execution
 router.post('/transfers/analyze', TransferHandler.analyzeTransfer.bind(TransferHandler));
-router.post('/transfers/execute', TransferHandler.handleTransfer.bind(TransferHandler));
+router.post('/transfers/execute', idempotent, TransferHandler.handleTransfer.bind(TransferHandler));
 router.post(
   '/transfers/execute-with-credit',
+  idempotent,
   TransferHandler.confirmTransferWithCredit.bind(TransferHandler)
 );
 
@@ -105,6 +172,23 @@ router.post(
 );
 router.get('/transfers/user/:usuario_id/receipts', TransferHandler.getUserReceipts.bind(TransferHandler));
 
+// ============================================================
+// AUDIT ROUTES
+// ============================================================
+router.get('/audit/logs', verifyToken, AuditHandler.getLogs.bind(AuditHandler));
+
+// ============================================================
+// PRICING ROUTES (admin)
+// ============================================================
+router.get('/pricing/rate-tables', verifyToken, PricingHandler.getRateTables.bind(PricingHandler));
+router.post(
+  '/pricing/rate-tables',
+  verifyToken,
+  requireAdmin,
+  idempotent,
+  PricingHandler.publishRateTable.bind(PricingHandler)
+);
+
 // ============================================================
 // AUTHENTICATION ROUTES (Mock)
 // ============================================================
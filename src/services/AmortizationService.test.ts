@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { AmortizationSystem, Money } from '@/types/index.js';
+import { ValidationError } from '@/errors/AppError.js';
+import { AmortizationService } from './AmortizationService.js';
+import { ars } from '@/test/helpers.js';
+
+const amortization = new AmortizationService(21);
+const inicio = new Date('2026-01-01T00:00:00Z');
+
+describe('AmortizationService schedules', () => {
+  it.each([AmortizationSystem.FRENCH, AmortizationSystem.GERMAN, AmortizationSystem.BULLET])(
+    'repays exactly the principal and adds up every installment (%s)',
+    (sistema) => {
+      const plan = amortization.buildSchedule(sistema, ars(100000), 80, 12, ars(1200), inicio);
+
+      expect(Money.sum(plan.map((c) => c.capital))).toEqual(ars(100000));
+      expect(Money.sum(plan.map((c) => c.gastos))).toEqual(ars(1200));
+      expect(plan[plan.length - 1].saldo_restante).toEqual(ars(0));
+      for (const cuota of plan) {
+        expect(cuota.importe).toEqual(cuota.capital.add(cuota.interes).add(cuota.iva).add(cuota.gastos));
+        expect(cuota.iva).toEqual(cuota.interes.percentage(21));
+      }
+    }
+  );
+
+  it('keeps the French installment constant while the interest decreases', () => {
+    const plan = amortization.buildSchedule(AmortizationSystem.FRENCH, ars(100000), 80, 12, ars(0), inicio);
+    const puras = plan.slice(0, -1).map((c) => c.capital.add(c.interes).toDecimal());
+
+    expect(Math.max(...puras) - Math.min(...puras)).toBeLessThanOrEqual(0.01);
+    expect(plan[0].interes.greaterThan(plan[11].interes)).toBe(true);
+  });
+
+  it('repays the same capital every German period', () => {
+    const plan = amortization.buildSchedule(AmortizationSystem.GERMAN, ars(120000), 80, 12, ars(0), inicio);
+
+    expect(plan.every((c) => c.capital.equals(ars(10000)))).toBe(true);
+    expect(plan[0].importe.greaterThan(plan[11].importe)).toBe(true);
+  });
+
+  it('schedules a bullet credit as one installment at the end of the term', () => {
+    const plan = amortization.buildSchedule(AmortizationSystem.BULLET, ars(50000), 80, 3, ars(0), inicio);
+
+    expect(plan).toHaveLength(1);
+    expect(plan[0].capital).toEqual(ars(50000));
+    expect(plan[0].interes).toEqual(ars(50000).multiply(amortization.periodRate(80, 90)));
+  });
+
+  it('charges interest on the balance still owed, at the period rate equivalent to the TEA', () => {
+    const plan = amortization.buildSchedule(AmortizationSystem.FRENCH, ars(100000), 80, 12, ars(0), inicio);
+
+    expect(plan[0].interes).toEqual(ars(100000).multiply(amortization.periodRate(80)));
+    expect(plan[1].interes).toEqual(plan[0].saldo_restante.multiply(amortization.periodRate(80)));
+    expect(Math.pow(1 + amortization.periodRate(80), 365 / 30)).toBeCloseTo(1.8, 10);
+  });
+
+  it('splits the principal evenly without interest', () => {
+    const plan = amortization.buildSchedule(AmortizationSystem.FRENCH, ars(100), 0, 3, ars(0), inicio);
+
+    expect(plan.map((c) => c.capital)).toEqual([ars(33.34), ars(33.34), ars(33.32)]);
+    expect(plan.every((c) => c.interes.isZero())).toBe(true);
+  });
+
+  it('falls due every 30 days from the start date', () => {
+    const plan = amortization.buildSchedule(AmortizationSystem.FRENCH, ars(30000), 80, 3, ars(0), inicio);
+
+    expect(plan.map((c) => c.fecha_vencimiento)).toEqual([
+      new Date('2026-01-31T00:00:00Z'),
+      new Date('2026-03-02T00:00:00Z'),
+      new Date('2026-04-01T00:00:00Z'),
+    ]);
+  });
+
+  it('refuses to schedule a legacy flat-interest credit', () => {
+    expect(() => amortization.buildSchedule(AmortizationSystem.FLAT, ars(10000), 80, 1, ars(0), inicio)).toThrow(
+      ValidationError
+    );
+  });
+});
+
+describe('AmortizationService disclosed rates', () => {
+  it('gives a CFT equal to the TEA when there is neither IVA nor charges', () => {
+    const sinIva = new AmortizationService(0);
+    const plan = sinIva.buildSchedule(AmortizationSystem.FRENCH, ars(100000), 80, 12, ars(0), inicio);
+
+    const tasas = sinIva.disclosedRates(80, ars(100000), plan, inicio);
+
+    expect(tasas.tasa_tea).toBe(80);
+    expect(tasas.tasa_cft).toBeCloseTo(80, 0);
+    expect(tasas.tasa_tna).toBeCloseTo(sinIva.nominalRate(80, 30), 2);
+  });
+
+  it('adds IVA and administrative charges to the CFT', () => {
+    const plan = amortization.buildSchedule(AmortizationSystem.FRENCH, ars(100000), 80, 12, ars(3000), inicio);
+
+    const tasas = amortization.disclosedRates(80, ars(100000), plan, inicio);
+
+    expect(tasas.tasa_cft).toBeGreaterThan(tasas.tasa_tea);
+    expect(tasas.tasa_cft_tna).toBeGreaterThan(tasas.tasa_tna);
+    // discounting the installments at the CFT gives back the principal
+    const cft = amortization.internalRate(ars(100000), plan, inicio);
+    const anios = (fecha: Date) => (fecha.getTime() - inicio.getTime()) / (365 * 86_400_000);
+    const valorPresente = plan.reduce(
+      (total, cuota) => total + cuota.importe.toDecimal() / Math.pow(1 + cft, anios(cuota.fecha_vencimiento)),
+      0
+    );
+    expect(valorPresente).toBeCloseTo(100000, 2);
+  });
+
+  it('discloses a nominal rate below the effective one for monthly payments', () => {
+    expect(amortization.nominalRate(80, 30)).toBeLessThan(80);
+    expect(amortization.nominalRate(80, 365)).toBeCloseTo(80, 10);
+  });
+});
@@ -0,0 +1,181 @@
+import { AmortizationSystem, DisclosedRates, InstallmentPlan, Money } from '@/types/index.js';
+import { config } from '@/config/config.js';
+import { ValidationError } from '@/errors/AppError.js';
+import { addDaysToDate, roundToTwoDecimals } from '@/utils/helpers.js';
+
+const DAYS_PER_YEAR = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bisection steps when solving for the CFT; 100 halvings are well below a hundredth of a percent
+const IRR_ITERATIONS = 100;
+
+// Installments fall due every 30 days from the day the schedule is built
+const PERIOD_DAYS = 30;
+
+/**
+ * Builds installment schedules. Every row separates capital, interest, IVA on the interest
+ * and its share of the administrative charges, and carries the principal still owed.
+ *
+ * Interest is charged on the outstanding balance and rounded half-up to the cent each period;
+ * the last installment takes whatever capital is left, so capital adds up exactly to the
+ * principal. Administrative charges are spread with Money.allocate.
+ */
+export class AmortizationService {
+  constructor(private ivaRate: number = config.credits.ivaRate) {}
+
+  /**
+   * Effective rate over `days` equivalent to an annual effective rate (TEA, %)
+   */
+  periodRate(tea: number, days: number = PERIOD_DAYS): number {
+    return Math.pow(1 + tea / 100, days / DAYS_PER_YEAR) - 1;
+  }
+
+  /**
+   * Nominal annual rate (TNA, %) for payments every `days`, equivalent to an annual effective rate (TEA, %)
+   */
+  nominalRate(tea: number, days: number = PERIOD_DAYS): number {
+    return this.periodRate(tea, days) * (DAYS_PER_YEAR / days) * 100;
+  }
+
+  /**
+   * Rates disclosed to the borrower for a schedule starting on `fechaInicio`. The CFT (costo
+   * financiero total) is the internal rate of return of the borrower's cash flows: `principal`
+   * received on `fechaInicio` against every installment, so it includes IVA and administrative
+   * charges. Nominal rates use the schedule's payment period. All rates are %, to two decimals.
+   */
+  disclosedRates(tea: number, principal: Money, plan: InstallmentPlan[], fechaInicio: Date): DisclosedRates {
+    const diasPeriodo = daysFrom(fechaInicio, plan[0].fecha_vencimiento);
+    const cft = this.internalRate(principal, plan, fechaInicio) * 100;
+
+    return {
+      tasa_tea: roundToTwoDecimals(tea),
+      tasa_tna: roundToTwoDecimals(this.nominalRate(tea, diasPeriodo)),
+      tasa_cft: roundToTwoDecimals(cft),
+      tasa_cft_tna: roundToTwoDecimals(this.nominalRate(cft, diasPeriodo)),
+    };
+  }
+
+  /**
+   * Annual effective rate (as a fraction) at which the installments, discounted to
+   * `fechaInicio`, are worth exactly `principal`
+   */
+  internalRate(principal: Money, plan: InstallmentPlan[], fechaInicio: Date): number {
+    const flujos = plan.map((cuota) => ({
+      centavos: cuota.importe.centavos,
+      anios: daysFrom(fechaInicio, cuota.fecha_vencimiento) / DAYS_PER_YEAR,
+    }));
+    // Present value of the installments minus the principal; decreases as the rate grows
+    const valorNeto = (tasa: number) =>
+      flujos.reduce((total, flujo) => total + flujo.centavos / Math.pow(1 + tasa, flujo.anios), 0) -
+      principal.centavos;
+
+    let min = -0.99;
+    let max = 1;
+    while (valorNeto(max) > 0) max *= 2;
+
+    for (let i = 0; i < IRR_ITERATIONS; i++) {
+      const tasa = (min + max) / 2;
+      if (valorNeto(tasa) > 0) min = tasa;
+      else max = tasa;
+    }
+
+    return (min + max) / 2;
+  }
+
+  /**
+   * Schedule for `periods` 30-day periods under the given system: one installment per period,
+   * or a single one at the end of the term for a bullet
+   */
+  buildSchedule(
+    sistema: AmortizationSystem,
+    principal: Money,
+    tea: number,
+    periods: number,
+    gastos: Money = Money.zero(principal.moneda),
+    fechaInicio: Date = new Date()
+  ): InstallmentPlan[] {
+    const fechas = sistema === AmortizationSystem.BULLET
+      ? [addDaysToDate(fechaInicio, periods * PERIOD_DAYS)]
+      : Array.from({ length: periods }, (_, i) => addDaysToDate(fechaInicio, (i + 1) * PERIOD_DAYS));
+
+    return this.scheduleOn(sistema, principal, tea, fechaInicio, fechas, gastos);
+  }
+
+  /**
+   * Schedule repaying `principal`, lent on `fechaInicio`, on the given due dates. Each period's
+   * rate follows from its length in days.
+   *
+   * - French (sistema francés): capital plus interest is the same every period, so early
+   *   installments are mostly interest.
+   * - German (sistema alemán): the same capital every period, so installments decrease along
+   *   with the interest.
+   * - Bullet: interest only until the last due date, which repays all the capital.
+   */
+  scheduleOn(
+    sistema: AmortizationSystem,
+    principal: Money,
+    tea: number,
+    fechaInicio: Date,
+    fechas: Date[],
+    gastos: Money = Money.zero(principal.moneda)
+  ): InstallmentPlan[] {
+    if (sistema === AmortizationSystem.FLAT) {
+      throw new ValidationError('Flat-interest (tasa_plana) credits cannot be rescheduled');
+    }
+
+    const cuotas = fechas.length;
+    const gastosPorCuota = gastos.allocate(cuotas);
+    const capitales = principal.allocate(cuotas);
+
+    // The French payment is set from the first period's rate; schedules use equal periods
+    const tasaInicial = this.periodRate(tea, daysFrom(fechaInicio, fechas[0]));
+    const cuotaPura = tasaInicial === 0
+      ? principal.multiply(1 / cuotas, 'up')
+      : principal.multiply(tasaInicial / (1 - Math.pow(1 + tasaInicial, -cuotas)));
+
+    const plan: InstallmentPlan[] = [];
+    let saldo = principal;
+    let desde = fechaInicio;
+
+    for (let nro = 1; nro <= cuotas; nro++) {
+      const hasta = fechas[nro - 1];
+      const interes = saldo.multiply(this.periodRate(tea, daysFrom(desde, hasta)));
+
+      let capital: Money;
+      if (nro === cuotas) {
+        // The last installment takes whatever capital is left
+        capital = saldo;
+      } else if (sistema === AmortizationSystem.FRENCH) {
+        capital = Money.min(cuotaPura.subtract(interes), saldo);
+      } else if (sistema === AmortizationSystem.GERMAN) {
+        capital = capitales[nro - 1];
+      } else {
+        capital = Money.zero(principal.moneda);
+      }
+
+      const iva = interes.percentage(this.ivaRate);
+      saldo = saldo.subtract(capital);
+      desde = hasta;
+
+      plan.push({
+        nro_cuota: nro,
+        importe: capital.add(interes).add(iva).add(gastosPorCuota[nro - 1]),
+        capital,
+        interes,
+        iva,
+        gastos: gastosPorCuota[nro - 1],
+        saldo_restante: saldo,
+        fecha_vencimiento: hasta,
+      });
+    }
+
+    return plan;
+  }
+}
+
+function daysFrom(desde: Date, hasta: Date): number {
+  return Math.round((new Date(hasta).getTime() - new Date(desde).getTime()) / DAY_MS);
+}
+
+export default new AmortizationService();
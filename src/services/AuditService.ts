@@ -0,0 +1,92 @@
+import { AuditContext, AuditEventType, AuditLog, AuditLogFilter } from '@/types/index.js';
+import { repositories, IAuditRepository } from '@/repositories/index.js';
+import { ValidationError } from '@/errors/AppError.js';
+import { UnitOfWork } from './UnitOfWork.js';
+
+// Context for actions started by the system itself (schedulers, automatic blocks)
+export const SYSTEM_AUDIT_CONTEXT: AuditContext = {
+  actor: 'sistema',
+  ip: 'interno',
+  dispositivo: 'interno',
+};
+
+// Never copied into snapshots
+const REDACTED_FIELDS = new Set(['password_hash', 'token']);
+
+const MAX_PAGE_SIZE = 100;
+
+export interface AuditEvent {
+  tipo_evento: AuditEventType;
+  usuario_id: string;
+  id_credito?: string;
+  antes?: unknown;
+  despues?: unknown;
+  detalles?: Record<string, unknown>;
+}
+
+export class AuditService {
+  constructor(private auditRepository: IAuditRepository = repositories.audit) {}
+
+  /**
+   * Record a state-changing action. Inside a unit of work the entry is written only after
+   * it commits, so rolled-back operations leave no trace. A failed write is logged and
+   * never fails the action itself, which has already happened.
+   */
+  async record(contexto: AuditContext, evento: AuditEvent, uow?: UnitOfWork): Promise<void> {
+    if (uow) {
+      uow.afterCommit(`audit ${evento.tipo_evento}`, () => this.record(contexto, evento));
+      return;
+    }
+
+    try {
+      await this.auditRepository.create({
+        usuario_id: evento.usuario_id,
+        id_credito: evento.id_credito,
+        tipo_evento: evento.tipo_evento,
+        actor: contexto.actor,
+        ip: contexto.ip,
+        dispositivo: contexto.dispositivo,
+        detalles: snapshot(evento.detalles) || {},
+        datos_anteriores: snapshot(evento.antes),
+        datos_nuevos: snapshot(evento.despues),
+      });
+    } catch (error) {
+      console.error(`Failed to record audit event ${evento.tipo_evento} for ${evento.usuario_id}:`, error);
+    }
+  }
+
+  /**
+   * Audit entries matching every given filter, newest first
+   */
+  async query(filter: Partial<AuditLogFilter>): Promise<AuditLog[]> {
+    if (!filter.usuario_id && !filter.id_credito && !filter.tipo_evento) {
+      throw new ValidationError('At least one filter is required: usuario_id, id_credito or tipo_evento');
+    }
+    if (filter.tipo_evento && !Object.values(AuditEventType).includes(filter.tipo_evento)) {
+      throw new ValidationError(
+        `Invalid tipo_evento: ${filter.tipo_evento}. Allowed: ${Object.values(AuditEventType).join(', ')}`
+      );
+    }
+    if (filter.desde && filter.hasta && filter.desde > filter.hasta) {
+      throw new ValidationError('desde must be before hasta');
+    }
+
+    return this.auditRepository.find({
+      ...filter,
+      limit: Math.min(Math.max(filter.limit || 50, 1), MAX_PAGE_SIZE),
+      offset: Math.max(filter.offset || 0, 0),
+    });
+  }
+}
+
+/**
+ * Plain JSON copy of a record as clients see it (Money as decimals, dates as ISO strings)
+ */
+function snapshot(value: unknown): Record<string, unknown> | null {
+  if (value === undefined || value === null) return null;
+
+  const json = JSON.parse(JSON.stringify(value), (key, field) => (REDACTED_FIELDS.has(key) ? undefined : field));
+  return typeof json === 'object' && !Array.isArray(json) ? json : { valor: json };
+}
+
+export default new AuditService();
@@ -1,39 +1,58 @@
-import { BankingAPIResponse, CBUValidationResult, ExternalTransferRequest, ExternalTransferResult, TransferStatus } from '@/types/index.js';
-import UserAccountsService from './UserAccountsService.js';
+import {
+  BankingAPIResponse,
+  CBUValidationResult,
+  ExternalTransferRequest,
+  ExternalTransferResult,
+  Money,
+  Currency,
+  TransferStatus,
+} from '@/types/index.js';
+import UserAccountsService, { UserAccountsService as UserAccountsServiceClass } from './UserAccountsService.js';
+import LedgerService, { LedgerService as LedgerServiceClass } from './LedgerService.js';
+import CurrencyExchangeService, {
+  CurrencyExchangeService as CurrencyExchangeServiceClass,
+} from './CurrencyExchangeService.js';
+import { UnitOfWork } from './UnitOfWork.js';
 import { v4 as uuidv4 } from 'uuid';
-import { ValidationError } from '@/errors/AppError.js';
+import { IdempotencyError, ValidationError } from '@/errors/AppError.js';
 
 /**
  * Mock Banking API Service
  * Simulates internal banking operations for credit disbursement and payment processing
  */
 export class BankingAPI {
-  private userAccountsService = UserAccountsService;
+  constructor(
+    private userAccountsService: UserAccountsServiceClass = UserAccountsService,
+    private ledgerService: LedgerServiceClass = LedgerService,
+    private currencyExchangeService: CurrencyExchangeServiceClass = CurrencyExchangeService
+  ) {}
 
   /**
    * Simulate disbursement of credit to user's wallet
    * In a real system, this would call actual banking infrastructure
    */
-  async disburseCredit(userId: string, amount: number): Promise<BankingAPIResponse> {
+  async disburseCredit(
+    userId: string,
+    amount: Money,
+    creditId?: string,
+    uow?: UnitOfWork
+  ): Promise<BankingAPIResponse> {
     try {
-      const account = await this.userAccountsService.getUserAccount(userId);
-
-      // Simulate successful disbursement
-      const updatedAccount = await this.userAccountsService.addFunds(userId, amount);
+      const posting = await this.ledgerService.recordCreditDisbursement(userId, amount, creditId, uow);
 
       return {
         exito: true,
-        transaccion_id: uuidv4(),
+        transaccion_id: posting.asiento.id_asiento,
         monto: amount,
-        fecha: new Date(),
-        saldo_resultante: updatedAccount.saldo_disponible,
+        fecha: posting.asiento.fecha_creacion,
+        saldo_resultante: posting.saldos[userId]?.[amount.moneda] ?? Money.zero(amount.moneda),
       };
     } catch (error) {
       return {
         exito: false,
         monto: amount,
         fecha: new Date(),
-        saldo_resultante: 0,
+        saldo_resultante: Money.zero(amount.moneda),
         razon_fallo: `Disbursement failed: ${error}`,
       };
     }
@@ -43,35 +62,86 @@ export class BankingAPI {
    * Simulate automatic debit for installment payment
    * In a real system, this would process actual bank transfers
    */
-  async processInstallmentPayment(userId: string, amount: number): Promise<BankingAPIResponse> {
+  async processInstallmentPayment(
+    userId: string,
+    amount: Money,
+    installmentId?: string,
+    uow?: UnitOfWork
+  ): Promise<BankingAPIResponse> {
     try {
-      const account = await this.userAccountsService.getUserAccount(userId);
+      const balance = await this.userAccountsService.getBalance(userId, amount.moneda);
 
-      if (account.saldo_disponible < amount) {
+      if (balance.lessThan(amount)) {
         return {
           exito: false,
           monto: amount,
           fecha: new Date(),
-          saldo_resultante: account.saldo_disponible,
+          saldo_resultante: balance,
           razon_fallo: 'Insufficient balance for payment',
         };
       }
 
-      const updatedAccount = await this.userAccountsService.removeFunds(userId, amount);
+      const posting = await this.ledgerService.recordInstallmentDebit(userId, amount, installmentId, uow);
 
       return {
         exito: true,
-        transaccion_id: uuidv4(),
+        transaccion_id: posting.asiento.id_asiento,
+        monto: amount,
+        fecha: posting.asiento.fecha_creacion,
+        saldo_resultante: posting.saldos[userId]?.[amount.moneda] ?? Money.zero(amount.moneda),
+      };
+    } catch (error) {
+      // Already debited by another request: a conflict, not a declined payment
+      if (error instanceof IdempotencyError) throw error;
+      return {
+        exito: false,
         monto: amount,
         fecha: new Date(),
-        saldo_resultante: updatedAccount.saldo_disponible,
+        saldo_resultante: Money.zero(amount.moneda),
+        razon_fallo: `Payment processing failed: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Simulate the debit of an early repayment of credit `creditId`, posted under `clave`
+   */
+  async processPrepayment(
+    userId: string,
+    amount: Money,
+    creditId: string,
+    clave: string,
+    uow?: UnitOfWork
+  ): Promise<BankingAPIResponse> {
+    try {
+      const balance = await this.userAccountsService.getBalance(userId, amount.moneda);
+
+      if (balance.lessThan(amount)) {
+        return {
+          exito: false,
+          monto: amount,
+          fecha: new Date(),
+          saldo_resultante: balance,
+          razon_fallo: 'Insufficient balance for payment',
+        };
+      }
+
+      const posting = await this.ledgerService.recordPrepayment(userId, amount, creditId, clave, uow);
+
+      return {
+        exito: true,
+        transaccion_id: posting.asiento.id_asiento,
+        monto: amount,
+        fecha: posting.asiento.fecha_creacion,
+        saldo_resultante: posting.saldos[userId]?.[amount.moneda] ?? Money.zero(amount.moneda),
       };
     } catch (error) {
+      if (error instanceof IdempotencyError) throw error;
       return {
         exito: false,
         monto: amount,
         fecha: new Date(),
-        saldo_resultante: 0,
+        saldo_resultante: Money.zero(amount.moneda),
         razon_fallo: `Payment processing failed: ${error}`,
       };
     }
@@ -81,9 +151,9 @@ export class BankingAPI {
    * Simulate checking available funds for a user
    * In a real system, this would query the banking system
    */
-  async checkAvailableFunds(userId: string): Promise<number> {
+  async checkAvailableFunds(userId: string, moneda: Currency = Currency.ARS): Promise<Money> {
     try {
-      const balance = await this.userAccountsService.getBalance(userId);
+      const balance = await this.userAccountsService.getBalance(userId, moneda);
       return balance;
     } catch (error) {
       throw new Error(`Failed to check available funds: ${error}`);
@@ -91,34 +161,20 @@ export class BankingAPI {
   }
 
   /**
-   * Simulate retry mechanism for failed payments
-   * In a real system, this would schedule retry with banking infrastructure
-   */
-  async schedulePaymentRetry(userId: string, amount: number, delayHours: number = 48): Promise<{
-    retryScheduled: boolean;
-    scheduledFor: Date;
-  }> {
-    const scheduledFor = new Date();
-    scheduledFor.setHours(scheduledFor.getHours() + delayHours);
-
-    return {
-      retryScheduled: true,
-      scheduledFor,
-    };
-  }
-
-  /**
-   * Simulate transferring funds between accounts (for transfers)
+   * Simulate transferring funds between accounts (for transfers).
+   * The balance check below is only a fast path: the ledger posting debits conditionally,
+   * so a concurrent transfer that drained the wallet makes this one fail instead of overdrawing.
    */
   async transferFunds(
     fromUserId: string,
     toUserId: string,
-    amount: number
+    amount: Money,
+    uow?: UnitOfWork
   ): Promise<BankingAPIResponse> {
     try {
       // Check if sender has sufficient funds
-      const senderBalance = await this.userAccountsService.getBalance(fromUserId);
-      if (senderBalance < amount) {
+      const senderBalance = await this.userAccountsService.getBalance(fromUserId, amount.moneda);
+      if (senderBalance.lessThan(amount)) {
         return {
           exito: false,
           monto: amount,
@@ -128,25 +184,22 @@ export class BankingAPI {
         };
       }
 
-      // Remove funds from sender
-      const senderUpdated = await this.userAccountsService.removeFunds(fromUserId, amount);
-
-      // Add funds to recipient
-      const recipientUpdated = await this.userAccountsService.addFunds(toUserId, amount);
+      // Both legs are posted in a single journal entry
+      const posting = await this.ledgerService.recordP2PTransfer(fromUserId, toUserId, amount, undefined, uow);
 
       return {
         exito: true,
-        transaccion_id: uuidv4(),
+        transaccion_id: posting.asiento.id_asiento,
         monto: amount,
-        fecha: new Date(),
-        saldo_resultante: senderUpdated.saldo_disponible,
+        fecha: posting.asiento.fecha_creacion,
+        saldo_resultante: posting.saldos[fromUserId]?.[amount.moneda] ?? Money.zero(amount.moneda),
       };
     } catch (error) {
       return {
         exito: false,
         monto: amount,
         fecha: new Date(),
-        saldo_resultante: 0,
+        saldo_resultante: Money.zero(amount.moneda),
         razon_fallo: `Transfer failed: ${error}`,
       };
     }
@@ -156,7 +209,7 @@ export class BankingAPI {
    * Simulate batch processing of multiple payments (for scheduled payments)
    */
   async processBatchPayments(
-    payments: { userId: string; amount: number }[]
+    payments: { userId: string; amount: Money }[]
   ): Promise<BankingAPIResponse[]> {
     return Promise.all(
       payments.map((payment) => this.processInstallmentPayment(payment.userId, payment.amount))
@@ -169,7 +222,7 @@ export class BankingAPI {
   generateReceipt(
     transactionId: string,
     type: 'disbursement' | 'payment' | 'transfer',
-    amount: number,
+    amount: Money,
     userId: string
   ): string {
     return `
@@ -177,7 +230,7 @@ RECIBO DE ${type.toUpperCase()}
 ================================
 ID Transacción: ${transactionId}
 Usuario: ${userId}
-Monto: $${amount}
+Monto: ${amount}
 Fecha: ${new Date().toISOString()}
 ================================
     `.trim();
@@ -314,7 +367,7 @@ Fecha: ${new Date().toISOString()}
    * Execute transfer to external CBU/CVU account
    * In real system, would communicate with clearing house (CAJA, LICH, etc)
    */
-  async executeExternalTransfer(request: ExternalTransferRequest): Promise<ExternalTransferResult> {
+  async executeExternalTransfer(request: ExternalTransferRequest, uow?: UnitOfWork): Promise<ExternalTransferResult> {
     try {
       // Validate CBU/CVU format
       const validation = this.validateExternalAccount(request.cbu_destino);
@@ -348,8 +401,8 @@ Fecha: ${new Date().toISOString()}
       }
 
       // Verify sender has sufficient funds
-      const senderBalance = await this.userAccountsService.getBalance(request.usuario_id);
-      if (senderBalance < request.monto) {
+      const senderBalance = await this.userAccountsService.getBalance(request.usuario_id, request.monto.moneda);
+      if (senderBalance.lessThan(request.monto)) {
         return {
           exito: false,
           id_transferencia: uuidv4(),
@@ -369,7 +422,7 @@ Fecha: ${new Date().toISOString()}
       const now = new Date();
 
       try {
-        await this.userAccountsService.removeFunds(request.usuario_id, request.monto);
+        await this.ledgerService.recordExternalTransfer(request.usuario_id, request.monto, transferId, uow);
 
         // In real system, would submit to clearing house and return pending status
         // For mock, simulate immediate success
@@ -389,9 +442,7 @@ Fecha: ${new Date().toISOString()}
           },
         };
       } catch (error) {
-        // Revert debit if transfer fails
-        await this.userAccountsService.addFunds(request.usuario_id, request.monto);
-
+        // The debit entry was not posted, so there is nothing to revert
         return {
           exito: false,
           id_transferencia: transferId,
@@ -420,12 +471,13 @@ Fecha: ${new Date().toISOString()}
   }
 
   /**
-   * Validate transfer limit before execution
+   * Validate transfer limit before execution. The limit is set in pesos, so amounts in
+   * other currencies are valued at the reference rate.
    */
-  async validateTransferLimit(userId: string, monto: number): Promise<boolean> {
+  async validateTransferLimit(userId: string, monto: Money): Promise<boolean> {
     try {
       const limite = await this.userAccountsService.getTransferLimit(userId);
-      return monto <= limite;
+      return this.currencyExchangeService.valueIn(monto, limite.moneda).lessThanOrEqual(limite);
     } catch (error) {
       throw new ValidationError(`Failed to validate transfer limit: ${error}`);
     }
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { AuditEventType, CreditStatus, InstallmentStatus, Money } from '@/types/index.js';
+import { ValidationError } from '@/errors/AppError.js';
+import repositories from '@/repositories/index.js';
+import CreditLimitService from './CreditLimitService.js';
+import AuditService from './AuditService.js';
+import UserAccountsService from './UserAccountsService.js';
+import { addDaysToDate } from '@/utils/helpers.js';
+import { ars, createTestCredit, createTestInstallments, createTestUser } from '@/test/helpers.js';
+
+// Default settings: three times the declared income, or a 50.000 base line without one
+
+describe('CreditLimitService', () => {
+  it('starts from the declared income or the base line and halves it after a default', async () => {
+    const conIngresos = await createTestUser({ ingresos: ars(100000) });
+    expect(await CreditLimitService.recompute(conIngresos, 'spec')).toMatchObject({
+      limite_total: ars(300000),
+      saldo_utilizado: ars(0),
+      disponible: ars(300000),
+    });
+
+    const sinIngresos = await createTestUser();
+    expect((await CreditLimitService.recompute(sinIngresos, 'spec')).limite_total).toEqual(ars(50000));
+
+    await UserAccountsService.markAsDefaulter(conIngresos);
+    expect(await CreditLimitService.getCreditLimit(conIngresos)).toMatchObject({
+      limite_total: ars(150000),
+      historial_mora: true,
+      motivo: 'Marked as defaulter',
+    });
+  });
+
+  it('uses up the capital still owed on live credits', async () => {
+    const userId = await createTestUser({ ingresos: ars(100000) });
+    const credit = await createTestCredit(userId, { monto: ars(30000), estado: CreditStatus.IN_PROGRESS });
+    await createTestInstallments(credit);
+
+    const limite = await CreditLimitService.recompute(userId, 'spec');
+
+    expect(limite.saldo_utilizado).toEqual(ars(30000));
+    expect(limite.disponible).toEqual(ars(270000));
+    await expect(CreditLimitService.assertAvailable(userId, ars(270000.01))).rejects.toBeInstanceOf(ValidationError);
+    await CreditLimitService.assertAvailable(userId, ars(270000));
+  });
+
+  it('grows with installments paid on time and shrinks with late ones', async () => {
+    const userId = await createTestUser({ ingresos: ars(100000) });
+    const desembolso = addDaysToDate(new Date(), -70);
+    const credit = await createTestCredit(userId, {
+      monto: ars(30000),
+      estado: CreditStatus.IN_PROGRESS,
+      fecha_desembolso: desembolso,
+    });
+    const [primera, segunda] = await createTestInstallments(credit, desembolso);
+    for (const cuota of [primera, segunda]) {
+      await repositories.credits.updateInstallment(cuota.id_cuota, {
+        estado: InstallmentStatus.PAID,
+        fecha_pago: cuota.fecha_vencimiento,
+      });
+    }
+
+    const aTiempo = await CreditLimitService.recompute(userId, 'spec');
+    expect(aTiempo.cuotas_pagadas_a_tiempo).toBe(2);
+    expect(aTiempo.limite_total).toEqual(ars(300000).percentage(104));
+    expect(aTiempo.saldo_utilizado).toEqual(ars(30000).subtract(Money.sum([primera.capital, segunda.capital])));
+
+    await repositories.credits.updateInstallment(segunda.id_cuota, {
+      fecha_pago: addDaysToDate(segunda.fecha_vencimiento, 5),
+    });
+    const conAtraso = await CreditLimitService.recompute(userId, 'spec');
+    expect(conAtraso).toMatchObject({ cuotas_pagadas_a_tiempo: 1, cuotas_pagadas_con_atraso: 1 });
+    expect(conAtraso.limite_total).toEqual(ars(300000).percentage(92));
+  });
+
+  it('audits the line when its limite_total changes', async () => {
+    const userId = await createTestUser({ ingresos: ars(100000) });
+    const cambios = async () =>
+      AuditService.query({ usuario_id: userId, tipo_evento: AuditEventType.CREDIT_LIMIT_CHANGED });
+
+    await CreditLimitService.recompute(userId, 'First use');
+    await CreditLimitService.recompute(userId, 'Nothing changed');
+    expect(await cambios()).toHaveLength(1);
+
+    await UserAccountsService.markAsDefaulter(userId);
+    const [ultimo] = await cambios();
+    expect(ultimo).toMatchObject({
+      actor: 'sistema',
+      detalles: { motivo: 'Marked as defaulter' },
+      datos_anteriores: { limite_total: 300000 },
+      datos_nuevos: { limite_total: 150000 },
+    });
+  });
+
+  it('leaves nothing available while the debt-to-income ratio is too high', async () => {
+    const userId = await createTestUser({ ingresos: ars(100000) });
+    // 360.000 over 6 installments: 60% of the income
+    await createTestCredit(userId, { monto: ars(300000), cuotas: 6, estado: CreditStatus.IN_PROGRESS });
+
+    const limite = await CreditLimitService.recompute(userId, 'spec');
+
+    expect(limite.ratio_deuda_ingresos).toBe(60);
+    expect(limite.disponible).toEqual(ars(0));
+  });
+});
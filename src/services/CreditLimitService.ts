@@ -0,0 +1,158 @@
+import {
+  AuditEventType,
+  CreditLimit,
+  CreditStatus,
+  InstallmentStatus,
+  Money,
+  RevolvingLineStatus,
+} from '@/types/index.js';
+import { config } from '@/config/config.js';
+import {
+  repositories,
+  ICreditsRepository,
+  IRevolvingLinesRepository,
+  IUserAccountsRepository,
+} from '@/repositories/index.js';
+import RiskPricingService, { RiskPricingService as RiskPricingServiceClass } from './RiskPricingService.js';
+import AuditService, { AuditService as AuditServiceClass, SYSTEM_AUDIT_CONTEXT } from './AuditService.js';
+import { UnitOfWork } from './UnitOfWork.js';
+import { NotFoundError, ValidationError } from '@/errors/AppError.js';
+import { endOfDay } from '@/utils/helpers.js';
+
+// Credits whose principal still counts against the line
+const LIVE_CREDIT_STATUSES = [CreditStatus.DISBURSED, CreditStatus.IN_PROGRESS, CreditStatus.DEFAULT];
+
+/**
+ * Individual credit lines. The line starts from the declared income (or a base line without
+ * one), is adjusted by the repayment history and halved by a default history; what is still
+ * owed on live credits and the limits of open revolving lines are used up, and nothing is
+ * available while the debt-to-income ratio is too high. Lines are stored and recomputed after
+ * every event that changes them.
+ */
+export class CreditLimitService {
+  constructor(
+    private creditsRepository: ICreditsRepository = repositories.credits,
+    private userAccountsRepository: IUserAccountsRepository = repositories.userAccounts,
+    private riskPricingService: RiskPricingServiceClass = RiskPricingService,
+    private revolvingLinesRepository: IRevolvingLinesRepository = repositories.revolvingLines,
+    private auditService: AuditServiceClass = AuditService,
+    private settings: typeof config.creditLimits = config.creditLimits
+  ) {}
+
+  /**
+   * The stored line, computed on first use
+   */
+  async getCreditLimit(userId: string): Promise<CreditLimit> {
+    const limit = await this.creditsRepository.findCreditLimit(userId);
+    return limit || this.recompute(userId, 'First use');
+  }
+
+  /**
+   * Compute and store the line. A new limite_total is audited with the `sistema` actor, the
+   * stored line before and after.
+   */
+  async recompute(userId: string, motivo: string): Promise<CreditLimit> {
+    const anterior = await this.creditsRepository.findCreditLimit(userId);
+    const limite = await this.creditsRepository.saveCreditLimit(await this.calculate(userId, motivo));
+
+    if (!anterior || !anterior.limite_total.equals(limite.limite_total)) {
+      await this.auditService.record(SYSTEM_AUDIT_CONTEXT, {
+        tipo_evento: AuditEventType.CREDIT_LIMIT_CHANGED,
+        usuario_id: userId,
+        antes: anterior || undefined,
+        despues: limite,
+        detalles: { motivo },
+      });
+    }
+
+    return limite;
+  }
+
+  /**
+   * Recompute the line once the unit of work commits, or right away without one. A failed
+   * recomputation is logged; the stale line is corrected by the next event.
+   */
+  async scheduleRecompute(userId: string, motivo: string, uow?: UnitOfWork): Promise<void> {
+    if (uow) {
+      uow.afterCommit(`recompute credit limit of ${userId}`, () => this.scheduleRecompute(userId, motivo));
+      return;
+    }
+
+    try {
+      await this.recompute(userId, motivo);
+    } catch (error) {
+      console.error(`Failed to recompute the credit limit of ${userId} (${motivo}):`, error);
+    }
+  }
+
+  async assertAvailable(userId: string, amount: Money): Promise<void> {
+    const limit = await this.getCreditLimit(userId);
+    if (amount.greaterThan(limit.disponible)) {
+      throw new ValidationError(`Amount exceeds the available credit line of ${limit.disponible}`);
+    }
+  }
+
+  private async calculate(userId: string, motivo: string): Promise<CreditLimit> {
+    const account = await this.userAccountsRepository.findByUserId(userId);
+    if (!account) {
+      throw new NotFoundError(`User account ${userId} not found`);
+    }
+
+    const credits = await this.creditsRepository.findCreditsByUserId(userId);
+    let saldoUtilizado = Money.zero();
+    let aTiempo = 0;
+    let conAtraso = 0;
+    const ahora = new Date();
+    for (const credit of credits) {
+      const installments = await this.creditsRepository.getInstallmentsByCredit(credit.id_credito);
+      for (const cuota of installments) {
+        if (cuota.estado === InstallmentStatus.PAID && cuota.fecha_pago) {
+          const vencimiento = new Date(cuota.fecha_vencimiento);
+          if (new Date(cuota.fecha_pago) > endOfDay(vencimiento)) conAtraso++;
+          // Installments prepaid before they fell due do not build history
+          else if (vencimiento <= ahora) aTiempo++;
+        } else if (LIVE_CREDIT_STATUSES.includes(credit.estado) && cuota.estado !== InstallmentStatus.CANCELED) {
+          saldoUtilizado = saldoUtilizado.add(cuota.capital);
+        }
+      }
+    }
+    // A revolving line reserves its whole limit, drawn or not
+    for (const linea of await this.revolvingLinesRepository.findLinesByUser(userId)) {
+      if (linea.estado === RevolvingLineStatus.ACTIVE) {
+        saldoUtilizado = saldoUtilizado.add(linea.limite_aprobado);
+      }
+    }
+
+    const { incomeMultiplier, baseLimit, onTimeBonus, latePenalty, minHistoryFactor, maxHistoryFactor } =
+      this.settings;
+    const ingresos = account.ingresos_declarados;
+    const base = ingresos && ingresos.isPositive() ? ingresos.multiply(incomeMultiplier) : Money.fromDecimal(baseLimit);
+
+    let factor = 100 + aTiempo * onTimeBonus - conAtraso * latePenalty;
+    factor = Math.min(Math.max(factor, minHistoryFactor), maxHistoryFactor);
+    if (account.historial_mora) factor /= 2;
+    const limiteTotal = base.percentage(factor);
+
+    const ratio = await this.riskPricingService.getDebtToIncomeRatio(userId);
+    const disponible =
+      ratio >= this.settings.maxDebtToIncome || !limiteTotal.greaterThan(saldoUtilizado)
+        ? Money.zero()
+        : limiteTotal.subtract(saldoUtilizado);
+
+    return {
+      usuario_id: userId,
+      limite_total: limiteTotal,
+      saldo_utilizado: saldoUtilizado,
+      disponible,
+      ingresos_declarados: ingresos,
+      ratio_deuda_ingresos: Math.round(ratio * 100) / 100,
+      cuotas_pagadas_a_tiempo: aTiempo,
+      cuotas_pagadas_con_atraso: conAtraso,
+      historial_mora: account.historial_mora,
+      motivo,
+      fecha_calculo: new Date(),
+    };
+  }
+}
+
+export default new CreditLimitService();
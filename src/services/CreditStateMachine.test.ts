@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { AmortizationSystem, Credit, CreditStatus, CreditType, Money } from '@/types/index.js';
+import { createInMemoryRepositories } from '@/repositories/index.js';
+import { InvalidStateTransitionError } from '@/errors/AppError.js';
+import { CREDIT_TRANSITIONS, CreditStateMachine } from './CreditStateMachine.js';
+import { UnitOfWork } from './UnitOfWork.js';
+
+function setup() {
+  const { credits } = createInMemoryRepositories();
+  const stateMachine = new CreditStateMachine(credits);
+
+  const createCredit = (estado: CreditStatus = CreditStatus.PREAPPROVED): Promise<Credit> =>
+    credits.createCredit({
+      usuario_id: 'usuario-1',
+      tipo_credito: CreditType.NORMAL,
+      monto_solicitado: Money.fromDecimal(30000),
+      monto_total: Money.fromDecimal(36000),
+      plazo_dias: 180,
+      tasa_tea: 80,
+      tasa_tna: 60,
+      tasa_cft: 110,
+      tasa_cft_tna: 75,
+      estado,
+      fecha_desembolso: null,
+      fecha_vencimiento: new Date(),
+      cuotas: 6,
+      sistema_amortizacion: AmortizationSystem.FRENCH,
+      id_tabla_tasas: 'tabla-1',
+      nivel_riesgo: null,
+    });
+
+  return { credits, stateMachine, createCredit };
+}
+
+describe('CreditStateMachine', () => {
+  it('allows the transitions of the lifecycle table and nothing else', () => {
+    const { stateMachine } = setup();
+
+    for (const from of Object.values(CreditStatus)) {
+      for (const to of Object.values(CreditStatus)) {
+        expect(stateMachine.canTransition(from, to)).toBe(CREDIT_TRANSITIONS[from].includes(to));
+      }
+    }
+    expect(stateMachine.canTransition(CreditStatus.PREAPPROVED, CreditStatus.APPROVED)).toBe(true);
+    expect(stateMachine.canTransition(CreditStatus.DEFAULT, CreditStatus.IN_PROGRESS)).toBe(true);
+    expect(stateMachine.canTransition(CreditStatus.PREAPPROVED, CreditStatus.DISBURSED)).toBe(false);
+    expect(stateMachine.canTransition(CreditStatus.DEFAULT, CreditStatus.CANCELED)).toBe(false);
+    for (const final of [CreditStatus.PAID, CreditStatus.CANCELED, CreditStatus.REFINANCED]) {
+      expect(CREDIT_TRANSITIONS[final]).toEqual([]);
+    }
+  });
+
+  it('writes the status and records the transition with its reason', async () => {
+    const { credits, stateMachine, createCredit } = setup();
+    const credit = await createCredit();
+
+    const aprobado = await stateMachine.transition(credit, CreditStatus.APPROVED, 'Terms accepted');
+
+    expect(aprobado.estado).toBe(CreditStatus.APPROVED);
+    expect((await credits.findCreditById(credit.id_credito))!.estado).toBe(CreditStatus.APPROVED);
+    expect(await stateMachine.getHistory(credit.id_credito)).toMatchObject([
+      { estado_anterior: CreditStatus.PREAPPROVED, estado_nuevo: CreditStatus.APPROVED, motivo: 'Terms accepted' },
+    ]);
+  });
+
+  it('rejects a transition the table does not allow without writing anything', async () => {
+    const { credits, stateMachine, createCredit } = setup();
+    const credit = await createCredit();
+
+    await expect(stateMachine.transition(credit, CreditStatus.PAID, 'Paid')).rejects.toBeInstanceOf(
+      InvalidStateTransitionError
+    );
+
+    expect((await credits.findCreditById(credit.id_credito))!.estado).toBe(CreditStatus.PREAPPROVED);
+    expect(await stateMachine.getHistory(credit.id_credito)).toEqual([]);
+  });
+
+  it('applies only one of two concurrent requests for the same transition', async () => {
+    const { stateMachine, createCredit } = setup();
+    const credit = await createCredit();
+
+    const resultados = await Promise.allSettled([
+      stateMachine.transition(credit, CreditStatus.APPROVED, 'Terms accepted'),
+      stateMachine.transition(credit, CreditStatus.APPROVED, 'Terms accepted'),
+    ]);
+
+    expect(resultados.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    const [rechazo] = resultados.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    expect(rechazo.reason).toBeInstanceOf(InvalidStateTransitionError);
+    expect(await stateMachine.getHistory(credit.id_credito)).toHaveLength(1);
+  });
+
+  it('fails when the credit moved on since it was read', async () => {
+    const { stateMachine, createCredit } = setup();
+    const leido = await createCredit();
+    await stateMachine.transition(leido, CreditStatus.CANCELED, 'Canceled by the borrower');
+
+    // `leido` still says preaprobado, which the table allows to move to aprobado
+    await expect(stateMachine.transition(leido, CreditStatus.APPROVED, 'Terms accepted')).rejects.toThrow(
+      'is no longer preaprobado'
+    );
+  });
+
+  it('restores the previous status and fields when the unit of work rolls back', async () => {
+    const { credits, stateMachine, createCredit } = setup();
+    const credit = await createCredit(CreditStatus.APPROVED);
+
+    await expect(
+      UnitOfWork.run(async (uow) => {
+        await stateMachine.transition(credit, CreditStatus.DISBURSED, 'Paid out', uow, {
+          fecha_desembolso: new Date(),
+        });
+        throw new Error('bank rejected the transfer');
+      })
+    ).rejects.toThrow('bank rejected the transfer');
+
+    const restaurado = (await credits.findCreditById(credit.id_credito))!;
+    expect(restaurado.estado).toBe(CreditStatus.APPROVED);
+    expect(restaurado.fecha_desembolso).toBeNull();
+    expect(await stateMachine.getHistory(credit.id_credito)).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { Credit, CreditStatus, CreditStatusTransition } from '@/types/index.js';
+import { repositories, CreditUpdate, ICreditsRepository } from '@/repositories/index.js';
+import { UnitOfWork } from './UnitOfWork.js';
+import { InvalidStateTransitionError } from '@/errors/AppError.js';
+
+/**
+ * Statuses each status can move to. A credit is requested `preaprobado`, accepted (`aprobado`),
+ * paid out (`desembolsado`) and repaid (`en_curso`), falling in and out of `en_mora` along the
+ * way, until it is closed as `pagado`, `cancelado` or `refinanciado`.
+ */
+export const CREDIT_TRANSITIONS: Record<CreditStatus, CreditStatus[]> = {
+  [CreditStatus.PREAPPROVED]: [CreditStatus.APPROVED, CreditStatus.CANCELED],
+  [CreditStatus.APPROVED]: [CreditStatus.DISBURSED, CreditStatus.CANCELED],
+  [CreditStatus.DISBURSED]: [
+    CreditStatus.IN_PROGRESS,
+    CreditStatus.DEFAULT,
+    CreditStatus.PAID,
+    CreditStatus.CANCELED,
+    CreditStatus.REFINANCED,
+  ],
+  [CreditStatus.IN_PROGRESS]: [CreditStatus.DEFAULT, CreditStatus.PAID, CreditStatus.CANCELED, CreditStatus.REFINANCED],
+  [CreditStatus.DEFAULT]: [CreditStatus.IN_PROGRESS, CreditStatus.PAID, CreditStatus.REFINANCED],
+  [CreditStatus.PAID]: [],
+  [CreditStatus.CANCELED]: [],
+  [CreditStatus.REFINANCED]: [],
+};
+
+/**
+ * The only way a credit's estado changes. Every transition is checked against
+ * CREDIT_TRANSITIONS and recorded with its reason.
+ */
+export class CreditStateMachine {
+  constructor(private creditsRepository: ICreditsRepository = repositories.credits) {}
+
+  canTransition(from: CreditStatus, to: CreditStatus): boolean {
+    return CREDIT_TRANSITIONS[from].includes(to);
+  }
+
+  assertTransition(credit: Credit, to: CreditStatus): void {
+    if (!this.canTransition(credit.estado, to)) {
+      throw new InvalidStateTransitionError(
+        credit.estado,
+        to,
+        `Credit ${credit.id_credito} cannot move from ${credit.estado} to ${to}`
+      );
+    }
+  }
+
+  /**
+   * Move the credit to `estado`, writing `cambios` along with it. The write only applies while
+   * the credit is still in the status it was read with, so of two concurrent requests for the
+   * same transition one fails with InvalidStateTransitionError. Within a unit of work the
+   * previous status and fields are restored on rollback, and the transition is recorded once
+   * it commits.
+   */
+  async transition(
+    credit: Credit,
+    estado: CreditStatus,
+    motivo: string,
+    uow?: UnitOfWork,
+    cambios: CreditUpdate = {}
+  ): Promise<Credit> {
+    this.assertTransition(credit, estado);
+
+    const anteriores: Record<string, unknown> = {};
+    for (const campo of Object.keys(cambios) as (keyof CreditUpdate)[]) {
+      anteriores[campo] = credit[campo];
+    }
+
+    const action = () => this.compareAndSet(credit.id_credito, credit.estado, estado, cambios);
+    const actualizado = uow
+      ? await uow.step(`move credit ${credit.id_credito} to ${estado}`, action, () =>
+          this.compareAndSet(credit.id_credito, estado, credit.estado, anteriores as CreditUpdate)
+        )
+      : await action();
+
+    await this.record(credit.id_credito, credit.estado, estado, motivo, uow);
+    return actualizado;
+  }
+
+  /**
+   * Record the status a new credit was created with
+   */
+  async recordCreation(credit: Credit, motivo: string, uow?: UnitOfWork): Promise<void> {
+    await this.record(credit.id_credito, null, credit.estado, motivo, uow);
+  }
+
+  async getHistory(creditId: string): Promise<CreditStatusTransition[]> {
+    return this.creditsRepository.getStatusTransitionsByCredit(creditId);
+  }
+
+  private async compareAndSet(
+    creditId: string,
+    from: CreditStatus,
+    to: CreditStatus,
+    cambios: CreditUpdate
+  ): Promise<Credit> {
+    const actualizado = await this.creditsRepository.updateCreditStatus(creditId, from, to, cambios);
+    if (!actualizado) {
+      throw new InvalidStateTransitionError(from, to, `Credit ${creditId} is no longer ${from}; it changed meanwhile`);
+    }
+    return actualizado;
+  }
+
+  private async record(
+    creditId: string,
+    estadoAnterior: CreditStatus | null,
+    estadoNuevo: CreditStatus,
+    motivo: string,
+    uow?: UnitOfWork
+  ): Promise<void> {
+    const transicion = {
+      id_credito: creditId,
+      estado_anterior: estadoAnterior,
+      estado_nuevo: estadoNuevo,
+      motivo,
+      fecha_transicion: new Date(),
+    };
+
+    if (uow) {
+      uow.afterCommit(`record credit ${creditId} transition to ${estadoNuevo}`, () =>
+        this.creditsRepository.createStatusTransition(transicion)
+      );
+      return;
+    }
+    await this.creditsRepository.createStatusTransition(transicion);
+  }
+}
+
+export default new CreditStateMachine();
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { CreditStatus, LedgerEntryType } from '@/types/index.js';
+import { InvalidStateTransitionError } from '@/errors/AppError.js';
+import CreditsService from './CreditsService.js';
+import LedgerService from './LedgerService.js';
+import UserAccountsService from './UserAccountsService.js';
+import { ars, createTestCredit, createTestUser } from '@/test/helpers.js';
+
+describe('CreditsService.approveCreditAndDisburse', () => {
+  it('pays out the principal and starts the repayment schedule', async () => {
+    const userId = await createTestUser();
+    const credit = await createTestCredit(userId, { monto: ars(30000) });
+
+    const desembolsado = await CreditsService.approveCreditAndDisburse(credit.id_credito);
+
+    expect(desembolsado.estado).toBe(CreditStatus.IN_PROGRESS);
+    expect(desembolsado.id_transaccion_desembolso).toBeTruthy();
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(30000));
+  });
+
+  it('disburses only once when the same credit is accepted twice concurrently', async () => {
+    const userId = await createTestUser();
+    const credit = await createTestCredit(userId, { monto: ars(30000) });
+
+    const resultados = await Promise.allSettled([
+      CreditsService.approveCreditAndDisburse(credit.id_credito),
+      CreditsService.approveCreditAndDisburse(credit.id_credito),
+    ]);
+
+    expect(resultados.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    const [rechazo] = resultados.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    expect(rechazo.reason).toBeInstanceOf(InvalidStateTransitionError);
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(30000));
+    expect(
+      (await LedgerService.getWalletMovements(userId)).filter((m) => m.tipo === LedgerEntryType.CREDIT_DISBURSEMENT)
+    ).toHaveLength(1);
+  });
+
+  it('rejects accepting a credit that was already disbursed', async () => {
+    const userId = await createTestUser();
+    const credit = await createTestCredit(userId, { monto: ars(10000) });
+    await CreditsService.approveCreditAndDisburse(credit.id_credito);
+
+    await expect(CreditsService.approveCreditAndDisburse(credit.id_credito)).rejects.toBeInstanceOf(
+      InvalidStateTransitionError
+    );
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(10000));
+  });
+});
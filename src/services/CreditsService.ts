@@ -1,78 +1,161 @@
-import { Credit, CreditType, CreditStatus, CreditCalculation, InstallmentPlan, CreditSimulation, CreditRequest, InstallmentStatus } from '@/types/index.js';
-import { config } from '@/config/config.js';
-import CreditsRepository from '@/repositories/CreditsRepository.js';
-import UserAccountsRepository from '@/repositories/UserAccountsRepository.js';
-import { ValidationError, InsufficientFundsError } from '@/errors/AppError.js';
+import {
+  AmortizationSystem,
+  Credit,
+  CreditType,
+  CreditStatus,
+  CreditCalculation,
+  CreditSimulation,
+  CreditRequest,
+  InstallmentStatus,
+  Money,
+  AuditContext,
+  AuditEventType,
+  PricingQuote,
+  RiskAssessment,
+} from '@/types/index.js';
+import { repositories, ICreditsRepository } from '@/repositories/index.js';
+import BankingAPI, { BankingAPI as BankingAPIClass } from './BankingAPI.js';
+import { UnitOfWork } from './UnitOfWork.js';
+import AuditService, { AuditService as AuditServiceClass, SYSTEM_AUDIT_CONTEXT } from './AuditService.js';
+import AmortizationService, { AmortizationService as AmortizationServiceClass } from './AmortizationService.js';
+import CreditStateMachine, { CreditStateMachine as CreditStateMachineClass } from './CreditStateMachine.js';
+import PricingService, { PricingService as PricingServiceClass } from './PricingService.js';
+import RiskPricingService, { RiskPricingService as RiskPricingServiceClass } from './RiskPricingService.js';
+import CreditLimitService, { CreditLimitService as CreditLimitServiceClass } from './CreditLimitService.js';
+import { ExternalServiceError, ValidationError } from '@/errors/AppError.js';
 
 export class CreditsService {
-  private creditsRepository = CreditsRepository;
-  private userAccountsRepository = UserAccountsRepository;
-
-  // Quick credit interest rates based on placeholder terms
-  private quickCreditRates = {
-    30: 110,
-    60: 115,
-    90: 120,
+  constructor(
+    private creditsRepository: ICreditsRepository = repositories.credits,
+    private bankingAPI: BankingAPIClass = BankingAPI,
+    private auditService: AuditServiceClass = AuditService,
+    private amortizationService: AmortizationServiceClass = AmortizationService,
+    private creditStateMachine: CreditStateMachineClass = CreditStateMachine,
+    private pricingService: PricingServiceClass = PricingService,
+    private riskPricingService: RiskPricingServiceClass = RiskPricingService,
+    private creditLimitService: CreditLimitServiceClass = CreditLimitService
+  ) {}
+
+  // Amortization systems offered per credit type; the first one is the default
+  private amortizationSystems: Record<CreditType, AmortizationSystem[]> = {
+    [CreditType.QUICK]: [AmortizationSystem.FRENCH, AmortizationSystem.BULLET],
+    [CreditType.NORMAL]: [AmortizationSystem.FRENCH, AmortizationSystem.GERMAN],
+    [CreditType.REFINANCING]: [AmortizationSystem.FRENCH, AmortizationSystem.GERMAN],
   };
 
-  // Normal credit rates based on placeholder terms
-  private normalCreditRates = {
-    3: 85,
-    6: 90,
-    12: 95,
-  };
-
-  // Administrative charges as percentage
-  private adminChargePercentage = 2;
-  private cftMultiplier = 1.15; // CFT is approximately 15% higher than TEA
+  getAmortizationSystems(creditType: CreditType): AmortizationSystem[] {
+    return this.amortizationSystems[creditType];
+  }
 
-  async simulateQuickCredit(userId: string, missingAmount: number, termDays: number): Promise<CreditSimulation> {
-    if (!Object.keys(this.quickCreditRates).includes(termDays.toString())) {
-      throw new ValidationError('Invalid term for quick credit. Allowed: 30, 60, 90 days');
+  /**
+   * The requested system, or the credit type's default when none was requested
+   */
+  resolveAmortizationSystem(creditType: CreditType, sistema?: AmortizationSystem): AmortizationSystem {
+    const allowed = this.getAmortizationSystems(creditType);
+    if (sistema === undefined) return allowed[0];
+    if (!allowed.includes(sistema)) {
+      throw new ValidationError(
+        `Amortization system ${sistema} is not available for ${creditType} credits. Allowed: ${allowed.join(', ')}`
+      );
     }
+    return sistema;
+  }
 
-    const tea = this.quickCreditRates[termDays as keyof typeof this.quickCreditRates];
-    const cft = Math.round(tea * this.cftMultiplier);
-    const calculation = this.calculateCredit(missingAmount, tea, cft, termDays, 'quick');
+  async simulateQuickCredit(
+    userId: string,
+    missingAmount: Money,
+    termDays: number,
+    sistema?: AmortizationSystem
+  ): Promise<CreditSimulation> {
+    const { precio, riesgo } = await this.priceByRisk(userId, CreditType.QUICK, termDays, missingAmount);
+    const sistemaAmortizacion = this.resolveAmortizationSystem(CreditType.QUICK, sistema);
+    const calculation = this.calculateCredit(missingAmount, precio, termDays, 'quick', sistemaAmortizacion);
 
     return {
       tipo_credito: CreditType.QUICK,
       monto_solicitado: missingAmount,
       plazo_dias: termDays,
       cuotas_totales: calculation.plan_cuotas.length,
-      tasa_tea: tea,
-      tasa_cft: cft,
+      sistema_amortizacion: sistemaAmortizacion,
+      tasa_tea: calculation.tasa_tea,
+      tasa_tna: calculation.tasa_tna,
+      tasa_cft: calculation.tasa_cft,
+      tasa_cft_tna: calculation.tasa_cft_tna,
       monto_total: calculation.monto_total,
-      costo_financiero: calculation.monto_intereses + calculation.gastos_administrativos,
+      costo_financiero: calculation.monto_total.subtract(calculation.monto_faltante),
       plan_cuotas: calculation.plan_cuotas,
+      id_tabla_tasas: precio.id_tabla_tasas,
+      version_tabla_tasas: precio.version_tabla_tasas,
+      riesgo,
     };
   }
 
-  async simulateNormalCredit(userId: string, amount: number, termMonths: number): Promise<CreditSimulation> {
-    if (!Object.keys(this.normalCreditRates).includes(termMonths.toString())) {
-      throw new ValidationError('Invalid term for normal credit. Allowed: 3, 6, 9, 12 months');
-    }
-
-    const tea = this.normalCreditRates[termMonths as keyof typeof this.normalCreditRates];
-    const cft = Math.round(tea * this.cftMultiplier);
+  async simulateNormalCredit(
+    userId: string,
+    amount: Money,
+    termMonths: number,
+    sistema?: AmortizationSystem
+  ): Promise<CreditSimulation> {
+    const { precio, riesgo } = await this.priceByRisk(userId, CreditType.NORMAL, termMonths, amount);
+    const sistemaAmortizacion = this.resolveAmortizationSystem(CreditType.NORMAL, sistema);
     const termDays = termMonths * 30;
 
-    const calculation = this.calculateCredit(amount, tea, cft, termDays, 'normal');
+    const calculation = this.calculateCredit(amount, precio, termDays, 'normal', sistemaAmortizacion);
 
     return {
       tipo_credito: CreditType.NORMAL,
       monto_solicitado: amount,
       plazo_dias: termDays,
-      cuotas_totales: termMonths,
-      tasa_tea: tea,
-      tasa_cft: cft,
+      cuotas_totales: calculation.plan_cuotas.length,
+      sistema_amortizacion: sistemaAmortizacion,
+      tasa_tea: calculation.tasa_tea,
+      tasa_tna: calculation.tasa_tna,
+      tasa_cft: calculation.tasa_cft,
+      tasa_cft_tna: calculation.tasa_cft_tna,
+      monto_total: calculation.monto_total,
+      costo_financiero: calculation.monto_total.subtract(calculation.monto_faltante),
+      plan_cuotas: calculation.plan_cuotas,
+      id_tabla_tasas: precio.id_tabla_tasas,
+      version_tabla_tasas: precio.version_tabla_tasas,
+      riesgo,
+    };
+  }
+
+  /**
+   * Terms of a refinancing credit for a consolidated balance. Eligibility and the term range are
+   * checked by RefinancingValidator.
+   */
+  async simulateRefinancingCredit(
+    amount: Money,
+    termMonths: number,
+    sistema?: AmortizationSystem
+  ): Promise<CreditSimulation> {
+    const precio = await this.pricingService.quote(CreditType.REFINANCING, termMonths);
+    const sistemaAmortizacion = this.resolveAmortizationSystem(CreditType.REFINANCING, sistema);
+    const termDays = termMonths * 30;
+
+    const calculation = this.calculateCredit(amount, precio, termDays, 'normal', sistemaAmortizacion);
+
+    return {
+      tipo_credito: CreditType.REFINANCING,
+      monto_solicitado: amount,
+      plazo_dias: termDays,
+      cuotas_totales: calculation.plan_cuotas.length,
+      sistema_amortizacion: sistemaAmortizacion,
+      tasa_tea: calculation.tasa_tea,
+      tasa_tna: calculation.tasa_tna,
+      tasa_cft: calculation.tasa_cft,
+      tasa_cft_tna: calculation.tasa_cft_tna,
       monto_total: calculation.monto_total,
-      costo_financiero: calculation.monto_intereses + calculation.gastos_administrativos,
+      costo_financiero: calculation.monto_total.subtract(calculation.monto_faltante),
       plan_cuotas: calculation.plan_cuotas,
+      id_tabla_tasas: precio.id_tabla_tasas,
+      version_tabla_tasas: precio.version_tabla_tasas,
+      riesgo: null,
     };
   }
 
-  async createQuickCredit(request: CreditRequest): Promise<Credit> {
+  async createQuickCredit(request: CreditRequest, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<Credit> {
     if (request.tipo_credito !== CreditType.QUICK) {
       throw new ValidationError('Invalid credit type for quick credit creation');
     }
@@ -80,7 +163,8 @@ export class CreditsService {
     const simulation = await this.simulateQuickCredit(
       request.usuario_id,
       request.monto_solicitado,
-      request.plazo_dias
+      request.plazo_dias,
+      request.sistema_amortizacion
     );
 
     const vencimientoDate = new Date();
@@ -93,11 +177,16 @@ export class CreditsService {
       monto_total: simulation.monto_total,
       plazo_dias: request.plazo_dias,
       tasa_tea: simulation.tasa_tea,
+      tasa_tna: simulation.tasa_tna,
       tasa_cft: simulation.tasa_cft,
+      tasa_cft_tna: simulation.tasa_cft_tna,
       estado: CreditStatus.PREAPPROVED,
       fecha_desembolso: null,
       fecha_vencimiento: vencimientoDate,
       cuotas: simulation.cuotas_totales,
+      sistema_amortizacion: simulation.sistema_amortizacion,
+      id_tabla_tasas: simulation.id_tabla_tasas,
+      nivel_riesgo: simulation.riesgo!.nivel_riesgo,
     });
 
     // Create installment plan
@@ -105,30 +194,41 @@ export class CreditsService {
       id_credito: credit.id_credito,
       nro_cuota: plan.nro_cuota,
       importe_cuota: plan.importe,
+      capital: plan.capital,
+      interes: plan.interes,
+      iva: plan.iva,
+      gastos: plan.gastos,
+      saldo_restante: plan.saldo_restante,
       fecha_vencimiento: plan.fecha_vencimiento,
       estado: InstallmentStatus.PENDING,
       fecha_pago: null,
     }));
 
     await this.creditsRepository.createInstallmentPlan(credit.id_credito, installmentData);
+    await this.creditStateMachine.recordCreation(credit, 'Credit requested');
 
+    await this.auditService.record(contexto, {
+      tipo_evento: AuditEventType.CREDIT_REQUESTED,
+      usuario_id: credit.usuario_id,
+      id_credito: credit.id_credito,
+      despues: credit,
+      detalles: { solicitud: request, riesgo: simulation.riesgo },
+    });
     return credit;
   }
 
-  async createNormalCredit(request: CreditRequest): Promise<Credit> {
+  async createNormalCredit(request: CreditRequest, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<Credit> {
     if (request.tipo_credito !== CreditType.NORMAL) {
       throw new ValidationError('Invalid credit type for normal credit creation');
     }
 
     const termMonths = Math.floor(request.plazo_dias / 30);
-    if (![3, 6, 9, 12].includes(termMonths)) {
-      throw new ValidationError('Invalid term for normal credit. Allowed: 3, 6, 9, 12 months');
-    }
 
     const simulation = await this.simulateNormalCredit(
       request.usuario_id,
       request.monto_solicitado,
-      termMonths
+      termMonths,
+      request.sistema_amortizacion
     );
 
     const vencimientoDate = new Date();
@@ -141,11 +241,16 @@ export class CreditsService {
       monto_total: simulation.monto_total,
       plazo_dias: request.plazo_dias,
       tasa_tea: simulation.tasa_tea,
+      tasa_tna: simulation.tasa_tna,
       tasa_cft: simulation.tasa_cft,
+      tasa_cft_tna: simulation.tasa_cft_tna,
       estado: CreditStatus.PREAPPROVED,
       fecha_desembolso: null,
       fecha_vencimiento: vencimientoDate,
       cuotas: simulation.cuotas_totales,
+      sistema_amortizacion: simulation.sistema_amortizacion,
+      id_tabla_tasas: simulation.id_tabla_tasas,
+      nivel_riesgo: simulation.riesgo!.nivel_riesgo,
     });
 
     // Create installment plan
@@ -153,108 +258,171 @@ export class CreditsService {
       id_credito: credit.id_credito,
       nro_cuota: plan.nro_cuota,
       importe_cuota: plan.importe,
+      capital: plan.capital,
+      interes: plan.interes,
+      iva: plan.iva,
+      gastos: plan.gastos,
+      saldo_restante: plan.saldo_restante,
       fecha_vencimiento: plan.fecha_vencimiento,
       estado: InstallmentStatus.PENDING,
       fecha_pago: null,
     }));
 
     await this.creditsRepository.createInstallmentPlan(credit.id_credito, installmentData);
+    await this.creditStateMachine.recordCreation(credit, 'Credit requested');
 
+    await this.auditService.record(contexto, {
+      tipo_evento: AuditEventType.CREDIT_REQUESTED,
+      usuario_id: credit.usuario_id,
+      id_credito: credit.id_credito,
+      despues: credit,
+      detalles: { solicitud: request, riesgo: simulation.riesgo },
+    });
     return credit;
   }
 
-  async approveCreditAndDisburse(creditId: string): Promise<Credit> {
+  /**
+   * Disbursement pipeline: accept the terms (`aprobado`), credit the principal to the borrower's
+   * wallet through the banking API (`desembolsado`, keeping its transaction id) and start the
+   * repayment schedule (`en_curso`). If the bank rejects the transfer the unit of work rolls
+   * back, leaving the credit `preaprobado` so the disbursement can be retried. The ledger entry
+   * is keyed on the credit id, so the principal is paid out at most once unless it was reversed.
+   * Pass the caller's unit of work to have the disbursement undone if a later step fails.
+   */
+  async approveCreditAndDisburse(
+    creditId: string,
+    uow?: UnitOfWork,
+    contexto: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<Credit> {
+    if (!uow) {
+      return UnitOfWork.run((ownUow) => this.approveCreditAndDisburse(creditId, ownUow, contexto));
+    }
+
     const credit = await this.creditsRepository.findCreditById(creditId);
     if (!credit) {
       throw new ValidationError(`Credit ${creditId} not found`);
     }
+    // Several preapproved credits may fit the line on their own; each one takes its share when accepted
+    await this.creditLimitService.assertAvailable(credit.usuario_id, credit.monto_solicitado);
+
+    // Claims the credit before any money moves: the status is written only while it is still
+    // preaprobado, so a concurrent accept fails here with InvalidStateTransitionError
+    const approved = await this.creditStateMachine.transition(
+      credit,
+      CreditStatus.APPROVED,
+      'Terms accepted by the borrower',
+      uow
+    );
 
-    // Check user balance before disbursement
-    const userBalance = await this.userAccountsRepository.getBalance(credit.usuario_id);
-    if (userBalance < credit.monto_solicitado) {
-      throw new InsufficientFundsError(
-        `Insufficient funds to disburse credit. Available: ${userBalance}, Required: ${credit.monto_solicitado}`
+    const transfer = await this.bankingAPI.disburseCredit(
+      credit.usuario_id,
+      credit.monto_solicitado,
+      credit.id_credito,
+      uow
+    );
+    if (!transfer.exito || !transfer.transaccion_id) {
+      throw new ExternalServiceError(
+        `Disbursement of credit ${creditId} failed: ${transfer.razon_fallo || 'transfer was rejected'}`,
+        'BankingAPI'
       );
     }
 
-    // Deduct from balance
-    const newBalance = userBalance - credit.monto_solicitado;
-    await this.userAccountsRepository.updateBalance(credit.usuario_id, newBalance);
+    const disbursed = await this.creditStateMachine.transition(
+      approved,
+      CreditStatus.DISBURSED,
+      'Principal credited to the wallet',
+      uow,
+      { fecha_desembolso: transfer.fecha, id_transaccion_desembolso: transfer.transaccion_id }
+    );
+    const updatedCredit = await this.creditStateMachine.transition(
+      disbursed,
+      CreditStatus.IN_PROGRESS,
+      'Repayment schedule started',
+      uow
+    );
 
-    // Update credit status
-    const updatedCredit = await this.creditsRepository.updateCredit(creditId, {
-      estado: CreditStatus.IN_PROGRESS,
-      fecha_desembolso: new Date(),
-    });
+    await this.auditService.record(
+      contexto,
+      {
+        tipo_evento: AuditEventType.CREDIT_ACCEPTED,
+        usuario_id: credit.usuario_id,
+        id_credito: credit.id_credito,
+        antes: credit,
+        despues: updatedCredit,
+        detalles: { id_transaccion: transfer.transaccion_id },
+      },
+      uow
+    );
+    await this.creditLimitService.scheduleRecompute(credit.usuario_id, `Credit ${creditId} disbursed`, uow);
 
     return updatedCredit;
   }
 
+  /**
+   * Administrative charges are rounded half-up to the cent and spread over the installments;
+   * the repayment schedule itself comes from the amortization system, and the CFT from
+   * the resulting cash flows.
+   */
   private calculateCredit(
-    principal: number,
-    tea: number,
-    cft: number,
+    principal: Money,
+    precio: PricingQuote,
     termDays: number,
-    type: 'quick' | 'normal'
+    type: 'quick' | 'normal',
+    sistema: AmortizationSystem
   ): CreditCalculation {
-    // Calculate interest based on TEA
-    const yearFraction = termDays / 365;
-    const interestRate = tea / 100;
-    const interest = principal * interestRate * yearFraction;
-
     // Calculate administrative charges
-    const adminCharges = principal * (this.adminChargePercentage / 100);
+    const adminCharges = principal.percentage(precio.gastos_administrativos);
 
-    // Total amount to repay
-    const totalAmount = principal + interest + adminCharges;
-
-    // Number of installments
-    const numInstallments = type === 'quick'
+    // Number of 30-day periods
+    const numPeriods = type === 'quick'
       ? Math.ceil(termDays / 30)
       : Math.floor(termDays / 30);
 
-    // Generate installment plan
-    const plan: InstallmentPlan[] = [];
-    const installmentAmount = totalAmount / numInstallments;
-
     const startDate = new Date();
-    const daysBetweenPayments = type === 'quick' ? 30 : 30;
-
-    for (let i = 1; i <= numInstallments; i++) {
-      const dueDate = new Date(startDate);
-      dueDate.setDate(dueDate.getDate() + i * daysBetweenPayments);
-
-      plan.push({
-        nro_cuota: i,
-        importe: i === numInstallments
-          ? totalAmount - installmentAmount * (numInstallments - 1)
-          : installmentAmount,
-        fecha_vencimiento: dueDate,
-      });
-    }
+    const plan = this.amortizationService.buildSchedule(
+      sistema,
+      principal,
+      precio.tea,
+      numPeriods,
+      adminCharges,
+      startDate
+    );
 
     return {
       monto_faltante: principal,
-      tasa_tea: tea,
-      tasa_cft: cft,
-      monto_intereses: Math.round(interest),
-      gastos_administrativos: Math.round(adminCharges),
-      monto_total: Math.round(totalAmount),
+      ...this.amortizationService.disclosedRates(precio.tea, principal, plan, startDate),
+      monto_intereses: Money.sum(plan.map((cuota) => cuota.interes), principal.moneda),
+      monto_iva: Money.sum(plan.map((cuota) => cuota.iva), principal.moneda),
+      gastos_administrativos: adminCharges,
+      monto_total: Money.sum(plan.map((cuota) => cuota.importe), principal.moneda),
       plan_cuotas: plan,
     };
   }
 
   async getDebtToIncomeRatio(userId: string): Promise<number> {
-    const activeCredits = await this.creditsRepository.getActiveCreditsByUser(userId);
-    const totalMonthlyDebt = activeCredits.reduce((sum, credit) => {
-      const monthlyPayment = credit.monto_total / (credit.cuotas || 1);
-      return sum + monthlyPayment;
-    }, 0);
+    return this.riskPricingService.getDebtToIncomeRatio(userId);
+  }
 
-    const income = await this.userAccountsRepository.getDeclaredIncome(userId) || 0;
-    if (income === 0) return 0;
+  /**
+   * The rate table's price for the term plus the user's risk spread. Amounts above the risk
+   * tier's maximum or the user's available credit line are rejected.
+   */
+  private async priceByRisk(
+    userId: string,
+    tipo: CreditType,
+    plazo: number,
+    amount: Money
+  ): Promise<{ precio: PricingQuote; riesgo: RiskAssessment }> {
+    const riesgo = await this.riskPricingService.assessRisk(userId);
+    if (amount.greaterThan(riesgo.monto_maximo)) {
+      throw new ValidationError(
+        `Amount exceeds the maximum of ${riesgo.monto_maximo} for risk tier ${riesgo.nivel_riesgo}`
+      );
+    }
+    await this.creditLimitService.assertAvailable(userId, amount);
 
-    return (totalMonthlyDebt / income) * 100;
+    const precio = await this.pricingService.quote(tipo, plazo);
+    return { precio: { ...precio, tea: precio.tea + riesgo.spread_tea }, riesgo };
   }
 }
 
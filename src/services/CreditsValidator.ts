@@ -1,13 +1,20 @@
-import { CreditType, CreditEligibility } from '@/types/index.js';
+import { AmortizationSystem, CreditType, CreditEligibility, Money } from '@/types/index.js';
 import { config } from '@/config/config.js';
-import UserAccountsRepository from '@/repositories/UserAccountsRepository.js';
-import CreditsRepository from '@/repositories/CreditsRepository.js';
-import CreditsService from './CreditsService.js';
+import { repositories, ICreditsRepository, IUserAccountsRepository } from '@/repositories/index.js';
+import CreditsService, { CreditsService as CreditsServiceClass } from './CreditsService.js';
+import PricingService, { PricingService as PricingServiceClass } from './PricingService.js';
+import RiskPricingService, { RiskPricingService as RiskPricingServiceClass } from './RiskPricingService.js';
+import CreditLimitService, { CreditLimitService as CreditLimitServiceClass } from './CreditLimitService.js';
 
 export class CreditsValidator {
-  private userAccountsRepository = UserAccountsRepository;
-  private creditsRepository = CreditsRepository;
-  private creditsService = CreditsService;
+  constructor(
+    private userAccountsRepository: IUserAccountsRepository = repositories.userAccounts,
+    private creditsRepository: ICreditsRepository = repositories.credits,
+    private creditsService: CreditsServiceClass = CreditsService,
+    private pricingService: PricingServiceClass = PricingService,
+    private riskPricingService: RiskPricingServiceClass = RiskPricingService,
+    private creditLimitService: CreditLimitServiceClass = CreditLimitService
+  ) {}
 
   async validateQuickCreditEligibility(userId: string): Promise<CreditEligibility> {
     try {
@@ -47,10 +54,19 @@ export class CreditsValidator {
         };
       }
 
+      // Check the user's credit line
+      const maxAmount = await this.getMaxAmount(userId, CreditType.QUICK);
+      if (!maxAmount.isPositive()) {
+        return {
+          es_elegible: false,
+          razon_rechazo: 'No credit line available',
+        };
+      }
+
       return {
         es_elegible: true,
         limites_maximos: {
-          monto_maximo: config.credits.quickCreditMaxAmount,
+          monto_maximo: maxAmount,
         },
       };
     } catch (error) {
@@ -74,7 +90,7 @@ export class CreditsValidator {
 
       // Check declared income
       const income = await this.userAccountsRepository.getDeclaredIncome(userId);
-      if (!income || income <= 0) {
+      if (!income || !income.isPositive()) {
         return {
           es_elegible: false,
           razon_rechazo: 'Income not declared or invalid',
@@ -111,10 +127,19 @@ export class CreditsValidator {
         };
       }
 
+      // Check the user's credit line
+      const maxAmount = await this.getMaxAmount(userId, CreditType.NORMAL);
+      if (!maxAmount.isPositive()) {
+        return {
+          es_elegible: false,
+          razon_rechazo: 'No credit line available',
+        };
+      }
+
       return {
         es_elegible: true,
         limites_maximos: {
-          monto_maximo: config.credits.normalCreditMaxAmount,
+          monto_maximo: maxAmount,
           plazo_minimo: 3,
           plazo_maximo: 12,
         },
@@ -127,19 +152,30 @@ export class CreditsValidator {
     }
   }
 
-  async validateAmount(userId: string, amount: number, creditType: CreditType): Promise<CreditEligibility> {
-    const maxAmount = creditType === CreditType.QUICK
-      ? config.credits.quickCreditMaxAmount
-      : config.credits.normalCreditMaxAmount;
+  /**
+   * The product's maximum amount, lowered to the maximum of the user's risk tier and to what is
+   * available on the user's credit line
+   */
+  async getMaxAmount(userId: string, creditType: CreditType): Promise<Money> {
+    const productMax = Money.fromDecimal(
+      creditType === CreditType.QUICK ? config.credits.quickCreditMaxAmount : config.credits.normalCreditMaxAmount
+    );
+    const riesgo = await this.riskPricingService.assessRisk(userId);
+    const limite = await this.creditLimitService.getCreditLimit(userId);
+    return Money.min(productMax, riesgo.monto_maximo, limite.disponible);
+  }
+
+  async validateAmount(userId: string, amount: Money, creditType: CreditType): Promise<CreditEligibility> {
+    const maxAmount = await this.getMaxAmount(userId, creditType);
 
-    if (amount <= 0) {
+    if (!amount.isPositive()) {
       return {
         es_elegible: false,
         razon_rechazo: 'Amount must be greater than 0',
       };
     }
 
-    if (amount > maxAmount) {
+    if (amount.greaterThan(maxAmount)) {
       return {
         es_elegible: false,
         razon_rechazo: `Amount exceeds maximum of ${maxAmount}`,
@@ -154,21 +190,31 @@ export class CreditsValidator {
     };
   }
 
+  /**
+   * Terms come from the rate table in force: days for quick credits, months for normal ones
+   */
   async validateTerm(termValue: number, creditType: CreditType): Promise<CreditEligibility> {
-    if (creditType === CreditType.QUICK) {
-      if (![30, 60, 90].includes(termValue)) {
-        return {
-          es_elegible: false,
-          razon_rechazo: 'Quick credit terms must be 30, 60, or 90 days',
-        };
-      }
-    } else {
-      if (![3, 6, 9, 12].includes(termValue)) {
-        return {
-          es_elegible: false,
-          razon_rechazo: 'Normal credit terms must be 3, 6, 9, or 12 months',
-        };
-      }
+    const terms = await this.pricingService.getTerms(creditType);
+    if (!terms.includes(termValue)) {
+      const [product, unit] = creditType === CreditType.QUICK ? ['Quick', 'days'] : ['Normal', 'months'];
+      return {
+        es_elegible: false,
+        razon_rechazo: `${product} credit terms must be ${terms.join(', ')} ${unit}`,
+      };
+    }
+
+    return {
+      es_elegible: true,
+    };
+  }
+
+  validateAmortizationSystem(sistema: unknown, creditType: CreditType): CreditEligibility {
+    const allowed = this.creditsService.getAmortizationSystems(creditType);
+    if (!allowed.includes(sistema as AmortizationSystem)) {
+      return {
+        es_elegible: false,
+        razon_rechazo: `Amortization system for ${creditType} credits must be one of: ${allowed.join(', ')}`,
+      };
     }
 
     return {
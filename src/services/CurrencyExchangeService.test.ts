@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Currency, Money } from '@/types/index.js';
+import { InsufficientFundsError, ValidationError } from '@/errors/AppError.js';
+import { CurrencyExchangeService } from './CurrencyExchangeService.js';
+import LedgerService from './LedgerService.js';
+import UserAccountsService from './UserAccountsService.js';
+import { ars, createTestUser } from '@/test/helpers.js';
+
+const usd = (amount: number) => Money.fromDecimal(amount, Currency.USD);
+
+// 1 USD = 1000 ARS regardless of the environment
+const exchange = new CurrencyExchangeService(LedgerService, 1000);
+
+describe('CurrencyExchangeService', () => {
+  it('quotes rounding down to the cent', () => {
+    expect(exchange.quote(ars(1999.99), Currency.USD)).toEqual({ monto_destino: usd(1.99), tasa: 0.001 });
+    expect(exchange.quote(usd(2.5), Currency.ARS).monto_destino).toEqual(ars(2500));
+    expect(exchange.valueIn(ars(10), Currency.ARS)).toEqual(ars(10));
+  });
+
+  it('moves value between the currency wallets through the ledger', async () => {
+    const userId = await createTestUser({ fondos: ars(5000) });
+
+    const conversion = await exchange.convert(userId, ars(3000), Currency.USD);
+
+    expect(conversion).toMatchObject({ monto_destino: usd(3), moneda_origen: Currency.ARS, tasa: 0.001 });
+    expect(await UserAccountsService.getBalance(userId, Currency.ARS)).toEqual(ars(2000));
+    expect(await UserAccountsService.getBalance(userId, Currency.USD)).toEqual(usd(3));
+    for (const moneda of [Currency.ARS, Currency.USD]) {
+      expect((await LedgerService.reconcileWallet(userId, moneda)).conciliado).toBe(true);
+    }
+  });
+
+  it('rejects a conversion the origin wallet cannot cover', async () => {
+    const userId = await createTestUser({ fondos: ars(500) });
+
+    await expect(exchange.convert(userId, ars(1000), Currency.USD)).rejects.toBeInstanceOf(InsufficientFundsError);
+
+    expect(await UserAccountsService.getBalance(userId, Currency.ARS)).toEqual(ars(500));
+    expect(await UserAccountsService.getBalance(userId, Currency.USD)).toEqual(usd(0));
+  });
+
+  it('rejects amounts that would convert to nothing and same-currency conversions', async () => {
+    const userId = await createTestUser({ fondos: ars(100) });
+
+    await expect(exchange.convert(userId, ars(5), Currency.USD)).rejects.toBeInstanceOf(ValidationError);
+    await expect(exchange.convert(userId, ars(5), Currency.ARS)).rejects.toBeInstanceOf(ValidationError);
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(100));
+  });
+});
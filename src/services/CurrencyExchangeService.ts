@@ -0,0 +1,76 @@
+import { config } from '@/config/config.js';
+import { Currency, CurrencyConversion, Money } from '@/types/index.js';
+import { ValidationError } from '@/errors/AppError.js';
+import LedgerService, { LedgerService as LedgerServiceClass } from './LedgerService.js';
+import { UnitOfWork } from './UnitOfWork.js';
+
+/**
+ * Exchange between the currencies a wallet can hold.
+ * Balances never change currency implicitly: moving value from one currency wallet to
+ * another is always an explicit conversion posted to the ledger.
+ */
+export class CurrencyExchangeService {
+  constructor(
+    private ledgerService: LedgerServiceClass = LedgerService,
+    private usdArsRate: number = config.exchange.usdArsRate
+  ) {}
+
+  /**
+   * Units of `to` per unit of `from`
+   */
+  getRate(from: Currency, to: Currency): number {
+    if (from === to) return 1;
+    if (from === Currency.USD && to === Currency.ARS) return this.usdArsRate;
+    if (from === Currency.ARS && to === Currency.USD) return 1 / this.usdArsRate;
+    throw new ValidationError(`No exchange rate for ${from} to ${to}`);
+  }
+
+  /**
+   * What `amount` would yield in `to`, rounded down to the cent (the customer never
+   * receives more than the rate allows)
+   */
+  quote(amount: Money, to: Currency): { monto_destino: Money; tasa: number } {
+    const tasa = this.getRate(amount.moneda, to);
+    return { monto_destino: amount.convert(to, tasa), tasa };
+  }
+
+  /**
+   * Reference value of an amount in another currency, for limits and risk checks.
+   * Nothing is posted; use convert() to actually move funds.
+   */
+  valueIn(amount: Money, moneda: Currency): Money {
+    return amount.moneda === moneda ? amount : this.quote(amount, moneda).monto_destino;
+  }
+
+  /**
+   * Move `amount` from the user's wallet in its currency to the wallet in `to`
+   */
+  async convert(userId: string, amount: Money, to: Currency, uow?: UnitOfWork): Promise<CurrencyConversion> {
+    if (!amount.isPositive()) {
+      throw new ValidationError('Amount must be greater than 0');
+    }
+    if (amount.moneda === to) {
+      throw new ValidationError('Origin and destination currencies must differ');
+    }
+
+    const { monto_destino, tasa } = this.quote(amount, to);
+    if (!monto_destino.isPositive()) {
+      throw new ValidationError(`Amount ${amount} is too small to convert to ${to}`);
+    }
+
+    const posting = await this.ledgerService.recordCurrencyConversion(userId, amount, monto_destino, undefined, uow);
+
+    return {
+      usuario_id: userId,
+      monto_origen: amount,
+      moneda_origen: amount.moneda,
+      monto_destino,
+      moneda_destino: to,
+      tasa,
+      id_asiento: posting.asiento.id_asiento,
+      fecha: posting.asiento.fecha_creacion,
+    };
+  }
+}
+
+export default new CurrencyExchangeService();
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { CreditStatus, DelinquencyBucket, InstallmentStatus } from '@/types/index.js';
+import repositories from '@/repositories/index.js';
+import DelinquencyService, { daysPastDue, delinquencyBucket } from './DelinquencyService.js';
+import UserAccountsService from './UserAccountsService.js';
+import CreditStateMachine from './CreditStateMachine.js';
+import { addDaysToDate } from '@/utils/helpers.js';
+import { createTestCredit, createTestInstallments, createTestUser } from '@/test/helpers.js';
+
+describe('delinquency buckets', () => {
+  it('maps days past due to their bucket at the boundaries', () => {
+    expect(delinquencyBucket(0)).toBe(DelinquencyBucket.CURRENT);
+    expect(delinquencyBucket(1)).toBe(DelinquencyBucket.DPD_1_30);
+    expect(delinquencyBucket(30)).toBe(DelinquencyBucket.DPD_1_30);
+    expect(delinquencyBucket(31)).toBe(DelinquencyBucket.DPD_31_60);
+    expect(delinquencyBucket(90)).toBe(DelinquencyBucket.DPD_61_90);
+    expect(delinquencyBucket(91)).toBe(DelinquencyBucket.DPD_OVER_90);
+  });
+
+  it('counts from the oldest unpaid installment and ignores paid ones', async () => {
+    const userId = await createTestUser();
+    const credit = await createTestCredit(userId, { cuotas: 3 });
+    const cuotas = await createTestInstallments(credit, new Date('2025-01-01T12:00:00'));
+    const hoy = addDaysToDate(cuotas[0].fecha_vencimiento, 40);
+
+    expect(daysPastDue(cuotas, cuotas[0].fecha_vencimiento)).toBe(0);
+    expect(daysPastDue(cuotas, addDaysToDate(cuotas[0].fecha_vencimiento, 1))).toBe(1);
+    expect(daysPastDue(cuotas, hoy)).toBe(40);
+    const segunda = daysPastDue([{ ...cuotas[0], estado: InstallmentStatus.PAID }, ...cuotas.slice(1)], hoy);
+    expect(segunda).toBeGreaterThan(0);
+    expect(segunda).toBeLessThan(40);
+  });
+});
+
+describe('DelinquencyService', () => {
+  it('moves an overdue credit to en_mora, flags the borrower and cures it once paid', async () => {
+    const userId = await createTestUser();
+    const desembolso = addDaysToDate(new Date(), -40);
+    const credit = await createTestCredit(userId, { estado: CreditStatus.IN_PROGRESS, fecha_desembolso: desembolso });
+    const [primera] = await createTestInstallments(credit, desembolso);
+    const hoy = addDaysToDate(primera.fecha_vencimiento, 10);
+
+    const mora = await DelinquencyService.evaluateCredit(credit, hoy);
+
+    expect(mora).toMatchObject({
+      estado_anterior: CreditStatus.IN_PROGRESS,
+      estado_nuevo: CreditStatus.DEFAULT,
+      tramo_nuevo: DelinquencyBucket.DPD_1_30,
+      dias_mora: 10,
+    });
+    expect((await UserAccountsService.getUserAccount(userId)).historial_mora).toBe(true);
+
+    await repositories.credits.markInstallmentPaid(primera.id_cuota);
+    const enMora = (await repositories.credits.findCreditById(credit.id_credito))!;
+    const regularizado = await DelinquencyService.evaluateCredit(enMora, hoy);
+
+    expect(regularizado).toMatchObject({
+      estado_nuevo: CreditStatus.IN_PROGRESS,
+      tramo_nuevo: DelinquencyBucket.CURRENT,
+    });
+    expect((await CreditStateMachine.getHistory(credit.id_credito)).map((h) => h.estado_nuevo)).toEqual([
+      CreditStatus.DEFAULT,
+      CreditStatus.IN_PROGRESS,
+    ]);
+  });
+
+  it('keeps a credit within the grace days in progress and reports nothing when unchanged', async () => {
+    const userId = await createTestUser();
+    const desembolso = addDaysToDate(new Date(), -40);
+    const credit = await createTestCredit(userId, { estado: CreditStatus.IN_PROGRESS, fecha_desembolso: desembolso });
+    const [primera] = await createTestInstallments(credit, desembolso);
+    const hoy = addDaysToDate(primera.fecha_vencimiento, 2);
+
+    const tramo = await DelinquencyService.evaluateCredit(credit, hoy);
+    expect(tramo).toMatchObject({ estado_nuevo: CreditStatus.IN_PROGRESS, tramo_nuevo: DelinquencyBucket.DPD_1_30 });
+
+    const actualizado = (await repositories.credits.findCreditById(credit.id_credito))!;
+    expect(actualizado.dias_mora).toBe(2);
+    expect(await DelinquencyService.evaluateCredit(actualizado, hoy)).toBeNull();
+    expect((await UserAccountsService.getUserAccount(userId)).historial_mora).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  AuditEventType,
+  Credit,
+  CreditStatus,
+  DelinquencyBucket,
+  DelinquencyRunReport,
+  DelinquencyTransition,
+  Installment,
+  InstallmentStatus,
+} from '@/types/index.js';
+import { config } from '@/config/config.js';
+import { repositories, ICreditsRepository } from '@/repositories/index.js';
+import UserAccountsService, { UserAccountsService as UserAccountsServiceClass } from './UserAccountsService.js';
+import AuditService, { AuditService as AuditServiceClass, SYSTEM_AUDIT_CONTEXT } from './AuditService.js';
+import CreditStateMachine, { CreditStateMachine as CreditStateMachineClass } from './CreditStateMachine.js';
+import { startOfDay } from '@/utils/helpers.js';
+import { v4 as uuidv4 } from 'uuid';
+
+// Credits whose arrears are tracked
+const EVALUATED_CREDIT_STATUSES = [CreditStatus.DISBURSED, CreditStatus.IN_PROGRESS, CreditStatus.DEFAULT];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound (inclusive) of days past due for each bucket, in ascending order
+const BUCKET_LIMITS: [number, DelinquencyBucket][] = [
+  [0, DelinquencyBucket.CURRENT],
+  [30, DelinquencyBucket.DPD_1_30],
+  [60, DelinquencyBucket.DPD_31_60],
+  [90, DelinquencyBucket.DPD_61_90],
+];
+
+/**
+ * Bucket for a number of days past due
+ */
+export function delinquencyBucket(diasMora: number): DelinquencyBucket {
+  return BUCKET_LIMITS.find(([limite]) => diasMora <= limite)?.[1] || DelinquencyBucket.DPD_OVER_90;
+}
+
+/**
+ * Days past due of the oldest unpaid installment on `fecha` (0 when none is overdue).
+ * An installment falls overdue the day after its due date.
+ */
+export function daysPastDue(installments: Installment[], fecha: Date = new Date()): number {
+  const hoy = startOfDay(fecha).getTime();
+  return installments
+    .filter((cuota) => cuota.estado !== InstallmentStatus.PAID)
+    .map((cuota) => Math.round((hoy - startOfDay(new Date(cuota.fecha_vencimiento)).getTime()) / DAY_MS))
+    .reduce((max, dias) => Math.max(max, dias), 0);
+}
+
+/**
+ * Delinquency state machine for credits:
+ *
+ *   en_curso / desembolsado --(days past due >= threshold)--> en_mora
+ *   en_mora --(no overdue installment left)--> en_curso
+ *
+ * The days past due and bucket are refreshed on every evaluation. A credit that enters
+ * en_mora flags its borrower with historial_mora. Status and bucket changes are audited.
+ */
+export class DelinquencyService {
+  constructor(
+    private creditsRepository: ICreditsRepository = repositories.credits,
+    private userAccountsService: UserAccountsServiceClass = UserAccountsService,
+    private auditService: AuditServiceClass = AuditService,
+    private creditStateMachine: CreditStateMachineClass = CreditStateMachine,
+    private defaultThresholdDays: number = config.delinquency.defaultThresholdDays
+  ) {}
+
+  /**
+   * Evaluate every live credit as of `fecha` (today by default)
+   */
+  async runEvaluation(fecha: Date = new Date()): Promise<DelinquencyRunReport> {
+    const credits = await this.creditsRepository.findCreditsByStatus(EVALUATED_CREDIT_STATUSES);
+
+    const transiciones: DelinquencyTransition[] = [];
+    for (const credit of credits) {
+      try {
+        const transicion = await this.evaluateCredit(credit, fecha);
+        if (transicion) transiciones.push(transicion);
+      } catch (error) {
+        console.error(`Failed to evaluate delinquency of credit ${credit.id_credito}:`, error);
+      }
+    }
+
+    return {
+      id_ejecucion: uuidv4(),
+      fecha_evaluacion: fecha,
+      creditos_evaluados: credits.length,
+      creditos_en_mora: transiciones.filter(
+        (t) => t.estado_nuevo === CreditStatus.DEFAULT && t.estado_anterior !== CreditStatus.DEFAULT
+      ).length,
+      creditos_regularizados: transiciones.filter(
+        (t) => t.estado_anterior === CreditStatus.DEFAULT && t.estado_nuevo !== CreditStatus.DEFAULT
+      ).length,
+      cambios_tramo: transiciones.filter((t) => t.tramo_anterior !== t.tramo_nuevo).length,
+      transiciones,
+    };
+  }
+
+  /**
+   * Refresh one credit's arrears. Returns the transition when its status or bucket changed.
+   */
+  async evaluateCredit(credit: Credit, fecha: Date = new Date()): Promise<DelinquencyTransition | null> {
+    const installments = await this.creditsRepository.getInstallmentsByCredit(credit.id_credito);
+    const diasMora = daysPastDue(installments, fecha);
+    const tramo = delinquencyBucket(diasMora);
+    const estado = this.nextStatus(credit.estado, diasMora);
+
+    if (diasMora === credit.dias_mora && tramo === credit.tramo_mora && estado === credit.estado) {
+      return null;
+    }
+
+    const cambios = { dias_mora: diasMora, tramo_mora: tramo };
+    let updated: Credit;
+    if (estado === credit.estado) {
+      updated = await this.creditsRepository.updateCredit(credit.id_credito, cambios);
+    } else {
+      const motivo = estado === CreditStatus.DEFAULT ? `${diasMora} days past due` : 'Arrears cured';
+      updated = await this.creditStateMachine.transition(credit, estado, motivo, undefined, cambios);
+    }
+
+    if (tramo === credit.tramo_mora && estado === credit.estado) {
+      return null;
+    }
+
+    if (estado === CreditStatus.DEFAULT && credit.estado !== CreditStatus.DEFAULT) {
+      await this.userAccountsService.markAsDefaulter(credit.usuario_id);
+    }
+
+    const transicion: DelinquencyTransition = {
+      id_credito: credit.id_credito,
+      usuario_id: credit.usuario_id,
+      estado_anterior: credit.estado,
+      estado_nuevo: estado,
+      tramo_anterior: credit.tramo_mora,
+      tramo_nuevo: tramo,
+      dias_mora: diasMora,
+    };
+
+    await this.auditService.record(SYSTEM_AUDIT_CONTEXT, {
+      tipo_evento:
+        estado === credit.estado
+          ? AuditEventType.DELINQUENCY_BUCKET_CHANGED
+          : estado === CreditStatus.DEFAULT
+            ? AuditEventType.CREDIT_DEFAULTED
+            : AuditEventType.CREDIT_CURED,
+      usuario_id: credit.usuario_id,
+      id_credito: credit.id_credito,
+      antes: credit,
+      despues: updated,
+      detalles: { ...transicion },
+    });
+
+    return transicion;
+  }
+
+  private nextStatus(estado: CreditStatus, diasMora: number): CreditStatus {
+    if (diasMora >= this.defaultThresholdDays) return CreditStatus.DEFAULT;
+    if (estado === CreditStatus.DEFAULT && diasMora === 0) return CreditStatus.IN_PROGRESS;
+    return estado;
+  }
+}
+
+export default new DelinquencyService();
@@ -0,0 +1,82 @@
+import { IdempotencyRecord, IdempotencyStatus } from '@/types/index.js';
+import { repositories, IIdempotencyRepository } from '@/repositories/index.js';
+import { IdempotencyError, ValidationError } from '@/errors/AppError.js';
+import { config } from '@/config/config.js';
+import crypto from 'crypto';
+
+const MAX_KEY_LENGTH = 255;
+
+export class IdempotencyService {
+  constructor(private idempotencyRepository: IIdempotencyRepository = repositories.idempotency) {}
+
+  /**
+   * Claim a key for a request.
+   * Returns null when the request is new and must be executed, or the completed record
+   * whose response has to be replayed. A key reused with a different payload, or while
+   * the first request is still running, is rejected.
+   */
+  async begin(clave: string, huella: string): Promise<IdempotencyRecord | null> {
+    if (!clave || clave.length > MAX_KEY_LENGTH) {
+      throw new ValidationError(`Idempotency-Key must have between 1 and ${MAX_KEY_LENGTH} characters`);
+    }
+
+    const ahora = new Date();
+    const existing = await this.idempotencyRepository.reserve({
+      clave,
+      huella,
+      estado: IdempotencyStatus.IN_PROGRESS,
+      fecha_creacion: ahora,
+      fecha_vencimiento: new Date(ahora.getTime() + config.idempotency.ttlHours * 60 * 60 * 1000),
+    });
+
+    if (!existing) return null;
+
+    if (existing.huella !== huella) {
+      throw new IdempotencyError('Idempotency-Key was already used with a different request');
+    }
+    if (existing.estado !== IdempotencyStatus.COMPLETED) {
+      throw new IdempotencyError('A request with this Idempotency-Key is still being processed');
+    }
+
+    return existing;
+  }
+
+  /**
+   * Store the response so retries with the same key get it back
+   */
+  async complete(clave: string, codigoRespuesta: number, respuesta: unknown): Promise<void> {
+    await this.idempotencyRepository.complete(clave, codigoRespuesta, respuesta);
+  }
+
+  /**
+   * Forget the key (the request failed before producing a final answer) so the client can retry
+   */
+  async release(clave: string): Promise<void> {
+    await this.idempotencyRepository.release(clave);
+  }
+
+  /**
+   * SHA-256 of method, route and body; body keys are sorted so property order does not matter
+   */
+  fingerprint(method: string, ruta: string, body: unknown): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${method.toUpperCase()} ${ruta}\n${this.canonicalJson(body)}`)
+      .digest('hex');
+  }
+
+  private canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.canonicalJson(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => `${JSON.stringify(key)}:${this.canonicalJson((value as Record<string, unknown>)[key])}`);
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+  }
+}
+
+export default new IdempotencyService();
@@ -0,0 +1,169 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CollectionOutcome, CreditStatus, InstallmentStatus, PaymentRetryStatus } from '@/types/index.js';
+import repositories from '@/repositories/index.js';
+import InstallmentCollectionService, {
+  InstallmentCollectionService as InstallmentCollectionServiceClass,
+} from './InstallmentCollectionService.js';
+import BankingAPI from './BankingAPI.js';
+import LedgerService from './LedgerService.js';
+import UserAccountsService from './UserAccountsService.js';
+import { addDaysToDate } from '@/utils/helpers.js';
+import { ars, createTestCredit, createTestInstallments, createTestUser } from '@/test/helpers.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('InstallmentCollectionService retries', () => {
+  it('waits longer after each failed attempt', () => {
+    expect(InstallmentCollectionService.retryDelayHours(1)).toBe(48);
+    expect(InstallmentCollectionService.retryDelayHours(2)).toBe(96);
+    expect(InstallmentCollectionService.retryDelayHours(3)).toBe(192);
+  });
+
+  it('schedules retries from the run date and leaves the installment unpaid after the last attempt', async () => {
+    const userId = await createTestUser();
+    const desembolso = addDaysToDate(new Date(), -40);
+    const credit = await createTestCredit(userId, {
+      monto: ars(30000),
+      estado: CreditStatus.IN_PROGRESS,
+      fecha_desembolso: desembolso,
+    });
+    const [primera] = await createTestInstallments(credit, desembolso);
+
+    // A backdated run, five days ago
+    const fecha = addDaysToDate(new Date(), -5);
+    const reporte = await InstallmentCollectionService.runCollection(fecha);
+    expect(reporte.resultados.find((r) => r.id_cuota === primera.id_cuota)?.resultado).toBe(CollectionOutcome.FAILED);
+
+    const segundo = await scheduledRetry(credit.id_credito);
+    expect(segundo.nro_intento).toBe(2);
+    expect(new Date(segundo.fecha_programada)).toEqual(new Date(fecha.getTime() + 48 * HOUR_MS));
+
+    await InstallmentCollectionService.runCollection(new Date(segundo.fecha_programada));
+    const tercero = await scheduledRetry(credit.id_credito);
+    expect(tercero.nro_intento).toBe(3);
+    expect(new Date(tercero.fecha_programada)).toEqual(
+      new Date(new Date(segundo.fecha_programada).getTime() + 96 * HOUR_MS)
+    );
+
+    await InstallmentCollectionService.runCollection(new Date(tercero.fecha_programada));
+    const intentos = await repositories.credits.getPaymentRetriesByCredit(credit.id_credito);
+    expect(intentos.map((r) => r.estado)).toEqual([
+      PaymentRetryStatus.FAILED,
+      PaymentRetryStatus.FAILED,
+      PaymentRetryStatus.FAILED,
+    ]);
+    const [cuota] = await repositories.credits.getInstallmentsByCredit(credit.id_credito);
+    expect(cuota.estado).toBe(InstallmentStatus.UNPAID);
+  });
+
+  it('schedules no retry for an installment paid while its debit was declined', async () => {
+    const userId = await createTestUser();
+    const desembolso = addDaysToDate(new Date(), -40);
+    const credit = await createTestCredit(userId, {
+      monto: ars(30000),
+      estado: CreditStatus.IN_PROGRESS,
+      fecha_desembolso: desembolso,
+    });
+    const [primera] = await createTestInstallments(credit, desembolso);
+    // The borrower pays the installment between the declined debit and the failure being recorded
+    const debito = vi
+      .spyOn(BankingAPI, 'processInstallmentPayment')
+      .mockImplementationOnce(async (_usuario, monto, installmentId) => {
+        await repositories.credits.markInstallmentPaid(installmentId!);
+        return { exito: false, monto, fecha: new Date(), saldo_resultante: ars(0), razon_fallo: 'Declined' };
+      });
+
+    const reporte = await InstallmentCollectionService.runCollection(primera.fecha_vencimiento);
+    debito.mockRestore();
+
+    expect(reporte.resultados.find((r) => r.id_cuota === primera.id_cuota)?.resultado).toBe(CollectionOutcome.SKIPPED);
+    expect(await repositories.credits.getPaymentRetriesByCredit(credit.id_credito)).toEqual([]);
+    const [cuota] = await repositories.credits.getInstallmentsByCredit(credit.id_credito);
+    expect(cuota.estado).toBe(InstallmentStatus.PAID);
+  });
+});
+
+describe('InstallmentCollectionService charges', () => {
+  it('debits the due installments and closes the credit with the last one', async () => {
+    const userId = await createTestUser({ fondos: ars(50000) });
+    const desembolso = addDaysToDate(new Date(), -100);
+    const credit = await createTestCredit(userId, {
+      monto: ars(20000),
+      cuotas: 2,
+      estado: CreditStatus.IN_PROGRESS,
+      fecha_desembolso: desembolso,
+    });
+    const [primera, segunda] = await createTestInstallments(credit, desembolso);
+
+    const reporte = await InstallmentCollectionService.runCollection(primera.fecha_vencimiento);
+
+    expect(reporte.resultados.filter((r) => r.id_credito === credit.id_credito)).toMatchObject([
+      { id_cuota: primera.id_cuota, resultado: CollectionOutcome.COLLECTED },
+    ]);
+    expect(reporte.creditos_pagados).not.toContain(credit.id_credito);
+    expect((await repositories.credits.findCreditById(credit.id_credito))!.estado).toBe(CreditStatus.IN_PROGRESS);
+
+    const cierre = await InstallmentCollectionService.runCollection(segunda.fecha_vencimiento);
+
+    expect(cierre.creditos_pagados).toEqual([credit.id_credito]);
+    const cuotas = await repositories.credits.getInstallmentsByCredit(credit.id_credito);
+    expect(cuotas.map((c) => c.estado)).toEqual([InstallmentStatus.PAID, InstallmentStatus.PAID]);
+    expect((await repositories.credits.findCreditById(credit.id_credito))!.estado).toBe(CreditStatus.PAID);
+    expect(await UserAccountsService.getBalance(userId)).toEqual(
+      ars(50000).subtract(primera.importe_cuota).subtract(segunda.importe_cuota)
+    );
+    expect((await LedgerService.reconcileWallet(userId)).conciliado).toBe(true);
+  });
+
+  it('skips installments already debited instead of charging them twice', async () => {
+    const userId = await createTestUser({ fondos: ars(50000) });
+    const desembolso = addDaysToDate(new Date(), -100);
+    const credit = await createTestCredit(userId, {
+      monto: ars(10000),
+      cuotas: 1,
+      estado: CreditStatus.IN_PROGRESS,
+      fecha_desembolso: desembolso,
+    });
+    const [cuota] = await createTestInstallments(credit, desembolso);
+    // A previous run debited the installment and stopped before marking it paid
+    await LedgerService.recordInstallmentDebit(userId, cuota.importe_cuota, cuota.id_cuota);
+
+    const reporte = await InstallmentCollectionService.runCollection(cuota.fecha_vencimiento);
+
+    expect(reporte.resultados.find((r) => r.id_cuota === cuota.id_cuota)?.resultado).toBe(CollectionOutcome.SKIPPED);
+    expect(reporte.creditos_pagados).toEqual([credit.id_credito]);
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(50000).subtract(cuota.importe_cuota));
+  });
+});
+
+describe('InstallmentCollectionService concurrent runs', () => {
+  it('debits an installment once when two processes collect it at the same time', async () => {
+    const userId = await createTestUser({ fondos: ars(50000) });
+    const desembolso = addDaysToDate(new Date(), -40);
+    const credit = await createTestCredit(userId, {
+      monto: ars(10000),
+      cuotas: 2,
+      estado: CreditStatus.IN_PROGRESS,
+      fecha_desembolso: desembolso,
+    });
+    const [primera] = await createTestInstallments(credit, desembolso);
+
+    // e.g. the scheduler and a run from the command line, each with its own service
+    const reportes = await Promise.all([
+      InstallmentCollectionService.runCollection(primera.fecha_vencimiento),
+      new InstallmentCollectionServiceClass().runCollection(primera.fecha_vencimiento),
+    ]);
+
+    const resultados = reportes.map((r) => r.resultados.find((c) => c.id_cuota === primera.id_cuota)?.resultado);
+    expect(resultados.sort()).toEqual([CollectionOutcome.COLLECTED, CollectionOutcome.SKIPPED].sort());
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(50000).subtract(primera.importe_cuota));
+    expect((await LedgerService.reconcileWallet(userId)).conciliado).toBe(true);
+  });
+});
+
+async function scheduledRetry(creditId: string) {
+  const intentos = await repositories.credits.getPaymentRetriesByCredit(creditId);
+  const programados = intentos.filter((r) => r.estado === PaymentRetryStatus.SCHEDULED);
+  expect(programados).toHaveLength(1);
+  return programados[0];
+}
@@ -0,0 +1,430 @@
+import {
+  AuditContext,
+  AuditEventType,
+  CollectionOutcome,
+  CollectionResult,
+  CollectionRunReport,
+  Credit,
+  CreditStatus,
+  Installment,
+  InstallmentStatus,
+  LedgerEntryType,
+  Money,
+  PaymentRetry,
+  PaymentRetryPolicy,
+  PaymentRetryStatus,
+} from '@/types/index.js';
+import { config } from '@/config/config.js';
+import { repositories, ICreditsRepository } from '@/repositories/index.js';
+import BankingAPI, { BankingAPI as BankingAPIClass } from './BankingAPI.js';
+import LedgerService, { LedgerService as LedgerServiceClass } from './LedgerService.js';
+import LateChargesService, { LateChargesService as LateChargesServiceClass } from './LateChargesService.js';
+import AuditService, { AuditService as AuditServiceClass, SYSTEM_AUDIT_CONTEXT } from './AuditService.js';
+import CreditStateMachine, { CreditStateMachine as CreditStateMachineClass } from './CreditStateMachine.js';
+import CreditLimitService, { CreditLimitService as CreditLimitServiceClass } from './CreditLimitService.js';
+import { UnitOfWork } from './UnitOfWork.js';
+import { IdempotencyError, ValidationError } from '@/errors/AppError.js';
+import { endOfDay } from '@/utils/helpers.js';
+import { v4 as uuidv4 } from 'uuid';
+
+// Installments are only charged while the credit is live
+const COLLECTIBLE_CREDIT_STATUSES = [CreditStatus.DISBURSED, CreditStatus.IN_PROGRESS, CreditStatus.DEFAULT];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface InstallmentCollection {
+  resultado: CollectionResult;
+  creditoPagado: boolean;
+}
+
+/**
+ * Collection job for credit installments: debits every installment that is due from the
+ * borrower's wallet, together with the punitive interest and late fees it accrued, and closes
+ * credits whose last installment clears. Failed debits are retried on the schedule set by
+ * the retry policy.
+ */
+export class InstallmentCollectionService {
+  private running = false;
+
+  constructor(
+    private creditsRepository: ICreditsRepository = repositories.credits,
+    private bankingAPI: BankingAPIClass = BankingAPI,
+    private ledgerService: LedgerServiceClass = LedgerService,
+    private auditService: AuditServiceClass = AuditService,
+    private lateChargesService: LateChargesServiceClass = LateChargesService,
+    private retryPolicy: PaymentRetryPolicy = config.paymentRetries,
+    private creditStateMachine: CreditStateMachineClass = CreditStateMachine,
+    private creditLimitService: CreditLimitServiceClass = CreditLimitService
+  ) {}
+
+  /**
+   * Run the retries scheduled up to the end of `fecha` (today by default), then charge every
+   * pending installment due by then. Installments are processed one at a time: a declined
+   * debit schedules the next attempt, or marks the installment `impaga` after the last one,
+   * and the run moves on.
+   */
+  async runCollection(fecha: Date = new Date()): Promise<CollectionRunReport> {
+    if (this.running) {
+      throw new ValidationError('An installment collection run is already in progress');
+    }
+    this.running = true;
+
+    try {
+      const fechaInicio = new Date();
+      const fechaCorte = endOfDay(fecha);
+      const retries = await this.creditsRepository.getDuePaymentRetries(fechaCorte);
+      const installments = await this.creditsRepository.getPendingInstallments(fechaCorte);
+
+      const credits = new Map<string, Credit | null>();
+      const getCredit = async (creditId: string): Promise<Credit | null> => {
+        if (!credits.has(creditId)) {
+          credits.set(creditId, await this.creditsRepository.findCreditById(creditId));
+        }
+        return credits.get(creditId) || null;
+      };
+
+      const collections: InstallmentCollection[] = [];
+      for (const retry of retries) {
+        const plan = await this.creditsRepository.getInstallmentsByCredit(retry.id_credito);
+        const installment = plan.find((cuota) => cuota.id_cuota === retry.id_cuota);
+        if (installment) {
+          const credit = await getCredit(retry.id_credito);
+          collections.push(await this.collectInstallment(installment, credit, fecha, retry));
+        }
+      }
+      for (const installment of installments) {
+        collections.push(await this.collectInstallment(installment, await getCredit(installment.id_credito), fecha));
+      }
+
+      const resultados = collections.map((c) => c.resultado);
+      const cobradas = resultados.filter((r) => r.resultado === CollectionOutcome.COLLECTED);
+
+      return {
+        id_ejecucion: uuidv4(),
+        fecha_corte: fechaCorte,
+        fecha_inicio: fechaInicio,
+        fecha_fin: new Date(),
+        cuotas_procesadas: resultados.length,
+        cuotas_cobradas: cobradas.length,
+        cuotas_fallidas: resultados.filter((r) => r.resultado === CollectionOutcome.FAILED).length,
+        cuotas_omitidas: resultados.filter((r) => r.resultado === CollectionOutcome.SKIPPED).length,
+        reintentos_programados: resultados.filter((r) => r.proximo_intento).length,
+        monto_cobrado: Money.sum(cobradas.map((r) => r.importe_cuota.add(r.cargos))),
+        creditos_pagados: collections.filter((c) => c.creditoPagado).map((c) => c.resultado.id_credito),
+        resultados,
+      };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Hours to wait after failed attempt `nroIntento` before the next one
+   */
+  retryDelayHours(nroIntento: number): number {
+    return this.retryPolicy.backoffHours * Math.pow(this.retryPolicy.backoffMultiplier, nroIntento - 1);
+  }
+
+  private async collectInstallment(
+    installment: Installment,
+    credit: Credit | null,
+    fecha: Date,
+    intento?: PaymentRetry
+  ): Promise<InstallmentCollection> {
+    const base = {
+      id_cuota: installment.id_cuota,
+      id_credito: installment.id_credito,
+      usuario_id: credit?.usuario_id || null,
+      nro_cuota: installment.nro_cuota,
+      importe_cuota: installment.importe_cuota,
+      cargos: Money.zero(installment.importe_cuota.moneda),
+      nro_intento: intento?.nro_intento || 1,
+    };
+
+    if (!credit) {
+      return this.skip(base, 'Credit not found', intento);
+    }
+    if (!COLLECTIBLE_CREDIT_STATUSES.includes(credit.estado)) {
+      return this.skip(base, `Credit is ${credit.estado}`, intento);
+    }
+    if (intento && installment.estado !== InstallmentStatus.RETRYING) {
+      return this.skip(base, `Installment is ${installment.estado}`, intento);
+    }
+
+    try {
+      await this.lateChargesService.accrueInstallment(installment, credit, fecha);
+      base.cargos = await this.lateChargesService.getChargesTotal(installment);
+
+      return await UnitOfWork.run(async (uow) => {
+        // A previous run may have posted the debit and stopped before marking the installment
+        const previo = await this.ledgerService.findActiveEntry(
+          installment.id_cuota,
+          LedgerEntryType.INSTALLMENT_DEBIT
+        );
+        if (previo) {
+          if (intento) await this.closeRetry(intento, previo.id_asiento, uow);
+          const creditoPagado = await this.settleInstallment(installment, credit, previo.id_asiento, base.cargos, uow);
+          return {
+            resultado: {
+              ...base,
+              resultado: CollectionOutcome.SKIPPED,
+              transaccion_id: previo.id_asiento,
+              motivo: 'Already debited by a previous run; marked as paid',
+            },
+            creditoPagado,
+          };
+        }
+
+        const pago = await this.bankingAPI.processInstallmentPayment(
+          credit.usuario_id,
+          installment.importe_cuota.add(base.cargos),
+          installment.id_cuota,
+          uow
+        );
+
+        if (!pago.exito) {
+          const motivo = pago.razon_fallo || 'Payment declined';
+          const proximoIntento = await this.recordFailure(
+            installment,
+            credit,
+            base.nro_intento,
+            motivo,
+            fecha,
+            intento,
+            uow
+          );
+          return {
+            resultado: {
+              ...base,
+              resultado: CollectionOutcome.FAILED,
+              motivo,
+              ...(proximoIntento && { proximo_intento: proximoIntento }),
+            },
+            creditoPagado: false,
+          };
+        }
+
+        if (intento) await this.closeRetry(intento, pago.transaccion_id, uow);
+        const creditoPagado = await this.settleInstallment(installment, credit, pago.transaccion_id, base.cargos, uow);
+        return {
+          resultado: { ...base, resultado: CollectionOutcome.COLLECTED, transaccion_id: pago.transaccion_id },
+          creditoPagado,
+        };
+      });
+    } catch (error) {
+      // The borrower paid it (or another run collected it) meanwhile; the retry, if any, is
+      // left for the next run, which cancels it once it finds the installment paid
+      if (error instanceof IdempotencyError) {
+        return {
+          resultado: { ...base, resultado: CollectionOutcome.SKIPPED, motivo: `Settled elsewhere: ${error.message}` },
+          creditoPagado: false,
+        };
+      }
+      // Everything was rolled back: the installment or retry stays due for the next run
+      return {
+        resultado: {
+          ...base,
+          resultado: CollectionOutcome.FAILED,
+          motivo: `Collection failed: ${error instanceof Error ? error.message : error}`,
+        },
+        creditoPagado: false,
+      };
+    }
+  }
+
+  /**
+   * Mark a debited installment paid and, when it was the last one open, the credit as well.
+   * Returns whether the credit was closed. Throws an IdempotencyError when the installment was
+   * settled meanwhile, so the unit of work reverses the debit.
+   */
+  async settleInstallment(
+    installment: Installment,
+    credit: Credit,
+    transaccionId: string | undefined,
+    cargos: Money,
+    uow: UnitOfWork,
+    contexto: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<boolean> {
+    const pagada = await uow.step(
+      `mark installment ${installment.id_cuota} paid`,
+      async () => {
+        const marcada = await this.creditsRepository.markInstallmentPaid(installment.id_cuota);
+        if (!marcada) {
+          throw new IdempotencyError(
+            `Installment ${installment.nro_cuota} of credit ${credit.id_credito} was already settled`
+          );
+        }
+        return marcada;
+      },
+      () =>
+        this.creditsRepository.updateInstallment(installment.id_cuota, {
+          estado: installment.estado,
+          fecha_pago: installment.fecha_pago,
+        })
+    );
+
+    await this.auditService.record(
+      contexto,
+      {
+        tipo_evento: AuditEventType.INSTALLMENT_COLLECTED,
+        usuario_id: credit.usuario_id,
+        id_credito: credit.id_credito,
+        antes: installment,
+        despues: pagada,
+        detalles: { id_asiento: transaccionId, cargos },
+      },
+      uow
+    );
+    await this.creditLimitService.scheduleRecompute(
+      credit.usuario_id,
+      `Installment ${installment.nro_cuota} of credit ${credit.id_credito} paid`,
+      uow
+    );
+
+    const plan = await this.creditsRepository.getInstallmentsByCredit(credit.id_credito);
+    if (!plan.every((cuota) => cuota.estado === InstallmentStatus.PAID)) {
+      return false;
+    }
+
+    const pagado = await this.creditStateMachine.transition(credit, CreditStatus.PAID, 'Last installment paid', uow);
+
+    await this.auditService.record(
+      contexto,
+      {
+        tipo_evento: AuditEventType.CREDIT_PAID,
+        usuario_id: credit.usuario_id,
+        id_credito: credit.id_credito,
+        antes: credit,
+        despues: pagado,
+      },
+      uow
+    );
+
+    return true;
+  }
+
+  /**
+   * Persist a declined debit and schedule the next attempt, or mark the installment `impaga`
+   * when the policy allows no more. The next attempt is due counting from the run date `fecha`,
+   * so a backdated run schedules it as the run on that day would have. Returns when it is due, if any.
+   * Nothing is recorded when the installment changed since it was read (e.g. the borrower paid it).
+   */
+  private async recordFailure(
+    installment: Installment,
+    credit: Credit,
+    nroIntento: number,
+    motivo: string,
+    fecha: Date,
+    intento: PaymentRetry | undefined,
+    uow: UnitOfWork
+  ): Promise<Date | null> {
+    const proximoIntento =
+      nroIntento < this.retryPolicy.maxAttempts
+        ? new Date(fecha.getTime() + this.retryDelayHours(nroIntento) * HOUR_MS)
+        : null;
+    const estado = proximoIntento ? InstallmentStatus.RETRYING : InstallmentStatus.UNPAID;
+
+    const actualizada = await uow.step(
+      `mark installment ${installment.id_cuota} ${estado}`,
+      async () => {
+        const marcada = await this.creditsRepository.updateInstallmentIf(installment.id_cuota, installment.estado, {
+          estado,
+        });
+        if (!marcada) {
+          throw new IdempotencyError(
+            `Installment ${installment.nro_cuota} of credit ${credit.id_credito} changed during collection`
+          );
+        }
+        return marcada;
+      },
+      () => this.creditsRepository.updateInstallmentIf(installment.id_cuota, estado, { estado: installment.estado })
+    );
+
+    const fallido = {
+      estado: PaymentRetryStatus.FAILED,
+      fecha_ejecucion: new Date(),
+      motivo_fallo: motivo,
+    };
+
+    if (intento) {
+      await this.creditsRepository.updatePaymentRetry(intento.id_reintento, fallido);
+    } else {
+      await this.creditsRepository.createPaymentRetry({
+        id_cuota: installment.id_cuota,
+        id_credito: installment.id_credito,
+        nro_intento: nroIntento,
+        fecha_programada: new Date(installment.fecha_vencimiento),
+        id_transaccion: null,
+        ...fallido,
+      });
+    }
+
+    if (proximoIntento) {
+      await this.creditsRepository.createPaymentRetry({
+        id_cuota: installment.id_cuota,
+        id_credito: installment.id_credito,
+        nro_intento: nroIntento + 1,
+        estado: PaymentRetryStatus.SCHEDULED,
+        fecha_programada: proximoIntento,
+        fecha_ejecucion: null,
+        motivo_fallo: null,
+        id_transaccion: null,
+      });
+    }
+
+    await this.auditService.record(
+      SYSTEM_AUDIT_CONTEXT,
+      {
+        tipo_evento: AuditEventType.INSTALLMENT_COLLECTION_FAILED,
+        usuario_id: credit.usuario_id,
+        id_credito: credit.id_credito,
+        antes: installment,
+        despues: actualizada,
+        detalles: { motivo, nro_intento: nroIntento, proximo_intento: proximoIntento },
+      },
+      uow
+    );
+
+    return proximoIntento;
+  }
+
+  private async closeRetry(intento: PaymentRetry, transaccionId: string | undefined, uow: UnitOfWork): Promise<void> {
+    await uow.step(
+      `mark payment retry ${intento.id_reintento} succeeded`,
+      () =>
+        this.creditsRepository.updatePaymentRetry(intento.id_reintento, {
+          estado: PaymentRetryStatus.SUCCEEDED,
+          fecha_ejecucion: new Date(),
+          id_transaccion: transaccionId || null,
+        }),
+      () =>
+        this.creditsRepository.updatePaymentRetry(intento.id_reintento, {
+          estado: intento.estado,
+          fecha_ejecucion: intento.fecha_ejecucion,
+          id_transaccion: intento.id_transaccion,
+        })
+    );
+  }
+
+  /**
+   * Leave an installment untouched; a scheduled attempt that no longer applies (installment
+   * settled, credit closed) is canceled
+   */
+  private async skip(
+    base: Omit<CollectionResult, 'resultado'>,
+    motivo: string,
+    intento?: PaymentRetry
+  ): Promise<InstallmentCollection> {
+    if (intento) {
+      await this.creditsRepository.updatePaymentRetry(intento.id_reintento, {
+        estado: PaymentRetryStatus.CANCELED,
+        fecha_ejecucion: new Date(),
+        motivo_fallo: motivo,
+      });
+    }
+
+    return { resultado: { ...base, resultado: CollectionOutcome.SKIPPED, motivo }, creditoPagado: false };
+  }
+}
+
+export default new InstallmentCollectionService();
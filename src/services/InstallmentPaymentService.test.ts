@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { CollectionOutcome, CreditStatus, Installment, InstallmentStatus, PaymentRetryStatus } from '@/types/index.js';
+import { IdempotencyError, ValidationError } from '@/errors/AppError.js';
+import repositories from '@/repositories/index.js';
+import InstallmentPaymentService from './InstallmentPaymentService.js';
+import InstallmentCollectionService from './InstallmentCollectionService.js';
+import LedgerService from './LedgerService.js';
+import LateChargesService from './LateChargesService.js';
+import UserAccountsService from './UserAccountsService.js';
+import { addDaysToDate } from '@/utils/helpers.js';
+import { ars, createTestCredit, createTestInstallments, createTestUser } from '@/test/helpers.js';
+
+// A two-installment credit whose first installment is ten days overdue
+async function overdueCredit() {
+  const userId = await createTestUser({ fondos: ars(50000) });
+  const desembolso = addDaysToDate(new Date(), -40);
+  const credit = await createTestCredit(userId, {
+    monto: ars(20000),
+    cuotas: 2,
+    estado: CreditStatus.IN_PROGRESS,
+    fecha_desembolso: desembolso,
+  });
+  const cuotas = await createTestInstallments(credit, desembolso);
+  return { userId, credit, cuotas };
+}
+
+// The wallet once the first installment and its charges were debited, and only once
+async function expectFirstInstallmentDebitedOnce(userId: string, cuota: Installment) {
+  const cargos = await LateChargesService.getChargesTotal(cuota);
+  expect(await UserAccountsService.getBalance(userId)).toEqual(ars(50000).subtract(cuota.importe_cuota.add(cargos)));
+  expect((await LedgerService.reconcileWallet(userId)).conciliado).toBe(true);
+}
+
+describe('InstallmentPaymentService', () => {
+  it('pays the oldest overdue installment with its charges and issues a receipt', async () => {
+    const { userId, credit, cuotas } = await overdueCredit();
+    const reintento = await repositories.credits.createPaymentRetry({
+      id_cuota: cuotas[0].id_cuota,
+      id_credito: credit.id_credito,
+      nro_intento: 2,
+      estado: PaymentRetryStatus.SCHEDULED,
+      fecha_programada: addDaysToDate(new Date(), 1),
+      fecha_ejecucion: null,
+      motivo_fallo: null,
+      id_transaccion: null,
+    });
+
+    const pago = await InstallmentPaymentService.payInstallment(credit.id_credito, undefined, undefined);
+
+    const cargos = await LateChargesService.getChargesTotal(cuotas[0]);
+    expect(cargos.isPositive()).toBe(true);
+    expect(pago.cuota).toMatchObject({ id_cuota: cuotas[0].id_cuota, estado: InstallmentStatus.PAID });
+    expect(pago.credito_pagado).toBe(false);
+    expect(pago.comprobante).toMatchObject({ nro_cuota: 1, cargos, monto: cuotas[0].importe_cuota.add(cargos) });
+    expect(pago.comprobante.numero_comprobante).toMatch(/^CUOTA-\d{8}-\d{5}$/);
+    expect(await InstallmentPaymentService.getReceipts(credit.id_credito)).toHaveLength(1);
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(50000).subtract(pago.comprobante.monto));
+
+    const [cancelado] = await repositories.credits.getPaymentRetriesByCredit(credit.id_credito);
+    expect(cancelado).toMatchObject({ id_reintento: reintento.id_reintento, estado: PaymentRetryStatus.CANCELED });
+  });
+
+  it('only accepts the exact amount due and installments in order', async () => {
+    const { userId, credit, cuotas } = await overdueCredit();
+
+    await expect(
+      InstallmentPaymentService.payInstallment(credit.id_credito, cuotas[1].id_cuota, undefined)
+    ).rejects.toThrow('Installment 1 has to be paid first');
+    await expect(
+      InstallmentPaymentService.payInstallment(credit.id_credito, cuotas[0].id_cuota, cuotas[0].importe_cuota)
+    ).rejects.toThrow('does not cover installment 1');
+    await expect(
+      InstallmentPaymentService.payInstallment(credit.id_credito, cuotas[0].id_cuota, ars(40000))
+    ).rejects.toThrow('use a partial prepayment');
+
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(50000));
+  });
+
+  it('closes the credit with its last installment and refuses to pay it again', async () => {
+    const { credit, cuotas } = await overdueCredit();
+
+    await InstallmentPaymentService.payInstallment(credit.id_credito, cuotas[0].id_cuota, undefined);
+    const ultima = await InstallmentPaymentService.payInstallment(credit.id_credito, cuotas[1].id_cuota, undefined);
+
+    expect(ultima.credito_pagado).toBe(true);
+    expect((await repositories.credits.findCreditById(credit.id_credito))!.estado).toBe(CreditStatus.PAID);
+    await expect(
+      InstallmentPaymentService.payInstallment(credit.id_credito, cuotas[1].id_cuota, undefined)
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('debits an installment once when the borrower pays it during a collection run', async () => {
+    const { userId, credit, cuotas } = await overdueCredit();
+
+    const [pago, cobro] = await Promise.allSettled([
+      InstallmentPaymentService.payInstallment(credit.id_credito, cuotas[0].id_cuota, undefined),
+      InstallmentCollectionService.runCollection(),
+    ]);
+
+    if (cobro.status === 'rejected') throw cobro.reason;
+    const resultado = cobro.value.resultados.find((r) => r.id_cuota === cuotas[0].id_cuota);
+    if (pago.status === 'fulfilled') {
+      expect(resultado).toMatchObject({ resultado: CollectionOutcome.SKIPPED });
+    } else {
+      expect(pago.reason).toBeInstanceOf(IdempotencyError);
+      expect(resultado).toMatchObject({ resultado: CollectionOutcome.COLLECTED });
+    }
+    await expectFirstInstallmentDebitedOnce(userId, cuotas[0]);
+    const [pagada] = await repositories.credits.getInstallmentsByCredit(credit.id_credito);
+    expect(pagada.estado).toBe(InstallmentStatus.PAID);
+  });
+
+  it('debits an installment once when it is paid twice at the same time', async () => {
+    const { userId, credit, cuotas } = await overdueCredit();
+
+    const pagos = await Promise.allSettled([
+      InstallmentPaymentService.payInstallment(credit.id_credito, cuotas[0].id_cuota, undefined),
+      InstallmentPaymentService.payInstallment(credit.id_credito, cuotas[0].id_cuota, undefined),
+    ]);
+
+    expect(pagos.map((p) => p.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(pagos.find((p) => p.status === 'rejected')).toMatchObject({ reason: expect.any(IdempotencyError) });
+    expect(await InstallmentPaymentService.getReceipts(credit.id_credito)).toHaveLength(1);
+    await expectFirstInstallmentDebitedOnce(userId, cuotas[0]);
+  });
+});
@@ -0,0 +1,224 @@
+import {
+  AuditContext,
+  Credit,
+  CreditStatus,
+  Installment,
+  InstallmentPayment,
+  InstallmentReceipt,
+  InstallmentStatus,
+  LedgerEntryType,
+  Money,
+  PaymentRetryStatus,
+} from '@/types/index.js';
+import { repositories, ICreditsRepository } from '@/repositories/index.js';
+import BankingAPI, { BankingAPI as BankingAPIClass } from './BankingAPI.js';
+import LedgerService, { LedgerService as LedgerServiceClass } from './LedgerService.js';
+import LateChargesService, { LateChargesService as LateChargesServiceClass } from './LateChargesService.js';
+import InstallmentCollectionService, {
+  InstallmentCollectionService as InstallmentCollectionServiceClass,
+} from './InstallmentCollectionService.js';
+import { SYSTEM_AUDIT_CONTEXT } from './AuditService.js';
+import { UnitOfWork } from './UnitOfWork.js';
+import { InsufficientFundsError, NotFoundError, ValidationError } from '@/errors/AppError.js';
+import { startOfDay } from '@/utils/helpers.js';
+
+// Installments can only be paid while the credit is live
+const PAYABLE_CREDIT_STATUSES = [CreditStatus.DISBURSED, CreditStatus.IN_PROGRESS, CreditStatus.DEFAULT];
+
+/**
+ * Installments paid by the borrower from the wallet, ahead of or instead of the collection job.
+ * Every payment issues a receipt (comprobante).
+ */
+export class InstallmentPaymentService {
+  constructor(
+    private creditsRepository: ICreditsRepository = repositories.credits,
+    private bankingAPI: BankingAPIClass = BankingAPI,
+    private ledgerService: LedgerServiceClass = LedgerService,
+    private lateChargesService: LateChargesServiceClass = LateChargesService,
+    private collectionService: InstallmentCollectionServiceClass = InstallmentCollectionService
+  ) {}
+
+  /**
+   * Pay `installmentId`, or the oldest overdue installment when it is omitted. The payment has
+   * to match importe_cuota plus the punitive interest and late fees accrued up to today: less
+   * would leave the installment half paid, and paying ahead is what partial prepayments are
+   * for. `monto` defaults to exactly that amount. Installments are paid in order. When the
+   * collection job or another payment settles the installment first, this one is rolled back
+   * with an IdempotencyError.
+   */
+  async payInstallment(
+    creditId: string,
+    installmentId: string | undefined,
+    monto: Money | undefined,
+    contexto: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<InstallmentPayment> {
+    const credit = await this.creditsRepository.findCreditById(creditId);
+    if (!credit) {
+      throw new NotFoundError(`Credit ${creditId} not found`);
+    }
+    if (!PAYABLE_CREDIT_STATUSES.includes(credit.estado)) {
+      throw new ValidationError(`Credit ${creditId} is ${credit.estado}; its installments cannot be paid`);
+    }
+
+    const plan = await this.creditsRepository.getInstallmentsByCredit(creditId);
+    const installment = installmentId ? this.findInstallment(plan, installmentId) : this.oldestOverdue(plan);
+
+    if (installment.estado === InstallmentStatus.PAID) {
+      throw new ValidationError(`Installment ${installment.nro_cuota} is already paid`);
+    }
+    const anterior = plan.find(
+      (cuota) => cuota.nro_cuota < installment.nro_cuota && cuota.estado !== InstallmentStatus.PAID
+    );
+    if (anterior) {
+      throw new ValidationError(`Installment ${anterior.nro_cuota} has to be paid first`);
+    }
+
+    await this.lateChargesService.accrueInstallment(installment, credit);
+    const cargos = await this.lateChargesService.getChargesTotal(installment);
+    const adeudado = installment.importe_cuota.add(cargos);
+    const importe = monto || adeudado;
+
+    if (importe.lessThan(adeudado)) {
+      throw new ValidationError(
+        `Payment of ${importe} does not cover installment ${installment.nro_cuota}: ${adeudado} is due`
+      );
+    }
+    if (importe.greaterThan(adeudado)) {
+      throw new ValidationError(
+        `Payment of ${importe} exceeds the ${adeudado} due on installment ${installment.nro_cuota}; ` +
+          'use a partial prepayment to pay ahead'
+      );
+    }
+
+    const { comprobante, creditoPagado } = await UnitOfWork.run(async (uow) => {
+      // The collection job may have posted the debit and stopped before marking the installment
+      const previo = await this.ledgerService.findActiveEntry(
+        installment.id_cuota,
+        LedgerEntryType.INSTALLMENT_DEBIT
+      );
+      let idAsiento = previo?.id_asiento;
+
+      if (!idAsiento) {
+        const pago = await this.bankingAPI.processInstallmentPayment(
+          credit.usuario_id,
+          importe,
+          installment.id_cuota,
+          uow
+        );
+        if (!pago.exito || !pago.transaccion_id) {
+          throw new InsufficientFundsError(pago.razon_fallo || 'Installment debit was declined');
+        }
+        idAsiento = pago.transaccion_id;
+      }
+
+      await this.cancelRetries(installment, uow);
+      const creditoPagado = await this.collectionService.settleInstallment(
+        installment,
+        credit,
+        idAsiento,
+        cargos,
+        uow,
+        contexto
+      );
+
+      const comprobante = await uow.step(`issue receipt for installment ${installment.id_cuota}`, () =>
+        this.issueReceipt(credit, installment, cargos, importe, idAsiento)
+      );
+
+      return { comprobante, creditoPagado };
+    });
+
+    const pagada = await this.creditsRepository.getInstallmentsByCredit(creditId);
+    return {
+      cuota: this.findInstallment(pagada, installment.id_cuota),
+      comprobante,
+      credito_pagado: creditoPagado,
+    };
+  }
+
+  async getReceipts(creditId: string): Promise<InstallmentReceipt[]> {
+    return this.creditsRepository.getInstallmentReceiptsByCredit(creditId);
+  }
+
+  /**
+   * Receipt number in the same format as transfer comprobantes
+   */
+  generateReceiptNumber(): string {
+    const now = new Date();
+    const dateStr = now.toISOString().split('T')[0].replace(/-/g, '');
+    const randomStr = Math.floor(Math.random() * 100000)
+      .toString()
+      .padStart(5, '0');
+    return `CUOTA-${dateStr}-${randomStr}`;
+  }
+
+  private issueReceipt(
+    credit: Credit,
+    installment: Installment,
+    cargos: Money,
+    monto: Money,
+    idAsiento: string
+  ): Promise<InstallmentReceipt> {
+    return this.creditsRepository.createInstallmentReceipt({
+      numero_comprobante: this.generateReceiptNumber(),
+      usuario_id: credit.usuario_id,
+      id_credito: credit.id_credito,
+      id_cuota: installment.id_cuota,
+      nro_cuota: installment.nro_cuota,
+      fecha_hora: new Date(),
+      importe_cuota: installment.importe_cuota,
+      cargos,
+      monto,
+      id_asiento: idAsiento,
+    });
+  }
+
+  /**
+   * Scheduled collection attempts for the installment are no longer needed once it is paid
+   */
+  private async cancelRetries(installment: Installment, uow: UnitOfWork): Promise<void> {
+    const retries = await this.creditsRepository.getPaymentRetriesByCredit(installment.id_credito);
+    const programados = retries.filter(
+      (r) => r.id_cuota === installment.id_cuota && r.estado === PaymentRetryStatus.SCHEDULED
+    );
+
+    for (const retry of programados) {
+      await uow.step(
+        `cancel payment retry ${retry.id_reintento}`,
+        () =>
+          this.creditsRepository.updatePaymentRetry(retry.id_reintento, {
+            estado: PaymentRetryStatus.CANCELED,
+            fecha_ejecucion: new Date(),
+            motivo_fallo: 'Installment paid by the borrower',
+          }),
+        () =>
+          this.creditsRepository.updatePaymentRetry(retry.id_reintento, {
+            estado: retry.estado,
+            fecha_ejecucion: retry.fecha_ejecucion,
+            motivo_fallo: retry.motivo_fallo,
+          })
+      );
+    }
+  }
+
+  private findInstallment(plan: Installment[], installmentId: string): Installment {
+    const installment = plan.find((cuota) => cuota.id_cuota === installmentId);
+    if (!installment) {
+      throw new NotFoundError(`Installment ${installmentId} not found`);
+    }
+    return installment;
+  }
+
+  private oldestOverdue(plan: Installment[]): Installment {
+    const hoy = startOfDay(new Date());
+    const vencida = plan.find(
+      (cuota) => cuota.estado !== InstallmentStatus.PAID && new Date(cuota.fecha_vencimiento) < hoy
+    );
+    if (!vencida) {
+      throw new ValidationError('Credit has no overdue installments');
+    }
+    return vencida;
+  }
+}
+
+export default new InstallmentPaymentService();
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { CreditStatus, CreditType, InstallmentChargeType, LateChargePolicy } from '@/types/index.js';
+import repositories from '@/repositories/index.js';
+import { LateChargesService } from './LateChargesService.js';
+import { addDaysToDate } from '@/utils/helpers.js';
+import { ars, createTestCredit, createTestInstallments, createTestUser } from '@/test/helpers.js';
+
+// 36.5% TNA is 0.1% of the installment per day
+const policy: LateChargePolicy = { punitiveTNA: 36.5, lateFee: ars(500) };
+const lateCharges = new LateChargesService(repositories.credits, {
+  [CreditType.QUICK]: policy,
+  [CreditType.NORMAL]: policy,
+  [CreditType.REFINANCING]: policy,
+});
+
+async function overdueInstallment() {
+  const userId = await createTestUser();
+  const desembolso = addDaysToDate(new Date(), -60);
+  const credit = await createTestCredit(userId, { estado: CreditStatus.IN_PROGRESS, fecha_desembolso: desembolso });
+  const [cuota] = await createTestInstallments(credit, desembolso);
+  return { credit, cuota };
+}
+
+describe('LateChargesService', () => {
+  it('charges the late fee once and punitive interest for each day past the due date', async () => {
+    const { credit, cuota } = await overdueInstallment();
+
+    expect(await lateCharges.accrueInstallment(cuota, credit, cuota.fecha_vencimiento)).toEqual([]);
+
+    const cargos = await lateCharges.accrueInstallment(cuota, credit, addDaysToDate(cuota.fecha_vencimiento, 3));
+
+    const diario = cuota.importe_cuota.percentage(0.1);
+    expect(cargos.map((c) => c.tipo)).toEqual([
+      InstallmentChargeType.LATE_FEE,
+      InstallmentChargeType.PUNITIVE_INTEREST,
+      InstallmentChargeType.PUNITIVE_INTEREST,
+      InstallmentChargeType.PUNITIVE_INTEREST,
+    ]);
+    expect(await lateCharges.getChargesTotal(cuota)).toEqual(ars(500).add(diario.multiply(3)));
+  });
+
+  it('only adds the days not yet accrued when run again', async () => {
+    const { credit, cuota } = await overdueInstallment();
+    const dia3 = addDaysToDate(cuota.fecha_vencimiento, 3);
+
+    await lateCharges.accrueInstallment(cuota, credit, dia3);
+    expect(await lateCharges.accrueInstallment(cuota, credit, dia3)).toEqual([]);
+
+    const nuevos = await lateCharges.accrueInstallment(cuota, credit, addDaysToDate(cuota.fecha_vencimiento, 5));
+    expect(nuevos.map((c) => c.tipo)).toEqual([
+      InstallmentChargeType.PUNITIVE_INTEREST,
+      InstallmentChargeType.PUNITIVE_INTEREST,
+    ]);
+    expect(await lateCharges.getInstallmentCharges(cuota)).toHaveLength(6);
+  });
+
+  it('leaves importe_cuota untouched and skips paid installments', async () => {
+    const { credit, cuota } = await overdueInstallment();
+    await lateCharges.accrueInstallment(cuota, credit, addDaysToDate(cuota.fecha_vencimiento, 2));
+
+    const [guardada] = await repositories.credits.getInstallmentsByCredit(credit.id_credito);
+    expect(guardada.importe_cuota).toEqual(cuota.importe_cuota);
+
+    const pagada = (await repositories.credits.markInstallmentPaid(cuota.id_cuota))!;
+    expect(await lateCharges.accrueInstallment(pagada, credit, addDaysToDate(cuota.fecha_vencimiento, 10))).toEqual([]);
+  });
+});
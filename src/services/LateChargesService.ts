@@ -0,0 +1,143 @@
+import {
+  Credit,
+  CreditStatus,
+  CreditType,
+  Installment,
+  InstallmentCharge,
+  InstallmentChargeType,
+  InstallmentStatus,
+  LateChargePolicy,
+  LateChargeRunReport,
+  Money,
+} from '@/types/index.js';
+import { config } from '@/config/config.js';
+import { repositories, ICreditsRepository } from '@/repositories/index.js';
+import { addDaysToDate, startOfDay } from '@/utils/helpers.js';
+import { v4 as uuidv4 } from 'uuid';
+
+// Charges only accrue while the credit is live
+const ACCRUING_CREDIT_STATUSES = [CreditStatus.DISBURSED, CreditStatus.IN_PROGRESS, CreditStatus.DEFAULT];
+
+const DAYS_PER_YEAR = 365;
+
+const DEFAULT_POLICIES: Record<CreditType, LateChargePolicy> = {
+  [CreditType.QUICK]: {
+    punitiveTNA: config.credits.quickCreditPunitiveTNA,
+    lateFee: Money.fromDecimal(config.credits.quickCreditLateFee),
+  },
+  [CreditType.NORMAL]: {
+    punitiveTNA: config.credits.normalCreditPunitiveTNA,
+    lateFee: Money.fromDecimal(config.credits.normalCreditLateFee),
+  },
+  [CreditType.REFINANCING]: {
+    punitiveTNA: config.refinancing.punitiveTNA,
+    lateFee: Money.fromDecimal(config.refinancing.lateFee),
+  },
+};
+
+/**
+ * Punitive interest (interés punitorio) and late fees on overdue installments.
+ * Charges are stored as line items next to the installment; importe_cuota never changes.
+ */
+export class LateChargesService {
+  constructor(
+    private creditsRepository: ICreditsRepository = repositories.credits,
+    private policies: Record<CreditType, LateChargePolicy> = DEFAULT_POLICIES
+  ) {}
+
+  /**
+   * Accrue charges up to `fecha` (today by default) on every overdue installment of a live credit
+   */
+  async runAccrual(fecha: Date = new Date()): Promise<LateChargeRunReport> {
+    const installments = await this.creditsRepository.getOverdueInstallments(startOfDay(fecha));
+
+    const credits = new Map<string, Credit | null>();
+    const cargos: InstallmentCharge[] = [];
+    let cuotasVencidas = 0;
+
+    for (const installment of installments) {
+      if (!credits.has(installment.id_credito)) {
+        credits.set(installment.id_credito, await this.creditsRepository.findCreditById(installment.id_credito));
+      }
+      const credit = credits.get(installment.id_credito);
+      if (!credit || !ACCRUING_CREDIT_STATUSES.includes(credit.estado)) continue;
+
+      cuotasVencidas++;
+      try {
+        cargos.push(...(await this.accrueInstallment(installment, credit, fecha)));
+      } catch (error) {
+        console.error(`Failed to accrue late charges on installment ${installment.id_cuota}:`, error);
+      }
+    }
+
+    return {
+      id_ejecucion: uuidv4(),
+      fecha_devengo: fecha,
+      cuotas_vencidas: cuotasVencidas,
+      cargos_generados: cargos.length,
+      monto_devengado: Money.sum(cargos.map((cargo) => cargo.monto)),
+    };
+  }
+
+  /**
+   * Bring an installment's charges up to `fecha`: one punitive interest line per day overdue,
+   * starting the day after the due date, plus the credit type's late fee once. Days already
+   * accrued are skipped, so accruing again is harmless. Returns the charges created.
+   */
+  async accrueInstallment(
+    installment: Installment,
+    credit: Credit,
+    fecha: Date = new Date()
+  ): Promise<InstallmentCharge[]> {
+    if (installment.estado === InstallmentStatus.PAID) return [];
+
+    const primerDia = addDaysToDate(startOfDay(new Date(installment.fecha_vencimiento)), 1);
+    const ultimoDia = startOfDay(fecha);
+    if (primerDia > ultimoDia) return [];
+
+    const policy = this.policies[credit.tipo_credito];
+    const existentes = await this.getInstallmentCharges(installment);
+    const diasDevengados = new Set(
+      existentes
+        .filter((cargo) => cargo.tipo === InstallmentChargeType.PUNITIVE_INTEREST)
+        .map((cargo) => startOfDay(new Date(cargo.fecha_devengo)).getTime())
+    );
+
+    const base = { id_cuota: installment.id_cuota, id_credito: installment.id_credito };
+    const nuevos: Omit<InstallmentCharge, 'id_cargo' | 'fecha_creacion'>[] = [];
+
+    if (policy.lateFee.isPositive() && !existentes.some((cargo) => cargo.tipo === InstallmentChargeType.LATE_FEE)) {
+      nuevos.push({ ...base, tipo: InstallmentChargeType.LATE_FEE, monto: policy.lateFee, fecha_devengo: primerDia });
+    }
+
+    const interesDiario = installment.importe_cuota.percentage(policy.punitiveTNA / DAYS_PER_YEAR);
+    if (interesDiario.isPositive()) {
+      for (let dia = primerDia; dia <= ultimoDia; dia = addDaysToDate(dia, 1)) {
+        if (diasDevengados.has(dia.getTime())) continue;
+        nuevos.push({
+          ...base,
+          tipo: InstallmentChargeType.PUNITIVE_INTEREST,
+          monto: interesDiario,
+          fecha_devengo: dia,
+        });
+      }
+    }
+
+    return this.creditsRepository.createInstallmentCharges(nuevos);
+  }
+
+  async getInstallmentCharges(installment: Installment): Promise<InstallmentCharge[]> {
+    const charges = await this.creditsRepository.getChargesByCredit(installment.id_credito);
+    return charges.filter((cargo) => cargo.id_cuota === installment.id_cuota);
+  }
+
+  /**
+   * Punitive interest and late fees owed on top of importe_cuota
+   */
+  async getChargesTotal(installment: Installment): Promise<Money> {
+    const charges = await this.getInstallmentCharges(installment);
+    return Money.sum(charges.map((cargo) => cargo.monto), installment.importe_cuota.moneda);
+  }
+}
+
+export default new LateChargesService();
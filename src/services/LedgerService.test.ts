@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { LedgerEntryType, Money } from '@/types/index.js';
+import { IdempotencyError, InsufficientFundsError, LedgerError } from '@/errors/AppError.js';
+import repositories from '@/repositories/index.js';
+import LedgerService, { LedgerAccounts } from './LedgerService.js';
+import UserAccountsService from './UserAccountsService.js';
+import { UnitOfWork } from './UnitOfWork.js';
+import { ars, createTestUser } from '@/test/helpers.js';
+
+describe('LedgerService journal entries', () => {
+  it('rejects an entry whose debits and credits differ without touching the wallet', async () => {
+    const userId = await createTestUser({ fondos: ars(100) });
+
+    await expect(
+      LedgerService.postEntry({
+        tipo: LedgerEntryType.FUNDING,
+        descripcion: 'Descuadrado',
+        lineas: [
+          { cuenta: LedgerAccounts.EXTERNAL_FUNDING, debito: ars(50), credito: ars(0) },
+          { cuenta: LedgerAccounts.wallet(userId), debito: ars(0), credito: ars(49.99) },
+        ],
+      })
+    ).rejects.toThrow(LedgerError);
+
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(100));
+  });
+
+  it('rejects lines with both or neither side', async () => {
+    const userId = await createTestUser();
+
+    await expect(
+      LedgerService.postEntry({
+        tipo: LedgerEntryType.FUNDING,
+        descripcion: 'Línea doble',
+        lineas: [
+          { cuenta: LedgerAccounts.EXTERNAL_FUNDING, debito: ars(10), credito: ars(10) },
+          { cuenta: LedgerAccounts.wallet(userId), debito: ars(0), credito: ars(0) },
+        ],
+      })
+    ).rejects.toThrow(LedgerError);
+  });
+
+  it('keeps every posted entry balanced and the wallet equal to its ledger balance', async () => {
+    const origen = await createTestUser({ fondos: ars(1000) });
+    const destino = await createTestUser();
+    await LedgerService.recordP2PTransfer(origen, destino, ars(250));
+    await LedgerService.recordExternalTransfer(origen, ars(100));
+
+    const entries = await repositories.ledger.getEntriesByAccount(LedgerAccounts.wallet(origen));
+    expect(entries).toHaveLength(3);
+    for (const entry of entries) {
+      expect(Money.sum(entry.lineas.map((l) => l.debito))).toEqual(Money.sum(entry.lineas.map((l) => l.credito)));
+    }
+
+    const movimientos = await LedgerService.getWalletMovements(origen);
+    expect(movimientos.map((m) => m.saldo)).toEqual([ars(1000), ars(750), ars(650)]);
+    expect(await LedgerService.reconcileWallet(origen)).toMatchObject({ conciliado: true });
+  });
+});
+
+describe('LedgerService conditional debits', () => {
+  it('rejects a debit that would take the wallet below zero without writing anything', async () => {
+    const userId = await createTestUser({ fondos: ars(100) });
+
+    await expect(LedgerService.recordExternalTransfer(userId, ars(100.01))).rejects.toBeInstanceOf(
+      InsufficientFundsError
+    );
+
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(100));
+    expect((await LedgerService.getWalletMovements(userId)).map((m) => m.tipo)).toEqual([LedgerEntryType.FUNDING]);
+  });
+
+  it('lets only one of two concurrent debits through when the balance covers one', async () => {
+    const userId = await createTestUser({ fondos: ars(100) });
+
+    const resultados = await Promise.allSettled([
+      LedgerService.recordExternalTransfer(userId, ars(70)),
+      LedgerService.recordExternalTransfer(userId, ars(70)),
+    ]);
+
+    expect(resultados.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    const [rechazo] = resultados.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    expect(rechazo.reason).toBeInstanceOf(InsufficientFundsError);
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(30));
+    expect((await LedgerService.reconcileWallet(userId)).conciliado).toBe(true);
+  });
+
+  it('moves both legs of a transfer in a single entry', async () => {
+    const origen = await createTestUser({ fondos: ars(500) });
+    const destino = await createTestUser();
+
+    const posting = await LedgerService.recordP2PTransfer(origen, destino, ars(125.5));
+
+    expect(posting.saldos[origen].ARS).toEqual(ars(374.5));
+    expect(posting.saldos[destino].ARS).toEqual(ars(125.5));
+    expect(await LedgerService.getWalletBalance(destino)).toEqual(ars(125.5));
+  });
+});
+
+describe('LedgerService rollbacks', () => {
+  it('reverses the entries of a unit of work that fails', async () => {
+    const origen = await createTestUser({ fondos: ars(200) });
+    const destino = await createTestUser();
+
+    await expect(
+      UnitOfWork.run(async (uow) => {
+        await LedgerService.recordP2PTransfer(origen, destino, ars(150), undefined, uow);
+        throw new Error('receipt could not be stored');
+      })
+    ).rejects.toThrow('receipt could not be stored');
+
+    expect(await UserAccountsService.getBalance(origen)).toEqual(ars(200));
+    expect(await UserAccountsService.getBalance(destino)).toEqual(ars(0));
+    expect((await LedgerService.getWalletMovements(origen)).map((m) => m.tipo)).toEqual([
+      LedgerEntryType.FUNDING,
+      LedgerEntryType.P2P_TRANSFER,
+      LedgerEntryType.REVERSAL,
+    ]);
+    expect((await LedgerService.reconcileWallet(destino)).conciliado).toBe(true);
+  });
+
+  it('reverses an entry only once', async () => {
+    const userId = await createTestUser({ fondos: ars(50) });
+    const posting = await LedgerService.recordExternalTransfer(userId, ars(20));
+
+    await LedgerService.reverseEntry(posting.asiento.id_asiento, 'Devolución');
+
+    await expect(LedgerService.reverseEntry(posting.asiento.id_asiento, 'Devolución')).rejects.toBeInstanceOf(
+      LedgerError
+    );
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(50));
+  });
+});
+
+describe('LedgerService credit disbursements', () => {
+  it('pays out a credit only once unless the first payout was reversed', async () => {
+    const userId = await createTestUser();
+    const creditId = 'credito-desembolso-unico';
+
+    const posting = await LedgerService.recordCreditDisbursement(userId, ars(30000), creditId);
+    await expect(LedgerService.recordCreditDisbursement(userId, ars(30000), creditId)).rejects.toBeInstanceOf(
+      IdempotencyError
+    );
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(30000));
+
+    await LedgerService.reverseEntry(posting.asiento.id_asiento, 'Desembolso rechazado');
+    await LedgerService.recordCreditDisbursement(userId, ars(30000), creditId);
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(30000));
+  });
+});
@@ -0,0 +1,466 @@
+import {
+  LedgerEntry,
+  LedgerEntryType,
+  LedgerLine,
+  LedgerMovement,
+  LedgerReconciliation,
+  Money,
+  Currency,
+} from '@/types/index.js';
+import {
+  repositories,
+  ILedgerRepository,
+  IUserAccountsRepository,
+  LedgerPosting,
+  WalletAdjustment,
+} from '@/repositories/index.js';
+import { LedgerError, NotFoundError, ValidationError } from '@/errors/AppError.js';
+import { UnitOfWork } from './UnitOfWork.js';
+
+const WALLET_PREFIX = 'billetera:';
+
+/**
+ * Chart of accounts.
+ * Wallets are what Mi Pago owes each user, so a wallet balance is credits minus debits.
+ * System accounts are the counterparties of every wallet movement.
+ */
+export const LedgerAccounts = {
+  wallet: (userId: string): string => `${WALLET_PREFIX}${userId}`,
+  EXTERNAL_FUNDING: 'sistema:fondeo_externo',
+  LOAN_PORTFOLIO: 'sistema:cartera_creditos',
+  OUTGOING_TRANSFERS: 'sistema:transferencias_salientes',
+  OPENING_BALANCES: 'sistema:saldos_iniciales',
+  CURRENCY_CONVERSION: 'sistema:conversion_moneda',
+};
+
+export type { LedgerPosting };
+
+export class LedgerService {
+  constructor(
+    private ledgerRepository: ILedgerRepository = repositories.ledger,
+    private userAccountsRepository: IUserAccountsRepository = repositories.userAccounts
+  ) {}
+
+  /**
+   * Post a balanced journal entry and apply its wallet lines to the wallet balances in one
+   * atomic repository call. A wallet may never go below zero. When a unit of work is given,
+   * a reversal entry is registered as the compensation.
+   */
+  async postEntry(entry: Omit<LedgerEntry, 'id_asiento' | 'fecha_creacion'>, uow?: UnitOfWork): Promise<LedgerPosting> {
+    this.assertBalanced(entry.lineas);
+
+    const posting = await this.ledgerRepository.postEntry(entry, this.walletAdjustments(entry.lineas));
+
+    uow?.onRollback(`reverse ${entry.tipo} ${posting.asiento.id_asiento}`, () =>
+      this.reverseEntry(posting.asiento.id_asiento, 'Operación revertida')
+    );
+
+    return posting;
+  }
+
+  /**
+   * Money entering a wallet from outside Mi Pago (deposits)
+   */
+  async recordFunding(userId: string, amount: Money, referenciaId?: string, uow?: UnitOfWork): Promise<LedgerPosting> {
+    this.assertPositive(amount);
+    return this.postEntry(
+      {
+        tipo: LedgerEntryType.FUNDING,
+        descripcion: 'Ingreso de fondos',
+        referencia_id: referenciaId,
+        lineas: [
+          debit(LedgerAccounts.EXTERNAL_FUNDING, amount),
+          credit(LedgerAccounts.wallet(userId), amount),
+        ],
+      },
+      uow
+    );
+  }
+
+  /**
+   * Credit principal paid out to the borrower's wallet
+   */
+  async recordCreditDisbursement(
+    userId: string,
+    amount: Money,
+    creditId?: string,
+    uow?: UnitOfWork
+  ): Promise<LedgerPosting> {
+    this.assertPositive(amount);
+    return this.postEntry(
+      {
+        tipo: LedgerEntryType.CREDIT_DISBURSEMENT,
+        descripcion: 'Desembolso de crédito',
+        referencia_id: creditId,
+        clave_idempotencia: creditId ? `desembolso:${creditId}` : undefined,
+        lineas: [
+          debit(LedgerAccounts.LOAN_PORTFOLIO, amount),
+          credit(LedgerAccounts.wallet(userId), amount),
+        ],
+      },
+      uow
+    );
+  }
+
+  /**
+   * Disbursed principal returned from the borrower's wallet when the credit is revoked
+   */
+  async recordCreditRevocation(
+    userId: string,
+    amount: Money,
+    creditId?: string,
+    uow?: UnitOfWork
+  ): Promise<LedgerPosting> {
+    this.assertPositive(amount);
+    return this.postEntry(
+      {
+        tipo: LedgerEntryType.CREDIT_REVOCATION,
+        descripcion: 'Revocación de crédito',
+        referencia_id: creditId,
+        lineas: [
+          debit(LedgerAccounts.wallet(userId), amount),
+          credit(LedgerAccounts.LOAN_PORTFOLIO, amount),
+        ],
+      },
+      uow
+    );
+  }
+
+  /**
+   * Installment collected from the borrower's wallet. An installment is debited once: a second
+   * debit for it fails with an IdempotencyError until the first one is reversed.
+   */
+  async recordInstallmentDebit(
+    userId: string,
+    amount: Money,
+    installmentId?: string,
+    uow?: UnitOfWork
+  ): Promise<LedgerPosting> {
+    this.assertPositive(amount);
+    return this.postEntry(
+      {
+        tipo: LedgerEntryType.INSTALLMENT_DEBIT,
+        descripcion: 'Débito de cuota',
+        referencia_id: installmentId,
+        clave_idempotencia: installmentId ? `cuota:${installmentId}` : undefined,
+        lineas: [
+          debit(LedgerAccounts.wallet(userId), amount),
+          credit(LedgerAccounts.LOAN_PORTFOLIO, amount),
+        ],
+      },
+      uow
+    );
+  }
+
+  /**
+   * Credit paid off, or partially prepaid, from the borrower's wallet. `clave` identifies the
+   * operation so it is not posted twice.
+   */
+  async recordPrepayment(
+    userId: string,
+    amount: Money,
+    creditId: string,
+    clave: string,
+    uow?: UnitOfWork
+  ): Promise<LedgerPosting> {
+    this.assertPositive(amount);
+    return this.postEntry(
+      {
+        tipo: LedgerEntryType.PREPAYMENT,
+        descripcion: 'Pago anticipado de crédito',
+        referencia_id: creditId,
+        clave_idempotencia: clave,
+        lineas: [
+          debit(LedgerAccounts.wallet(userId), amount),
+          credit(LedgerAccounts.LOAN_PORTFOLIO, amount),
+        ],
+      },
+      uow
+    );
+  }
+
+  /**
+   * Amount drawn from a revolving line, paid out to the borrower's wallet
+   */
+  async recordRevolvingDrawdown(
+    userId: string,
+    amount: Money,
+    lineId?: string,
+    uow?: UnitOfWork
+  ): Promise<LedgerPosting> {
+    this.assertPositive(amount);
+    return this.postEntry(
+      {
+        tipo: LedgerEntryType.REVOLVING_DRAWDOWN,
+        descripcion: 'Disposición de línea de crédito',
+        referencia_id: lineId,
+        lineas: [
+          debit(LedgerAccounts.LOAN_PORTFOLIO, amount),
+          credit(LedgerAccounts.wallet(userId), amount),
+        ],
+      },
+      uow
+    );
+  }
+
+  /**
+   * Revolving line payment debited from the borrower's wallet
+   */
+  async recordRevolvingPayment(
+    userId: string,
+    amount: Money,
+    lineId?: string,
+    uow?: UnitOfWork
+  ): Promise<LedgerPosting> {
+    this.assertPositive(amount);
+    return this.postEntry(
+      {
+        tipo: LedgerEntryType.REVOLVING_PAYMENT,
+        descripcion: 'Pago de línea de crédito',
+        referencia_id: lineId,
+        lineas: [
+          debit(LedgerAccounts.wallet(userId), amount),
+          credit(LedgerAccounts.LOAN_PORTFOLIO, amount),
+        ],
+      },
+      uow
+    );
+  }
+
+  /**
+   * Wallet-to-wallet transfer: both legs live in a single entry
+   */
+  async recordP2PTransfer(
+    fromUserId: string,
+    toUserId: string,
+    amount: Money,
+    referenciaId?: string,
+    uow?: UnitOfWork
+  ): Promise<LedgerPosting> {
+    this.assertPositive(amount);
+    if (fromUserId === toUserId) {
+      throw new ValidationError('Cannot transfer to the same wallet');
+    }
+
+    return this.postEntry(
+      {
+        tipo: LedgerEntryType.P2P_TRANSFER,
+        descripcion: 'Transferencia entre billeteras',
+        referencia_id: referenciaId,
+        lineas: [
+          debit(LedgerAccounts.wallet(fromUserId), amount),
+          credit(LedgerAccounts.wallet(toUserId), amount),
+        ],
+      },
+      uow
+    );
+  }
+
+  /**
+   * Money leaving a wallet towards an external CBU/CVU
+   */
+  async recordExternalTransfer(
+    userId: string,
+    amount: Money,
+    transferId?: string,
+    uow?: UnitOfWork
+  ): Promise<LedgerPosting> {
+    this.assertPositive(amount);
+    return this.postEntry(
+      {
+        tipo: LedgerEntryType.EXTERNAL_TRANSFER,
+        descripcion: 'Transferencia a cuenta externa',
+        referencia_id: transferId,
+        lineas: [
+          debit(LedgerAccounts.wallet(userId), amount),
+          credit(LedgerAccounts.OUTGOING_TRANSFERS, amount),
+        ],
+      },
+      uow
+    );
+  }
+
+  /**
+   * Exchange between two wallets of the same user. The conversion account takes the
+   * origin currency and gives out the destination currency, so each currency balances.
+   */
+  async recordCurrencyConversion(
+    userId: string,
+    amountFrom: Money,
+    amountTo: Money,
+    referenciaId?: string,
+    uow?: UnitOfWork
+  ): Promise<LedgerPosting> {
+    this.assertPositive(amountFrom);
+    this.assertPositive(amountTo);
+    if (amountFrom.moneda === amountTo.moneda) {
+      throw new ValidationError('Origin and destination currencies must differ');
+    }
+
+    return this.postEntry(
+      {
+        tipo: LedgerEntryType.CURRENCY_CONVERSION,
+        descripcion: `Conversión ${amountFrom.moneda} a ${amountTo.moneda}`,
+        referencia_id: referenciaId,
+        lineas: [
+          debit(LedgerAccounts.wallet(userId), amountFrom),
+          credit(LedgerAccounts.CURRENCY_CONVERSION, amountFrom),
+          debit(LedgerAccounts.CURRENCY_CONVERSION, amountTo),
+          credit(LedgerAccounts.wallet(userId), amountTo),
+        ],
+      },
+      uow
+    );
+  }
+
+  /**
+   * Cancel a posted entry with a mirror entry (entries themselves are never modified)
+   */
+  async reverseEntry(entryId: string, motivo: string): Promise<LedgerPosting> {
+    const original = await this.ledgerRepository.getEntryById(entryId);
+    if (!original) {
+      throw new NotFoundError(`Ledger entry ${entryId} not found`);
+    }
+
+    return this.postEntry({
+      tipo: LedgerEntryType.REVERSAL,
+      descripcion: `Reverso: ${motivo}`,
+      referencia_id: original.referencia_id,
+      id_asiento_reversado: original.id_asiento,
+      lineas: original.lineas.map((line) => ({
+        cuenta: line.cuenta,
+        debito: line.credito,
+        credito: line.debito,
+      })),
+    });
+  }
+
+  /**
+   * Entry of the given type posted for a reference that has not been reversed, if any.
+   * Lets batch jobs skip operations a previous run already posted.
+   */
+  async findActiveEntry(referenciaId: string, tipo: LedgerEntryType): Promise<LedgerEntry | null> {
+    const entries = await this.ledgerRepository.getEntriesByReference(referenciaId);
+    const reversed = new Set(entries.map((entry) => entry.id_asiento_reversado).filter(Boolean));
+    return entries.find((entry) => entry.tipo === tipo && !reversed.has(entry.id_asiento)) || null;
+  }
+
+  /**
+   * Movements of one currency wallet with the running balance derived from the ledger
+   */
+  async getWalletMovements(userId: string, moneda: Currency = Currency.ARS): Promise<LedgerMovement[]> {
+    const cuenta = LedgerAccounts.wallet(userId);
+    const entries = await this.ledgerRepository.getEntriesByAccount(cuenta);
+
+    let saldo = Money.zero(moneda);
+    return entries.flatMap((entry) => {
+      const lines = entry.lineas.filter((line) => line.cuenta === cuenta && line.debito.moneda === moneda);
+      if (lines.length === 0) return [];
+
+      const debito = Money.sum(lines.map((line) => line.debito));
+      const credito = Money.sum(lines.map((line) => line.credito));
+      saldo = saldo.add(credito).subtract(debito);
+
+      return {
+        id_asiento: entry.id_asiento,
+        moneda,
+        tipo: entry.tipo,
+        descripcion: entry.descripcion,
+        referencia_id: entry.referencia_id,
+        debito,
+        credito,
+        saldo,
+        fecha_creacion: entry.fecha_creacion,
+      };
+    });
+  }
+
+  /**
+   * Wallet balance in one currency computed only from journal entries
+   */
+  async getWalletBalance(userId: string, moneda: Currency = Currency.ARS): Promise<Money> {
+    const movements = await this.getWalletMovements(userId, moneda);
+    return movements.length > 0 ? movements[movements.length - 1].saldo : Money.zero(moneda);
+  }
+
+  /**
+   * Compare the stored balance of one currency with the balance derived from the ledger
+   */
+  async reconcileWallet(userId: string, moneda: Currency = Currency.ARS): Promise<LedgerReconciliation> {
+    const account = await this.userAccountsRepository.findByUserId(userId);
+    if (!account) {
+      throw new NotFoundError(`User account ${userId} not found`);
+    }
+
+    const saldoLedger = await this.getWalletBalance(userId, moneda);
+    const diferencia = account.saldos[moneda].subtract(saldoLedger);
+
+    return {
+      usuario_id: userId,
+      moneda,
+      saldo_registrado: account.saldos[moneda],
+      saldo_ledger: saldoLedger,
+      diferencia,
+      conciliado: diferencia.isZero(),
+    };
+  }
+
+  private assertPositive(amount: Money): void {
+    if (!amount.isPositive()) {
+      throw new ValidationError('Amount must be greater than 0');
+    }
+  }
+
+  private assertBalanced(lineas: LedgerLine[]): void {
+    if (lineas.length < 2) {
+      throw new LedgerError('A journal entry needs at least two lines');
+    }
+
+    for (const line of lineas) {
+      if (line.debito.moneda !== line.credito.moneda) {
+        throw new LedgerError(`Line on ${line.cuenta} mixes currencies`);
+      }
+      const oneSided =
+        (line.debito.isPositive() && line.credito.isZero()) || (line.credito.isPositive() && line.debito.isZero());
+      if (!oneSided) {
+        throw new LedgerError(`Line on ${line.cuenta} must have either a positive debit or a positive credit`);
+      }
+    }
+
+    const monedas = new Set(lineas.map((line) => line.debito.moneda));
+    for (const moneda of monedas) {
+      const lines = lineas.filter((line) => line.debito.moneda === moneda);
+      const debits = Money.sum(lines.map((line) => line.debito));
+      const credits = Money.sum(lines.map((line) => line.credito));
+      if (!debits.equals(credits)) {
+        throw new LedgerError(`Unbalanced journal entry: debits ${debits} != credits ${credits}`);
+      }
+    }
+  }
+
+  /**
+   * Net change per wallet and currency, sorted so concurrent postings lock rows in the same order
+   */
+  private walletAdjustments(lineas: LedgerLine[]): WalletAdjustment[] {
+    const deltas = new Map<string, WalletAdjustment>();
+    for (const line of lineas) {
+      if (!line.cuenta.startsWith(WALLET_PREFIX)) continue;
+      const usuario_id = line.cuenta.slice(WALLET_PREFIX.length);
+      const key = `${usuario_id}:${line.debito.moneda}`;
+      const delta = (deltas.get(key)?.delta || Money.zero(line.debito.moneda)).add(line.credito).subtract(line.debito);
+      deltas.set(key, { usuario_id, delta });
+    }
+
+    return [...deltas.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, ajuste]) => ajuste);
+  }
+}
+
+function debit(cuenta: string, amount: Money): LedgerLine {
+  return { cuenta, debito: amount, credito: Money.zero(amount.moneda) };
+}
+
+function credit(cuenta: string, amount: Money): LedgerLine {
+  return { cuenta, debito: Money.zero(amount.moneda), credito: amount };
+}
+
+export default new LedgerService();
@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CollectionOutcome,
+  CreditStatus,
+  InstallmentStatus,
+  Money,
+  PaymentRetryStatus,
+  PrepaymentMode,
+} from '@/types/index.js';
+import { IdempotencyError, InsufficientFundsError, ValidationError } from '@/errors/AppError.js';
+import repositories from '@/repositories/index.js';
+import PrepaymentService from './PrepaymentService.js';
+import InstallmentCollectionService from './InstallmentCollectionService.js';
+import LedgerService from './LedgerService.js';
+import UserAccountsService from './UserAccountsService.js';
+import { addDaysToDate } from '@/utils/helpers.js';
+import { ars, createTestCredit, createTestInstallments, createTestUser } from '@/test/helpers.js';
+
+// A credit disbursed today with its six installments pending
+async function liveCredit(fondos?: Money) {
+  const userId = await createTestUser({ fondos });
+  const credit = await createTestCredit(userId, {
+    monto: ars(30000),
+    estado: CreditStatus.IN_PROGRESS,
+    fecha_desembolso: new Date(),
+  });
+  const cuotas = await createTestInstallments(credit);
+  return { userId, credit, cuotas };
+}
+
+describe('PrepaymentService full payoff', () => {
+  it('quotes the capital plus the interest accrued so far and waives the rest', async () => {
+    const { credit, cuotas } = await liveCredit();
+    const adeudado = Money.sum(cuotas.map((c) => c.importe_cuota));
+
+    const hoy = await PrepaymentService.quoteFullPrepayment(credit.id_credito);
+    expect(hoy).toMatchObject({ cuotas_pendientes: 6, capital: ars(30000), intereses: ars(0), cargos: ars(0) });
+    expect(hoy.monto_cancelacion).toEqual(ars(30000));
+    expect(hoy.bonificacion).toEqual(adeudado.subtract(ars(30000)));
+
+    const mitad = await PrepaymentService.quoteFullPrepayment(credit.id_credito, addDaysToDate(new Date(), 15));
+    expect(mitad.intereses).toEqual(cuotas[0].interes.multiply(0.5));
+    expect(mitad.monto_cancelacion.greaterThan(hoy.monto_cancelacion)).toBe(true);
+
+    await expect(
+      PrepaymentService.quoteFullPrepayment(credit.id_credito, addDaysToDate(new Date(), -1))
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('debits the payoff, closes every installment and cancels scheduled retries', async () => {
+    const { userId, credit, cuotas } = await liveCredit(ars(40000));
+    const reintento = await repositories.credits.createPaymentRetry({
+      id_cuota: cuotas[0].id_cuota,
+      id_credito: credit.id_credito,
+      nro_intento: 2,
+      estado: PaymentRetryStatus.SCHEDULED,
+      fecha_programada: addDaysToDate(new Date(), 2),
+      fecha_ejecucion: null,
+      motivo_fallo: null,
+      id_transaccion: null,
+    });
+
+    const { credito, liquidacion } = await PrepaymentService.prepayInFull(credit.id_credito);
+
+    expect(credito.estado).toBe(CreditStatus.PAID);
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(40000).subtract(liquidacion.monto_cancelacion));
+    const plan = await repositories.credits.getInstallmentsByCredit(credit.id_credito);
+    expect(plan.every((c) => c.estado === InstallmentStatus.PAID)).toBe(true);
+    const [cancelado] = await repositories.credits.getPaymentRetriesByCredit(credit.id_credito);
+    expect(cancelado).toMatchObject({ id_reintento: reintento.id_reintento, estado: PaymentRetryStatus.CANCELED });
+  });
+
+  it('leaves the credit untouched when the wallet cannot cover the payoff', async () => {
+    const { userId, credit } = await liveCredit(ars(1000));
+
+    await expect(PrepaymentService.prepayInFull(credit.id_credito)).rejects.toBeInstanceOf(InsufficientFundsError);
+
+    expect((await repositories.credits.findCreditById(credit.id_credito))!.estado).toBe(CreditStatus.IN_PROGRESS);
+    const plan = await repositories.credits.getInstallmentsByCredit(credit.id_credito);
+    expect(plan.every((c) => c.estado === InstallmentStatus.PENDING)).toBe(true);
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(1000));
+  });
+
+  it('charges an overdue installment once when the collection job runs during the payoff', async () => {
+    const userId = await createTestUser({ fondos: ars(100000) });
+    const desembolso = addDaysToDate(new Date(), -40);
+    const credit = await createTestCredit(userId, {
+      monto: ars(30000),
+      estado: CreditStatus.IN_PROGRESS,
+      fecha_desembolso: desembolso,
+    });
+    const [primera] = await createTestInstallments(credit, desembolso);
+
+    const [payoff, cobro] = await Promise.allSettled([
+      PrepaymentService.prepayInFull(credit.id_credito),
+      InstallmentCollectionService.runCollection(),
+    ]);
+
+    if (cobro.status === 'rejected') throw cobro.reason;
+    const resultado = cobro.value.resultados.find((r) => r.id_cuota === primera.id_cuota)!;
+    const cobrada = resultado.resultado === CollectionOutcome.COLLECTED;
+    let debitado = cobrada ? resultado.importe_cuota.add(resultado.cargos) : ars(0);
+    if (payoff.status === 'fulfilled') {
+      // The payoff covers the installment unless the job had collected it before the quote
+      expect(payoff.value.liquidacion.cuotas_pendientes).toBe(cobrada ? 5 : 6);
+      debitado = debitado.add(payoff.value.liquidacion.monto_cancelacion);
+    } else {
+      expect(payoff.reason).toBeInstanceOf(IdempotencyError);
+      expect(cobrada).toBe(true);
+    }
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(100000).subtract(debitado));
+    expect((await LedgerService.reconcileWallet(userId)).conciliado).toBe(true);
+    const [pagada] = await repositories.credits.getInstallmentsByCredit(credit.id_credito);
+    expect(pagada.estado).toBe(InstallmentStatus.PAID);
+  });
+});
+
+describe('PrepaymentService partial prepayments', () => {
+  it('keeps the installments and lowers each one when reducing the installment', async () => {
+    const { userId, credit, cuotas } = await liveCredit(ars(10000));
+
+    const prepago = await PrepaymentService.prepayPartially(
+      credit.id_credito,
+      ars(10000),
+      PrepaymentMode.REDUCE_INSTALLMENT
+    );
+
+    expect(prepago.cuotas_pendientes).toHaveLength(6);
+    expect(Money.sum(prepago.cuotas_pendientes.map((c) => c.capital))).toEqual(ars(20000));
+    prepago.cuotas_pendientes.forEach((cuota, i) => {
+      expect(cuota.fecha_vencimiento).toEqual(cuotas[i].fecha_vencimiento);
+      expect(cuota.importe_cuota.lessThan(cuotas[i].importe_cuota)).toBe(true);
+    });
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(0));
+  });
+
+  it('drops installments when reducing the term without raising the next one', async () => {
+    const { credit, cuotas } = await liveCredit(ars(15000));
+
+    const prepago = await PrepaymentService.prepayPartially(
+      credit.id_credito,
+      ars(15000),
+      PrepaymentMode.REDUCE_TERM
+    );
+
+    const pendientes = prepago.cuotas_pendientes;
+    expect(pendientes.length).toBeLessThan(6);
+    expect(Money.sum(pendientes.map((c) => c.capital))).toEqual(ars(15000));
+    expect(
+      pendientes[0].capital.add(pendientes[0].interes).lessThanOrEqual(cuotas[0].capital.add(cuotas[0].interes))
+    ).toBe(true);
+    expect(await repositories.credits.getInstallmentsByCredit(credit.id_credito)).toHaveLength(pendientes.length);
+    expect(prepago.credito).toMatchObject({
+      cuotas: pendientes.length,
+      fecha_vencimiento: pendientes[pendientes.length - 1].fecha_vencimiento,
+    });
+  });
+
+  it('rejects prepaying the whole balance and credits with overdue installments', async () => {
+    const { credit } = await liveCredit(ars(40000));
+    await expect(
+      PrepaymentService.prepayPartially(credit.id_credito, ars(30000), PrepaymentMode.REDUCE_INSTALLMENT)
+    ).rejects.toThrow('pay off the credit instead');
+
+    const userId = await createTestUser({ fondos: ars(5000) });
+    const desembolso = addDaysToDate(new Date(), -40);
+    const atrasado = await createTestCredit(userId, { estado: CreditStatus.IN_PROGRESS, fecha_desembolso: desembolso });
+    await createTestInstallments(atrasado, desembolso);
+
+    await expect(
+      PrepaymentService.prepayPartially(atrasado.id_credito, ars(5000), PrepaymentMode.REDUCE_INSTALLMENT)
+    ).rejects.toThrow('overdue installments');
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(5000));
+  });
+
+  it('applies one of two prepayments made at the same time', async () => {
+    const { userId, credit } = await liveCredit(ars(10000));
+
+    const prepagos = await Promise.allSettled([
+      PrepaymentService.prepayPartially(credit.id_credito, ars(5000), PrepaymentMode.REDUCE_INSTALLMENT),
+      PrepaymentService.prepayPartially(credit.id_credito, ars(5000), PrepaymentMode.REDUCE_INSTALLMENT),
+    ]);
+
+    expect(prepagos.map((p) => p.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(prepagos.find((p) => p.status === 'rejected')).toMatchObject({ reason: expect.any(IdempotencyError) });
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(5000));
+    const plan = await repositories.credits.getInstallmentsByCredit(credit.id_credito);
+    expect(Money.sum(plan.map((c) => c.capital))).toEqual(ars(25000));
+
+    // Released: the next prepayment goes through
+    await PrepaymentService.prepayPartially(credit.id_credito, ars(5000), PrepaymentMode.REDUCE_TERM);
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(0));
+  });
+});
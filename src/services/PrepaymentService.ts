@@ -0,0 +1,463 @@
+import {
+  AmortizationSystem,
+  AuditContext,
+  AuditEventType,
+  Credit,
+  CreditStatus,
+  EarlyRepayment,
+  EarlyRepaymentQuote,
+  Installment,
+  InstallmentPlan,
+  InstallmentStatus,
+  Money,
+  PartialPrepayment,
+  PaymentRetryStatus,
+  PrepaymentMode,
+} from '@/types/index.js';
+import { repositories, ICreditsRepository } from '@/repositories/index.js';
+import BankingAPI, { BankingAPI as BankingAPIClass } from './BankingAPI.js';
+import LateChargesService, { LateChargesService as LateChargesServiceClass } from './LateChargesService.js';
+import AuditService, { AuditService as AuditServiceClass, SYSTEM_AUDIT_CONTEXT } from './AuditService.js';
+import AmortizationService, { AmortizationService as AmortizationServiceClass } from './AmortizationService.js';
+import CreditStateMachine, { CreditStateMachine as CreditStateMachineClass } from './CreditStateMachine.js';
+import CreditLimitService, { CreditLimitService as CreditLimitServiceClass } from './CreditLimitService.js';
+import { UnitOfWork } from './UnitOfWork.js';
+import { IdempotencyError, InsufficientFundsError, NotFoundError, ValidationError } from '@/errors/AppError.js';
+import { startOfDay } from '@/utils/helpers.js';
+
+// Only live credits can be paid off
+const PREPAYABLE_CREDIT_STATUSES = [CreditStatus.DISBURSED, CreditStatus.IN_PROGRESS, CreditStatus.DEFAULT];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Early repayment of credits: full payoff (precancelación), quoted for a date and settled with
+ * a single debit from the borrower's wallet, and partial prepayments that recalculate the
+ * installments still pending.
+ */
+export class PrepaymentService {
+  constructor(
+    private creditsRepository: ICreditsRepository = repositories.credits,
+    private bankingAPI: BankingAPIClass = BankingAPI,
+    private lateChargesService: LateChargesServiceClass = LateChargesService,
+    private auditService: AuditServiceClass = AuditService,
+    private amortizationService: AmortizationServiceClass = AmortizationService,
+    private creditStateMachine: CreditStateMachineClass = CreditStateMachine,
+    private creditLimitService: CreditLimitServiceClass = CreditLimitService
+  ) {}
+
+  /**
+   * Amount that pays off the credit on `fecha` (today by default). Interest accrues linearly
+   * over each installment's period, which starts at the previous due date (the credit's
+   * creation for the first installment).
+   */
+  async quoteFullPrepayment(creditId: string, fecha: Date = new Date()): Promise<EarlyRepaymentQuote> {
+    const credit = await this.getPrepayableCredit(creditId);
+    if (startOfDay(fecha) < startOfDay(new Date())) {
+      throw new ValidationError('Payoff date cannot be in the past');
+    }
+    return this.quote(credit, fecha);
+  }
+
+  /**
+   * Pay off the credit today: mark every open installment paid, debit the quoted amount,
+   * cancel scheduled collection retries and close the credit as `pagado`. The installments are
+   * claimed before the debit, so an installment the collection job or the borrower settles
+   * meanwhile makes the payoff fail with an IdempotencyError instead of being charged twice.
+   */
+  async prepayInFull(creditId: string, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<EarlyRepayment> {
+    const credit = await this.getPrepayableCredit(creditId);
+    const fecha = new Date();
+
+    // Bring punitive interest and late fees up to date so the payoff includes them
+    const installments = await this.openInstallments(credit);
+    for (const installment of installments) {
+      await this.lateChargesService.accrueInstallment(installment, credit, fecha);
+    }
+
+    const liquidacion = await this.quote(credit, fecha);
+
+    return UnitOfWork.run(async (uow) => {
+      for (const installment of installments) {
+        await uow.step(
+          `mark installment ${installment.id_cuota} paid`,
+          async () => {
+            const pagada = await this.creditsRepository.markInstallmentPaid(installment.id_cuota);
+            if (!pagada) {
+              throw new IdempotencyError(
+                `Installment ${installment.nro_cuota} of credit ${creditId} was settled meanwhile; ` +
+                  'quote the payoff again'
+              );
+            }
+            return pagada;
+          },
+          () =>
+            this.creditsRepository.updateInstallment(installment.id_cuota, {
+              estado: installment.estado,
+              fecha_pago: installment.fecha_pago,
+            })
+        );
+      }
+
+      const pago = await this.bankingAPI.processPrepayment(
+        credit.usuario_id,
+        liquidacion.monto_cancelacion,
+        credit.id_credito,
+        `cancelacion:${credit.id_credito}`,
+        uow
+      );
+      if (!pago.exito || !pago.transaccion_id) {
+        throw new InsufficientFundsError(pago.razon_fallo || 'Payoff debit was declined');
+      }
+
+      const retries = await this.creditsRepository.getPaymentRetriesByCredit(credit.id_credito);
+      for (const retry of retries.filter((r) => r.estado === PaymentRetryStatus.SCHEDULED)) {
+        await uow.step(
+          `cancel payment retry ${retry.id_reintento}`,
+          () =>
+            this.creditsRepository.updatePaymentRetry(retry.id_reintento, {
+              estado: PaymentRetryStatus.CANCELED,
+              fecha_ejecucion: fecha,
+              motivo_fallo: 'Credit paid off early',
+            }),
+          () =>
+            this.creditsRepository.updatePaymentRetry(retry.id_reintento, {
+              estado: retry.estado,
+              fecha_ejecucion: retry.fecha_ejecucion,
+              motivo_fallo: retry.motivo_fallo,
+            })
+        );
+      }
+
+      const pagado = await this.creditStateMachine.transition(credit, CreditStatus.PAID, 'Paid off early', uow);
+
+      await this.auditService.record(
+        contexto,
+        {
+          tipo_evento: AuditEventType.CREDIT_PREPAID,
+          usuario_id: credit.usuario_id,
+          id_credito: credit.id_credito,
+          antes: credit,
+          despues: pagado,
+          detalles: { id_asiento: pago.transaccion_id, liquidacion },
+        },
+        uow
+      );
+      await this.creditLimitService.scheduleRecompute(credit.usuario_id, `Credit ${creditId} paid off early`, uow);
+
+      return { credito: pagado, liquidacion, id_asiento: pago.transaccion_id };
+    });
+  }
+
+  /**
+   * Apply `monto` to the outstanding capital of an `en_curso` credit with no overdue
+   * installments. The pending installments are recalculated on the reduced balance from the
+   * last due date, keeping their due dates; paid installments are left untouched.
+   *
+   * - reducir_cuota: the same installments, each smaller.
+   * - reducir_plazo: the fewest installments that keep the next one's capital plus interest
+   *   at or below its current value; the dropped installments are deleted along with their
+   *   administrative charges.
+   *
+   * The credit is claimed before the debit and every installment is rewritten only while it is
+   * still pending, so a concurrent prepayment, payoff or collection makes this one fail with an
+   * IdempotencyError and roll back.
+   */
+  async prepayPartially(
+    creditId: string,
+    monto: Money,
+    modalidad: PrepaymentMode,
+    contexto: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<PartialPrepayment> {
+    const credit = await this.creditsRepository.findCreditById(creditId);
+    if (!credit) {
+      throw new NotFoundError(`Credit ${creditId} not found`);
+    }
+    if (credit.estado !== CreditStatus.IN_PROGRESS) {
+      throw new ValidationError(`Credit ${creditId} is ${credit.estado}; only en_curso credits accept prepayments`);
+    }
+    if (!monto.isPositive()) {
+      throw new ValidationError('Amount must be greater than 0');
+    }
+    if (monto.moneda !== credit.monto_solicitado.moneda) {
+      throw new ValidationError(`Prepayments of credit ${creditId} must be in ${credit.monto_solicitado.moneda}`);
+    }
+    if (modalidad === PrepaymentMode.REDUCE_TERM && credit.sistema_amortizacion === AmortizationSystem.BULLET) {
+      throw new ValidationError('Single-payment credits can only reduce the installment amount');
+    }
+
+    const plan = await this.creditsRepository.getInstallmentsByCredit(credit.id_credito);
+    const pagadas = plan.filter((cuota) => cuota.estado === InstallmentStatus.PAID);
+    const pendientes = plan.filter((cuota) => cuota.estado !== InstallmentStatus.PAID);
+    const hoy = startOfDay(new Date());
+
+    if (pendientes.some((c) => c.estado !== InstallmentStatus.PENDING || new Date(c.fecha_vencimiento) < hoy)) {
+      throw new ValidationError('Credit has overdue installments; they must be paid before prepaying');
+    }
+    if (pendientes.some((cuota) => cuota.capital.isZero())) {
+      throw new ValidationError(`Credit ${creditId} has no amortization breakdown and cannot be recalculated`);
+    }
+
+    const saldo = Money.sum(pendientes.map((cuota) => cuota.capital), monto.moneda);
+    if (monto.greaterThanOrEqual(saldo)) {
+      throw new ValidationError(
+        `Prepayment must be less than the outstanding capital (${saldo}); pay off the credit instead`
+      );
+    }
+
+    const inicio = pagadas.length
+      ? new Date(pagadas[pagadas.length - 1].fecha_vencimiento)
+      : new Date(credit.fecha_creacion);
+    const nuevoPlan = this.recalculate(credit, pendientes, saldo.subtract(monto), inicio, modalidad);
+    const eliminadas = pendientes.slice(nuevoPlan.length);
+
+    return UnitOfWork.run(async (uow) => {
+      // Released on rollback as well as at the end
+      const reclamado = await uow.step(
+        `claim credit ${credit.id_credito}`,
+        () => this.claimCredit(credit),
+        (reclamado) => this.creditsRepository.claimCredit(credit.id_credito, reclamado.version)
+      );
+
+      const pago = await this.bankingAPI.processPrepayment(
+        credit.usuario_id,
+        monto,
+        credit.id_credito,
+        `prepago:${credit.id_credito}:${reclamado.version}`,
+        uow
+      );
+      if (!pago.exito || !pago.transaccion_id) {
+        throw new InsufficientFundsError(pago.razon_fallo || 'Prepayment debit was declined');
+      }
+
+      const cuotasPendientes: Installment[] = [];
+      for (const [i, fila] of nuevoPlan.entries()) {
+        const anterior = pendientes[i];
+        cuotasPendientes.push(
+          await uow.step(
+            `recalculate installment ${anterior.id_cuota}`,
+            () =>
+              this.rewritePending(anterior, {
+                importe_cuota: fila.importe,
+                capital: fila.capital,
+                interes: fila.interes,
+                iva: fila.iva,
+                gastos: fila.gastos,
+                saldo_restante: fila.saldo_restante,
+              }),
+            () => this.creditsRepository.updateInstallment(anterior.id_cuota, anterior)
+          )
+        );
+      }
+      for (const eliminada of eliminadas) {
+        await uow.step(
+          `drop installment ${eliminada.id_cuota}`,
+          () => this.rewritePending(eliminada, { estado: InstallmentStatus.CANCELED }),
+          () => this.creditsRepository.updateInstallment(eliminada.id_cuota, eliminada)
+        );
+      }
+
+      const actualizado = await uow.step(
+        `update credit ${credit.id_credito} totals`,
+        () =>
+          this.creditsRepository.updateCredit(credit.id_credito, {
+            monto_total: credit.monto_total
+              .subtract(Money.sum(pendientes.map((cuota) => cuota.importe_cuota), monto.moneda))
+              .add(Money.sum(nuevoPlan.map((fila) => fila.importe), monto.moneda))
+              .add(monto),
+            cuotas: pagadas.length + nuevoPlan.length,
+            fecha_vencimiento: nuevoPlan[nuevoPlan.length - 1].fecha_vencimiento,
+          }),
+        () =>
+          this.creditsRepository.updateCredit(credit.id_credito, {
+            monto_total: credit.monto_total,
+            cuotas: credit.cuotas,
+            fecha_vencimiento: credit.fecha_vencimiento,
+          })
+      );
+
+      // Last step: deleted rows cannot be put back, so nothing may fail after it. They were
+      // anulled above while still pending, so nothing else settles them meanwhile.
+      if (eliminadas.length) {
+        await this.creditsRepository.deleteInstallments(eliminadas.map((cuota) => cuota.id_cuota));
+      }
+      await this.creditsRepository.claimCredit(credit.id_credito, reclamado.version);
+
+      await this.auditService.record(
+        contexto,
+        {
+          tipo_evento: AuditEventType.CREDIT_PARTIALLY_PREPAID,
+          usuario_id: credit.usuario_id,
+          id_credito: credit.id_credito,
+          antes: credit,
+          despues: actualizado,
+          detalles: {
+            id_asiento: pago.transaccion_id,
+            monto,
+            modalidad,
+            cuotas_anteriores: pendientes,
+            cuotas_nuevas: cuotasPendientes,
+          },
+        },
+        uow
+      );
+      await this.creditLimitService.scheduleRecompute(credit.usuario_id, `Credit ${creditId} partially prepaid`, uow);
+
+      return {
+        credito: actualizado,
+        monto,
+        modalidad,
+        id_asiento: pago.transaccion_id,
+        cuotas_pendientes: cuotasPendientes,
+      };
+    });
+  }
+
+  /**
+   * New rows for the pending installments once the balance is `saldo`
+   */
+  private recalculate(
+    credit: Credit,
+    pendientes: Installment[],
+    saldo: Money,
+    inicio: Date,
+    modalidad: PrepaymentMode
+  ): InstallmentPlan[] {
+    const schedule = (cuotas: Installment[]) =>
+      this.amortizationService.scheduleOn(
+        credit.sistema_amortizacion,
+        saldo,
+        credit.tasa_tea,
+        inicio,
+        cuotas.map((cuota) => new Date(cuota.fecha_vencimiento)),
+        Money.sum(cuotas.map((cuota) => cuota.gastos), saldo.moneda)
+      );
+
+    if (modalidad === PrepaymentMode.REDUCE_INSTALLMENT) {
+      return schedule(pendientes);
+    }
+
+    const cuotaActual = pendientes[0].capital.add(pendientes[0].interes);
+    for (let n = 1; n < pendientes.length; n++) {
+      const candidato = schedule(pendientes.slice(0, n));
+      if (candidato[0].capital.add(candidato[0].interes).lessThanOrEqual(cuotaActual)) {
+        return candidato;
+      }
+    }
+    return schedule(pendientes);
+  }
+
+  private async quote(credit: Credit, fecha: Date): Promise<EarlyRepaymentQuote> {
+    const moneda = credit.monto_solicitado.moneda;
+    const dia = startOfDay(fecha);
+    const plan = await this.creditsRepository.getInstallmentsByCredit(credit.id_credito);
+    const abiertas = new Set(plan.filter((c) => c.estado !== InstallmentStatus.PAID).map((c) => c.id_cuota));
+
+    let capital = Money.zero(moneda);
+    let intereses = Money.zero(moneda);
+    let iva = Money.zero(moneda);
+    let gastos = Money.zero(moneda);
+    let adeudado = Money.zero(moneda);
+    let inicioPeriodo = startOfDay(new Date(credit.fecha_creacion));
+
+    for (const cuota of [...plan].sort((a, b) => a.nro_cuota - b.nro_cuota)) {
+      const inicio = inicioPeriodo;
+      const vencimiento = startOfDay(new Date(cuota.fecha_vencimiento));
+      inicioPeriodo = vencimiento;
+      if (!abiertas.has(cuota.id_cuota)) continue;
+
+      adeudado = adeudado.add(cuota.importe_cuota);
+
+      // Installments scheduled before the amortization breakdown carry no split: owed in full
+      if (cuota.capital.isZero()) {
+        capital = capital.add(cuota.importe_cuota);
+        continue;
+      }
+
+      const devengado = vencimiento <= dia ? 1 : accruedFraction(inicio, vencimiento, dia);
+      capital = capital.add(cuota.capital);
+      intereses = intereses.add(cuota.interes.multiply(devengado));
+      iva = iva.add(cuota.iva.multiply(devengado));
+      if (vencimiento <= dia) gastos = gastos.add(cuota.gastos);
+    }
+
+    const charges = await this.creditsRepository.getChargesByCredit(credit.id_credito);
+    const cargos = Money.sum(
+      charges.filter((cargo) => abiertas.has(cargo.id_cuota)).map((cargo) => cargo.monto),
+      moneda
+    );
+    const montoCancelacion = capital.add(intereses).add(iva).add(gastos).add(cargos);
+
+    return {
+      id_credito: credit.id_credito,
+      fecha_cancelacion: fecha,
+      cuotas_pendientes: abiertas.size,
+      capital,
+      intereses,
+      iva,
+      gastos,
+      cargos,
+      bonificacion: adeudado.add(cargos).subtract(montoCancelacion),
+      monto_cancelacion: montoCancelacion,
+    };
+  }
+
+  /**
+   * Hold the credit while its installments are rewritten. It has to be at the version read: an
+   * odd one is held by another prepayment, and a newer one means the schedule read is stale.
+   */
+  private async claimCredit(credit: Credit): Promise<Credit> {
+    const reclamado =
+      credit.version % 2 === 0 ? await this.creditsRepository.claimCredit(credit.id_credito, credit.version) : null;
+    if (!reclamado) {
+      throw new IdempotencyError(`Credit ${credit.id_credito} is being modified by another request; try again`);
+    }
+    return reclamado;
+  }
+
+  /**
+   * Rewrite an installment only while it is still pending: one the collection job, the borrower
+   * or a payoff settled meanwhile makes the prepayment fail
+   */
+  private async rewritePending(installment: Installment, updates: Partial<Installment>): Promise<Installment> {
+    const actualizada = await this.creditsRepository.updateInstallmentIf(
+      installment.id_cuota,
+      InstallmentStatus.PENDING,
+      updates
+    );
+    if (!actualizada) {
+      throw new IdempotencyError(
+        `Installment ${installment.nro_cuota} of credit ${installment.id_credito} changed meanwhile; try again`
+      );
+    }
+    return actualizada;
+  }
+
+  private async getPrepayableCredit(creditId: string): Promise<Credit> {
+    const credit = await this.creditsRepository.findCreditById(creditId);
+    if (!credit) {
+      throw new NotFoundError(`Credit ${creditId} not found`);
+    }
+    if (!PREPAYABLE_CREDIT_STATUSES.includes(credit.estado)) {
+      throw new ValidationError(`Credit ${creditId} is ${credit.estado} and cannot be paid off`);
+    }
+    return credit;
+  }
+
+  private async openInstallments(credit: Credit): Promise<Installment[]> {
+    const installments = await this.creditsRepository.getInstallmentsByCredit(credit.id_credito);
+    return installments.filter((cuota) => cuota.estado !== InstallmentStatus.PAID);
+  }
+}
+
+/**
+ * Share of a period's interest accrued on `dia`, between 0 and 1
+ */
+function accruedFraction(inicio: Date, fin: Date, dia: Date): number {
+  const total = Math.round((fin.getTime() - inicio.getTime()) / DAY_MS);
+  if (total <= 0) return 1;
+  const transcurridos = Math.round((dia.getTime() - inicio.getTime()) / DAY_MS);
+  return Math.min(Math.max(transcurridos / total, 0), 1);
+}
+
+export default new PrepaymentService();
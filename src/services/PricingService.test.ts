@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { AuditContext, CreditType } from '@/types/index.js';
+import { ValidationError } from '@/errors/AppError.js';
+import { createInMemoryRepositories } from '@/repositories/index.js';
+import { PricingService } from './PricingService.js';
+import { addDaysToDate } from '@/utils/helpers.js';
+
+const admin: AuditContext = { actor: 'admin-1', ip: '127.0.0.1', dispositivo: 'spec' };
+
+function setup() {
+  return new PricingService(createInMemoryRepositories().pricing);
+}
+
+describe('PricingService rate tables', () => {
+  it('prices with the initial version until another is published', async () => {
+    const pricing = setup();
+
+    expect(await pricing.getTerms(CreditType.NORMAL)).toEqual([3, 6, 12]);
+    expect(await pricing.quote(CreditType.NORMAL, 6)).toMatchObject({
+      version_tabla_tasas: 1,
+      tea: 90,
+      gastos_administrativos: 2,
+    });
+    await expect(pricing.quote(CreditType.NORMAL, 9)).rejects.toThrow('Allowed: 3, 6, 12 months');
+  });
+
+  it('applies a new version from its vigencia_desde and keeps the old one before it', async () => {
+    const pricing = setup();
+    const vigencia = addDaysToDate(new Date(), 7);
+
+    const tabla = await pricing.publishRateTable(
+      {
+        tipo_credito: CreditType.NORMAL,
+        vigencia_desde: vigencia,
+        tasas: [
+          { plazo: 12, tea: 99 },
+          { plazo: 6, tea: 92 },
+        ],
+        gastos_administrativos: 3,
+      },
+      admin
+    );
+
+    expect(tabla).toMatchObject({ version: 2, publicado_por: 'admin-1' });
+    expect(tabla.tasas.map((t) => t.plazo)).toEqual([6, 12]);
+    expect((await pricing.quote(CreditType.NORMAL, 6)).version_tabla_tasas).toBe(1);
+    expect(await pricing.quote(CreditType.NORMAL, 6, vigencia)).toEqual({
+      id_tabla_tasas: tabla.id_tabla_tasas,
+      version_tabla_tasas: 2,
+      tea: 92,
+      gastos_administrativos: 3,
+    });
+    expect(await pricing.getTerms(CreditType.NORMAL, vigencia)).toEqual([6, 12]);
+    expect((await pricing.getRateTables(CreditType.NORMAL)).map((t) => t.version)).toEqual([1, 2]);
+  });
+
+  it('rejects tables with repeated terms, invalid rates or a past vigencia_desde', async () => {
+    const pricing = setup();
+    const publicar = (cambios: object) =>
+      pricing.publishRateTable(
+        { tipo_credito: CreditType.QUICK, tasas: [{ plazo: 30, tea: 100 }], gastos_administrativos: 2, ...cambios },
+        admin
+      );
+
+    await expect(
+      publicar({
+        tasas: [
+          { plazo: 30, tea: 100 },
+          { plazo: 30, tea: 105 },
+        ],
+      })
+    ).rejects.toThrow('listed more than once');
+    await expect(publicar({ tasas: [{ plazo: 30, tea: 0 }] })).rejects.toBeInstanceOf(ValidationError);
+    await expect(publicar({ gastos_administrativos: 101 })).rejects.toBeInstanceOf(ValidationError);
+    await expect(publicar({ vigencia_desde: addDaysToDate(new Date(), -1) })).rejects.toThrow('in the past');
+    expect(await pricing.getRateTables(CreditType.QUICK)).toHaveLength(1);
+  });
+});
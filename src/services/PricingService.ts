@@ -0,0 +1,182 @@
+import {
+  AuditContext,
+  AuditEventType,
+  CreditType,
+  PricingQuote,
+  RateTable,
+  RateTableRequest,
+} from '@/types/index.js';
+import { config } from '@/config/config.js';
+import { repositories, IPricingRepository } from '@/repositories/index.js';
+import AuditService, { AuditService as AuditServiceClass, SYSTEM_AUDIT_CONTEXT } from './AuditService.js';
+import { ValidationError } from '@/errors/AppError.js';
+
+type RateTableTerms = Pick<RateTable, 'tasas' | 'gastos_administrativos'>;
+
+// Rates each product starts with, published as version 1 the first time the product is priced
+const INITIAL_RATE_TABLES: Record<CreditType, RateTableTerms> = {
+  [CreditType.QUICK]: {
+    tasas: [
+      { plazo: 30, tea: 110 },
+      { plazo: 60, tea: 115 },
+      { plazo: 90, tea: 120 },
+    ],
+    gastos_administrativos: 2,
+  },
+  [CreditType.NORMAL]: {
+    tasas: [
+      { plazo: 3, tea: 85 },
+      { plazo: 6, tea: 90 },
+      { plazo: 12, tea: 95 },
+    ],
+    gastos_administrativos: 2,
+  },
+  // Every term RefinancingValidator accepts, at the single refinancing rate
+  [CreditType.REFINANCING]: {
+    tasas: Array.from(
+      { length: config.refinancing.maxTermMonths - config.refinancing.minTermMonths + 1 },
+      (_, i) => ({ plazo: config.refinancing.minTermMonths + i, tea: config.refinancing.tea })
+    ),
+    gastos_administrativos: 2,
+  },
+};
+
+/**
+ * Rates per product and term, from versioned rate tables. New versions are published through
+ * the admin API and take effect on their vigencia_desde; credits keep the version they were
+ * priced with.
+ */
+export class PricingService {
+  constructor(
+    private pricingRepository: IPricingRepository = repositories.pricing,
+    private auditService: AuditServiceClass = AuditService,
+    private initialTables: Record<CreditType, RateTableTerms> = INITIAL_RATE_TABLES
+  ) {}
+
+  /**
+   * Rate table of the product in force on `fecha`
+   */
+  async getEffectiveTable(tipo: CreditType, fecha: Date = new Date()): Promise<RateTable> {
+    const vigente = await this.pricingRepository.findEffectiveRateTable(tipo, fecha);
+    // The initial version is in force since the epoch, so only a product never priced has none
+    return vigente || this.ensureInitialTable(tipo);
+  }
+
+  /**
+   * Terms offered for the product: days for quick credits, months for the others
+   */
+  async getTerms(tipo: CreditType, fecha: Date = new Date()): Promise<number[]> {
+    const tabla = await this.getEffectiveTable(tipo, fecha);
+    return tabla.tasas.map((entry) => entry.plazo).sort((a, b) => a - b);
+  }
+
+  async quote(tipo: CreditType, plazo: number, fecha: Date = new Date()): Promise<PricingQuote> {
+    const tabla = await this.getEffectiveTable(tipo, fecha);
+    const entry = tabla.tasas.find((t) => t.plazo === plazo);
+    if (!entry) {
+      const plazos = tabla.tasas.map((t) => t.plazo).sort((a, b) => a - b);
+      throw new ValidationError(
+        `Invalid term for ${tipo} credit. Allowed: ${plazos.join(', ')} ${this.termUnit(tipo)}`
+      );
+    }
+
+    return {
+      id_tabla_tasas: tabla.id_tabla_tasas,
+      version_tabla_tasas: tabla.version,
+      tea: entry.tea,
+      gastos_administrativos: tabla.gastos_administrativos,
+    };
+  }
+
+  async getRateTables(tipo?: CreditType): Promise<RateTable[]> {
+    const tipos = tipo ? [tipo] : Object.values(CreditType);
+    for (const t of tipos) {
+      await this.ensureInitialTable(t);
+    }
+    return this.pricingRepository.getRateTables(tipo);
+  }
+
+  /**
+   * Publish the next version of the product's rate table. It applies to credits priced from
+   * vigencia_desde on; credits already granted keep their rates.
+   */
+  async publishRateTable(request: RateTableRequest, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<RateTable> {
+    this.validateRequest(request);
+
+    // The initial version stays in force until the first published one takes effect
+    await this.ensureInitialTable(request.tipo_credito);
+    const versiones = await this.pricingRepository.getRateTables(request.tipo_credito);
+    const ultima = versiones[versiones.length - 1];
+
+    const tabla = await this.pricingRepository.createRateTable({
+      tipo_credito: request.tipo_credito,
+      version: ultima.version + 1,
+      vigencia_desde: request.vigencia_desde || new Date(),
+      tasas: [...request.tasas].sort((a, b) => a.plazo - b.plazo),
+      gastos_administrativos: request.gastos_administrativos,
+      publicado_por: contexto.actor,
+    });
+
+    await this.auditService.record(contexto, {
+      tipo_evento: AuditEventType.RATE_TABLE_PUBLISHED,
+      usuario_id: contexto.actor,
+      antes: ultima,
+      despues: tabla,
+      detalles: { tipo_credito: tabla.tipo_credito, version: tabla.version },
+    });
+    return tabla;
+  }
+
+  private async ensureInitialTable(tipo: CreditType): Promise<RateTable> {
+    const [inicial] = await this.pricingRepository.getRateTables(tipo);
+    if (inicial) return inicial;
+
+    return this.pricingRepository.createRateTable({
+      tipo_credito: tipo,
+      version: 1,
+      vigencia_desde: new Date(0),
+      ...this.initialTables[tipo],
+      publicado_por: null,
+    });
+  }
+
+  private validateRequest(request: RateTableRequest): void {
+    if (!Object.values(CreditType).includes(request.tipo_credito)) {
+      throw new ValidationError(`Invalid tipo_credito. Must be one of: ${Object.values(CreditType).join(', ')}`);
+    }
+    if (!Array.isArray(request.tasas) || request.tasas.length === 0) {
+      throw new ValidationError('A rate table needs at least one term');
+    }
+
+    const plazos = new Set<number>();
+    for (const entry of request.tasas) {
+      if (!Number.isInteger(entry.plazo) || entry.plazo <= 0) {
+        throw new ValidationError(
+          `Invalid term ${entry.plazo}: must be a whole number of ${this.termUnit(request.tipo_credito)}`
+        );
+      }
+      if (plazos.has(entry.plazo)) {
+        throw new ValidationError(`Term ${entry.plazo} is listed more than once`);
+      }
+      if (!Number.isFinite(entry.tea) || entry.tea <= 0) {
+        throw new ValidationError(`Invalid TEA for term ${entry.plazo}: must be a positive percentage`);
+      }
+      plazos.add(entry.plazo);
+    }
+
+    const gastos = request.gastos_administrativos;
+    if (!Number.isFinite(gastos) || gastos < 0 || gastos > 100) {
+      throw new ValidationError('gastos_administrativos must be a percentage between 0 and 100');
+    }
+    // Past simulations and credits must stay reproducible from the table history
+    if (request.vigencia_desde && request.vigencia_desde < new Date()) {
+      throw new ValidationError('vigencia_desde cannot be in the past');
+    }
+  }
+
+  private termUnit(tipo: CreditType): string {
+    return tipo === CreditType.QUICK ? 'days' : 'months';
+  }
+}
+
+export default new PricingService();
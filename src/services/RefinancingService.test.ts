@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { CreditStatus, InstallmentStatus, PaymentRetryStatus } from '@/types/index.js';
+import repositories from '@/repositories/index.js';
+import RefinancingService from './RefinancingService.js';
+import { addDaysToDate } from '@/utils/helpers.js';
+import { ars, createTestCredit, createTestInstallments, createTestUser } from '@/test/helpers.js';
+
+describe('RefinancingService.refinance', () => {
+  it('cancels the open installments and scheduled retries of the refinanced credits', async () => {
+    const userId = await createTestUser({ kyc: true });
+    const desembolso = addDaysToDate(new Date(), -45);
+    const credit = await createTestCredit(userId, {
+      monto: ars(30000),
+      estado: CreditStatus.IN_PROGRESS,
+      fecha_desembolso: desembolso,
+    });
+    const [primera, segunda] = await createTestInstallments(credit, desembolso);
+    await repositories.credits.markInstallmentPaid(primera.id_cuota);
+    await repositories.credits.updateInstallmentStatus(segunda.id_cuota, InstallmentStatus.RETRYING);
+    const retry = await repositories.credits.createPaymentRetry({
+      id_cuota: segunda.id_cuota,
+      id_credito: credit.id_credito,
+      nro_intento: 2,
+      estado: PaymentRetryStatus.SCHEDULED,
+      fecha_programada: addDaysToDate(new Date(), 1),
+      fecha_ejecucion: null,
+      motivo_fallo: null,
+      id_transaccion: null,
+    });
+
+    const { credito } = await RefinancingService.refinance({
+      usuario_id: userId,
+      creditos: [credit.id_credito],
+      plazo_meses: 12,
+    });
+
+    const cuotas = await repositories.credits.getInstallmentsByCredit(credit.id_credito);
+    expect(cuotas[0].estado).toBe(InstallmentStatus.PAID);
+    expect(cuotas.slice(1).every((cuota) => cuota.estado === InstallmentStatus.CANCELED)).toBe(true);
+
+    const [reintento] = await repositories.credits.getPaymentRetriesByCredit(credit.id_credito);
+    expect(reintento.id_reintento).toBe(retry.id_reintento);
+    expect(reintento.estado).toBe(PaymentRetryStatus.CANCELED);
+    expect(reintento.motivo_fallo).toBe(`Credit refinanced by credit ${credito.id_credito}`);
+
+    const original = (await repositories.credits.findCreditById(credit.id_credito))!;
+    expect(original.estado).toBe(CreditStatus.REFINANCED);
+    expect(original.id_credito_refinanciacion).toBe(credito.id_credito);
+  });
+});
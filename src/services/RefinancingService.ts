@@ -0,0 +1,261 @@
+import {
+  AuditContext,
+  AuditEventType,
+  Credit,
+  CreditStatus,
+  EarlyRepaymentQuote,
+  InstallmentStatus,
+  Money,
+  PaymentRetryStatus,
+  Refinancing,
+  RefinancingRequest,
+  RefinancingSimulation,
+} from '@/types/index.js';
+import { repositories, ICreditsRepository } from '@/repositories/index.js';
+import CreditsService, { CreditsService as CreditsServiceClass } from './CreditsService.js';
+import RefinancingValidator, { RefinancingValidator as RefinancingValidatorClass } from './RefinancingValidator.js';
+import PrepaymentService, { PrepaymentService as PrepaymentServiceClass } from './PrepaymentService.js';
+import LateChargesService, { LateChargesService as LateChargesServiceClass } from './LateChargesService.js';
+import AuditService, { AuditService as AuditServiceClass, SYSTEM_AUDIT_CONTEXT } from './AuditService.js';
+import CreditStateMachine, { CreditStateMachine as CreditStateMachineClass } from './CreditStateMachine.js';
+import CreditLimitService, { CreditLimitService as CreditLimitServiceClass } from './CreditLimitService.js';
+import { UnitOfWork } from './UnitOfWork.js';
+import { ValidationError } from '@/errors/AppError.js';
+
+/**
+ * Refinancing: one new credit, with its own schedule, takes over the outstanding balance of one
+ * or more of the borrower's credits, including their arrears and the punitive interest and late
+ * fees accrued on them. The refinanced credits are closed as `refinanciado` and point to the new
+ * credit. No money moves: the new principal is used entirely to settle the old balances.
+ */
+export class RefinancingService {
+  constructor(
+    private creditsRepository: ICreditsRepository = repositories.credits,
+    private creditsService: CreditsServiceClass = CreditsService,
+    private refinancingValidator: RefinancingValidatorClass = RefinancingValidator,
+    private prepaymentService: PrepaymentServiceClass = PrepaymentService,
+    private lateChargesService: LateChargesServiceClass = LateChargesService,
+    private auditService: AuditServiceClass = AuditService,
+    private creditStateMachine: CreditStateMachineClass = CreditStateMachine,
+    private creditLimitService: CreditLimitServiceClass = CreditLimitService
+  ) {}
+
+  /**
+   * Terms of refinancing the requested credits today. Each balance is the credit's payoff
+   * amount (see PrepaymentService), with the charges accrued so far.
+   */
+  async simulateRefinancing(request: RefinancingRequest): Promise<RefinancingSimulation> {
+    await this.validate(request);
+    return this.simulate(request);
+  }
+
+  /**
+   * Open the refinancing credit, already in progress, and close the refinanced credits. Charges
+   * are brought up to date first so the consolidated balance includes them.
+   */
+  async refinance(request: RefinancingRequest, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<Refinancing> {
+    await this.validate(request);
+
+    const fecha = new Date();
+    const originales: Credit[] = [];
+    for (const creditId of request.creditos) {
+      const credit = (await this.creditsRepository.findCreditById(creditId))!;
+      const installments = await this.creditsRepository.getInstallmentsByCredit(creditId);
+      for (const installment of installments.filter((cuota) => cuota.estado !== InstallmentStatus.PAID)) {
+        await this.lateChargesService.accrueInstallment(installment, credit, fecha);
+      }
+      originales.push(credit);
+    }
+
+    const simulation = await this.simulate(request);
+    const plan = simulation.plan_cuotas;
+
+    return UnitOfWork.run(async (uow) => {
+      const solicitado = await uow.step(
+        'create refinancing credit',
+        () =>
+          this.creditsRepository.createCredit({
+            usuario_id: request.usuario_id,
+            tipo_credito: simulation.tipo_credito,
+            monto_solicitado: simulation.monto_solicitado,
+            monto_total: simulation.monto_total,
+            plazo_dias: simulation.plazo_dias,
+            tasa_tea: simulation.tasa_tea,
+            tasa_tna: simulation.tasa_tna,
+            tasa_cft: simulation.tasa_cft,
+            tasa_cft_tna: simulation.tasa_cft_tna,
+            estado: CreditStatus.PREAPPROVED,
+            fecha_desembolso: null,
+            fecha_vencimiento: plan[plan.length - 1].fecha_vencimiento,
+            cuotas: simulation.cuotas_totales,
+            sistema_amortizacion: simulation.sistema_amortizacion,
+            id_tabla_tasas: simulation.id_tabla_tasas,
+            nivel_riesgo: null,
+          }),
+        (creado) =>
+          this.creditsRepository.updateCreditStatus(creado.id_credito, creado.estado, CreditStatus.CANCELED)
+      );
+      await this.creditStateMachine.recordCreation(solicitado, 'Refinancing requested', uow);
+      const aprobado = await this.creditStateMachine.transition(
+        solicitado,
+        CreditStatus.APPROVED,
+        'Terms accepted by the borrower',
+        uow
+      );
+      const desembolsado = await this.creditStateMachine.transition(
+        aprobado,
+        CreditStatus.DISBURSED,
+        'Principal applied to the refinanced credits',
+        uow,
+        { fecha_desembolso: fecha }
+      );
+      const credito = await this.creditStateMachine.transition(
+        desembolsado,
+        CreditStatus.IN_PROGRESS,
+        'Repayment schedule started',
+        uow
+      );
+
+      await uow.step(
+        `create installment plan for credit ${credito.id_credito}`,
+        () =>
+          this.creditsRepository.createInstallmentPlan(
+            credito.id_credito,
+            plan.map((cuota) => ({
+              id_credito: credito.id_credito,
+              nro_cuota: cuota.nro_cuota,
+              importe_cuota: cuota.importe,
+              capital: cuota.capital,
+              interes: cuota.interes,
+              iva: cuota.iva,
+              gastos: cuota.gastos,
+              saldo_restante: cuota.saldo_restante,
+              fecha_vencimiento: cuota.fecha_vencimiento,
+              estado: InstallmentStatus.PENDING,
+              fecha_pago: null,
+            }))
+          ),
+        (cuotas) => this.creditsRepository.deleteInstallments(cuotas.map((cuota) => cuota.id_cuota))
+      );
+
+      const refinanciados: Credit[] = [];
+      for (const original of originales) {
+        const refinanciado = await this.creditStateMachine.transition(
+          original,
+          CreditStatus.REFINANCED,
+          `Balance taken over by refinancing credit ${credito.id_credito}`,
+          uow,
+          { id_credito_refinanciacion: credito.id_credito }
+        );
+        await this.cancelOpenItems(original, `Credit refinanced by credit ${credito.id_credito}`, fecha, uow);
+
+        await this.auditService.record(
+          contexto,
+          {
+            tipo_evento: AuditEventType.CREDIT_REFINANCED,
+            usuario_id: original.usuario_id,
+            id_credito: original.id_credito,
+            antes: original,
+            despues: refinanciado,
+            detalles: {
+              id_credito_refinanciacion: credito.id_credito,
+              saldo: simulation.saldos.find((saldo) => saldo.id_credito === original.id_credito),
+            },
+          },
+          uow
+        );
+        refinanciados.push(refinanciado);
+      }
+
+      await this.auditService.record(
+        contexto,
+        {
+          tipo_evento: AuditEventType.CREDIT_REFINANCED,
+          usuario_id: credito.usuario_id,
+          id_credito: credito.id_credito,
+          despues: credito,
+          detalles: { solicitud: request, creditos_refinanciados: request.creditos },
+        },
+        uow
+      );
+      await this.creditLimitService.scheduleRecompute(
+        credito.usuario_id,
+        `Credits refinanced by credit ${credito.id_credito}`,
+        uow
+      );
+
+      return { credito, creditos_refinanciados: refinanciados, saldos: simulation.saldos };
+    });
+  }
+
+  /**
+   * The new credit takes over what the refinanced one still owed: its open installments are
+   * canceled and its scheduled debit retries never run
+   */
+  private async cancelOpenItems(credit: Credit, motivo: string, fecha: Date, uow: UnitOfWork): Promise<void> {
+    const installments = await this.creditsRepository.getInstallmentsByCredit(credit.id_credito);
+    const abiertas = installments.filter(
+      (cuota) => cuota.estado !== InstallmentStatus.PAID && cuota.estado !== InstallmentStatus.CANCELED
+    );
+    for (const installment of abiertas) {
+      await uow.step(
+        `cancel installment ${installment.id_cuota}`,
+        () => this.creditsRepository.updateInstallmentStatus(installment.id_cuota, InstallmentStatus.CANCELED),
+        () => this.creditsRepository.updateInstallmentStatus(installment.id_cuota, installment.estado)
+      );
+    }
+
+    const retries = await this.creditsRepository.getPaymentRetriesByCredit(credit.id_credito);
+    for (const retry of retries.filter((r) => r.estado === PaymentRetryStatus.SCHEDULED)) {
+      await uow.step(
+        `cancel payment retry ${retry.id_reintento}`,
+        () =>
+          this.creditsRepository.updatePaymentRetry(retry.id_reintento, {
+            estado: PaymentRetryStatus.CANCELED,
+            fecha_ejecucion: fecha,
+            motivo_fallo: motivo,
+          }),
+        () =>
+          this.creditsRepository.updatePaymentRetry(retry.id_reintento, {
+            estado: retry.estado,
+            fecha_ejecucion: retry.fecha_ejecucion,
+            motivo_fallo: retry.motivo_fallo,
+          })
+      );
+    }
+  }
+
+  private async validate(request: RefinancingRequest): Promise<void> {
+    const eligibility = await this.refinancingValidator.validateRefinancingEligibility(
+      request.usuario_id,
+      request.creditos
+    );
+    if (!eligibility.es_elegible) {
+      throw new ValidationError(eligibility.razon_rechazo!);
+    }
+
+    const termValidation = this.refinancingValidator.validateTerm(request.plazo_meses);
+    if (!termValidation.es_elegible) {
+      throw new ValidationError(termValidation.razon_rechazo!);
+    }
+  }
+
+  private async simulate(request: RefinancingRequest): Promise<RefinancingSimulation> {
+    const saldos: EarlyRepaymentQuote[] = [];
+    for (const creditId of request.creditos) {
+      saldos.push(await this.prepaymentService.quoteFullPrepayment(creditId));
+    }
+
+    const principal = Money.sum(saldos.map((saldo) => saldo.monto_cancelacion));
+    return {
+      ...(await this.creditsService.simulateRefinancingCredit(
+        principal,
+        request.plazo_meses,
+        request.sistema_amortizacion
+      )),
+      saldos,
+    };
+  }
+}
+
+export default new RefinancingService();
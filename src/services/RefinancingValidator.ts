@@ -0,0 +1,98 @@
+import { CreditEligibility, CreditStatus, CreditType } from '@/types/index.js';
+import { config } from '@/config/config.js';
+import { repositories, ICreditsRepository, IUserAccountsRepository } from '@/repositories/index.js';
+
+// Only credits with a balance still owed can be refinanced
+const REFINANCEABLE_CREDIT_STATUSES = [CreditStatus.DISBURSED, CreditStatus.IN_PROGRESS, CreditStatus.DEFAULT];
+
+/**
+ * Eligibility for refinancing. Unlike new credits, default history and outstanding debt do not
+ * disqualify the borrower: the product exists to give credits in arrears a new schedule.
+ */
+export class RefinancingValidator {
+  constructor(
+    private userAccountsRepository: IUserAccountsRepository = repositories.userAccounts,
+    private creditsRepository: ICreditsRepository = repositories.credits,
+    private maxCredits: number = config.refinancing.maxCredits
+  ) {}
+
+  async validateRefinancingEligibility(userId: string, creditIds: string[]): Promise<CreditEligibility> {
+    try {
+      // Check KYC completion
+      const kycCompleted = await this.userAccountsRepository.checkKYCStatus(userId);
+      if (!kycCompleted) {
+        return {
+          es_elegible: false,
+          razon_rechazo: 'KYC not completed',
+        };
+      }
+
+      if (creditIds.length === 0) {
+        return {
+          es_elegible: false,
+          razon_rechazo: 'At least one credit is required',
+        };
+      }
+      if (new Set(creditIds).size !== creditIds.length) {
+        return {
+          es_elegible: false,
+          razon_rechazo: 'Each credit can only be included once',
+        };
+      }
+      if (creditIds.length > this.maxCredits) {
+        return {
+          es_elegible: false,
+          razon_rechazo: `At most ${this.maxCredits} credits can be refinanced together`,
+        };
+      }
+
+      for (const creditId of creditIds) {
+        const credit = await this.creditsRepository.findCreditById(creditId);
+        if (!credit || credit.usuario_id !== userId) {
+          return {
+            es_elegible: false,
+            razon_rechazo: `Credit ${creditId} not found for user ${userId}`,
+          };
+        }
+        if (!REFINANCEABLE_CREDIT_STATUSES.includes(credit.estado)) {
+          return {
+            es_elegible: false,
+            razon_rechazo: `Credit ${creditId} is ${credit.estado} and cannot be refinanced`,
+          };
+        }
+        // A refinancing is the last restructuring a balance gets
+        if (credit.tipo_credito === CreditType.REFINANCING) {
+          return {
+            es_elegible: false,
+            razon_rechazo: `Credit ${creditId} is already a refinancing`,
+          };
+        }
+      }
+
+      return {
+        es_elegible: true,
+      };
+    } catch (error) {
+      return {
+        es_elegible: false,
+        razon_rechazo: `Eligibility check failed: ${error}`,
+      };
+    }
+  }
+
+  validateTerm(termMonths: number): CreditEligibility {
+    const { minTermMonths, maxTermMonths } = config.refinancing;
+    if (!Number.isInteger(termMonths) || termMonths < minTermMonths || termMonths > maxTermMonths) {
+      return {
+        es_elegible: false,
+        razon_rechazo: `Refinancing terms must be between ${minTermMonths} and ${maxTermMonths} months`,
+      };
+    }
+
+    return {
+      es_elegible: true,
+    };
+  }
+}
+
+export default new RefinancingValidator();
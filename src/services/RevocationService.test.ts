@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { CreditStatus, InstallmentStatus } from '@/types/index.js';
+import { InsufficientFundsError, ValidationError } from '@/errors/AppError.js';
+import repositories from '@/repositories/index.js';
+import RevocationService from './RevocationService.js';
+import LedgerService from './LedgerService.js';
+import UserAccountsService from './UserAccountsService.js';
+import { addDaysToDate, endOfDay } from '@/utils/helpers.js';
+import { ars, createTestCredit, createTestInstallments, createTestUser } from '@/test/helpers.js';
+
+// A 30.000 credit paid out into the borrower's wallet `dias` days ago
+async function disbursedCredit(dias = 2) {
+  const userId = await createTestUser();
+  const desembolso = addDaysToDate(new Date(), -dias);
+  const credit = await createTestCredit(userId, {
+    monto: ars(30000),
+    estado: CreditStatus.DISBURSED,
+    fecha_desembolso: desembolso,
+  });
+  const cuotas = await createTestInstallments(credit, desembolso);
+  await LedgerService.recordCreditDisbursement(userId, ars(30000), credit.id_credito);
+  return { userId, credit, cuotas };
+}
+
+describe('RevocationService', () => {
+  it('takes the principal back and cancels the credit and its installments', async () => {
+    const { userId, credit } = await disbursedCredit();
+
+    const revocado = await RevocationService.revokeCredit(credit.id_credito);
+
+    expect(revocado.estado).toBe(CreditStatus.CANCELED);
+    const cuotas = await repositories.credits.getInstallmentsByCredit(credit.id_credito);
+    expect(cuotas.every((c) => c.estado === InstallmentStatus.CANCELED)).toBe(true);
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(0));
+    expect((await LedgerService.reconcileWallet(userId)).conciliado).toBe(true);
+  });
+
+  it('closes the window at the end of its last day', async () => {
+    const { credit } = await disbursedCredit(11);
+
+    expect(RevocationService.getRevocationDeadline(credit)).toEqual(
+      endOfDay(addDaysToDate(credit.fecha_desembolso!, 10))
+    );
+    await expect(RevocationService.revokeCredit(credit.id_credito)).rejects.toThrow('revocation window');
+  });
+
+  it('refuses when the principal was spent or an installment was paid', async () => {
+    const gastado = await disbursedCredit();
+    await LedgerService.recordExternalTransfer(gastado.userId, ars(1));
+
+    await expect(RevocationService.revokeCredit(gastado.credit.id_credito)).rejects.toBeInstanceOf(
+      InsufficientFundsError
+    );
+    expect((await repositories.credits.findCreditById(gastado.credit.id_credito))!.estado).toBe(
+      CreditStatus.DISBURSED
+    );
+
+    const conPago = await disbursedCredit();
+    await repositories.credits.markInstallmentPaid(conPago.cuotas[0].id_cuota);
+
+    await expect(RevocationService.revokeCredit(conPago.credit.id_credito)).rejects.toBeInstanceOf(ValidationError);
+    expect(await UserAccountsService.getBalance(conPago.userId)).toEqual(ars(30000));
+  });
+});
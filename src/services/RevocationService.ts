@@ -0,0 +1,122 @@
+import {
+  AuditContext,
+  AuditEventType,
+  Credit,
+  CreditStatus,
+  CreditType,
+  InstallmentStatus,
+} from '@/types/index.js';
+import { config } from '@/config/config.js';
+import { repositories, ICreditsRepository } from '@/repositories/index.js';
+import LedgerService, { LedgerService as LedgerServiceClass } from './LedgerService.js';
+import AuditService, { AuditService as AuditServiceClass, SYSTEM_AUDIT_CONTEXT } from './AuditService.js';
+import CreditStateMachine, { CreditStateMachine as CreditStateMachineClass } from './CreditStateMachine.js';
+import CreditLimitService, { CreditLimitService as CreditLimitServiceClass } from './CreditLimitService.js';
+import { UnitOfWork } from './UnitOfWork.js';
+import { InsufficientFundsError, NotFoundError, ValidationError } from '@/errors/AppError.js';
+import { addDaysToDate, endOfDay } from '@/utils/helpers.js';
+
+// Revocation undoes a disbursement the borrower has not started repaying
+const REVOCABLE_CREDIT_STATUSES = [CreditStatus.DISBURSED, CreditStatus.IN_PROGRESS];
+
+/**
+ * Derecho de revocación: within the revocation window after the disbursement, the borrower can
+ * cancel a credit at no cost by returning the principal. No interest or charges are owed.
+ */
+export class RevocationService {
+  constructor(
+    private creditsRepository: ICreditsRepository = repositories.credits,
+    private ledgerService: LedgerServiceClass = LedgerService,
+    private auditService: AuditServiceClass = AuditService,
+    private creditStateMachine: CreditStateMachineClass = CreditStateMachine,
+    private creditLimitService: CreditLimitServiceClass = CreditLimitService,
+    private windowDays: number = config.credits.revocationWindowDays
+  ) {}
+
+  /**
+   * Last moment the credit can be revoked: the end of the window's last day
+   */
+  getRevocationDeadline(credit: Credit): Date | null {
+    if (!credit.fecha_desembolso) return null;
+    return endOfDay(addDaysToDate(new Date(credit.fecha_desembolso), this.windowDays));
+  }
+
+  /**
+   * Debit the disbursed principal back from the wallet, cancel every installment and set the
+   * credit to `cancelado`. Rejected when the principal is no longer in the wallet.
+   */
+  async revokeCredit(creditId: string, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<Credit> {
+    const credit = await this.creditsRepository.findCreditById(creditId);
+    if (!credit) {
+      throw new NotFoundError(`Credit ${creditId} not found`);
+    }
+    if (!REVOCABLE_CREDIT_STATUSES.includes(credit.estado)) {
+      throw new ValidationError(`Credit ${creditId} is ${credit.estado} and cannot be revoked`);
+    }
+    // The principal of a refinancing settled other credits; it never reached the wallet
+    if (credit.tipo_credito === CreditType.REFINANCING) {
+      throw new ValidationError('Refinancing credits cannot be revoked');
+    }
+
+    const plazo = this.getRevocationDeadline(credit);
+    if (!plazo || new Date() > plazo) {
+      throw new ValidationError(
+        `The ${this.windowDays}-day revocation window for credit ${creditId} has ended; use early repayment instead`
+      );
+    }
+
+    const installments = await this.creditsRepository.getInstallmentsByCredit(creditId);
+    if (installments.some((cuota) => cuota.estado === InstallmentStatus.PAID)) {
+      throw new ValidationError(`Credit ${creditId} has paid installments; use early repayment instead`);
+    }
+
+    const disponible = await this.ledgerService.getWalletBalance(credit.usuario_id, credit.monto_solicitado.moneda);
+    if (disponible.lessThan(credit.monto_solicitado)) {
+      throw new InsufficientFundsError(
+        `The disbursed ${credit.monto_solicitado} is no longer in the wallet. Available: ${disponible}`
+      );
+    }
+
+    return UnitOfWork.run(async (uow) => {
+      const posting = await this.ledgerService.recordCreditRevocation(
+        credit.usuario_id,
+        credit.monto_solicitado,
+        credit.id_credito,
+        uow
+      );
+
+      for (const installment of installments) {
+        await uow.step(
+          `cancel installment ${installment.id_cuota}`,
+          () => this.creditsRepository.updateInstallmentStatus(installment.id_cuota, InstallmentStatus.CANCELED),
+          () => this.creditsRepository.updateInstallmentStatus(installment.id_cuota, installment.estado)
+        );
+      }
+
+      const revocado = await this.creditStateMachine.transition(
+        credit,
+        CreditStatus.CANCELED,
+        'Revoked by the borrower',
+        uow
+      );
+
+      await this.auditService.record(
+        contexto,
+        {
+          tipo_evento: AuditEventType.CREDIT_REVOKED,
+          usuario_id: credit.usuario_id,
+          id_credito: credit.id_credito,
+          antes: credit,
+          despues: revocado,
+          detalles: { id_asiento: posting.asiento.id_asiento, monto_devuelto: credit.monto_solicitado },
+        },
+        uow
+      );
+      await this.creditLimitService.scheduleRecompute(credit.usuario_id, `Credit ${creditId} revoked`, uow);
+
+      return revocado;
+    });
+  }
+}
+
+export default new RevocationService();
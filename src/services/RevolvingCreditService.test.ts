@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { RevolvingLine, RevolvingLineStatus, RevolvingMovementType, RiskTier } from '@/types/index.js';
+import repositories from '@/repositories/index.js';
+import { ValidationError } from '@/errors/AppError.js';
+import RevolvingCreditService from './RevolvingCreditService.js';
+import UserAccountsService from './UserAccountsService.js';
+import { addDaysToDate, startOfDay } from '@/utils/helpers.js';
+import { ars, createTestUser } from '@/test/helpers.js';
+
+// Stored directly so the specs can start from any balance or last accrual date
+function createLine(userId: string, datos: Partial<RevolvingLine> = {}): Promise<RevolvingLine> {
+  return repositories.revolvingLines.createLine({
+    usuario_id: userId,
+    estado: RevolvingLineStatus.ACTIVE,
+    limite_aprobado: ars(20000),
+    saldo_capital: ars(0),
+    saldo_intereses: ars(0),
+    tasa_tea: 100,
+    nivel_riesgo: RiskTier.MEDIUM,
+    fecha_ultimo_devengo: startOfDay(new Date()),
+    ...datos,
+  });
+}
+
+describe('RevolvingCreditService drawdowns', () => {
+  it('opens a line and draws from it into the wallet', async () => {
+    const userId = await createTestUser({ kyc: true });
+    const line = await RevolvingCreditService.openLine(userId, ars(20000));
+
+    const actualizada = await RevolvingCreditService.drawDown(line.id_linea, ars(5000));
+
+    expect(actualizada.saldo_capital).toEqual(ars(5000));
+    expect(RevolvingCreditService.getAvailable(actualizada)).toEqual(ars(15000));
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(5000));
+  });
+
+  it('never lets two concurrent drawdowns exceed the limit', async () => {
+    const userId = await createTestUser();
+    const line = await createLine(userId, { limite_aprobado: ars(20000) });
+
+    const resultados = await Promise.allSettled([
+      RevolvingCreditService.drawDown(line.id_linea, ars(15000)),
+      RevolvingCreditService.drawDown(line.id_linea, ars(15000)),
+    ]);
+
+    expect(resultados.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    const [rechazo] = resultados.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    expect(rechazo.reason).toBeInstanceOf(ValidationError);
+    expect((await repositories.revolvingLines.findLineById(line.id_linea))!.saldo_capital).toEqual(ars(15000));
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(15000));
+  });
+});
+
+describe('RevolvingCreditService payments', () => {
+  it('settles the accrued interest before the capital', async () => {
+    const userId = await createTestUser({ fondos: ars(2000) });
+    const line = await createLine(userId, { saldo_capital: ars(10000), saldo_intereses: ars(500) });
+
+    const pago = await RevolvingCreditService.pay(line.id_linea, ars(2000));
+
+    expect(pago.aplicado_intereses).toEqual(ars(500));
+    expect(pago.aplicado_capital).toEqual(ars(1500));
+    expect(pago.linea.saldo_intereses).toEqual(ars(0));
+    expect(pago.linea.saldo_capital).toEqual(ars(8500));
+  });
+
+  it('applies both of two concurrent payments to the balances', async () => {
+    const userId = await createTestUser({ fondos: ars(3000) });
+    const line = await createLine(userId, { saldo_capital: ars(10000), saldo_intereses: ars(500) });
+
+    await Promise.all([
+      RevolvingCreditService.pay(line.id_linea, ars(1000)),
+      RevolvingCreditService.pay(line.id_linea, ars(2000)),
+    ]);
+
+    const actualizada = (await repositories.revolvingLines.findLineById(line.id_linea))!;
+    expect(actualizada.saldo_intereses.add(actualizada.saldo_capital)).toEqual(ars(7500));
+    expect(await UserAccountsService.getBalance(userId)).toEqual(ars(0));
+  });
+
+  it('rejects closing a line that still owes', async () => {
+    const userId = await createTestUser();
+    const line = await createLine(userId, { saldo_capital: ars(100) });
+
+    await expect(RevolvingCreditService.closeLine(line.id_linea)).rejects.toBeInstanceOf(ValidationError);
+    expect((await repositories.revolvingLines.findLineById(line.id_linea))!.estado).toBe(RevolvingLineStatus.ACTIVE);
+  });
+});
+
+describe('RevolvingCreditService interest', () => {
+  it('shows the interest owed on reads without storing it', async () => {
+    const userId = await createTestUser();
+    const line = await createLine(userId, {
+      saldo_capital: ars(10000),
+      fecha_ultimo_devengo: addDaysToDate(startOfDay(new Date()), -30),
+    });
+
+    const leida = await RevolvingCreditService.getLine(line.id_linea);
+    await RevolvingCreditService.getUserLines(userId);
+
+    expect(leida.saldo_intereses.isPositive()).toBe(true);
+    const guardada = (await repositories.revolvingLines.findLineById(line.id_linea))!;
+    expect(guardada.saldo_intereses).toEqual(ars(0));
+    expect(await RevolvingCreditService.getMovements(line.id_linea)).toEqual([]);
+  });
+
+  it('accrues each day once when concurrent requests bring the interest up to date', async () => {
+    const userId = await createTestUser();
+    const line = await createLine(userId, {
+      saldo_capital: ars(10000),
+      fecha_ultimo_devengo: addDaysToDate(startOfDay(new Date()), -30),
+    });
+    const proyectada = await RevolvingCreditService.getLine(line.id_linea);
+
+    await Promise.all([
+      RevolvingCreditService.drawDown(line.id_linea, ars(1000)),
+      RevolvingCreditService.drawDown(line.id_linea, ars(1000)),
+    ]);
+
+    const actualizada = (await repositories.revolvingLines.findLineById(line.id_linea))!;
+    expect(actualizada.saldo_intereses).toEqual(proyectada.saldo_intereses);
+    expect(actualizada.saldo_capital).toEqual(ars(12000));
+    const devengos = (await RevolvingCreditService.getMovements(line.id_linea)).filter(
+      (m) => m.tipo === RevolvingMovementType.INTEREST
+    );
+    expect(devengos).toHaveLength(1);
+  });
+});
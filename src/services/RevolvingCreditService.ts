@@ -0,0 +1,538 @@
+import {
+  AuditContext,
+  AuditEventType,
+  Money,
+  RevolvingLine,
+  RevolvingLineStatus,
+  RevolvingMovement,
+  RevolvingMovementType,
+  RevolvingPayment,
+  RevolvingStatement,
+  RevolvingStatementRunReport,
+} from '@/types/index.js';
+import { config } from '@/config/config.js';
+import { repositories, IRevolvingLinesRepository, IUserAccountsRepository } from '@/repositories/index.js';
+import LedgerService, { LedgerService as LedgerServiceClass } from './LedgerService.js';
+import AuditService, { AuditService as AuditServiceClass, SYSTEM_AUDIT_CONTEXT } from './AuditService.js';
+import AmortizationService, { AmortizationService as AmortizationServiceClass } from './AmortizationService.js';
+import RiskPricingService, { RiskPricingService as RiskPricingServiceClass } from './RiskPricingService.js';
+import CreditLimitService, { CreditLimitService as CreditLimitServiceClass } from './CreditLimitService.js';
+import { UnitOfWork } from './UnitOfWork.js';
+import { CreditEligibilityError, InsufficientFundsError, NotFoundError, ValidationError } from '@/errors/AppError.js';
+import { addDaysToDate, addMonthsToDate, endOfDay, startOfDay } from '@/utils/helpers.js';
+import { v4 as uuidv4 } from 'uuid';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PendingAccrual {
+  desde: Date;
+  hasta: Date;
+  devengos: Omit<RevolvingMovement, 'id_movimiento'>[];
+}
+
+/**
+ * Revolving credit lines. A line is approved for a limit carved out of the borrower's credit
+ * line; the borrower draws any amount up to what is available and regains availability as the
+ * capital is repaid. Interest accrues daily on the capital drawn at the line's TEA (plus IVA),
+ * and each month a statement closes on the opening day with a minimum payment. Drawdowns are
+ * blocked while the last statement's minimum payment is overdue.
+ */
+export class RevolvingCreditService {
+  private running = false;
+
+  constructor(
+    private revolvingLinesRepository: IRevolvingLinesRepository = repositories.revolvingLines,
+    private userAccountsRepository: IUserAccountsRepository = repositories.userAccounts,
+    private ledgerService: LedgerServiceClass = LedgerService,
+    private auditService: AuditServiceClass = AuditService,
+    private amortizationService: AmortizationServiceClass = AmortizationService,
+    private riskPricingService: RiskPricingServiceClass = RiskPricingService,
+    private creditLimitService: CreditLimitServiceClass = CreditLimitService,
+    private settings: typeof config.revolving = config.revolving,
+    private ivaRate: number = config.credits.ivaRate
+  ) {}
+
+  /**
+   * Highest limit a new line can be approved for: the product maximum, lowered to the
+   * maximum of the user's risk tier and to what is available on the user's credit line
+   */
+  async getMaxLimit(userId: string): Promise<Money> {
+    const riesgo = await this.riskPricingService.assessRisk(userId);
+    const limite = await this.creditLimitService.getCreditLimit(userId);
+    return Money.min(Money.fromDecimal(this.settings.maxLimit), riesgo.monto_maximo, limite.disponible);
+  }
+
+  /**
+   * Approve a line for `limiteSolicitado`, or for the highest limit available when omitted.
+   * The line is priced at the product TEA plus the user's risk spread.
+   */
+  async openLine(
+    userId: string,
+    limiteSolicitado?: Money,
+    contexto: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<RevolvingLine> {
+    const account = await this.userAccountsRepository.findByUserId(userId);
+    if (!account) {
+      throw new NotFoundError(`User account ${userId} not found`);
+    }
+    if (!account.kyc_completo) {
+      throw new CreditEligibilityError('KYC not completed', 'kyc_incompleto');
+    }
+    if (account.historial_mora) {
+      throw new CreditEligibilityError('User has default history', 'historial_mora');
+    }
+
+    const [abierta] = (await this.revolvingLinesRepository.findLinesByUser(userId)).filter(
+      (line) => line.estado === RevolvingLineStatus.ACTIVE
+    );
+    if (abierta) {
+      throw new ValidationError(`User ${userId} already has the active revolving line ${abierta.id_linea}`);
+    }
+
+    const minimo = Money.fromDecimal(this.settings.minLimit);
+    const maximo = await this.getMaxLimit(userId);
+    if (maximo.lessThan(minimo)) {
+      throw new CreditEligibilityError(
+        `Only ${maximo} is available for a revolving line; the minimum limit is ${minimo}`,
+        'sin_linea_disponible'
+      );
+    }
+
+    const limite = limiteSolicitado || maximo;
+    if (limite.lessThan(minimo)) {
+      throw new ValidationError(`The limit must be at least ${minimo}`);
+    }
+    if (limite.greaterThan(maximo)) {
+      throw new ValidationError(`The limit exceeds the maximum of ${maximo}`);
+    }
+
+    const riesgo = await this.riskPricingService.assessRisk(userId);
+    const line = await this.revolvingLinesRepository.createLine({
+      usuario_id: userId,
+      estado: RevolvingLineStatus.ACTIVE,
+      limite_aprobado: limite,
+      saldo_capital: Money.zero(limite.moneda),
+      saldo_intereses: Money.zero(limite.moneda),
+      tasa_tea: this.settings.tea + riesgo.spread_tea,
+      nivel_riesgo: riesgo.nivel_riesgo,
+      fecha_ultimo_devengo: startOfDay(new Date()),
+    });
+
+    await this.auditService.record(contexto, {
+      tipo_evento: AuditEventType.REVOLVING_LINE_OPENED,
+      usuario_id: userId,
+      despues: line,
+      detalles: { id_linea: line.id_linea, riesgo },
+    });
+    await this.creditLimitService.scheduleRecompute(userId, `Revolving line ${line.id_linea} opened`);
+    return line;
+  }
+
+  /**
+   * The line with the interest owed up to today. Reads only project the interest not yet
+   * accrued; it is stored by the next drawdown, payment or statement.
+   */
+  async getLine(lineId: string): Promise<RevolvingLine> {
+    return this.projectInterest(await this.findLine(lineId));
+  }
+
+  async getUserLines(userId: string): Promise<RevolvingLine[]> {
+    const lines = await this.revolvingLinesRepository.findLinesByUser(userId);
+    return lines.map((line) => this.projectInterest(line));
+  }
+
+  getAvailable(line: RevolvingLine): Money {
+    if (line.estado !== RevolvingLineStatus.ACTIVE || !line.limite_aprobado.greaterThan(line.saldo_capital)) {
+      return Money.zero(line.limite_aprobado.moneda);
+    }
+    return line.limite_aprobado.subtract(line.saldo_capital);
+  }
+
+  async getMovements(lineId: string): Promise<RevolvingMovement[]> {
+    return this.revolvingLinesRepository.getMovementsByLine(lineId);
+  }
+
+  async getStatements(lineId: string): Promise<RevolvingStatement[]> {
+    return this.revolvingLinesRepository.getStatementsByLine(lineId);
+  }
+
+  /**
+   * Draw `monto` from the line into the borrower's wallet
+   */
+  async drawDown(lineId: string, monto: Money, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<RevolvingLine> {
+    if (!monto.isPositive()) {
+      throw new ValidationError('Amount must be greater than 0');
+    }
+
+    const line = await this.getActiveLine(lineId);
+    await this.assertMinimumPaymentMade(line);
+
+    const disponible = this.getAvailable(line);
+    if (monto.greaterThan(disponible)) {
+      throw new ValidationError(`Amount exceeds the ${disponible} available on revolving line ${lineId}`);
+    }
+
+    return UnitOfWork.run(async (uow) => {
+      // Takes the amount from the line before paying it out; a concurrent drawdown that
+      // used up the availability meanwhile makes this one fail
+      const actualizada = await uow.step(
+        `draw ${monto} from revolving line ${lineId}`,
+        async () => {
+          const linea = await this.revolvingLinesRepository.drawDown(lineId, monto);
+          if (!linea) {
+            throw new ValidationError(`Amount exceeds what is available on revolving line ${lineId}`);
+          }
+          return linea;
+        },
+        () => this.revolvingLinesRepository.adjustBalances(lineId, monto.negate(), Money.zero(monto.moneda))
+      );
+
+      const posting = await this.ledgerService.recordRevolvingDrawdown(line.usuario_id, monto, lineId, uow);
+
+      await this.auditService.record(
+        contexto,
+        {
+          tipo_evento: AuditEventType.REVOLVING_LINE_DRAWN,
+          usuario_id: line.usuario_id,
+          antes: line,
+          despues: actualizada,
+          detalles: { id_linea: lineId, monto, id_asiento: posting.asiento.id_asiento },
+        },
+        uow
+      );
+
+      // Last step: nothing may fail after the movement is recorded
+      await this.revolvingLinesRepository.createMovements([
+        {
+          id_linea: lineId,
+          tipo: RevolvingMovementType.DRAWDOWN,
+          monto,
+          id_asiento: posting.asiento.id_asiento,
+          fecha: posting.asiento.fecha_creacion,
+        },
+      ]);
+      return actualizada;
+    });
+  }
+
+  /**
+   * Debit `monto` from the borrower's wallet. Accrued interest is settled first and the rest
+   * repays capital, which becomes available again.
+   */
+  async pay(lineId: string, monto: Money, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<RevolvingPayment> {
+    if (!monto.isPositive()) {
+      throw new ValidationError('Amount must be greater than 0');
+    }
+
+    const line = await this.getActiveLine(lineId);
+    const deuda = line.saldo_capital.add(line.saldo_intereses);
+    if (!deuda.isPositive()) {
+      throw new ValidationError(`Revolving line ${lineId} has no outstanding balance`);
+    }
+    if (monto.greaterThan(deuda)) {
+      throw new ValidationError(`Payment exceeds the outstanding balance of ${deuda}`);
+    }
+
+    const saldo = await this.ledgerService.getWalletBalance(line.usuario_id, monto.moneda);
+    if (saldo.lessThan(monto)) {
+      throw new InsufficientFundsError(`Insufficient balance for the payment. Available: ${saldo}`);
+    }
+
+    return UnitOfWork.run(async (uow) => {
+      // The split is taken from the balances at the time of the write, not from `line`
+      const aplicado = await uow.step(
+        `apply ${monto} to revolving line ${lineId}`,
+        async () => {
+          const resultado = await this.revolvingLinesRepository.applyPayment(lineId, monto);
+          if (!resultado) {
+            throw new ValidationError(`Payment exceeds the outstanding balance of revolving line ${lineId}`);
+          }
+          return resultado;
+        },
+        (resultado) =>
+          this.revolvingLinesRepository.adjustBalances(
+            lineId,
+            resultado.aplicado_capital,
+            resultado.aplicado_intereses
+          )
+      );
+      const { linea: actualizada, aplicado_intereses: aplicadoIntereses, aplicado_capital: aplicadoCapital } =
+        aplicado;
+
+      const posting = await this.ledgerService.recordRevolvingPayment(line.usuario_id, monto, lineId, uow);
+
+      await this.auditService.record(
+        contexto,
+        {
+          tipo_evento: AuditEventType.REVOLVING_LINE_PAID,
+          usuario_id: line.usuario_id,
+          antes: line,
+          despues: actualizada,
+          detalles: {
+            id_linea: lineId,
+            monto,
+            aplicado_intereses: aplicadoIntereses,
+            aplicado_capital: aplicadoCapital,
+            id_asiento: posting.asiento.id_asiento,
+          },
+        },
+        uow
+      );
+
+      // Last step: nothing may fail after the movement is recorded
+      await this.revolvingLinesRepository.createMovements([
+        {
+          id_linea: lineId,
+          tipo: RevolvingMovementType.PAYMENT,
+          monto,
+          id_asiento: posting.asiento.id_asiento,
+          fecha: posting.asiento.fecha_creacion,
+        },
+      ]);
+
+      return {
+        linea: actualizada,
+        monto,
+        aplicado_intereses: aplicadoIntereses,
+        aplicado_capital: aplicadoCapital,
+        id_asiento: posting.asiento.id_asiento,
+      };
+    });
+  }
+
+  /**
+   * Close a line with nothing owed, releasing its limit back to the user's credit line
+   */
+  async closeLine(lineId: string, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<RevolvingLine> {
+    const line = await this.getActiveLine(lineId);
+    const deuda = line.saldo_capital.add(line.saldo_intereses);
+    if (deuda.isPositive()) {
+      throw new ValidationError(`Revolving line ${lineId} still owes ${deuda}; pay it in full before closing it`);
+    }
+
+    // A drawdown racing the close leaves a balance, and the line stays open
+    const cerrada = await this.revolvingLinesRepository.closeLine(lineId);
+    if (!cerrada) {
+      throw new ValidationError(`Revolving line ${lineId} changed meanwhile; it no longer has nothing owed`);
+    }
+
+    await this.auditService.record(contexto, {
+      tipo_evento: AuditEventType.REVOLVING_LINE_CLOSED,
+      usuario_id: line.usuario_id,
+      antes: line,
+      despues: cerrada,
+      detalles: { id_linea: lineId },
+    });
+    await this.creditLimitService.scheduleRecompute(line.usuario_id, `Revolving line ${lineId} closed`);
+    return cerrada;
+  }
+
+  /**
+   * Issue every statement that closed by `fecha` (today by default) on the active lines. Lines
+   * are processed one at a time; a failure is logged and the line is retried on the next run.
+   */
+  async runStatements(fecha: Date = new Date()): Promise<RevolvingStatementRunReport> {
+    if (this.running) {
+      throw new ValidationError('A revolving statement run is already in progress');
+    }
+    this.running = true;
+
+    try {
+      const lines = await this.revolvingLinesRepository.getActiveLines();
+      const emitidos: RevolvingStatement[] = [];
+      for (const line of lines) {
+        try {
+          emitidos.push(...(await this.issueDueStatements(line, fecha)));
+        } catch (error) {
+          console.error(`Failed to issue statements for revolving line ${line.id_linea}:`, error);
+        }
+      }
+
+      return {
+        id_ejecucion: uuidv4(),
+        fecha_cierre: fecha,
+        lineas_evaluadas: lines.length,
+        resumenes_emitidos: emitidos.length,
+        monto_facturado: Money.sum(emitidos.map((resumen) => resumen.saldo_total)),
+      };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Issue the line's statements for every monthly period that closed by `fecha`, oldest first.
+   * Periods run from the opening day to the same day of the next month.
+   */
+  async issueDueStatements(line: RevolvingLine, fecha: Date = new Date()): Promise<RevolvingStatement[]> {
+    const anteriores = await this.revolvingLinesRepository.getStatementsByLine(line.id_linea);
+    let anterior: RevolvingStatement | undefined = anteriores[anteriores.length - 1];
+    let desde = anterior ? new Date(anterior.periodo_hasta) : startOfDay(new Date(line.fecha_apertura));
+
+    const emitidos: RevolvingStatement[] = [];
+    for (let hasta = addMonthsToDate(desde, 1); hasta <= fecha; hasta = addMonthsToDate(desde, 1)) {
+      line = await this.accrueInterest(line, hasta);
+
+      const movimientos = await this.revolvingLinesRepository.getMovementsByLine(line.id_linea, desde, hasta);
+      const total = (tipo: RevolvingMovementType): Money =>
+        Money.sum(
+          movimientos.filter((m) => m.tipo === tipo).map((m) => m.monto),
+          line.limite_aprobado.moneda
+        );
+
+      const saldoAnterior = anterior ? anterior.saldo_total : Money.zero(line.limite_aprobado.moneda);
+      const disposiciones = total(RevolvingMovementType.DRAWDOWN);
+      const pagos = total(RevolvingMovementType.PAYMENT);
+      const intereses = total(RevolvingMovementType.INTEREST);
+      const iva = total(RevolvingMovementType.IVA);
+      const saldoTotal = saldoAnterior.add(disposiciones).subtract(pagos).add(intereses).add(iva);
+
+      const resumen = await this.revolvingLinesRepository.createStatement({
+        id_linea: line.id_linea,
+        periodo_desde: desde,
+        periodo_hasta: hasta,
+        saldo_anterior: saldoAnterior,
+        disposiciones,
+        pagos,
+        intereses,
+        iva,
+        saldo_total: saldoTotal,
+        pago_minimo: this.minimumPayment(saldoTotal, intereses.add(iva)),
+        fecha_vencimiento: addDaysToDate(hasta, this.settings.paymentDueDays),
+      });
+
+      await this.auditService.record(SYSTEM_AUDIT_CONTEXT, {
+        tipo_evento: AuditEventType.REVOLVING_STATEMENT_ISSUED,
+        usuario_id: line.usuario_id,
+        despues: resumen,
+        detalles: { id_linea: line.id_linea, id_resumen: resumen.id_resumen },
+      });
+
+      emitidos.push(resumen);
+      anterior = resumen;
+      desde = hasta;
+    }
+    return emitidos;
+  }
+
+  /**
+   * The period's interest and IVA plus a share of the capital owed, at least the minimum
+   * payment floor and at most the whole balance
+   */
+  private minimumPayment(saldoTotal: Money, cargos: Money): Money {
+    if (!saldoTotal.isPositive()) return Money.zero(saldoTotal.moneda);
+
+    const cargosAdeudados = Money.min(cargos, saldoTotal);
+    const capital = saldoTotal.subtract(cargosAdeudados);
+    const minimo = Money.max(
+      cargosAdeudados.add(capital.percentage(this.settings.minPaymentPercent)),
+      Money.fromDecimal(this.settings.minPaymentFloor, saldoTotal.moneda)
+    );
+    return Money.min(minimo, saldoTotal);
+  }
+
+  /**
+   * Interest on the capital drawn, day by day, from the last accrual up to the start of
+   * `fecha`'s day. The daily rate is the line's TEA over one day; IVA is charged on the
+   * interest. Null when there is nothing to accrue.
+   */
+  private pendingInterest(line: RevolvingLine, fecha: Date = new Date()): PendingAccrual | null {
+    const desde = new Date(line.fecha_ultimo_devengo);
+    const hasta = startOfDay(fecha);
+    if (line.estado !== RevolvingLineStatus.ACTIVE || hasta <= startOfDay(desde)) return null;
+
+    const dias = Math.round((hasta.getTime() - startOfDay(desde).getTime()) / DAY_MS);
+    const interes = line.saldo_capital.multiply(this.amortizationService.periodRate(line.tasa_tea, dias));
+    const devengos = [
+      { tipo: RevolvingMovementType.INTEREST, monto: interes },
+      { tipo: RevolvingMovementType.IVA, monto: interes.percentage(this.ivaRate) },
+    ];
+    return {
+      desde,
+      hasta,
+      devengos: devengos
+        .filter((devengo) => devengo.monto.isPositive())
+        .map((devengo) => ({ id_linea: line.id_linea, ...devengo, id_asiento: null, fecha: hasta })),
+    };
+  }
+
+  private projectInterest(line: RevolvingLine): RevolvingLine {
+    const pendiente = this.pendingInterest(line);
+    if (!pendiente) return line;
+
+    return {
+      ...line,
+      saldo_intereses: line.saldo_intereses.add(
+        Money.sum(
+          pendiente.devengos.map((devengo) => devengo.monto),
+          line.saldo_intereses.moneda
+        )
+      ),
+      fecha_ultimo_devengo: pendiente.hasta,
+    };
+  }
+
+  /**
+   * Store the interest accrued up to `fecha`. The write only applies while the line was last
+   * accrued when `line` says, so a day is never accrued twice; if another request got there
+   * first, the line is read again with what it stored.
+   */
+  private async accrueInterest(line: RevolvingLine, fecha: Date = new Date()): Promise<RevolvingLine> {
+    const pendiente = this.pendingInterest(line, fecha);
+    if (!pendiente) return line;
+
+    const actualizada = await this.revolvingLinesRepository.accrueInterest(
+      line.id_linea,
+      pendiente.desde,
+      pendiente.hasta,
+      pendiente.devengos
+    );
+    return actualizada ?? this.findLine(line.id_linea);
+  }
+
+  private async findLine(lineId: string): Promise<RevolvingLine> {
+    const line = await this.revolvingLinesRepository.findLineById(lineId);
+    if (!line) {
+      throw new NotFoundError(`Revolving line ${lineId} not found`);
+    }
+    return line;
+  }
+
+  /**
+   * The active line with its interest accrued up to today, before its balances change
+   */
+  private async getActiveLine(lineId: string): Promise<RevolvingLine> {
+    const line = await this.findLine(lineId);
+    if (line.estado !== RevolvingLineStatus.ACTIVE) {
+      throw new ValidationError(`Revolving line ${lineId} is ${line.estado}`);
+    }
+    return this.accrueInterest(line);
+  }
+
+  /**
+   * Reject drawdowns while the last statement's minimum payment is past due and unpaid.
+   * Payments made after the statement closed count towards it.
+   */
+  private async assertMinimumPaymentMade(line: RevolvingLine): Promise<void> {
+    const resumenes = await this.revolvingLinesRepository.getStatementsByLine(line.id_linea);
+    const ultimo = resumenes[resumenes.length - 1];
+    if (!ultimo || new Date() <= endOfDay(new Date(ultimo.fecha_vencimiento))) return;
+
+    const movimientos = await this.revolvingLinesRepository.getMovementsByLine(
+      line.id_linea,
+      new Date(ultimo.periodo_hasta)
+    );
+    const pagado = Money.sum(
+      movimientos.filter((m) => m.tipo === RevolvingMovementType.PAYMENT).map((m) => m.monto),
+      ultimo.pago_minimo.moneda
+    );
+    if (pagado.lessThan(ultimo.pago_minimo)) {
+      throw new ValidationError(
+        `The minimum payment of ${ultimo.pago_minimo} due ${new Date(ultimo.fecha_vencimiento).toISOString()} ` +
+          `is unpaid; drawdowns resume once it is paid`
+      );
+    }
+  }
+}
+
+export default new RevolvingCreditService();
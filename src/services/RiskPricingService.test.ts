@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { CreditStatus, RiskTier, RiskTierPolicy } from '@/types/index.js';
+import repositories from '@/repositories/index.js';
+import { RiskPricingService } from './RiskPricingService.js';
+import UserAccountsService from './UserAccountsService.js';
+import { ars, createTestCredit, createTestUser } from '@/test/helpers.js';
+
+const policies: Record<RiskTier, RiskTierPolicy> = {
+  [RiskTier.LOW]: { spreadTEA: -5, maxAmount: ars(500000) },
+  [RiskTier.MEDIUM]: { spreadTEA: 0, maxAmount: ars(200000) },
+  [RiskTier.HIGH]: { spreadTEA: 10, maxAmount: ars(100000) },
+  [RiskTier.VERY_HIGH]: { spreadTEA: 25, maxAmount: ars(30000) },
+};
+
+// No minimum account age unless given, since every spec user registers today
+function riskPricing(minAccountAgeDays = 0) {
+  return new RiskPricingService(repositories.userAccounts, repositories.credits, policies, minAccountAgeDays, 40);
+}
+
+async function scoredUser(score: number | null) {
+  const userId = await createTestUser({ ingresos: ars(100000) });
+  if (score !== null) await UserAccountsService.setExternalScore(userId, score);
+  return userId;
+}
+
+describe('RiskPricingService', () => {
+  it('starts from the external score, or medium without one, and applies the tier policy', async () => {
+    expect(await riskPricing().assessRisk(await scoredUser(85))).toMatchObject({
+      nivel_riesgo: RiskTier.LOW,
+      categoria_score: 'Excellent',
+      spread_tea: -5,
+      monto_maximo: ars(500000),
+    });
+    expect((await riskPricing().assessRisk(await scoredUser(65))).nivel_riesgo).toBe(RiskTier.MEDIUM);
+    expect(await riskPricing().assessRisk(await scoredUser(null))).toMatchObject({
+      nivel_riesgo: RiskTier.MEDIUM,
+      factores: ['No external score'],
+    });
+  });
+
+  it('raises the tier two steps for default history, capped at the riskiest', async () => {
+    const bueno = await scoredUser(85);
+    await UserAccountsService.markAsDefaulter(bueno);
+    expect((await riskPricing().assessRisk(bueno)).nivel_riesgo).toBe(RiskTier.HIGH);
+
+    const malo = await scoredUser(55);
+    await UserAccountsService.markAsDefaulter(malo);
+    expect((await riskPricing().assessRisk(malo)).nivel_riesgo).toBe(RiskTier.VERY_HIGH);
+  });
+
+  it('raises the tier one step each for a young account and a high debt-to-income ratio', async () => {
+    const userId = await scoredUser(85);
+    expect((await riskPricing(30).assessRisk(userId)).nivel_riesgo).toBe(RiskTier.MEDIUM);
+
+    // 360.000 over 6 installments against an income of 100.000
+    await createTestCredit(userId, { monto: ars(300000), cuotas: 6, estado: CreditStatus.IN_PROGRESS });
+    expect(await riskPricing().getDebtToIncomeRatio(userId)).toBe(60);
+
+    const evaluacion = await riskPricing(30).assessRisk(userId);
+    expect(evaluacion).toMatchObject({ nivel_riesgo: RiskTier.HIGH, ratio_deuda_ingresos: 60 });
+    expect(evaluacion.factores).toHaveLength(3);
+  });
+});
@@ -0,0 +1,111 @@
+import { Money, RiskAssessment, RiskTier, RiskTierPolicy, ScoreCategory } from '@/types/index.js';
+import { config } from '@/config/config.js';
+import { repositories, ICreditsRepository, IUserAccountsRepository } from '@/repositories/index.js';
+import { NotFoundError } from '@/errors/AppError.js';
+import { daysBetween, getScoreCategory } from '@/utils/helpers.js';
+
+// From lowest to highest risk; raising a tier moves one step right
+const TIER_ORDER = [RiskTier.LOW, RiskTier.MEDIUM, RiskTier.HIGH, RiskTier.VERY_HIGH];
+
+const SCORE_TIERS: Record<ScoreCategory, RiskTier> = {
+  Excellent: RiskTier.LOW,
+  'Very Good': RiskTier.LOW,
+  Good: RiskTier.MEDIUM,
+  Fair: RiskTier.HIGH,
+  Poor: RiskTier.VERY_HIGH,
+};
+
+const DEFAULT_POLICIES: Record<RiskTier, RiskTierPolicy> = {
+  [RiskTier.LOW]: {
+    spreadTEA: config.riskPricing.lowSpreadTEA,
+    maxAmount: Money.fromDecimal(config.riskPricing.lowMaxAmount),
+  },
+  [RiskTier.MEDIUM]: {
+    spreadTEA: config.riskPricing.mediumSpreadTEA,
+    maxAmount: Money.fromDecimal(config.riskPricing.mediumMaxAmount),
+  },
+  [RiskTier.HIGH]: {
+    spreadTEA: config.riskPricing.highSpreadTEA,
+    maxAmount: Money.fromDecimal(config.riskPricing.highMaxAmount),
+  },
+  [RiskTier.VERY_HIGH]: {
+    spreadTEA: config.riskPricing.veryHighSpreadTEA,
+    maxAmount: Money.fromDecimal(config.riskPricing.veryHighMaxAmount),
+  },
+};
+
+/**
+ * Risk-based pricing for quick and normal credits. The external score sets the starting tier
+ * (medium without one); default history raises it two tiers, and a young account or a high
+ * debt-to-income ratio one tier each. The tier adds a spread to the rate table's TEA and caps
+ * the amount.
+ */
+export class RiskPricingService {
+  constructor(
+    private userAccountsRepository: IUserAccountsRepository = repositories.userAccounts,
+    private creditsRepository: ICreditsRepository = repositories.credits,
+    private policies: Record<RiskTier, RiskTierPolicy> = DEFAULT_POLICIES,
+    private minAccountAgeDays: number = config.riskPricing.minAccountAgeDays,
+    private maxDebtToIncome: number = config.riskPricing.maxDebtToIncome
+  ) {}
+
+  async assessRisk(userId: string): Promise<RiskAssessment> {
+    const account = await this.userAccountsRepository.findByUserId(userId);
+    if (!account) {
+      throw new NotFoundError(`User account ${userId} not found`);
+    }
+
+    const factores: string[] = [];
+    const categoria = account.score_externo === null ? null : getScoreCategory(account.score_externo);
+    let nivel = categoria ? TIER_ORDER.indexOf(SCORE_TIERS[categoria]) : TIER_ORDER.indexOf(RiskTier.MEDIUM);
+    factores.push(categoria ? `External score ${account.score_externo} (${categoria})` : 'No external score');
+
+    if (account.historial_mora) {
+      nivel += 2;
+      factores.push('Default history: +2 tiers');
+    }
+
+    const antiguedad = daysBetween(new Date(account.fecha_registro), new Date());
+    if (antiguedad < this.minAccountAgeDays) {
+      nivel += 1;
+      factores.push(`Account is ${antiguedad} days old (under ${this.minAccountAgeDays}): +1 tier`);
+    }
+
+    const ratio = await this.getDebtToIncomeRatio(userId);
+    if (ratio > this.maxDebtToIncome) {
+      nivel += 1;
+      factores.push(`Debt-to-income ratio of ${ratio.toFixed(2)}% (over ${this.maxDebtToIncome}%): +1 tier`);
+    }
+
+    const tier = TIER_ORDER[Math.min(nivel, TIER_ORDER.length - 1)];
+    const policy = this.policies[tier];
+    return {
+      nivel_riesgo: tier,
+      score_externo: account.score_externo,
+      categoria_score: categoria,
+      historial_mora: account.historial_mora,
+      antiguedad_dias: antiguedad,
+      ratio_deuda_ingresos: Math.round(ratio * 100) / 100,
+      spread_tea: policy.spreadTEA,
+      monto_maximo: policy.maxAmount,
+      factores,
+    };
+  }
+
+  /**
+   * Monthly installments of the user's active credits as a percentage of the declared income
+   */
+  async getDebtToIncomeRatio(userId: string): Promise<number> {
+    const activeCredits = await this.creditsRepository.getActiveCreditsByUser(userId);
+    const totalMonthlyDebt = Money.sum(
+      activeCredits.map((credit) => credit.monto_total.allocate(credit.cuotas || 1)[0])
+    );
+
+    const income = await this.userAccountsRepository.getDeclaredIncome(userId);
+    if (!income || income.isZero()) return 0;
+
+    return (totalMonthlyDebt.centavos / income.centavos) * 100;
+  }
+}
+
+export default new RiskPricingService();
@@ -1,6 +1,9 @@
-import { Comprobante, ComprobanteDetail, Transfer, TransferStatus } from '@/types/index.js';
-import TransfersRepository from '@/repositories/TransfersRepository.js';
-import BankingAPI from '@/services/BankingAPI.js';
+import { Comprobante, ComprobanteDetail, Currency, Money, Transfer, TransferStatus } from '@/types/index.js';
+import { repositories, ITransfersRepository } from '@/repositories/index.js';
+import BankingAPI, { BankingAPI as BankingAPIClass } from '@/services/BankingAPI.js';
+import CurrencyExchangeService, {
+  CurrencyExchangeService as CurrencyExchangeServiceClass,
+} from '@/services/CurrencyExchangeService.js';
 import { ValidationError, NotFoundError } from '@/errors/AppError.js';
 import { v4 as uuidv4 } from 'uuid';
 import PDFDocument from 'pdfkit';
@@ -9,8 +12,11 @@ import fs from 'fs';
 import path from 'path';
 
 export class TransfersService {
-  private transfersRepository = TransfersRepository;
-  private bankingAPI = BankingAPI;
+  constructor(
+    private transfersRepository: ITransfersRepository = repositories.transfers,
+    private bankingAPI: BankingAPIClass = BankingAPI,
+    private currencyExchangeService: CurrencyExchangeServiceClass = CurrencyExchangeService
+  ) {}
 
   /**
    * Get transfer detail with validation
@@ -103,7 +109,7 @@ export class TransfersService {
         doc.moveDown();
 
         // Amount Section
-        doc.fontSize(14).font('Helvetica-Bold').text(`Amount: $${comprobanteDetail.monto.toFixed(2)}`, {
+        doc.fontSize(14).font('Helvetica-Bold').text(`Amount: ${comprobanteDetail.monto}`, {
           align: 'center',
         });
         doc.moveDown();
@@ -256,6 +262,7 @@ export class TransfersService {
       numero_comprobante: comprobante.numero_comprobante,
       fecha_hora: comprobante.fecha_hora,
       monto: comprobante.monto,
+      moneda: comprobante.monto.moneda,
       remitente_alias: transfer.comprobante_json?.remitente_alias || 'Wallet Account',
       destinatario_alias: comprobante.destinatario_alias,
       destinatario_cbu: comprobante.destinatario_cbu,
@@ -278,13 +285,16 @@ export class TransfersService {
   }
 
   /**
-   * Get total transfer amount for today for a user
+   * Get total transfer amount for today for a user, in pesos (other currencies at the reference rate)
    */
-  async getDailyTransferTotal(usuarioId: string): Promise<number> {
+  async getDailyTransferTotal(usuarioId: string): Promise<Money> {
     const transfers = await this.transfersRepository.getTransfersByUserIdAndDate(usuarioId, new Date());
-    return transfers
-      .filter(transfer => transfer.estado === TransferStatus.ACREDITADA)
-      .reduce((sum, transfer) => sum + transfer.monto, 0);
+    return Money.sum(
+      transfers
+        .filter(transfer => transfer.estado === TransferStatus.ACREDITADA)
+        .map(transfer => this.currencyExchangeService.valueIn(transfer.monto, Currency.ARS)),
+      Currency.ARS
+    );
   }
 
   /**
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { UnitOfWork } from './UnitOfWork.js';
+
+describe('UnitOfWork', () => {
+  it('runs the after-commit actions only once the work succeeds', async () => {
+    const pasos: string[] = [];
+
+    const resultado = await UnitOfWork.run(async (uow) => {
+      uow.afterCommit('audit', async () => pasos.push('audit'));
+      await uow.step('debit', async () => pasos.push('debit'));
+      return 'ok';
+    });
+
+    expect(resultado).toBe('ok');
+    expect(pasos).toEqual(['debit', 'audit']);
+  });
+
+  it('compensates the completed steps in reverse order and rethrows', async () => {
+    const pasos: string[] = [];
+
+    await expect(
+      UnitOfWork.run(async (uow) => {
+        uow.afterCommit('audit', async () => pasos.push('audit'));
+        await uow.step('debit', async () => pasos.push('debit'), async () => pasos.push('undo debit'));
+        await uow.step('credit', async () => pasos.push('credit'), async () => pasos.push('undo credit'));
+        throw new Error('receipt failed');
+      })
+    ).rejects.toThrow('receipt failed');
+
+    expect(pasos).toEqual(['debit', 'credit', 'undo credit', 'undo debit']);
+  });
+
+  it('does not register the compensation of a step that failed', async () => {
+    const pasos: string[] = [];
+
+    await expect(
+      UnitOfWork.run(async (uow) => {
+        await uow.step('debit', async () => pasos.push('debit'), async () => pasos.push('undo debit'));
+        await uow.step(
+          'credit',
+          async () => {
+            throw new Error('declined');
+          },
+          async () => pasos.push('undo credit')
+        );
+      })
+    ).rejects.toThrow('declined');
+
+    expect(pasos).toEqual(['debit', 'undo debit']);
+  });
+
+  it('keeps compensating when one compensation fails', async () => {
+    const pasos: string[] = [];
+
+    await expect(
+      UnitOfWork.run(async (uow) => {
+        uow.onRollback('first', async () => pasos.push('undo first'));
+        uow.onRollback('second', async () => {
+          throw new Error('undo failed');
+        });
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(pasos).toEqual(['undo first']);
+  });
+
+  it('rejects new steps once finished', async () => {
+    const uow = new UnitOfWork();
+    await uow.commit();
+
+    expect(() => uow.afterCommit('late', async () => undefined)).toThrow('Unit of work already finished');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Groups several steps of a business operation so they succeed or fail together.
+ * Each step may register a compensation; when any later step fails, the registered
+ * compensations run in reverse order (e.g. posting reversal entries for ledger movements).
+ */
+export class UnitOfWork {
+  private compensations: { descripcion: string; undo: () => Promise<unknown> }[] = [];
+  private commitActions: { descripcion: string; action: () => Promise<unknown> }[] = [];
+  private finished = false;
+
+  /**
+   * Run a unit of work: commit when `work` resolves, roll back and rethrow when it fails
+   */
+  static async run<T>(work: (uow: UnitOfWork) => Promise<T>): Promise<T> {
+    const uow = new UnitOfWork();
+    try {
+      const result = await work(uow);
+      await uow.commit();
+      return result;
+    } catch (error) {
+      await uow.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Register how to undo something that has already been done
+   */
+  onRollback(descripcion: string, undo: () => Promise<unknown>): void {
+    if (this.finished) {
+      throw new Error('Unit of work already finished');
+    }
+    this.compensations.push({ descripcion, undo });
+  }
+
+  /**
+   * Execute a step and register its compensation once it has succeeded
+   */
+  async step<T>(descripcion: string, action: () => Promise<T>, undo?: (result: T) => Promise<unknown>): Promise<T> {
+    const result = await action();
+    if (undo) {
+      this.onRollback(descripcion, () => undo(result));
+    }
+    return result;
+  }
+
+  /**
+   * Run something only once the whole unit of work has succeeded (e.g. audit records)
+   */
+  afterCommit(descripcion: string, action: () => Promise<unknown>): void {
+    if (this.finished) {
+      throw new Error('Unit of work already finished');
+    }
+    this.commitActions.push({ descripcion, action });
+  }
+
+  async commit(): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+    this.compensations = [];
+
+    const pending = this.commitActions;
+    this.commitActions = [];
+
+    for (const { descripcion, action } of pending) {
+      try {
+        await action();
+      } catch (error) {
+        // The business operation already succeeded; a failed follow-up must not undo it
+        console.error(`After-commit step failed (${descripcion}):`, error);
+      }
+    }
+  }
+
+  async rollback(): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+
+    const pending = this.compensations.reverse();
+    this.compensations = [];
+    this.commitActions = [];
+
+    for (const compensation of pending) {
+      try {
+        await compensation.undo();
+      } catch (error) {
+        // Keep compensating the remaining steps; the ledger reconciliation will flag the gap
+        console.error(`Rollback step failed (${compensation.descripcion}):`, error);
+      }
+    }
+  }
+}
@@ -1,10 +1,33 @@
-import { UserAccount, KYCDocument, KYCStatus, PasswordResetToken } from '@/types/index.js';
-import UserAccountsRepository from '@/repositories/UserAccountsRepository.js';
+import {
+  UserAccount,
+  KYCDocument,
+  KYCStatus,
+  PasswordResetToken,
+  Money,
+  Currency,
+  CurrencyBalance,
+  CurrencyConversion,
+  AuditContext,
+  AuditEventType,
+} from '@/types/index.js';
+import { repositories, IUserAccountsRepository } from '@/repositories/index.js';
+import LedgerService, { LedgerService as LedgerServiceClass } from './LedgerService.js';
+import CurrencyExchangeService, {
+  CurrencyExchangeService as CurrencyExchangeServiceClass,
+} from './CurrencyExchangeService.js';
+import AuditService, { AuditService as AuditServiceClass, SYSTEM_AUDIT_CONTEXT } from './AuditService.js';
+import CreditLimitService, { CreditLimitService as CreditLimitServiceClass } from './CreditLimitService.js';
 import { NotFoundError, ValidationError, UnauthorizedError } from '@/errors/AppError.js';
 import crypto from 'crypto';
 
 export class UserAccountsService {
-  private userAccountsRepository = UserAccountsRepository;
+  constructor(
+    private userAccountsRepository: IUserAccountsRepository = repositories.userAccounts,
+    private ledgerService: LedgerServiceClass = LedgerService,
+    private currencyExchangeService: CurrencyExchangeServiceClass = CurrencyExchangeService,
+    private auditService: AuditServiceClass = AuditService,
+    private creditLimitService: CreditLimitServiceClass = CreditLimitService
+  ) {}
 
   /**
    * Hash password using SHA-256 with salt
@@ -43,105 +66,143 @@ export class UserAccountsService {
     return account;
   }
 
-  async createUserAccount(userId: string): Promise<UserAccount> {
+  async createUserAccount(userId: string, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<UserAccount> {
     // Check if account already exists
     const existingAccount = await this.userAccountsRepository.findByUserId(userId);
     if (existingAccount) {
       throw new ValidationError(`User account ${userId} already exists`);
     }
 
-    return this.userAccountsRepository.create({
+    const account = await this.userAccountsRepository.create({
       usuario_id: userId,
       kyc_completo: false,
       fecha_registro: new Date(),
-      saldo_disponible: 0,
       ingresos_declarados: null,
       historial_mora: false,
       score_externo: null,
       bloqueado: false,
       intentos_fallidos: 0,
     });
-  }
-
-  async updateAccountBalance(userId: string, amount: number): Promise<UserAccount> {
-    const account = await this.getUserAccount(userId);
-
-    if (amount < 0) {
-      throw new ValidationError('Balance amount cannot be negative');
-    }
 
-    return this.userAccountsRepository.updateBalance(userId, amount);
+    await this.auditService.record(contexto, {
+      tipo_evento: AuditEventType.ACCOUNT_CREATED,
+      usuario_id: userId,
+      despues: account,
+    });
+    return account;
   }
 
-  async addFunds(userId: string, amount: number): Promise<UserAccount> {
-    const account = await this.getUserAccount(userId);
+  /**
+   * Deposit funds into the wallet of the amount's currency. Recorded as a funding journal entry.
+   */
+  async addFunds(userId: string, amount: Money, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<UserAccount> {
+    const before = await this.getUserAccount(userId);
 
-    if (amount <= 0) {
+    if (!amount.isPositive()) {
       throw new ValidationError('Amount to add must be greater than 0');
     }
 
-    const newBalance = account.saldo_disponible + amount;
-    return this.userAccountsRepository.updateBalance(userId, newBalance);
-  }
-
-  async removeFunds(userId: string, amount: number): Promise<UserAccount> {
-    const account = await this.getUserAccount(userId);
+    const posting = await this.ledgerService.recordFunding(userId, amount);
+    const after = await this.getUserAccount(userId);
 
-    if (amount <= 0) {
-      throw new ValidationError('Amount to remove must be greater than 0');
-    }
-
-    if (account.saldo_disponible < amount) {
-      throw new ValidationError(
-        `Insufficient balance. Available: ${account.saldo_disponible}, Required: ${amount}`
-      );
-    }
+    await this.auditService.record(contexto, {
+      tipo_evento: AuditEventType.FUNDS_ADDED,
+      usuario_id: userId,
+      antes: before,
+      despues: after,
+      detalles: { monto: amount, moneda: amount.moneda, id_asiento: posting.asiento.id_asiento },
+    });
+    return after;
+  }
 
-    const newBalance = account.saldo_disponible - amount;
-    return this.userAccountsRepository.updateBalance(userId, newBalance);
+  async getBalance(userId: string, moneda: Currency = Currency.ARS): Promise<Money> {
+    return this.userAccountsRepository.getBalance(userId, moneda);
   }
 
-  async getBalance(userId: string): Promise<number> {
-    return this.userAccountsRepository.getBalance(userId);
+  /**
+   * Balance of every currency wallet, ARS first
+   */
+  async getBalances(userId: string): Promise<CurrencyBalance[]> {
+    const account = await this.getUserAccount(userId);
+    return listBalances(account);
   }
 
-  async completeKYC(userId: string): Promise<UserAccount> {
-    return this.userAccountsRepository.update(userId, {
-      kyc_completo: true,
+  /**
+   * Convert part of one currency balance into another at the reference rate
+   */
+  async convertCurrency(
+    userId: string,
+    amount: Money,
+    to: Currency,
+    contexto: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<CurrencyConversion> {
+    const before = await this.getUserAccount(userId);
+    const conversion = await this.currencyExchangeService.convert(userId, amount, to);
+
+    await this.auditService.record(contexto, {
+      tipo_evento: AuditEventType.CURRENCY_CONVERTED,
+      usuario_id: userId,
+      antes: before,
+      despues: await this.getUserAccount(userId),
+      detalles: { conversion },
     });
+    return conversion;
   }
 
-  async declareIncome(userId: string, income: number): Promise<UserAccount> {
-    if (income <= 0) {
+  async completeKYC(userId: string, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<UserAccount> {
+    return this.updateAudited(userId, { kyc_completo: true }, AuditEventType.KYC_COMPLETED, contexto);
+  }
+
+  async declareIncome(
+    userId: string,
+    income: Money,
+    contexto: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<UserAccount> {
+    if (!income.isPositive()) {
       throw new ValidationError('Income must be greater than 0');
     }
 
-    return this.userAccountsRepository.update(userId, {
-      ingresos_declarados: income,
-    });
+    const account = await this.updateAudited(
+      userId,
+      { ingresos_declarados: income },
+      AuditEventType.INCOME_DECLARED,
+      contexto
+    );
+    await this.creditLimitService.scheduleRecompute(userId, 'Income declared');
+    return account;
   }
 
-  async setExternalScore(userId: string, score: number): Promise<UserAccount> {
+  async setExternalScore(
+    userId: string,
+    score: number,
+    contexto: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<UserAccount> {
     if (score < 0 || score > 100) {
       throw new ValidationError('Score must be between 0 and 100');
     }
 
-    return this.userAccountsRepository.update(userId, {
-      score_externo: score,
-    });
+    return this.updateAudited(userId, { score_externo: score }, AuditEventType.SCORE_UPDATED, contexto);
   }
 
-  async markAsDefaulter(userId: string): Promise<UserAccount> {
-    return this.userAccountsRepository.update(userId, {
-      historial_mora: true,
-    });
+  async markAsDefaulter(userId: string, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<UserAccount> {
+    const account = await this.getUserAccount(userId);
+    if (account.historial_mora) return account;
+
+    const marked = await this.updateAudited(
+      userId,
+      { historial_mora: true },
+      AuditEventType.ACCOUNT_MARKED_DEFAULTER,
+      contexto
+    );
+    await this.creditLimitService.scheduleRecompute(userId, 'Marked as defaulter');
+    return marked;
   }
 
   async verifyEligibilityRequirements(userId: string): Promise<{
     kycCompleted: boolean;
     accountAgeDays: number;
     hasDefaultHistory: boolean;
-    balance: number;
+    balance: Money;
   }> {
     const account = await this.getUserAccount(userId);
 
@@ -153,12 +214,16 @@ export class UserAccountsService {
       kycCompleted: account.kyc_completo,
       accountAgeDays,
       hasDefaultHistory: account.historial_mora,
-      balance: account.saldo_disponible,
+      balance: account.saldos[Currency.ARS],
     };
   }
 
   // Password and Security Methods
-  async validateCredentials(userId: string, password: string): Promise<boolean> {
+  async validateCredentials(
+    userId: string,
+    password: string,
+    contexto: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<boolean> {
     try {
       const isBlocked = await this.userAccountsRepository.isAccountBlocked(userId);
       if (isBlocked) {
@@ -174,7 +239,15 @@ export class UserAccountsService {
 
       if (!isValid) {
         // Record failed login attempt
-        await this.userAccountsRepository.recordFailedLoginAttempt(userId);
+        const account = await this.userAccountsRepository.recordFailedLoginAttempt(userId);
+        if (account.bloqueado) {
+          await this.auditService.record(contexto, {
+            tipo_evento: AuditEventType.ACCOUNT_BLOCKED,
+            usuario_id: userId,
+            despues: account,
+            detalles: { motivo: 'intentos_fallidos', intentos_fallidos: account.intentos_fallidos },
+          });
+        }
         throw new UnauthorizedError('Invalid credentials');
       }
 
@@ -220,12 +293,30 @@ export class UserAccountsService {
     return this.userAccountsRepository.createPasswordResetToken(userId);
   }
 
-  async blockAccount(userId: string): Promise<UserAccount> {
-    return this.userAccountsRepository.blockAccount(userId);
+  async blockAccount(userId: string, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<UserAccount> {
+    const before = await this.getUserAccount(userId);
+    const account = await this.userAccountsRepository.blockAccount(userId);
+
+    await this.auditService.record(contexto, {
+      tipo_evento: AuditEventType.ACCOUNT_BLOCKED,
+      usuario_id: userId,
+      antes: before,
+      despues: account,
+    });
+    return account;
   }
 
-  async unblockAccount(userId: string): Promise<UserAccount> {
-    return this.userAccountsRepository.unblockAccount(userId);
+  async unblockAccount(userId: string, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<UserAccount> {
+    const before = await this.getUserAccount(userId);
+    const account = await this.userAccountsRepository.unblockAccount(userId);
+
+    await this.auditService.record(contexto, {
+      tipo_evento: AuditEventType.ACCOUNT_UNBLOCKED,
+      usuario_id: userId,
+      antes: before,
+      despues: account,
+    });
+    return account;
   }
 
   async isAccountBlocked(userId: string): Promise<boolean> {
@@ -264,7 +355,7 @@ export class UserAccountsService {
     return this.userAccountsRepository.getKYCDocuments(userId);
   }
 
-  async approveKYC(userId: string): Promise<UserAccount> {
+  async approveKYC(userId: string, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<UserAccount> {
     // Verify user has uploaded required documents
     const documentos = await this.getKYCDocuments(userId);
     const hasDNI = documentos.some((d) => d.tipo_documento === 'dni');
@@ -274,20 +365,38 @@ export class UserAccountsService {
       throw new ValidationError('User must upload DNI and selfie photos for KYC approval');
     }
 
+    const before = await this.getUserAccount(userId);
     const account = await this.userAccountsRepository.updateKYCStatus(userId, KYCStatus.APROBADO);
 
     // Update transfer limits for KYC-approved users
-    await this.userAccountsRepository.updateTransferLimit(userId, 50000);
+    const updated = await this.userAccountsRepository.updateTransferLimit(userId, Money.fromDecimal(50000));
 
+    await this.auditService.record(contexto, {
+      tipo_evento: AuditEventType.KYC_APPROVED,
+      usuario_id: userId,
+      antes: before,
+      despues: updated,
+      detalles: { documentos: documentos.map((d) => d.id_documento) },
+    });
     return account;
   }
 
-  async rejectKYC(userId: string, motivo: string): Promise<UserAccount> {
+  async rejectKYC(userId: string, motivo: string, contexto: AuditContext = SYSTEM_AUDIT_CONTEXT): Promise<UserAccount> {
     if (!motivo || motivo.trim() === '') {
       throw new ValidationError('Rejection reason is required');
     }
 
-    return this.userAccountsRepository.updateKYCStatus(userId, KYCStatus.RECHAZADO, motivo);
+    const before = await this.getUserAccount(userId);
+    const account = await this.userAccountsRepository.updateKYCStatus(userId, KYCStatus.RECHAZADO, motivo);
+
+    await this.auditService.record(contexto, {
+      tipo_evento: AuditEventType.KYC_REJECTED,
+      usuario_id: userId,
+      antes: before,
+      despues: account,
+      detalles: { motivo },
+    });
+    return account;
   }
 
   async getKYCStatus(userId: string): Promise<KYCStatus | null> {
@@ -296,17 +405,58 @@ export class UserAccountsService {
     return this.userAccountsRepository.getKYCStatus(userId);
   }
 
-  async updateTransferLimit(userId: string, limite: number): Promise<UserAccount> {
-    if (limite <= 0) {
+  async updateTransferLimit(
+    userId: string,
+    limite: Money,
+    contexto: AuditContext = SYSTEM_AUDIT_CONTEXT
+  ): Promise<UserAccount> {
+    if (!limite.isPositive()) {
       throw new ValidationError('Transfer limit must be greater than 0');
     }
 
-    return this.userAccountsRepository.updateTransferLimit(userId, limite);
+    const before = await this.getUserAccount(userId);
+    const account = await this.userAccountsRepository.updateTransferLimit(userId, limite);
+
+    await this.auditService.record(contexto, {
+      tipo_evento: AuditEventType.TRANSFER_LIMIT_CHANGED,
+      usuario_id: userId,
+      antes: before,
+      despues: account,
+    });
+    return account;
   }
 
-  async getTransferLimit(userId: string): Promise<number> {
+  async getTransferLimit(userId: string): Promise<Money> {
     return this.userAccountsRepository.getTransferLimit(userId);
   }
+
+  /**
+   * Update account fields and record the change with before/after snapshots
+   */
+  private async updateAudited(
+    userId: string,
+    updates: Partial<Omit<UserAccount, 'saldos'>>,
+    tipoEvento: AuditEventType,
+    contexto: AuditContext
+  ): Promise<UserAccount> {
+    const before = await this.getUserAccount(userId);
+    const account = await this.userAccountsRepository.update(userId, updates);
+
+    await this.auditService.record(contexto, {
+      tipo_evento: tipoEvento,
+      usuario_id: userId,
+      antes: before,
+      despues: account,
+    });
+    return account;
+  }
+}
+
+/**
+ * Per-currency balances of an account, in Currency declaration order
+ */
+export function listBalances(account: UserAccount): CurrencyBalance[] {
+  return Object.values(Currency).map((moneda) => ({ moneda, saldo_disponible: account.saldos[moneda] }));
 }
 
 export default new UserAccountsService();
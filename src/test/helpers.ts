@@ -0,0 +1,106 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AmortizationSystem,
+  Credit,
+  CreditStatus,
+  CreditType,
+  Installment,
+  InstallmentStatus,
+  Money,
+} from '@/types/index.js';
+import repositories from '@/repositories/index.js';
+import UserAccountsService from '@/services/UserAccountsService.js';
+import AmortizationService from '@/services/AmortizationService.js';
+
+/**
+ * Shared setup for the specs. They run against the default service instances on the in-memory
+ * storage driver, so each spec works with users of its own instead of resetting the store.
+ */
+
+export interface TestUserOptions {
+  fondos?: Money;
+  kyc?: boolean;
+  ingresos?: Money;
+}
+
+/**
+ * Create an account with a fresh usuario_id, optionally funded, KYC-approved and with a
+ * declared income
+ */
+export async function createTestUser(opciones: TestUserOptions = {}): Promise<string> {
+  const userId = uuidv4();
+  await UserAccountsService.createUserAccount(userId);
+
+  if (opciones.kyc) await UserAccountsService.completeKYC(userId);
+  if (opciones.ingresos) await UserAccountsService.declareIncome(userId, opciones.ingresos);
+  if (opciones.fondos) await UserAccountsService.addFunds(userId, opciones.fondos);
+  return userId;
+}
+
+export interface TestCreditOptions {
+  monto?: Money;
+  estado?: CreditStatus;
+  cuotas?: number;
+  fecha_desembolso?: Date;
+}
+
+/**
+ * Store a credit straight in the repository, skipping the quote: specs that start from a
+ * given status do not depend on the rate tables
+ */
+export async function createTestCredit(userId: string, opciones: TestCreditOptions = {}): Promise<Credit> {
+  const monto = opciones.monto ?? ars(30000);
+  const cuotas = opciones.cuotas ?? 6;
+  return repositories.credits.createCredit({
+    usuario_id: userId,
+    tipo_credito: CreditType.NORMAL,
+    monto_solicitado: monto,
+    monto_total: monto.percentage(120),
+    plazo_dias: cuotas * 30,
+    tasa_tea: 80,
+    tasa_tna: 60,
+    tasa_cft: 110,
+    tasa_cft_tna: 75,
+    estado: opciones.estado ?? CreditStatus.PREAPPROVED,
+    fecha_desembolso: opciones.fecha_desembolso ?? null,
+    fecha_vencimiento: new Date(Date.now() + cuotas * 30 * 86_400_000),
+    cuotas,
+    sistema_amortizacion: AmortizationSystem.FRENCH,
+    id_tabla_tasas: 'tabla-1',
+    nivel_riesgo: null,
+  });
+}
+
+/**
+ * Store the credit's French schedule, lent on `fechaInicio`, with every installment pending
+ */
+export async function createTestInstallments(credit: Credit, fechaInicio: Date = new Date()): Promise<Installment[]> {
+  const plan = AmortizationService.buildSchedule(
+    AmortizationSystem.FRENCH,
+    credit.monto_solicitado,
+    credit.tasa_tea,
+    credit.cuotas,
+    Money.zero(),
+    fechaInicio
+  );
+  return repositories.credits.createInstallmentPlan(
+    credit.id_credito,
+    plan.map((cuota) => ({
+      id_credito: credit.id_credito,
+      nro_cuota: cuota.nro_cuota,
+      importe_cuota: cuota.importe,
+      capital: cuota.capital,
+      interes: cuota.interes,
+      iva: cuota.iva,
+      gastos: cuota.gastos,
+      saldo_restante: cuota.saldo_restante,
+      fecha_vencimiento: cuota.fecha_vencimiento,
+      estado: InstallmentStatus.PENDING,
+      fecha_pago: null,
+    }))
+  );
+}
+
+export function ars(amount: number): Money {
+  return Money.fromDecimal(amount);
+}
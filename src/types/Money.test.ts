@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { CurrencyMismatchError, ValidationError } from '@/errors/AppError.js';
+import { Currency, Money, parseCurrency } from './Money.js';
+
+describe('Money', () => {
+  it('parses decimals into exact cents and rejects finer amounts', () => {
+    expect(Money.fromDecimal(0.1).add(Money.fromDecimal(0.2)).centavos).toBe(30);
+    expect(Money.fromDecimal('1234.5').centavos).toBe(123450);
+    expect(Money.fromDecimal('-0.07').centavos).toBe(-7);
+    expect(Money.fromDecimal('10.500').centavos).toBe(1050);
+
+    expect(() => Money.fromDecimal(10.005)).toThrow(ValidationError);
+    expect(() => Money.fromDecimal('10.005')).toThrow(ValidationError);
+    expect(() => Money.fromDecimal('1e3')).toThrow(ValidationError);
+    expect(() => Money.fromDecimal(Number.NaN)).toThrow(ValidationError);
+  });
+
+  it('rounds computed amounts with the requested mode', () => {
+    const monto = Money.fromCents(1005);
+
+    expect(monto.multiply(0.5).centavos).toBe(503);
+    expect(monto.multiply(0.5, 'half_even').centavos).toBe(502);
+    expect(monto.multiply(0.5, 'down').centavos).toBe(502);
+    expect(Money.fromCents(1001).multiply(0.5, 'up').centavos).toBe(501);
+    expect(Money.fromCents(-1005).multiply(0.5).centavos).toBe(-503);
+    expect(Money.fromDecimal(1000).percentage(21).centavos).toBe(21000);
+  });
+
+  it('allocates without losing or creating cents', () => {
+    const partes = Money.fromDecimal(100).allocate(3);
+
+    expect(partes.map((p) => p.centavos)).toEqual([3334, 3333, 3333]);
+    expect(Money.sum(partes)).toEqual(Money.fromDecimal(100));
+    expect(Money.fromCents(-5).allocate(2).map((p) => p.centavos)).toEqual([-3, -2]);
+    expect(() => Money.fromDecimal(1).allocate(0)).toThrow(ValidationError);
+  });
+
+  it('refuses to mix currencies outside an explicit conversion', () => {
+    const pesos = Money.fromDecimal(1000);
+    const dolares = Money.fromDecimal(1, Currency.USD);
+
+    expect(() => pesos.add(dolares)).toThrow(CurrencyMismatchError);
+    expect(() => pesos.greaterThan(dolares)).toThrow(CurrencyMismatchError);
+    expect(pesos.equals(Money.fromDecimal(1000, Currency.USD))).toBe(false);
+
+    expect(pesos.convert(Currency.USD, 1 / 1050)).toEqual(Money.fromDecimal(0.95, Currency.USD));
+    expect(() => pesos.convert(Currency.USD, 0)).toThrow(ValidationError);
+  });
+
+  it('serializes as a decimal and formats with its currency', () => {
+    expect(JSON.stringify({ monto: Money.fromCents(123450) })).toBe('{"monto":1234.5}');
+    expect(Money.fromCents(-5, Currency.USD).toString()).toBe('USD -0.05');
+  });
+
+  it('parses currency codes case-insensitively with a fallback', () => {
+    expect(parseCurrency('usd')).toBe(Currency.USD);
+    expect(parseCurrency(undefined)).toBe(Currency.ARS);
+    expect(() => parseCurrency('EUR')).toThrow(ValidationError);
+  });
+});
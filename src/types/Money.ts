@@ -0,0 +1,232 @@
+import { CurrencyMismatchError, ValidationError } from '@/errors/AppError.js';
+
+export enum Currency {
+  ARS = 'ARS',
+  USD = 'USD',
+}
+
+export type RoundingMode = 'half_up' | 'half_even' | 'down' | 'up';
+
+const CENTS_PER_UNIT = 100;
+
+/**
+ * Monetary amount held as an integer number of minor units (centavos) of one currency.
+ * Arithmetic and comparisons between different currencies throw CurrencyMismatchError;
+ * moving value across currencies requires an explicit conversion.
+ *
+ * Rounding rules:
+ * - Amounts received from clients or storage (`fromDecimal`) must have at most two decimals;
+ *   finer values are rejected instead of silently rounded.
+ * - Computed amounts (`multiply`, `percentage`) are rounded to the cent with an explicit
+ *   mode, half-up (away from zero) by default.
+ * - Splitting an amount (`allocate`) never rounds: leftover cents go to the first parts,
+ *   so the parts always add up exactly to the original amount.
+ *
+ * Serializes to JSON as a decimal number (1234.5), so API payloads keep their shape;
+ * responses carry the currency in a separate `moneda` field.
+ */
+export class Money {
+  private constructor(
+    readonly centavos: number,
+    readonly moneda: Currency
+  ) {}
+
+  static fromCents(centavos: number, moneda: Currency = Currency.ARS): Money {
+    if (!Number.isSafeInteger(centavos)) {
+      throw new ValidationError(`Invalid amount in cents: ${centavos}`);
+    }
+    return new Money(centavos === 0 ? 0 : centavos, moneda);
+  }
+
+  /**
+   * Parse a decimal amount (e.g. 1234.56 or "1234.56") without rounding
+   */
+  static fromDecimal(value: number | string, moneda: Currency = Currency.ARS): Money {
+    if (typeof value === 'string') {
+      const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(value.trim());
+      if (!match || /[1-9]/.test((match[3] || '').slice(2))) {
+        throw new ValidationError(`Invalid amount: ${value}`);
+      }
+      const [, sign, units, decimals = ''] = match;
+      const centavos = Number(units) * CENTS_PER_UNIT + Number(decimals.slice(0, 2).padEnd(2, '0'));
+      return Money.fromCents(sign ? -centavos : centavos, moneda);
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new ValidationError(`Invalid amount: ${value}`);
+    }
+
+    const scaled = value * CENTS_PER_UNIT;
+    const centavos = Math.round(scaled);
+    if (Math.abs(scaled - centavos) > 1e-6) {
+      throw new ValidationError(`Amount ${value} has more than two decimals`);
+    }
+    return Money.fromCents(centavos, moneda);
+  }
+
+  static zero(moneda: Currency = Currency.ARS): Money {
+    return new Money(0, moneda);
+  }
+
+  /**
+   * Add up amounts of one currency (`moneda` is only needed for an empty list)
+   */
+  static sum(amounts: Money[], moneda: Currency = amounts[0]?.moneda ?? Currency.ARS): Money {
+    return amounts.reduce((total, amount) => total.add(amount), Money.zero(moneda));
+  }
+
+  static max(...amounts: Money[]): Money {
+    return amounts.reduce((a, b) => (b.greaterThan(a) ? b : a));
+  }
+
+  static min(...amounts: Money[]): Money {
+    return amounts.reduce((a, b) => (b.lessThan(a) ? b : a));
+  }
+
+  static isMoney(value: unknown): value is Money {
+    return value instanceof Money;
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromCents(this.centavos + other.centavos, this.moneda);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromCents(this.centavos - other.centavos, this.moneda);
+  }
+
+  multiply(factor: number, mode: RoundingMode = 'half_up'): Money {
+    return Money.fromCents(roundCents(this.centavos * factor, mode), this.moneda);
+  }
+
+  percentage(percent: number, mode: RoundingMode = 'half_up'): Money {
+    return this.multiply(percent / 100, mode);
+  }
+
+  negate(): Money {
+    return Money.fromCents(-this.centavos, this.moneda);
+  }
+
+  /**
+   * Value of this amount in another currency at `rate` units of `moneda` per unit of this one
+   */
+  convert(moneda: Currency, rate: number, mode: RoundingMode = 'down'): Money {
+    if (!(rate > 0)) {
+      throw new ValidationError(`Invalid exchange rate: ${rate}`);
+    }
+    return Money.fromCents(roundCents(this.centavos * rate, mode), moneda);
+  }
+
+  /**
+   * Split into `parts` amounts that differ by at most one cent and add up to this amount
+   */
+  allocate(parts: number): Money[] {
+    if (!Number.isInteger(parts) || parts < 1) {
+      throw new ValidationError(`Cannot allocate an amount into ${parts} parts`);
+    }
+
+    const base = Math.trunc(this.centavos / parts);
+    const remainder = this.centavos - base * parts;
+    const step = Math.sign(remainder);
+
+    return Array.from({ length: parts }, (_, i) =>
+      Money.fromCents(base + (i < Math.abs(remainder) ? step : 0), this.moneda)
+    );
+  }
+
+  isZero(): boolean {
+    return this.centavos === 0;
+  }
+
+  isPositive(): boolean {
+    return this.centavos > 0;
+  }
+
+  isNegative(): boolean {
+    return this.centavos < 0;
+  }
+
+  equals(other: Money): boolean {
+    return this.moneda === other.moneda && this.centavos === other.centavos;
+  }
+
+  compare(other: Money): number {
+    this.assertSameCurrency(other);
+    return Math.sign(this.centavos - other.centavos);
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  greaterThanOrEqual(other: Money): boolean {
+    return this.compare(other) >= 0;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  lessThanOrEqual(other: Money): boolean {
+    return this.compare(other) <= 0;
+  }
+
+  toDecimal(): number {
+    return this.centavos / CENTS_PER_UNIT;
+  }
+
+  toString(): string {
+    const sign = this.centavos < 0 ? '-' : '';
+    const abs = Math.abs(this.centavos);
+    const units = Math.trunc(abs / CENTS_PER_UNIT);
+    const cents = (abs % CENTS_PER_UNIT).toString().padStart(2, '0');
+    return `${this.moneda} ${sign}${units}.${cents}`;
+  }
+
+  toJSON(): number {
+    return this.toDecimal();
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.moneda !== this.moneda) {
+      throw new CurrencyMismatchError(this.moneda, other.moneda);
+    }
+  }
+}
+
+/**
+ * Read a currency code from a request or a database row
+ */
+export function parseCurrency(value: unknown, fallback: Currency = Currency.ARS): Currency {
+  if (value === undefined || value === null || value === '') return fallback;
+
+  const code = String(value).toUpperCase();
+  if (!Object.values(Currency).includes(code as Currency)) {
+    throw new ValidationError(`Unsupported currency: ${value}. Allowed: ${Object.values(Currency).join(', ')}`);
+  }
+  return code as Currency;
+}
+
+function roundCents(value: number, mode: RoundingMode): number {
+  // Drop floating point noise (e.g. 100.49999999999999) before deciding how to round
+  const exact = Number(value.toFixed(6));
+  const sign = exact < 0 ? -1 : 1;
+  const abs = Math.abs(exact);
+  const floor = Math.floor(abs);
+  const fraction = abs - floor;
+
+  switch (mode) {
+    case 'down':
+      return sign * floor;
+    case 'up':
+      return sign * (fraction > 0 ? floor + 1 : floor);
+    case 'half_even':
+      if (fraction === 0.5) return sign * (floor % 2 === 0 ? floor : floor + 1);
+      return sign * Math.round(abs);
+    case 'half_up':
+    default:
+      return sign * Math.round(abs);
+  }
+}
@@ -1,6 +1,20 @@
+import { Currency, Money } from './Money.js';
+
+export { Currency, Money, parseCurrency } from './Money.js';
+export type { RoundingMode } from './Money.js';
+
+export type WalletBalances = Record<Currency, Money>;
+
+export interface CurrencyBalance {
+  moneda: Currency;
+  saldo_disponible: Money;
+}
+
 export enum CreditType {
   QUICK = 'rapido',
   NORMAL = 'normal',
+  // Consolidates the outstanding balance of other credits
+  REFINANCING = 'refinanciacion',
 }
 
 export enum CreditStatus {
@@ -11,6 +25,17 @@ export enum CreditStatus {
   PAID = 'pagado',
   DEFAULT = 'en_mora',
   CANCELED = 'cancelado',
+  // Closed by a refinancing credit, which took over its balance
+  REFINANCED = 'refinanciado',
+}
+
+// Days-past-due ranges used to classify arrears
+export enum DelinquencyBucket {
+  CURRENT = 'al_dia',
+  DPD_1_30 = '1_30',
+  DPD_31_60 = '31_60',
+  DPD_61_90 = '61_90',
+  DPD_OVER_90 = 'mas_90',
 }
 
 export enum InstallmentStatus {
@@ -18,35 +43,191 @@ export enum InstallmentStatus {
   PAID = 'pagada',
   UNPAID = 'impaga',
   RETRYING = 'reintentando',
+  // The credit was revoked or refinanced before the installment was paid, or a partial
+  // prepayment is dropping it from the schedule
+  CANCELED = 'anulada',
+}
+
+export enum PaymentRetryStatus {
+  SCHEDULED = 'programado',
+  SUCCEEDED = 'exitoso',
+  FAILED = 'fallido',
+  // The installment was settled or the credit closed before the attempt ran
+  CANCELED = 'cancelado',
+}
+
+export enum AmortizationSystem {
+  // Constant installment (capital + interest)
+  FRENCH = 'frances',
+  // Constant capital, decreasing installments
+  GERMAN = 'aleman',
+  // Capital and interest in a single payment at maturity
+  BULLET = 'pago_unico',
+  // Flat interest on the principal: credits created before amortization systems, whose
+  // installments carry no breakdown. Never offered for new credits.
+  FLAT = 'tasa_plana',
 }
 
 export interface Credit {
   id_credito: string;
   usuario_id: string;
   tipo_credito: CreditType;
-  monto_solicitado: number;
-  monto_total: number;
+  monto_solicitado: Money;
+  monto_total: Money;
   plazo_dias: number;
   tasa_tea: number;
+  tasa_tna: number;
   tasa_cft: number;
+  tasa_cft_tna: number;
   estado: CreditStatus;
   fecha_desembolso: Date | null;
+  // Banking transaction that credited the principal to the wallet; null until disbursed
+  id_transaccion_desembolso: string | null;
   fecha_vencimiento: Date;
   cuotas: number;
+  sistema_amortizacion: AmortizationSystem;
+  // Days past due of the oldest unpaid installment, as of the last delinquency evaluation
+  dias_mora: number;
+  tramo_mora: DelinquencyBucket;
+  // Refinancing credit that took over this credit's balance, once refinanced
+  id_credito_refinanciacion: string | null;
+  // Rate table version the credit was priced with
+  id_tabla_tasas: string;
+  // Risk tier the credit was priced with; null for refinancing credits
+  nivel_riesgo: RiskTier | null;
+  // Even while idle and odd while a partial prepayment rewrites the installments; see
+  // ICreditsRepository.claimCredit
+  version: number;
   fecha_creacion: Date;
   fecha_actualizacion: Date;
 }
 
+// One change of a credit's estado, as allowed by CreditStateMachine
+export interface CreditStatusTransition {
+  id_transicion: string;
+  id_credito: string;
+  // null for the status the credit was created with
+  estado_anterior: CreditStatus | null;
+  estado_nuevo: CreditStatus;
+  motivo: string;
+  fecha_transicion: Date;
+}
+
 export interface Installment {
   id_cuota: string;
   id_credito: string;
   nro_cuota: number;
-  importe_cuota: number;
+  importe_cuota: Money;
+  // Breakdown of importe_cuota, as scheduled by AmortizationService
+  capital: Money;
+  interes: Money;
+  iva: Money;
+  gastos: Money;
+  saldo_restante: Money;
   fecha_vencimiento: Date;
   estado: InstallmentStatus;
   fecha_pago: Date | null;
 }
 
+export enum InstallmentChargeType {
+  PUNITIVE_INTEREST = 'interes_punitorio',
+  LATE_FEE = 'cargo_mora',
+}
+
+// Charge accrued on an overdue installment, owed on top of importe_cuota
+export interface InstallmentCharge {
+  id_cargo: string;
+  id_cuota: string;
+  id_credito: string;
+  tipo: InstallmentChargeType;
+  monto: Money;
+  // Day of arrears the charge accrued for
+  fecha_devengo: Date;
+  fecha_creacion: Date;
+}
+
+export interface LateChargePolicy {
+  // Punitive interest as an annual nominal rate (%), accrued daily on importe_cuota
+  punitiveTNA: number;
+  // Fixed fee charged once when the installment becomes overdue (zero disables it)
+  lateFee: Money;
+}
+
+// A user's credit line, stored and recomputed whenever their debt or history changes
+export interface CreditLimit {
+  usuario_id: string;
+  // The most credit principal the user may owe at once
+  limite_total: Money;
+  // Principal still owed on live credits
+  saldo_utilizado: Money;
+  // limite_total minus saldo_utilizado; zero when the debt-to-income ratio is too high
+  disponible: Money;
+  ingresos_declarados: Money | null;
+  ratio_deuda_ingresos: number;
+  cuotas_pagadas_a_tiempo: number;
+  cuotas_pagadas_con_atraso: number;
+  historial_mora: boolean;
+  // Event that triggered the last computation
+  motivo: string;
+  fecha_calculo: Date;
+}
+
+// Bucket of an external score (0-100)
+export type ScoreCategory = 'Excellent' | 'Very Good' | 'Good' | 'Fair' | 'Poor';
+
+// Risk tiers quick and normal credits are priced by, from lowest to highest risk
+export enum RiskTier {
+  LOW = 'bajo',
+  MEDIUM = 'medio',
+  HIGH = 'alto',
+  VERY_HIGH = 'muy_alto',
+}
+
+export interface RiskTierPolicy {
+  // TEA percentage points added to the rate table's TEA (negative for a discount)
+  spreadTEA: number;
+  // Largest principal offered, within the product's own maximum
+  maxAmount: Money;
+}
+
+// Risk tier applied to a simulation or credit, with the data it was derived from
+export interface RiskAssessment {
+  nivel_riesgo: RiskTier;
+  score_externo: number | null;
+  // null when the user has no external score
+  categoria_score: ScoreCategory | null;
+  historial_mora: boolean;
+  antiguedad_dias: number;
+  ratio_deuda_ingresos: number;
+  spread_tea: number;
+  monto_maximo: Money;
+  // How each factor placed the user in the tier
+  factores: string[];
+}
+
+// One debit attempt for an installment whose collection failed
+export interface PaymentRetry {
+  id_reintento: string;
+  id_cuota: string;
+  id_credito: string;
+  // 1 is the scheduled collection, later numbers are retries
+  nro_intento: number;
+  estado: PaymentRetryStatus;
+  fecha_programada: Date;
+  fecha_ejecucion: Date | null;
+  motivo_fallo: string | null;
+  id_transaccion: string | null;
+  fecha_creacion: Date;
+}
+
+export interface PaymentRetryPolicy {
+  // Total debit attempts per installment, the scheduled collection included
+  maxAttempts: number;
+  // Wait before the first retry; each later retry waits backoffMultiplier times longer
+  backoffHours: number;
+  backoffMultiplier: number;
+}
+
 export interface UserAccount {
   usuario_id: string;
   email?: string;
@@ -54,30 +235,51 @@ export interface UserAccount {
   kyc_completo: boolean;
   kyc_status?: KYCStatus;
   fecha_registro: Date;
-  saldo_disponible: number;
-  ingresos_declarados: number | null;
+  saldos: WalletBalances;
+  ingresos_declarados: Money | null;
   historial_mora: boolean;
   score_externo: number | null;
   bloqueado: boolean;
   intentos_fallidos: number;
   fecha_proximo_intento?: Date;
-  limite_transferencia?: number;
+  limite_transferencia?: Money;
   fecha_actualizacion: Date;
 }
 
 export interface CreditCalculation {
-  monto_faltante: number;
+  monto_faltante: Money;
   tasa_tea: number;
+  tasa_tna: number;
   tasa_cft: number;
-  monto_intereses: number;
-  gastos_administrativos: number;
-  monto_total: number;
+  tasa_cft_tna: number;
+  monto_intereses: Money;
+  monto_iva: Money;
+  gastos_administrativos: Money;
+  monto_total: Money;
   plan_cuotas: InstallmentPlan[];
 }
 
+// Rates (%) disclosed for a credit. The CFT (costo financiero total) is the internal rate of
+// return of the borrower's cash flows, including IVA and administrative charges.
+export interface DisclosedRates {
+  tasa_tea: number;
+  tasa_tna: number;
+  tasa_cft: number;
+  tasa_cft_tna: number;
+}
+
+// One row of an amortization schedule: importe = capital + interes + iva + gastos
 export interface InstallmentPlan {
   nro_cuota: number;
-  importe: number;
+  importe: Money;
+  capital: Money;
+  interes: Money;
+  // IVA on the interest
+  iva: Money;
+  // Share of the administrative charges
+  gastos: Money;
+  // Principal still owed once this installment is paid
+  saldo_restante: Money;
   fecha_vencimiento: Date;
 }
 
@@ -85,7 +287,7 @@ export interface CreditEligibility {
   es_elegible: boolean;
   razon_rechazo?: string;
   limites_maximos?: {
-    monto_maximo: number;
+    monto_maximo: Money;
     plazo_minimo?: number;
     plazo_maximo?: number;
   };
@@ -94,42 +296,464 @@ export interface CreditEligibility {
 export interface CreditRequest {
   usuario_id: string;
   tipo_credito: CreditType;
-  monto_solicitado: number;
+  monto_solicitado: Money;
   plazo_dias: number;
+  // Defaults to the credit type's first allowed system
+  sistema_amortizacion?: AmortizationSystem;
 }
 
 export interface CreditSimulation {
   tipo_credito: CreditType;
-  monto_solicitado: number;
+  monto_solicitado: Money;
   plazo_dias: number;
   cuotas_totales: number;
+  sistema_amortizacion: AmortizationSystem;
   tasa_tea: number;
+  tasa_tna: number;
   tasa_cft: number;
-  monto_total: number;
-  costo_financiero: number;
+  tasa_cft_tna: number;
+  monto_total: Money;
+  costo_financiero: Money;
   plan_cuotas: InstallmentPlan[];
+  // Rate table version the simulation was priced with
+  id_tabla_tasas: string;
+  version_tabla_tasas: number;
+  // Risk tier applied on top of the rate table; null for refinancing credits
+  riesgo: RiskAssessment | null;
+}
+
+// TEA (%) offered for one term: days for quick credits, months for the other products
+export interface RateTableEntry {
+  plazo: number;
+  tea: number;
+}
+
+// One published version of a product's rates. The version in force on a date is the latest one
+// whose vigencia_desde is not after it; published versions are never modified.
+export interface RateTable {
+  id_tabla_tasas: string;
+  tipo_credito: CreditType;
+  version: number;
+  vigencia_desde: Date;
+  tasas: RateTableEntry[];
+  // Administrative charges, as a percentage of the principal
+  gastos_administrativos: number;
+  // usuario_id of the admin who published it; null for the initial tables
+  publicado_por: string | null;
+  fecha_creacion: Date;
+}
+
+export interface RateTableRequest {
+  tipo_credito: CreditType;
+  // Defaults to now
+  vigencia_desde?: Date;
+  tasas: RateTableEntry[];
+  gastos_administrativos: number;
+}
+
+// Rate for one product and term, with the table version it comes from
+export interface PricingQuote {
+  id_tabla_tasas: string;
+  version_tabla_tasas: number;
+  tea: number;
+  gastos_administrativos: number;
 }
 
 export interface BankingAPIResponse {
   exito: boolean;
   transaccion_id?: string;
-  monto: number;
+  monto: Money;
   fecha: Date;
-  saldo_resultante: number;
+  saldo_resultante: Money;
   razon_fallo?: string;
 }
 
+// Ledger (double-entry journal behind every balance change)
+export enum LedgerEntryType {
+  OPENING_BALANCE = 'saldo_inicial',
+  FUNDING = 'fondeo',
+  CREDIT_DISBURSEMENT = 'desembolso_credito',
+  INSTALLMENT_DEBIT = 'debito_cuota',
+  PREPAYMENT = 'pago_anticipado',
+  P2P_TRANSFER = 'transferencia_p2p',
+  EXTERNAL_TRANSFER = 'transferencia_externa',
+  CURRENCY_CONVERSION = 'conversion_moneda',
+  CREDIT_REVOCATION = 'revocacion_credito',
+  REVOLVING_DRAWDOWN = 'disposicion_linea',
+  REVOLVING_PAYMENT = 'pago_linea',
+  REVERSAL = 'reverso',
+}
+
+// debito and credito share the currency of the line; an entry balances per currency
+export interface LedgerLine {
+  cuenta: string;
+  debito: Money;
+  credito: Money;
+}
+
+export interface LedgerEntry {
+  id_asiento: string;
+  tipo: LedgerEntryType;
+  descripcion: string;
+  referencia_id?: string;
+  id_asiento_reversado?: string;
+  // Operation the entry settles; at most one unreversed entry may carry each key
+  clave_idempotencia?: string;
+  lineas: LedgerLine[];
+  fecha_creacion: Date;
+}
+
+export interface LedgerMovement {
+  id_asiento: string;
+  moneda: Currency;
+  tipo: LedgerEntryType;
+  descripcion: string;
+  referencia_id?: string;
+  debito: Money;
+  credito: Money;
+  saldo: Money;
+  fecha_creacion: Date;
+}
+
+export interface LedgerReconciliation {
+  usuario_id: string;
+  moneda: Currency;
+  saldo_registrado: Money;
+  saldo_ledger: Money;
+  diferencia: Money;
+  conciliado: boolean;
+}
+
+export enum IdempotencyStatus {
+  IN_PROGRESS = 'en_proceso',
+  COMPLETED = 'completado',
+}
+
+export interface IdempotencyRecord {
+  clave: string;
+  // SHA-256 of method, route and body of the first request that used the key
+  huella: string;
+  estado: IdempotencyStatus;
+  codigo_respuesta?: number;
+  respuesta?: unknown;
+  fecha_creacion: Date;
+  fecha_vencimiento: Date;
+}
+
+export interface CurrencyConversion {
+  usuario_id: string;
+  monto_origen: Money;
+  moneda_origen: Currency;
+  monto_destino: Money;
+  moneda_destino: Currency;
+  // Units of moneda_destino per unit of moneda_origen
+  tasa: number;
+  id_asiento?: string;
+  fecha: Date;
+}
+
+export enum AuditEventType {
+  ACCOUNT_CREATED = 'cuenta_creada',
+  FUNDS_ADDED = 'fondos_agregados',
+  CURRENCY_CONVERTED = 'moneda_convertida',
+  INCOME_DECLARED = 'ingresos_declarados',
+  SCORE_UPDATED = 'score_actualizado',
+  KYC_COMPLETED = 'kyc_completado',
+  KYC_APPROVED = 'kyc_aprobado',
+  KYC_REJECTED = 'kyc_rechazado',
+  ACCOUNT_BLOCKED = 'cuenta_bloqueada',
+  ACCOUNT_UNBLOCKED = 'cuenta_desbloqueada',
+  TRANSFER_LIMIT_CHANGED = 'limite_transferencia_modificado',
+  CREDIT_REQUESTED = 'credito_solicitado',
+  CREDIT_ACCEPTED = 'credito_aceptado',
+  TRANSFER_EXECUTED = 'transferencia_ejecutada',
+  EXTERNAL_TRANSFER_EXECUTED = 'transferencia_externa_ejecutada',
+  INSTALLMENT_COLLECTED = 'cuota_cobrada',
+  INSTALLMENT_COLLECTION_FAILED = 'cobro_cuota_fallido',
+  CREDIT_PAID = 'credito_pagado',
+  CREDIT_DEFAULTED = 'credito_en_mora',
+  CREDIT_CURED = 'mora_regularizada',
+  DELINQUENCY_BUCKET_CHANGED = 'tramo_mora_modificado',
+  ACCOUNT_MARKED_DEFAULTER = 'cuenta_marcada_morosa',
+  CREDIT_PREPAID = 'credito_precancelado',
+  CREDIT_PARTIALLY_PREPAID = 'credito_precancelado_parcial',
+  CREDIT_REFINANCED = 'credito_refinanciado',
+  CREDIT_REVOKED = 'credito_revocado',
+  RATE_TABLE_PUBLISHED = 'tabla_tasas_publicada',
+  CREDIT_LIMIT_CHANGED = 'limite_credito_modificado',
+  REVOLVING_LINE_OPENED = 'linea_revolvente_abierta',
+  REVOLVING_LINE_DRAWN = 'linea_revolvente_dispuesta',
+  REVOLVING_LINE_PAID = 'linea_revolvente_pagada',
+  REVOLVING_STATEMENT_ISSUED = 'resumen_linea_emitido',
+  REVOLVING_LINE_CLOSED = 'linea_revolvente_cerrada',
+}
+
+// Who performed an action and from where
+export interface AuditContext {
+  // usuario_id from the JWT, or 'sistema' for internal processes
+  actor: string;
+  ip: string;
+  dispositivo: string;
+}
+
 export interface AuditLog {
   id_log: string;
-  id_credito: string;
+  id_credito?: string;
   usuario_id: string;
-  tipo_evento: string;
+  tipo_evento: AuditEventType;
+  actor: string;
   detalles: Record<string, any>;
+  // JSON snapshots of the affected record before and after the action
+  datos_anteriores: Record<string, unknown> | null;
+  datos_nuevos: Record<string, unknown> | null;
   ip: string;
   dispositivo: string;
   fecha_creacion: Date;
 }
 
+export interface AuditLogFilter {
+  usuario_id?: string;
+  id_credito?: string;
+  tipo_evento?: AuditEventType;
+  desde?: Date;
+  hasta?: Date;
+  limit: number;
+  offset: number;
+}
+
+export enum CollectionOutcome {
+  COLLECTED = 'cobrada',
+  FAILED = 'fallida',
+  SKIPPED = 'omitida',
+}
+
+export interface CollectionResult {
+  id_cuota: string;
+  id_credito: string;
+  usuario_id: string | null;
+  nro_cuota: number;
+  importe_cuota: Money;
+  // Punitive interest and late fees included in the debit
+  cargos: Money;
+  nro_intento: number;
+  resultado: CollectionOutcome;
+  transaccion_id?: string;
+  motivo?: string;
+  // Set when a failed debit was scheduled to be retried
+  proximo_intento?: Date;
+}
+
+// Outcome of one run of the installment collection job
+export interface CollectionRunReport {
+  id_ejecucion: string;
+  // Installments due on or before this moment were collected
+  fecha_corte: Date;
+  fecha_inicio: Date;
+  fecha_fin: Date;
+  cuotas_procesadas: number;
+  cuotas_cobradas: number;
+  cuotas_fallidas: number;
+  cuotas_omitidas: number;
+  reintentos_programados: number;
+  monto_cobrado: Money;
+  // Credits whose last installment was collected in this run
+  creditos_pagados: string[];
+  resultados: CollectionResult[];
+}
+
+export interface DelinquencyTransition {
+  id_credito: string;
+  usuario_id: string;
+  estado_anterior: CreditStatus;
+  estado_nuevo: CreditStatus;
+  tramo_anterior: DelinquencyBucket;
+  tramo_nuevo: DelinquencyBucket;
+  dias_mora: number;
+}
+
+// Outcome of one run of the delinquency evaluation
+export interface DelinquencyRunReport {
+  id_ejecucion: string;
+  fecha_evaluacion: Date;
+  creditos_evaluados: number;
+  creditos_en_mora: number;
+  creditos_regularizados: number;
+  cambios_tramo: number;
+  transiciones: DelinquencyTransition[];
+}
+
+// Outcome of one run of the late charge accrual
+export interface LateChargeRunReport {
+  id_ejecucion: string;
+  fecha_devengo: Date;
+  cuotas_vencidas: number;
+  cargos_generados: number;
+  monto_devengado: Money;
+}
+
+// Amount that pays off a credit on fecha_cancelacion (precancelación). Installments due by then
+// are owed in full; later ones owe their capital plus the interest and IVA accrued so far, and
+// the rest of their interest, IVA and administrative charges is waived (bonificacion).
+export interface EarlyRepaymentQuote {
+  id_credito: string;
+  fecha_cancelacion: Date;
+  cuotas_pendientes: number;
+  capital: Money;
+  intereses: Money;
+  iva: Money;
+  gastos: Money;
+  // Punitive interest and late fees accrued on overdue installments
+  cargos: Money;
+  bonificacion: Money;
+  monto_cancelacion: Money;
+}
+
+export interface EarlyRepayment {
+  credito: Credit;
+  liquidacion: EarlyRepaymentQuote;
+  id_asiento: string;
+}
+
+// How a partial prepayment reshapes the installments still pending
+export enum PrepaymentMode {
+  // Same due dates, smaller installments
+  REDUCE_INSTALLMENT = 'reducir_cuota',
+  // Installments of about the same amount, fewer of them
+  REDUCE_TERM = 'reducir_plazo',
+}
+
+export interface PartialPrepayment {
+  credito: Credit;
+  monto: Money;
+  modalidad: PrepaymentMode;
+  id_asiento: string;
+  // Pending installments after the recalculation
+  cuotas_pendientes: Installment[];
+}
+
+export interface RefinancingRequest {
+  usuario_id: string;
+  // Credits whose balances are consolidated
+  creditos: string[];
+  plazo_meses: number;
+  // Defaults to the refinancing product's first allowed system
+  sistema_amortizacion?: AmortizationSystem;
+}
+
+// New credit for the consolidated balance: the payoff amount today of every refinanced credit,
+// including its arrears and the punitive interest and late fees accrued on them
+export interface RefinancingSimulation extends CreditSimulation {
+  saldos: EarlyRepaymentQuote[];
+}
+
+export interface Refinancing {
+  credito: Credit;
+  creditos_refinanciados: Credit[];
+  saldos: EarlyRepaymentQuote[];
+}
+
+// Receipt (comprobante) for an installment the borrower paid from the wallet
+export interface InstallmentReceipt {
+  id_comprobante: string;
+  numero_comprobante: string;
+  usuario_id: string;
+  id_credito: string;
+  id_cuota: string;
+  nro_cuota: number;
+  fecha_hora: Date;
+  importe_cuota: Money;
+  // Punitive interest and late fees paid along with the installment
+  cargos: Money;
+  monto: Money;
+  id_asiento: string;
+  fecha_creacion: Date;
+}
+
+export interface InstallmentPayment {
+  cuota: Installment;
+  comprobante: InstallmentReceipt;
+  credito_pagado: boolean;
+}
+
+export enum RevolvingLineStatus {
+  ACTIVE = 'activa',
+  CLOSED = 'cerrada',
+}
+
+// Revolving credit line: the borrower draws any amount up to limite_aprobado and regains
+// availability as the capital is repaid
+export interface RevolvingLine {
+  id_linea: string;
+  usuario_id: string;
+  estado: RevolvingLineStatus;
+  limite_aprobado: Money;
+  // Capital drawn and not yet repaid
+  saldo_capital: Money;
+  // Interest and its IVA accrued and not yet paid
+  saldo_intereses: Money;
+  tasa_tea: number;
+  nivel_riesgo: RiskTier;
+  // Interest is accrued up to the start of this day
+  fecha_ultimo_devengo: Date;
+  fecha_apertura: Date;
+  fecha_cierre: Date | null;
+  fecha_actualizacion: Date;
+}
+
+export enum RevolvingMovementType {
+  DRAWDOWN = 'disposicion',
+  PAYMENT = 'pago',
+  INTEREST = 'interes',
+  IVA = 'iva',
+}
+
+export interface RevolvingMovement {
+  id_movimiento: string;
+  id_linea: string;
+  tipo: RevolvingMovementType;
+  monto: Money;
+  // Ledger entry of drawdowns and payments; null for accrued interest
+  id_asiento: string | null;
+  fecha: Date;
+}
+
+// Monthly statement (resumen) of a revolving line. Movements dated after periodo_desde and up
+// to periodo_hasta belong to the period.
+export interface RevolvingStatement {
+  id_resumen: string;
+  id_linea: string;
+  periodo_desde: Date;
+  periodo_hasta: Date;
+  saldo_anterior: Money;
+  disposiciones: Money;
+  pagos: Money;
+  intereses: Money;
+  iva: Money;
+  // saldo_anterior + disposiciones - pagos + intereses + iva
+  saldo_total: Money;
+  pago_minimo: Money;
+  fecha_vencimiento: Date;
+  fecha_emision: Date;
+}
+
+export interface RevolvingPayment {
+  linea: RevolvingLine;
+  monto: Money;
+  // Payments settle accrued interest first, then capital
+  aplicado_intereses: Money;
+  aplicado_capital: Money;
+  id_asiento: string;
+}
+
+// Outcome of one run of the revolving statement job
+export interface RevolvingStatementRunReport {
+  id_ejecucion: string;
+  fecha_cierre: Date;
+  lineas_evaluadas: number;
+  resumenes_emitidos: number;
+  monto_facturado: Money;
+}
+
 export interface JWTPayload {
   usuario_id: string;
   email?: string;
@@ -149,7 +773,7 @@ export interface Transfer {
   usuario_id_origen: string;
   usuario_id_destino?: string;
   cbu_destino?: string;
-  monto: number;
+  monto: Money;
   referencia?: string;
   estado: TransferStatus;
   comprobante_json?: Record<string, any>;
@@ -163,7 +787,7 @@ export interface Comprobante {
   id_transferencia: string;
   numero_comprobante: string;
   fecha_hora: Date;
-  monto: number;
+  monto: Money;
   destinatario_alias?: string;
   destinatario_cbu?: string;
   estado: TransferStatus;
@@ -176,7 +800,8 @@ export interface Comprobante {
 export interface ComprobanteDetail {
   numero_comprobante: string;
   fecha_hora: Date;
-  monto: number;
+  monto: Money;
+  moneda: Currency;
   remitente_alias: string;
   destinatario_alias?: string;
   destinatario_cbu?: string;
@@ -236,7 +861,7 @@ export interface ExternalTransferRequest {
   usuario_id: string;
   cbu_destino: string;
   alias_destino?: string;
-  monto: number;
+  monto: Money;
   referencia?: string;
 }
 
@@ -245,7 +870,7 @@ export interface ExternalTransferResult {
   id_transferencia: string;
   cbu_origen: string;
   cbu_destino: string;
-  monto: number;
+  monto: Money;
   transaccion_numero: string;
   fecha_transaccion: Date;
   estado: TransferStatus;
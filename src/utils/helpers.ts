@@ -2,6 +2,8 @@
  * Utility helper functions for common operations
  */
 
+import { ScoreCategory } from '@/types/index.js';
+
 /**
  * Calculate days between two dates
  */
@@ -35,6 +37,24 @@ export function addMonthsToDate(date: Date, months: number): Date {
   return result;
 }
 
+/**
+ * Midnight (local time) at the start of the date's day
+ */
+export function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+/**
+ * Last millisecond (local time) of the date's day
+ */
+export function endOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(23, 59, 59, 999);
+  return result;
+}
+
 /**
  * Format currency amount
  */
@@ -111,13 +131,13 @@ export function calculateDebtToIncomeRatio(monthlyDebt: number, monthlyIncome: n
 }
 
 /**
- * Determine credit score category
+ * Determine credit score category of an external score (0-100)
  */
-export function getScoreCategory(score: number): string {
-  if (score >= 800) return 'Excellent';
-  if (score >= 700) return 'Very Good';
-  if (score >= 600) return 'Good';
-  if (score >= 500) return 'Fair';
+export function getScoreCategory(score: number): ScoreCategory {
+  if (score >= 80) return 'Excellent';
+  if (score >= 70) return 'Very Good';
+  if (score >= 60) return 'Good';
+  if (score >= 50) return 'Fair';
   return 'Poor';
 }
 
@@ -0,0 +1,18 @@
+import { defineConfig } from 'vitest/config';
+import { fileURLToPath } from 'url';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Specs run against the in-memory repositories, never a Supabase project
+    env: {
+      STORAGE_DRIVER: 'memory',
+      SUPABASE_URL: '',
+    },
+  },
+});